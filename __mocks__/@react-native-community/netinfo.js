@@ -0,0 +1,2 @@
+// The library's own mock: always connected, listeners never fire
+module.exports = require('@react-native-community/netinfo/jest/netinfo-mock');
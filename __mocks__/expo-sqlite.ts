@@ -0,0 +1,131 @@
+/**
+ * expo-sqlite for Jest, on top of better-sqlite3: the same SQLite engine (FTS5
+ * and JSON included) with real database files, in a temporary directory per
+ * test file. Covers the part of the API the app uses. There is no SQLCipher,
+ * so the offline database stays unencrypted, as on a build without it.
+ */
+import Database from 'better-sqlite3';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+export type SQLiteBindValue = string | number | null | boolean | Uint8Array;
+type BindParams = SQLiteBindValue[];
+
+export interface SQLiteOpenOptions {
+  useNewConnection?: boolean;
+}
+
+export interface SQLiteRunResult {
+  lastInsertRowId: number;
+  changes: number;
+}
+
+export const defaultDatabaseDirectory = mkdtempSync(join(tmpdir(), 'expo-sqlite-'));
+afterAll(() => rmSync(defaultDatabaseDirectory, { recursive: true, force: true }));
+
+function pathOf(name: string): string {
+  return name === ':memory:' ? name : join(defaultDatabaseDirectory, name);
+}
+
+// Takes `(sql, [a, b])` as well as `(sql, a, b)`; SQLite has no booleans
+function bindValues(params: unknown[]): BindParams {
+  const values = (params.length === 1 && Array.isArray(params[0]) ? params[0] : params) as BindParams;
+  return values.map((value) => (typeof value === 'boolean' ? Number(value) : value));
+}
+
+export class SQLiteStatement {
+  constructor(private readonly statement: Database.Statement) {}
+
+  async executeAsync(...params: unknown[]): Promise<SQLiteRunResult> {
+    const result = this.statement.run(...bindValues(params));
+    return { lastInsertRowId: Number(result.lastInsertRowid), changes: result.changes };
+  }
+
+  async finalizeAsync(): Promise<void> {}
+}
+
+export class SQLiteDatabase {
+  readonly raw: Database.Database;
+
+  constructor(readonly databasePath: string) {
+    this.raw = new Database(databasePath);
+  }
+
+  execSync(sql: string): void {
+    this.raw.exec(sql);
+  }
+
+  async execAsync(sql: string): Promise<void> {
+    this.raw.exec(sql);
+  }
+
+  async runAsync(sql: string, ...params: unknown[]): Promise<SQLiteRunResult> {
+    const result = this.raw.prepare(sql).run(...bindValues(params));
+    return { lastInsertRowId: Number(result.lastInsertRowid), changes: result.changes };
+  }
+
+  async getFirstAsync<T>(sql: string, ...params: unknown[]): Promise<T | null> {
+    const statement = this.raw.prepare(sql);
+    if (!statement.reader) {
+      statement.run(...bindValues(params));
+      return null;
+    }
+    return (statement.get(...bindValues(params)) as T | undefined) ?? null;
+  }
+
+  async getAllAsync<T>(sql: string, ...params: unknown[]): Promise<T[]> {
+    const statement = this.raw.prepare(sql);
+    if (!statement.reader) {
+      statement.run(...bindValues(params));
+      return [];
+    }
+    return statement.all(...bindValues(params)) as T[];
+  }
+
+  async prepareAsync(sql: string): Promise<SQLiteStatement> {
+    return new SQLiteStatement(this.raw.prepare(sql));
+  }
+
+  async withTransactionAsync(task: () => Promise<void>): Promise<void> {
+    this.raw.exec('BEGIN');
+    try {
+      await task();
+      this.raw.exec('COMMIT');
+    } catch (error) {
+      this.raw.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async closeAsync(): Promise<void> {
+    this.raw.close();
+  }
+
+  closeSync(): void {
+    this.raw.close();
+  }
+}
+
+export function openDatabaseSync(name: string, _options?: SQLiteOpenOptions): SQLiteDatabase {
+  return new SQLiteDatabase(pathOf(name));
+}
+
+export async function openDatabaseAsync(name: string, options?: SQLiteOpenOptions): Promise<SQLiteDatabase> {
+  return openDatabaseSync(name, options);
+}
+
+export async function deleteDatabaseAsync(name: string): Promise<void> {
+  const path = pathOf(name);
+  for (const file of [path, `${path}-wal`, `${path}-shm`]) rmSync(file, { force: true });
+}
+
+export async function backupDatabaseAsync({
+  sourceDatabase,
+  destDatabase,
+}: {
+  sourceDatabase: SQLiteDatabase;
+  destDatabase: SQLiteDatabase;
+}): Promise<void> {
+  await sourceDatabase.raw.backup(destDatabase.databasePath);
+}
@@ -11,6 +11,7 @@ import { useEffect } from 'react';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as ScreenOrientation from 'expo-screen-orientation';
 import NetworkBanner from '@/components/NetworkBanner';
+import SessionGuard from '@/components/SessionGuard';
 import SyncStatusBadge from '@/components/SyncStatusBadge';
 
 function DrawerToggleButton({ position }: { position: 'left' | 'right' }) {
@@ -44,6 +45,7 @@ function DrawerLayout() {
   return (
     <>
     <NetworkBanner />
+    <SessionGuard />
     <Drawer
       drawerContent={(props) => <CustomDrawer {...props} />}
       screenOptions={({ navigation }) => ({
@@ -311,6 +313,20 @@ function DrawerLayout() {
           drawerItemStyle: { display: 'none' },
         })}
       />
+      <Drawer.Screen
+        name="sync-entry"
+        options={({ route }) => ({
+          title: locale === 'ar' ? 'تفاصيل العملية' : 'Operation Details',
+          drawerItemStyle: { display: 'none' },
+        })}
+      />
+      <Drawer.Screen
+        name="network-log"
+        options={({ route }) => ({
+          title: locale === 'ar' ? 'سجل الشبكة' : 'Network Log',
+          drawerItemStyle: { display: 'none' },
+        })}
+      />
       <Drawer.Screen
         name="sales-invoice-detail"
         options={({ route }) => ({ 
@@ -7,6 +7,7 @@ import {
   TouchableOpacity,
   RefreshControl,
   ActivityIndicator,
+  TextInput,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
@@ -15,6 +16,8 @@ import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { t } from '@/lib/i18n';
 import { api } from '@/lib/api';
+import { getCachedHistory, matchesSearch, offlineRead } from '@/lib/offlineApi';
+import CachedAsOf from '@/components/CachedAsOf';
 
 interface Invoice {
   id: string;
@@ -42,6 +45,8 @@ export default function AllInvoicesScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [filter, setFilter] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [fromCache, setFromCache] = useState(false);
 
   useEffect(() => {
     loadInvoices();
@@ -51,15 +56,16 @@ export default function AllInvoicesScreen() {
     try {
       if (!user?.branchId) return;
       
-      // Use accounting endpoint which lists all supplier invoices
-      const result = await api.accounting.supplierInvoices.list();
-      
-      // Handle different response structures
-      const rawData = result?.data || result || [];
-      const invoicesData = Array.isArray(rawData) ? rawData : [];
+      // Use accounting endpoint which lists all supplier invoices; offline, the copy kept on the device
+      const result = await offlineRead(
+        async () => (await api.accounting.supplierInvoices.list()).data,
+        () => getCachedHistory('supplierInvoices'),
+        'history.supplierInvoices'
+      );
+      setFromCache(result.fromCache);
       
       // Map to expected format
-      setInvoices(invoicesData.map((inv: any) => ({
+      setInvoices(result.data.map((inv) => ({
         id: inv.id,
         invoiceNumber: inv.invoiceNumber || 'N/A',
         supplier: inv.supplier || null,
@@ -127,9 +133,11 @@ export default function AllInvoicesScreen() {
     { key: 'PAID', label: locale === 'ar' ? 'مكتملة' : 'Completed' },
   ];
 
-  const filteredInvoices = filter 
-    ? invoices.filter(inv => inv.status?.toUpperCase() === filter)
-    : invoices;
+  const filteredInvoices = invoices.filter(
+    (inv) =>
+      (!filter || inv.status?.toUpperCase() === filter) &&
+      matchesSearch(search, inv.invoiceNumber, inv.supplier?.name, inv.supplier?.nameAr, inv.totalSdg)
+  );
 
   if (loading) {
     return (
@@ -141,6 +149,26 @@ export default function AllInvoicesScreen() {
 
   return (
     <View style={[styles.container, { backgroundColor: theme.background }]}>
+      <CachedAsOf kind="supplierInvoices" visible={fromCache} />
+
+      {/* Search Bar */}
+      <View style={[styles.searchContainer, { backgroundColor: theme.card, borderColor: theme.border }, isRtl && styles.rowReverse]}>
+        <Ionicons name="search" size={20} color={theme.textSecondary} />
+        <TextInput
+          style={[styles.searchInput, { color: theme.text }, isRtl && styles.searchInputRtl]}
+          placeholder={t('search', locale)}
+          placeholderTextColor={theme.inputPlaceholder}
+          value={search}
+          onChangeText={setSearch}
+          textAlign={isRtl ? 'right' : 'left'}
+        />
+        {search.length > 0 && (
+          <TouchableOpacity onPress={() => setSearch('')}>
+            <Ionicons name="close-circle" size={20} color={theme.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
       {/* Filter Tabs */}
       <ScrollView 
         horizontal 
@@ -238,6 +266,25 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  searchInput: {
+    flex: 1,
+    height: 44,
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  searchInputRtl: {
+    marginLeft: 0,
+    marginRight: 12,
+  },
   filterContainer: {
     maxHeight: 60,
     borderBottomWidth: 1,
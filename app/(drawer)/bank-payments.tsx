@@ -12,13 +12,19 @@ import {
   Modal,
   Image,
   ScrollView,
+  TextInput,
   useWindowDimensions,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
 import { useLocaleStore } from '@/stores/locale';
 import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
-import { api, getFullUrl } from '@/lib/api';
+import { api, getFullUrl, showError } from '@/lib/api';
+import { useSubmitKey } from '@/lib/submitKey';
+import { connectivity } from '@/lib/connectivity';
+import { getCachedBankAccounts, getLocalQueued, offlineSubmitBankPayment } from '@/lib/offlineApi';
+import type { BankAccount } from '@/lib/schemas/accounting';
 import { useRouter } from 'expo-router';
 
 interface BankPayment {
@@ -32,6 +38,8 @@ interface BankPayment {
   createdAt: string;
   user: { id: string; name: string; email: string };
   bankAccount: { id: string; bankName: string; accountNumber: string };
+  /** Submitted offline, waiting in the sync queue. */
+  _queued?: boolean;
 }
 
 const statusColors = {
@@ -47,6 +55,8 @@ export default function BankPaymentsScreen() {
   const { user } = useAuthStore();
   const { width: screenWidth, height: screenHeight } = useWindowDimensions();
   const isRtl = locale === 'ar';
+  // Managers review everyone's payments; other staff submit and follow their own
+  const isReviewer = ['ADMIN', 'MANAGER'].includes(user?.role || '');
 
   const [payments, setPayments] = useState<BankPayment[]>([]);
   const [loading, setLoading] = useState(true);
@@ -56,22 +66,62 @@ export default function BankPaymentsScreen() {
   const [showReceiptModal, setShowReceiptModal] = useState(false);
   const [updatingStatus, setUpdatingStatus] = useState(false);
 
-  const loadPayments = async () => {
+  // New payment form
+  const [showSubmitModal, setShowSubmitModal] = useState(false);
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [bankAccountId, setBankAccountId] = useState<string | null>(null);
+  const [amount, setAmount] = useState('');
+  const [transactionNumber, setTransactionNumber] = useState('');
+  const [description, setDescription] = useState('');
+  const [receiptUri, setReceiptUri] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const submitKey = useSubmitKey();
+
+  const loadQueuedPayments = useCallback(async (accounts: BankAccount[]): Promise<BankPayment[]> => {
+    if (!user) return [];
+    const queued = await getLocalQueued('accounting.bankPayments.submit');
+    return queued.map((q: any) => {
+      const account = accounts.find((a) => a.id === q.bankAccountId);
+      return {
+        id: q._localRef,
+        amountSdg: q.amountSdg,
+        receiptImageUrl: q.receiptImageUrl ?? q.receiptUri,
+        transactionNumber: q.transactionNumber,
+        description: q.description,
+        status: 'PENDING',
+        createdAt: new Date(q._createdAt).toISOString(),
+        user: { id: user.id, name: user.name, email: user.email },
+        bankAccount: { id: q.bankAccountId, bankName: account?.bankName ?? '', accountNumber: account?.accountNumber ?? '' },
+        _queued: true,
+      };
+    });
+  }, [user]);
+
+  const loadPayments = useCallback(async () => {
     try {
-      const result = await api.accounting.bankPayments.list({ pageSize: 50 });
-      const data = result?.data || result || [];
-      setPayments(Array.isArray(data) ? data : []);
+      if (!connectivity.isOnline()) {
+        const cachedAccounts = await getCachedBankAccounts();
+        setBankAccounts(cachedAccounts);
+        setPayments(await loadQueuedPayments(cachedAccounts));
+        return;
+      }
+      const [result, accounts] = await Promise.all([
+        api.accounting.bankPayments.list({ pageSize: 50, ...(!isReviewer && user && { userId: user.id }) }),
+        api.accounting.bankAccounts.list().catch(() => [] as BankAccount[]),
+      ]);
+      setBankAccounts(accounts);
+      setPayments([...(await loadQueuedPayments(accounts)), ...result.data]);
     } catch (error) {
       console.error('Failed to load bank payments:', error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [isReviewer, user, loadQueuedPayments]);
 
   useFocusEffect(
     useCallback(() => {
       loadPayments();
-    }, [])
+    }, [loadPayments])
   );
 
   const onRefresh = async () => {
@@ -120,6 +170,87 @@ export default function BankPaymentsScreen() {
     );
   };
 
+  const pickReceiptImage = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(
+        locale === 'ar' ? 'تنبيه' : 'Permission Required',
+        locale === 'ar' ? 'يرجى السماح بالوصول إلى الصور' : 'Please allow access to photos'
+      );
+      return;
+    }
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.8,
+    });
+    if (!result.canceled && result.assets[0]) {
+      setReceiptUri(result.assets[0].uri);
+    }
+  };
+
+  const resetForm = () => {
+    setBankAccountId(null);
+    setAmount('');
+    setTransactionNumber('');
+    setDescription('');
+    setReceiptUri(null);
+  };
+
+  const handleSubmitPayment = async () => {
+    if (!bankAccountId) {
+      Alert.alert(locale === 'ar' ? 'خطأ' : 'Error', locale === 'ar' ? 'يرجى اختيار الحساب البنكي' : 'Please select a bank account');
+      return;
+    }
+    if (!amount || parseFloat(amount) <= 0) {
+      Alert.alert(locale === 'ar' ? 'خطأ' : 'Error', locale === 'ar' ? 'يرجى إدخال المبلغ' : 'Please enter a valid amount');
+      return;
+    }
+    if (!receiptUri) {
+      Alert.alert(locale === 'ar' ? 'خطأ' : 'Error', locale === 'ar' ? 'يرجى إرفاق صورة الإيصال' : 'Please attach the receipt image');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const userCtx = {
+        userId: user!.id,
+        branchId: user!.branchId!,
+        shelfId: user!.shelf?.id,
+        role: user!.role,
+      };
+
+      const outcome = await offlineSubmitBankPayment(
+        {
+          bankAccountId,
+          amountSdg: parseFloat(amount),
+          transactionNumber: transactionNumber.trim() || undefined,
+          description: description.trim() || undefined,
+          receiptUri,
+        },
+        userCtx,
+        { idempotencyKey: submitKey.next() }
+      );
+      submitKey.settle();
+
+      Alert.alert(
+        locale === 'ar' ? 'نجح' : 'Success',
+        outcome.queued
+          ? (locale === 'ar'
+              ? 'تم حفظ الدفعة محلياً وسيتم إرسالها مع الإيصال عند الاتصال'
+              : 'Payment saved offline — it will be sent with its receipt when online')
+          : (locale === 'ar' ? 'تم إرسال الدفعة للمراجعة' : 'Payment submitted for review')
+      );
+      setShowSubmitModal(false);
+      resetForm();
+      loadPayments();
+    } catch (error) {
+      submitKey.settle(error);
+      showError(error, locale);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const formatAmount = (amount: number) =>
     `${Number(amount).toLocaleString()} ${locale === 'ar' ? 'ج.س' : 'SDG'}`;
 
@@ -128,7 +259,8 @@ export default function BankPaymentsScreen() {
       year: 'numeric', month: 'short', day: 'numeric',
     });
 
-  const getStatusLabel = (status: string) => {
+  const getStatusLabel = (status: string, queued?: boolean) => {
+    if (queued) return locale === 'ar' ? 'بانتظار المزامنة' : 'Waiting to sync';
     if (locale === 'ar') {
       return status === 'PENDING' ? 'معلق' : status === 'APPROVED' ? 'مقبول' : 'مرفوض';
     }
@@ -152,7 +284,7 @@ export default function BankPaymentsScreen() {
             </Text>
             <View style={[styles.statusBadge, { backgroundColor: color + '20' }]}>
               <Text style={[styles.statusText, { color }]}>
-                {getStatusLabel(item.status)}
+                {getStatusLabel(item.status, item._queued)}
               </Text>
             </View>
           </View>
@@ -182,17 +314,6 @@ export default function BankPaymentsScreen() {
     );
   };
 
-  if (!['ADMIN', 'MANAGER'].includes(user?.role || '')) {
-    return (
-      <View style={[styles.container, styles.centered, { backgroundColor: theme.background }]}>
-        <Ionicons name="lock-closed" size={48} color={theme.textSecondary} />
-        <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
-          {locale === 'ar' ? 'غير مصرح' : 'Access Denied'}
-        </Text>
-      </View>
-    );
-  }
-
   if (loading) {
     return (
       <View style={[styles.container, styles.centered, { backgroundColor: theme.background }]}>
@@ -212,6 +333,14 @@ export default function BankPaymentsScreen() {
         </Text>
       </View>
 
+      <TouchableOpacity
+        style={[styles.submitButton, { backgroundColor: theme.primary }, isRtl && styles.rowReverse]}
+        onPress={() => setShowSubmitModal(true)}
+      >
+        <Ionicons name="add" size={22} color="#fff" />
+        <Text style={styles.submitButtonText}>{locale === 'ar' ? 'دفعة جديدة' : 'New Payment'}</Text>
+      </TouchableOpacity>
+
       <FlatList
         data={payments}
         keyExtractor={(item) => item.id}
@@ -372,7 +501,7 @@ export default function BankPaymentsScreen() {
                   })()}
 
                   {/* Action buttons for PENDING payments */}
-                  {selectedPayment.status === 'PENDING' && (
+                  {isReviewer && selectedPayment.status === 'PENDING' && !selectedPayment._queued && (
                     <View style={styles.actionRow}>
                       <TouchableOpacity
                         style={[styles.actionBtn, { backgroundColor: theme.success }]}
@@ -415,6 +544,129 @@ export default function BankPaymentsScreen() {
         </TouchableOpacity>
       </Modal>
 
+      {/* New Payment Modal */}
+      <Modal
+        visible={showSubmitModal}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowSubmitModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
+            <View style={[styles.modalHeader, isRtl && styles.rowReverse]}>
+              <Text style={[styles.modalTitle, { color: theme.text }]}>
+                {locale === 'ar' ? 'دفعة بنكية جديدة' : 'New Bank Payment'}
+              </Text>
+              <TouchableOpacity onPress={() => setShowSubmitModal(false)}>
+                <Ionicons name="close" size={24} color={theme.text} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+              <Text style={[styles.inputLabel, { color: theme.text }, isRtl && styles.textRtl]}>
+                {locale === 'ar' ? 'الحساب البنكي' : 'Bank Account'}
+              </Text>
+              {bankAccounts.length === 0 ? (
+                <Text style={[styles.hintText, { color: theme.textMuted }, isRtl && styles.textRtl]}>
+                  {locale === 'ar'
+                    ? 'لا توجد حسابات بنكية محفوظة. قم بالمزامنة أثناء الاتصال أولاً.'
+                    : 'No bank accounts saved on this device. Sync while online first.'}
+                </Text>
+              ) : (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {bankAccounts.map((account) => {
+                    const isSelected = bankAccountId === account.id;
+                    return (
+                      <TouchableOpacity
+                        key={account.id}
+                        style={[styles.accountChip, { backgroundColor: isSelected ? theme.primary : theme.backgroundSecondary }]}
+                        onPress={() => setBankAccountId(account.id)}
+                      >
+                        <Text style={[styles.accountChipText, { color: isSelected ? '#fff' : theme.text }]}>
+                          {locale === 'ar' ? account.bankNameAr || account.bankName : account.bankName}
+                        </Text>
+                        <Text style={[styles.accountChipNumber, { color: isSelected ? '#fff' : theme.textMuted }]}>
+                          {account.accountNumber}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              )}
+
+              <Text style={[styles.inputLabel, { color: theme.text, marginTop: 16 }, isRtl && styles.textRtl]}>
+                {locale === 'ar' ? 'المبلغ (ج.س)' : 'Amount (SDG)'}
+              </Text>
+              <TextInput
+                style={[styles.textInput, { backgroundColor: theme.backgroundSecondary, color: theme.text, borderColor: theme.border }]}
+                value={amount}
+                onChangeText={setAmount}
+                keyboardType="numeric"
+                placeholder={locale === 'ar' ? 'أدخل المبلغ' : 'Enter amount'}
+                placeholderTextColor={theme.inputPlaceholder}
+                textAlign={isRtl ? 'right' : 'left'}
+              />
+
+              <Text style={[styles.inputLabel, { color: theme.text, marginTop: 16 }, isRtl && styles.textRtl]}>
+                {locale === 'ar' ? 'رقم المعاملة (اختياري)' : 'Transaction # (Optional)'}
+              </Text>
+              <TextInput
+                style={[styles.textInput, { backgroundColor: theme.backgroundSecondary, color: theme.text, borderColor: theme.border }]}
+                value={transactionNumber}
+                onChangeText={setTransactionNumber}
+                placeholderTextColor={theme.inputPlaceholder}
+                textAlign={isRtl ? 'right' : 'left'}
+              />
+
+              <Text style={[styles.inputLabel, { color: theme.text, marginTop: 16 }, isRtl && styles.textRtl]}>
+                {locale === 'ar' ? 'الوصف (اختياري)' : 'Description (Optional)'}
+              </Text>
+              <TextInput
+                style={[styles.textInput, { backgroundColor: theme.backgroundSecondary, color: theme.text, borderColor: theme.border }]}
+                value={description}
+                onChangeText={setDescription}
+                placeholderTextColor={theme.inputPlaceholder}
+                multiline
+                textAlign={isRtl ? 'right' : 'left'}
+              />
+
+              <Text style={[styles.inputLabel, { color: theme.text, marginTop: 16 }, isRtl && styles.textRtl]}>
+                {locale === 'ar' ? 'صورة الإيصال *' : 'Receipt Image *'}
+              </Text>
+              <TouchableOpacity
+                style={[styles.receiptPickerBtn, { borderColor: receiptUri ? theme.success : theme.border, backgroundColor: theme.backgroundSecondary }]}
+                onPress={pickReceiptImage}
+              >
+                <Ionicons name={receiptUri ? 'checkmark-circle' : 'camera'} size={18} color={receiptUri ? theme.success : theme.textMuted} />
+                <Text style={{ color: receiptUri ? theme.success : theme.textMuted, fontWeight: '500', fontSize: 13 }}>
+                  {receiptUri
+                    ? (locale === 'ar' ? 'تم اختيار الصورة' : 'Image selected')
+                    : (locale === 'ar' ? 'اختر صورة' : 'Choose image')}
+                </Text>
+              </TouchableOpacity>
+              {receiptUri && (
+                <Image source={{ uri: receiptUri }} style={styles.receiptPreview} resizeMode="cover" />
+              )}
+
+              <TouchableOpacity
+                style={[styles.actionBtn, { backgroundColor: theme.primary, marginTop: 20, marginBottom: 30 }]}
+                onPress={handleSubmitPayment}
+                disabled={submitting}
+              >
+                {submitting ? (
+                  <ActivityIndicator color="#fff" size="small" />
+                ) : (
+                  <>
+                    <Ionicons name="send-outline" size={18} color="#fff" />
+                    <Text style={styles.actionBtnText}>{locale === 'ar' ? 'إرسال' : 'Submit'}</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
       {/* Full Receipt Images Modal */}
       <Modal
         visible={showReceiptModal}
@@ -463,6 +715,17 @@ const styles = StyleSheet.create({
   },
   headerTitle: { fontSize: 22, fontWeight: '700', marginBottom: 2 },
   headerSubtitle: { fontSize: 13 },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    margin: 16,
+    marginBottom: 0,
+    padding: 14,
+    borderRadius: 12,
+    gap: 8,
+  },
+  submitButtonText: { color: '#fff', fontSize: 15, fontWeight: '700' },
   listContent: { padding: 16, paddingBottom: 100 },
   card: {
     flexDirection: 'row',
@@ -562,6 +825,37 @@ const styles = StyleSheet.create({
     gap: 8,
   },
   actionBtnText: { color: '#fff', fontSize: 15, fontWeight: '700' },
+  inputLabel: { fontSize: 14, fontWeight: '500', marginBottom: 8 },
+  hintText: { fontSize: 13 },
+  textInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+  },
+  accountChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    marginRight: 8,
+  },
+  accountChipText: { fontSize: 13, fontWeight: '600' },
+  accountChipNumber: { fontSize: 11, marginTop: 2 },
+  receiptPickerBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderStyle: 'dashed',
+    gap: 8,
+  },
+  receiptPreview: {
+    width: '100%',
+    height: 140,
+    borderRadius: 10,
+    marginTop: 10,
+  },
   receiptModalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0,0,0,0.95)',
@@ -56,17 +56,15 @@ export default function BudgetScreen() {
       // Load budget data from the budget API
       const budgetData = await api.accounting.budget.list(user.branchId, period);
       
-      if (budgetData?.items) {
-        setBudget(budgetData.items.map((cat: any) => ({
-          id: cat.categoryId || String(Math.random()),
-          name: cat.categoryName || 'Unknown',
-          nameAr: cat.categoryNameAr,
-          allocated: Number(cat.allocatedSdg) || 0,
-          spent: Number(cat.spentSdg) || 0,
-          icon: undefined,
-          color: undefined,
-        })));
-      }
+      setBudget(budgetData.items.map((cat) => ({
+        id: cat.categoryId || String(Math.random()),
+        name: cat.categoryName || 'Unknown',
+        nameAr: cat.categoryNameAr,
+        allocated: cat.allocatedSdg,
+        spent: cat.spentSdg,
+        icon: undefined,
+        color: undefined,
+      })));
     } catch (error) {
       console.error('Failed to load budget:', error);
       setBudget([]);
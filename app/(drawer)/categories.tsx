@@ -20,15 +20,7 @@ import { useLocaleStore } from '@/stores/locale';
 import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { api } from '@/lib/api';
-
-interface Category {
-  id: string;
-  name: string;
-  nameAr: string;
-  parentId?: string | null;
-  isActive: boolean;
-  _count?: { items: number };
-}
+import type { Category } from '@/lib/schemas/inventory';
 
 export default function CategoriesScreen() {
   const router = useRouter();
@@ -64,7 +56,7 @@ export default function CategoriesScreen() {
   const loadCategories = async () => {
     try {
       const data = await api.inventory.categories.list({ includeInactive });
-      setCategories(Array.isArray(data) ? data : []);
+      setCategories(data);
     } catch (error) {
       console.error('Failed to load categories:', error);
       setCategories([]);
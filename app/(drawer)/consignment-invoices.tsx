@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import {
   View,
   Text,
@@ -34,45 +35,34 @@ export default function ConsignmentInvoicesScreen() {
   const { theme } = useThemeStore();
   const { user } = useAuthStore();
   const isRtl = locale === 'ar';
-  const [invoices, setInvoices] = useState<ConsignmentInvoice[]>([]);
-  const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
   useEffect(() => {
     if (user && !['ADMIN', 'MANAGER', 'PROCUREMENT', 'ACCOUNTANT'].includes(user.role)) {
       router.replace('/(drawer)/dashboard');
-      return;
     }
-    loadInvoices();
   }, []);
 
-  const loadInvoices = async () => {
-    try {
-      const data = await api.accounting.supplierInvoices.listConsignment();
-      
-      if (data?.data) {
-        setInvoices(data.data.map((inv: any) => ({
-          id: inv.id,
-          number: inv.invoiceNumber || 'N/A',
-          supplier: inv.supplier?.name || 'Unknown',
-          supplierNameAr: inv.supplier?.nameAr,
-          totalValue: Number(inv.totalSdg) || 0,
-          invoiceDate: inv.invoiceDate?.split('T')[0] || '',
-          dueDate: inv.dueDate?.split('T')[0] || '',
-          status: inv.status,
-        })));
-      }
-    } catch (error) {
-      console.error('Failed to load consignment invoices:', error);
-      setInvoices([]);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { data: invoices = [], isLoading: loading, refetch } = useQuery({
+    queryKey: ['supplierInvoices', 'consignment'],
+    queryFn: async ({ signal }) => {
+      const data = await api.accounting.supplierInvoices.listConsignment({}, { signal });
+      return data.data.map((inv): ConsignmentInvoice => ({
+        id: inv.id,
+        number: inv.invoiceNumber || 'N/A',
+        supplier: inv.supplier?.name || 'Unknown',
+        supplierNameAr: inv.supplier?.nameAr,
+        totalValue: inv.totalSdg,
+        invoiceDate: inv.invoiceDate?.split('T')[0] || '',
+        dueDate: inv.dueDate?.split('T')[0] || '',
+        status: inv.status,
+      }));
+    },
+  });
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadInvoices();
+    await refetch();
     setRefreshing(false);
   };
 
@@ -91,7 +81,7 @@ export default function ConsignmentInvoicesScreen() {
             try {
               await api.accounting.supplierInvoices.updateStatus(invoice.id, 'CANCELLED');
               Alert.alert(t('success', locale), locale === 'ar' ? 'تم إلغاء العهدة' : 'Consignment cancelled');
-              loadInvoices();
+              refetch();
             } catch (error: any) {
               Alert.alert(t('error', locale), error?.message || 'Failed to cancel');
             }
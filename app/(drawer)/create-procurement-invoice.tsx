@@ -100,10 +100,9 @@ export default function CreateProcurementInvoiceScreen() {
     setSuppliersLoading(true);
     try {
       const result = await api.procurement.suppliers.list(1, 100);
-      const suppliersData = result?.data || result || [];
-      setSuppliers(suppliersData.map((s: any) => ({
+      setSuppliers(result.data.map((s) => ({
         id: s.id,
-        name: s.name || s.nameEn || 'Unknown',
+        name: s.name || 'Unknown',
         nameAr: s.nameAr,
         phone: s.phone,
         email: s.email,
@@ -20,7 +20,15 @@ import { useLocaleStore } from '@/stores/locale';
 import { useAuthStore } from '@/stores/auth';
 import { t } from '@/lib/i18n';
 import { api, showError } from '@/lib/api';
-import { offlineCreateInvoice, getCachedCustomers, getCachedShelves, getCachedDayCycle } from '@/lib/offlineApi';
+import { useSubmitKey } from '@/lib/submitKey';
+import {
+  offlineCreateInvoice,
+  getCachedCustomers,
+  getCachedShelves,
+  getCachedDayCycle,
+  matchesSearch,
+  searchCustomers,
+} from '@/lib/offlineApi';
 import { connectivity } from '@/lib/connectivity';
 import {
   Invoice,
@@ -43,6 +51,18 @@ interface Customer {
   creditLimitSdg?: number;
 }
 
+function fromCachedCustomer(row: any): Customer {
+  return {
+    id: row.id,
+    name: row.name,
+    nameAr: row.name_ar,
+    phone: row.phone,
+    email: row.email,
+    customerType: row.customer_type,
+    creditLimitSdg: row.credit_limit_sdg,
+  };
+}
+
 export default function CreateSalesInvoiceScreen() {
   const router = useRouter();
   const { theme } = useThemeStore();
@@ -54,6 +74,7 @@ export default function CreateSalesInvoiceScreen() {
   // Form state
   const [invoiceCategory, setInvoiceCategory] = useState<'WHOLESALE' | 'RETAIL'>('WHOLESALE');
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const saveKey = useSubmitKey();
   const [selectedShelfId, setSelectedShelfId] = useState<string | null>(null);
   const [shelves, setShelves] = useState<{ id: string; name: string; nameAr?: string; code: string }[]>([]);
   const [items, setItems] = useState<InvoiceItem[]>([]);
@@ -69,6 +90,7 @@ export default function CreateSalesInvoiceScreen() {
   const [showShelfPicker, setShowShelfPicker] = useState(false);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [customerSearch, setCustomerSearch] = useState('');
+  const [rankedCustomers, setRankedCustomers] = useState<Customer[] | null>(null);
   const [loadingCustomers, setLoadingCustomers] = useState(false);
   const [dayCycleOpen, setDayCycleOpen] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -113,19 +135,10 @@ export default function CreateSalesInvoiceScreen() {
     try {
       if (connectivity.isOnline()) {
         const result = await api.sales.customers.list();
-        const data = result?.data || result || [];
-        setCustomers(Array.isArray(data) ? data : []);
+        setCustomers(result.data);
       } else {
         const cached = await getCachedCustomers();
-        setCustomers(cached.map((c: any) => ({
-          id: c.id,
-          name: c.name,
-          nameAr: c.name_ar,
-          phone: c.phone,
-          email: c.email,
-          customerType: c.customer_type,
-          creditLimitSdg: c.credit_limit_sdg,
-        })));
+        setCustomers(cached.map(fromCachedCustomer));
       }
     } catch (error) {
       console.error('Failed to load customers:', error);
@@ -142,14 +155,23 @@ export default function CreateSalesInvoiceScreen() {
     }
   };
 
-  const filteredCustomers = customers.filter(c => {
-    const search = customerSearch.toLowerCase();
-    return (
-      c.name.toLowerCase().includes(search) ||
-      (c.nameAr && c.nameAr.includes(customerSearch)) ||
-      (c.phone && c.phone.includes(search))
+  useEffect(() => {
+    let cancelled = false;
+    searchCustomers(customerSearch).then(
+      (rows) => !cancelled && setRankedCustomers(rows && rows.map(fromCachedCustomer)),
+      () => !cancelled && setRankedCustomers(null)
     );
-  });
+    return () => {
+      cancelled = true;
+    };
+  }, [customerSearch]);
+
+  // Best matches first from the search index, which also finds customers past the first page
+  // loaded online; without an index, plain matching over what was loaded
+  const customersById = new Map(customers.map((c) => [c.id, c]));
+  const filteredCustomers = rankedCustomers
+    ? rankedCustomers.map((c) => customersById.get(c.id) ?? c)
+    : customers.filter((c) => matchesSearch(customerSearch, c.name, c.nameAr, c.phone));
 
   const loadShelves = async () => {
     try {
@@ -354,7 +376,8 @@ export default function CreateSalesInvoiceScreen() {
         role: user!.role,
       };
 
-      const outcome = await offlineCreateInvoice(payload, userCtx);
+      const outcome = await offlineCreateInvoice(payload, userCtx, { idempotencyKey: saveKey.next() });
+      saveKey.settle();
 
       Alert.alert(
         locale === 'ar' ? 'نجاح' : 'Success',
@@ -374,6 +397,7 @@ export default function CreateSalesInvoiceScreen() {
         ]
       );
     } catch (error: any) {
+      saveKey.settle(error);
       showError(error, locale);
     } finally {
       setLoading(false);
@@ -16,7 +16,8 @@ import * as DocumentPicker from 'expo-document-picker';
 import { useThemeStore } from '@/stores/theme';
 import { useLocaleStore } from '@/stores/locale';
 import { useAuthStore } from '@/stores/auth';
-import { API_URL, getToken } from '@/lib/api';
+import { getActiveProfile } from '@/stores/server';
+import { getApiUrl, getToken } from '@/lib/api';
 
 type CsvType = 'items' | 'prices';
 
@@ -35,7 +36,18 @@ export default function CsvImportExportScreen() {
   const [loading, setLoading] = useState<string | null>(null);
   const [lastResult, setLastResult] = useState<ImportResult | null>(null);
 
+  // CSV files go through server routes the demo backend does not have
+  const requireServer = () => {
+    if (getActiveProfile().transport !== 'mock') return true;
+    Alert.alert(
+      isAr ? 'غير متاح في الوضع التجريبي' : 'Not available in demo mode',
+      isAr ? 'استيراد وتصدير ملفات CSV يتطلب الاتصال بخادم.' : 'CSV import and export need a real server.'
+    );
+    return false;
+  };
+
   const exportCsv = async (type: CsvType) => {
+    if (!requireServer()) return;
     setLoading(`export-${type}`);
     setLastResult(null);
     try {
@@ -43,7 +55,7 @@ export default function CsvImportExportScreen() {
       const queryParams = type === 'prices' && user?.branchId
         ? `?branchId=${user.branchId}`
         : '';
-      const url = `${API_URL}/api/csv/${type}/export${queryParams}`;
+      const url = `${getApiUrl()}/api/csv/${type}/export${queryParams}`;
 
       const filename = `${type}-${Date.now()}.csv`;
       const fileUri = `${FileSystem.cacheDirectory}${filename}`;
@@ -82,6 +94,7 @@ export default function CsvImportExportScreen() {
   };
 
   const importCsv = async (type: CsvType) => {
+    if (!requireServer()) return;
     setLoading(`import-${type}`);
     setLastResult(null);
     try {
@@ -106,7 +119,7 @@ export default function CsvImportExportScreen() {
       }
 
       const token = await getToken();
-      const url = `${API_URL}/api/csv/${type}/import${type === 'prices' && user?.branchId ? `?branchId=${user.branchId}` : ''}`;
+      const url = `${getApiUrl()}/api/csv/${type}/import${type === 'prices' && user?.branchId ? `?branchId=${user.branchId}` : ''}`;
 
       const uploadResult = await FileSystem.uploadAsync(url, file.uri, {
         httpMethod: 'POST',
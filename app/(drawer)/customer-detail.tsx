@@ -63,8 +63,7 @@ export default function CustomerDetailScreen() {
       if (!id) return;
 
       // Fetch customer data
-      const customerData = await api.sales.customers.getById(id);
-      const customerResult = customerData?.result?.data?.json ?? customerData?.result?.data ?? customerData;
+      const customerResult = await api.sales.customers.getById(id);
 
       if (customerResult) {
         setCustomer({
@@ -84,13 +83,12 @@ export default function CustomerDetailScreen() {
       if (branchId) {
         try {
           const receivables = await api.accounting.reports.outstandingReceivables(branchId, id);
-          const invoices = receivables?.invoices ?? receivables?.result?.data?.json?.invoices ?? [];
-          const total = receivables?.totalReceivables ?? receivables?.result?.data?.json?.totalReceivables ?? 0;
+          const total = receivables.totalReceivables ?? 0;
           setOutstandingInvoices(
-            (Array.isArray(invoices) ? invoices : []).map((inv: any) => ({
+            receivables.invoices.map((inv) => ({
               id: inv.id,
               invoiceNumber: inv.invoiceNumber,
-              invoiceDate: inv.invoiceDate || inv.createdAt,
+              invoiceDate: inv.invoiceDate || inv.createdAt || '',
               totalSdg: Number(inv.totalSdg) || 0,
               paidAmountSdg: Number(inv.paidAmountSdg) || 0,
               status: inv.status || 'ISSUED',
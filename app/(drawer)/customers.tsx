@@ -16,26 +16,19 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { useLocaleStore } from '@/stores/locale';
 import { useThemeStore } from '@/stores/theme';
+import { useAuthStore } from '@/stores/auth';
 import { t } from '@/lib/i18n';
-import { api } from '@/lib/api';
-
-interface Customer {
-  id: string;
-  name: string;
-  nameAr?: string;
-  phone?: string;
-  email?: string;
-  customerType: 'WHOLESALE' | 'RETAIL';
-  creditLimitSdg: number;
-  isActive: boolean;
-}
+import { api, showError } from '@/lib/api';
+import { getCachedCustomers, isLocalId, offlineCreateCustomer, rowToCustomer } from '@/lib/offlineApi';
+import { useOfflineQuery } from '@/lib/offlineQuery';
+import type { Customer } from '@/lib/schemas/sales';
+import CachedAsOf from '@/components/CachedAsOf';
 
 export default function CustomersScreen() {
   const router = useRouter();
   const { locale } = useLocaleStore();
   const { theme } = useThemeStore();
-  const [customers, setCustomers] = useState<Customer[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { user } = useAuthStore();
   const [search, setSearch] = useState('');
   const [refreshing, setRefreshing] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
@@ -49,27 +42,30 @@ export default function CustomersScreen() {
   const [saving, setSaving] = useState(false);
   const isRtl = locale === 'ar';
 
-  const loadCustomers = async () => {
-    try {
-      const result = await api.sales.customers.list();
-      setCustomers(result?.result?.data?.data || result?.data || []);
-    } catch (error) {
-      console.error('Failed to load customers:', error);
-      Alert.alert(locale === 'ar' ? 'خطأ' : 'Error', locale === 'ar' ? 'فشل تحميل العملاء' : 'Failed to load customers');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const {
+    data: customers = [],
+    isLoading: loading,
+    fromCache,
+    staleSince,
+    refetch,
+  } = useOfflineQuery({
+    queryKey: ['customers'],
+    remote: async (signal) => (await api.sales.customers.list(undefined, undefined, { signal })).data,
+    // Includes customers added offline that are still waiting to sync
+    local: getCachedCustomers,
+    fromLocal: (rows) => rows.map(rowToCustomer),
+    tables: ['customers'],
+  });
 
   useFocusEffect(
     useCallback(() => {
-      loadCustomers();
-    }, [])
+      refetch();
+    }, [refetch])
   );
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadCustomers();
+    await refetch();
     setRefreshing(false);
   };
 
@@ -80,13 +76,22 @@ export default function CustomersScreen() {
     }
     setSaving(true);
     try {
-      await api.sales.customers.create({
-        name: newCustomer.name,
-        nameAr: newCustomer.nameAr || undefined,
-        phone: newCustomer.phone || undefined,
-        customerType: newCustomer.customerType,
-        creditLimitSdg: parseFloat(newCustomer.creditLimitSdg) || 0,
-      });
+      const userCtx = {
+        userId: user!.id,
+        branchId: user!.branchId!,
+        shelfId: user!.shelf?.id,
+        role: user!.role,
+      };
+      const outcome = await offlineCreateCustomer(
+        {
+          name: newCustomer.name,
+          nameAr: newCustomer.nameAr || undefined,
+          phone: newCustomer.phone || undefined,
+          customerType: newCustomer.customerType,
+          creditLimitSdg: parseFloat(newCustomer.creditLimitSdg) || 0,
+        },
+        userCtx
+      );
       setShowAddModal(false);
       setNewCustomer({
         name: '',
@@ -95,10 +100,17 @@ export default function CustomersScreen() {
         customerType: 'RETAIL',
         creditLimitSdg: '0',
       });
-      loadCustomers();
-      Alert.alert(t('success', locale), locale === 'ar' ? 'تم إضافة العميل بنجاح' : 'Customer added successfully');
+      refetch();
+      Alert.alert(
+        t('success', locale),
+        outcome.queued
+          ? (locale === 'ar'
+              ? 'تم حفظ العميل محلياً ويمكن استخدامه في الفواتير الآن، وستتم مزامنته عند الاتصال'
+              : 'Customer saved offline and can be used on invoices now — will sync when online')
+          : (locale === 'ar' ? 'تم إضافة العميل بنجاح' : 'Customer added successfully')
+      );
     } catch (error) {
-      Alert.alert(t('error', locale), locale === 'ar' ? 'فشل في إضافة العميل' : 'Failed to add customer');
+      showError(error, locale);
     } finally {
       setSaving(false);
     }
@@ -116,7 +128,11 @@ export default function CustomersScreen() {
   const renderCustomer = ({ item }: { item: Customer }) => (
     <TouchableOpacity
       style={[styles.customerCard, { backgroundColor: theme.card }, isRtl && styles.customerCardRtl]}
-      onPress={() => router.push({ pathname: '/(drawer)/customer-detail', params: { id: item.id } })}
+      onPress={() => {
+        // Not on the server yet, so there is no account to show
+        if (isLocalId(item.id)) return;
+        router.push({ pathname: '/(drawer)/customer-detail', params: { id: item.id } });
+      }}
     >
       <View style={[styles.customerIcon, { backgroundColor: '#8b5cf620' }]}>
         <Ionicons name="person" size={24} color="#8b5cf6" />
@@ -150,10 +166,21 @@ export default function CustomersScreen() {
         </View>
       </View>
       <View style={[styles.statusContainer, isRtl && styles.statusContainerRtl]}>
-        <View style={[styles.statusDot, { backgroundColor: item.isActive ? theme.success : theme.error }]} />
-        <Text style={[styles.statusLabel, { color: theme.textSecondary }]}>
-          {item.isActive ? (locale === 'ar' ? 'نشط' : 'Active') : (locale === 'ar' ? 'غير نشط' : 'Inactive')}
-        </Text>
+        {isLocalId(item.id) ? (
+          <>
+            <Ionicons name="cloud-upload-outline" size={14} color={theme.warning} />
+            <Text style={[styles.statusLabel, { color: theme.warning }]}>
+              {locale === 'ar' ? 'بانتظار المزامنة' : 'Pending sync'}
+            </Text>
+          </>
+        ) : (
+          <>
+            <View style={[styles.statusDot, { backgroundColor: item.isActive ? theme.success : theme.error }]} />
+            <Text style={[styles.statusLabel, { color: theme.textSecondary }]}>
+              {item.isActive ? (locale === 'ar' ? 'نشط' : 'Active') : (locale === 'ar' ? 'غير نشط' : 'Inactive')}
+            </Text>
+          </>
+        )}
       </View>
     </TouchableOpacity>
   );
@@ -195,6 +222,8 @@ export default function CustomersScreen() {
         )}
       </View>
 
+      <CachedAsOf asOf={staleSince} visible={fromCache} />
+
       {/* Customers List */}
       <FlatList
         data={filteredCustomers}
@@ -22,7 +22,26 @@ import { useLocaleStore } from '@/stores/locale';
 import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { t } from '@/lib/i18n';
-import { api, uploadReceipt, getFullUrl, showError } from '@/lib/api';
+import { api, getFullUrl, showError } from '@/lib/api';
+import { isApiError } from '@/lib/apiError';
+import { useSubmitKey } from '@/lib/submitKey';
+import {
+  offlineRead,
+  offlineCheckoutDailyDraft,
+  getCachedDayCycle,
+  getCachedStockForShelf,
+  getCachedBatchesForShelf,
+  getCachedPriceForItem,
+} from '@/lib/offlineApi';
+import {
+  getLocalDraft,
+  reconcileDailyDraft,
+  addLocalDraftLine,
+  removeLocalDraftLine,
+  updateLocalDraftLineQty,
+  clearLocalDraft,
+  type LocalDraft,
+} from '@/lib/sync/dailyDraft';
 import {
   Invoice,
   InvoiceItem as InvoiceItemType,
@@ -55,13 +74,14 @@ export default function DailyInvoiceScreen() {
   const isRtl = locale === 'ar';
   const showUsd = user?.role === 'ADMIN' || user?.role === 'MANAGER';
 
-  // Draft from server
-  const [draft, setDraft] = useState<any>(null);
+  // Local copy of the server draft (lib/sync/dailyDraft.ts)
+  const [draft, setDraft] = useState<LocalDraft | null>(null);
   const [showItemPicker, setShowItemPicker] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedItem, setSelectedItem] = useState<AvailableItem | null>(null);
   const [quantity, setQuantity] = useState('1');
   const [showCheckout, setShowCheckout] = useState(false);
+  const checkoutKey = useSubmitKey();
 
   // Checkout fields
   const [cashReceived, setCashReceived] = useState('');
@@ -81,17 +101,32 @@ export default function DailyInvoiceScreen() {
   const [showPreview, setShowPreview] = useState(false);
   const [lastInvoice, setLastInvoice] = useState<Invoice | null>(null);
 
-  const draftLines: any[] = draft?.lines || [];
+  const draftLines = draft?.lines || [];
   const invoiceTotal = draftLines.reduce((sum: number, line: any) => sum + (Number(line.unitPriceUsd) * line.qty), 0);
   const invoiceTotalSdg = invoiceTotal * exchangeRate;
   const itemCount = draftLines.reduce((sum: number, line: any) => sum + line.qty, 0);
 
+  // Runs after every local edit without blocking it; offline it only re-reads the local draft
+  const syncDraft = useCallback(async (sid: string) => {
+    try {
+      setDraft(await reconcileDailyDraft(sid));
+    } catch (error) {
+      // The server refused a change and its draft replaced the local one
+      setDraft(await getLocalDraft(sid));
+      if (isApiError(error) && !error.retryable) showError(error, locale);
+    }
+  }, [locale]);
+
   const loadInitialData = useCallback(async () => {
     setLoading(true);
     try {
       if (!user) return;
 
-      const cycle = await api.dayCycle.getCurrent(user.branchId);
+      const { data: cycle } = await offlineRead(
+        () => api.dayCycle.getCurrent(user.branchId),
+        () => getCachedDayCycle(user.branchId!),
+        'dayCycle.getCurrent'
+      );
       if (!cycle) {
         Alert.alert(
           locale === 'ar' ? 'تنبيه' : 'Warning',
@@ -106,9 +141,9 @@ export default function DailyInvoiceScreen() {
       const assignedShelf = (user as any)?.shelf;
       if (assignedShelf) {
         setShelfId(assignedShelf.id);
-        // Load server-side draft
-        const draftData = await api.sales.dailyInvoiceDraft.getOrCreate(assignedShelf.id);
-        setDraft(draftData);
+        // Show the local draft at once; reconciling brings in the server's copy
+        setDraft(await getLocalDraft(assignedShelf.id));
+        syncDraft(assignedShelf.id);
         await loadAvailableItems(assignedShelf.id);
       } else {
         Alert.alert(
@@ -122,7 +157,7 @@ export default function DailyInvoiceScreen() {
     } finally {
       setLoading(false);
     }
-  }, [user, locale]);
+  }, [user, locale, syncDraft]);
 
   useEffect(() => {
     loadInitialData();
@@ -131,8 +166,7 @@ export default function DailyInvoiceScreen() {
   const refreshDraft = async (currentShelfId?: string) => {
     const sid = currentShelfId || shelfId;
     if (!sid) return;
-    const draftData = await api.sales.dailyInvoiceDraft.getOrCreate(sid);
-    setDraft(draftData);
+    setDraft(await getLocalDraft(sid));
   };
 
   const loadAvailableItems = async (currentShelfId?: string) => {
@@ -141,44 +175,11 @@ export default function DailyInvoiceScreen() {
       const shelfToUse = currentShelfId || shelfId;
       if (!shelfToUse) return;
 
-      const stockResult = await api.inventory.stockManagement.getShelfStock(shelfToUse, { pageSize: 100 });
-      const stockData = stockResult?.data || stockResult || [];
-      const itemsWithPrices = await api.inventory.itemsWithPrices(user.branchId, 1, 50, { shelfId: shelfToUse });
-
-      const stockMap = new Map<string, { totalStock: number; batches: any[] }>();
-      for (const stockItem of stockData) {
-        const itemId = stockItem.item?.id || stockItem.itemId;
-        if (!itemId) continue;
-        try {
-          const batchesResult = await api.inventory.stockManagement.getBatches(itemId, { shelfId: shelfToUse });
-          const batches = (batchesResult || [])
-            .filter((b: any) => Number(b.qtyRemaining) > 0)
-            .map((b: any) => ({
-              id: b.id,
-              qtyRemaining: Number(b.qtyRemaining) || 0,
-              expiryDate: b.expiryDate,
-              unitCostUsd: Number(b.unitCostUsd) || 0,
-            }));
-          stockMap.set(itemId, { totalStock: Number(stockItem.totalQty) || 0, batches });
-        } catch {
-          stockMap.set(itemId, { totalStock: Number(stockItem.totalQty) || 0, batches: [] });
-        }
-      }
-
-      const items: AvailableItem[] = itemsWithPrices.map((item: any) => {
-        const stockInfo = stockMap.get(item.id);
-        return {
-          id: item.id,
-          name: item.name,
-          nameAr: item.nameAr || item.name,
-          sku: item.sku || 'N/A',
-          retailPrice: item.retailPrice || 0,
-          wholesalePrice: item.wholesalePrice || 0,
-          unit: item.unit || 'unit',
-          batches: stockInfo?.batches || [],
-          totalStock: stockInfo?.totalStock || 0,
-        };
-      });
+      const { data: items } = await offlineRead(
+        () => fetchShelfItems(shelfToUse),
+        () => getCachedShelfItems(shelfToUse),
+        'dailyInvoice.shelfItems'
+      );
       setAvailableItems(items.filter(item => item.totalStock > 0));
     } catch (error) {
       console.error('Failed to load items:', error);
@@ -186,6 +187,73 @@ export default function DailyInvoiceScreen() {
     }
   };
 
+  const fetchShelfItems = async (shelfToUse: string): Promise<AvailableItem[]> => {
+    if (!user) return [];
+    const stockResult = await api.inventory.stockManagement.getShelfStock(shelfToUse, { pageSize: 100 });
+    const stockData = stockResult.data;
+    const itemsWithPrices = await api.inventory.itemsWithPrices(user.branchId, 1, 50, { shelfId: shelfToUse });
+
+    const stockMap = new Map<string, { totalStock: number; batches: any[] }>();
+    for (const stockItem of stockData) {
+      const itemId = stockItem.item?.id || stockItem.itemId;
+      if (!itemId) continue;
+      try {
+        const batchesResult = await api.inventory.stockManagement.getBatches(itemId, { shelfId: shelfToUse });
+        const batches = (batchesResult || [])
+          .filter((b: any) => Number(b.qtyRemaining) > 0)
+          .map((b: any) => ({
+            id: b.id,
+            qtyRemaining: Number(b.qtyRemaining) || 0,
+            expiryDate: b.expiryDate,
+            unitCostUsd: Number(b.unitCostUsd) || 0,
+          }));
+        stockMap.set(itemId, { totalStock: Number(stockItem.totalQty) || 0, batches });
+      } catch {
+        stockMap.set(itemId, { totalStock: Number(stockItem.totalQty) || 0, batches: [] });
+      }
+    }
+
+    return itemsWithPrices.map((item: any) => {
+      const stockInfo = stockMap.get(item.id);
+      return {
+        id: item.id,
+        name: item.name,
+        nameAr: item.nameAr || item.name,
+        sku: item.sku || 'N/A',
+        retailPrice: item.retailPrice || 0,
+        wholesalePrice: item.wholesalePrice || 0,
+        unit: item.unit || 'unit',
+        batches: stockInfo?.batches || [],
+        totalStock: stockInfo?.totalStock || 0,
+      };
+    });
+  };
+
+  // Offline: stock and batches from the last sync, priced by the cached policies
+  const getCachedShelfItems = async (shelfToUse: string): Promise<AvailableItem[]> => {
+    if (!user) return [];
+    const [stockRows, batchRows] = await Promise.all([
+      getCachedStockForShelf(shelfToUse),
+      getCachedBatchesForShelf(shelfToUse),
+    ]);
+    return Promise.all(stockRows.map(async (row: any) => {
+      const policy = await getCachedPriceForItem(row.item_id, user.branchId!, shelfToUse);
+      return {
+        id: row.item_id,
+        name: row.name_en,
+        nameAr: row.name_ar || row.name_en,
+        sku: row.sku || 'N/A',
+        retailPrice: Number(policy?.retailPriceUsd) || 0,
+        wholesalePrice: Number(policy?.wholesalePriceUsd) || 0,
+        unit: row.unit_symbol || row.unit_name || 'unit',
+        batches: batchRows
+          .filter((b: any) => b.item_id === row.item_id)
+          .map((b: any) => ({ id: b.id, qtyRemaining: b.qty_remaining, unitCostUsd: b.unit_cost_usd })),
+        totalStock: Number(row.qty_remaining) || 0,
+      };
+    }));
+  };
+
   const onRefresh = async () => {
     await loadInitialData();
   };
@@ -241,39 +309,48 @@ export default function DailyInvoiceScreen() {
     }
 
     try {
-      setSaving(true);
-      await api.sales.dailyInvoiceDraft.addLine({
-        shelfId,
+      setDraft(await addLocalDraftLine(shelfId, {
         itemId: selectedItem.id,
         qty,
         unitPriceUsd: selectedItem.retailPrice,
-        batchId: selectedItem.batches[0]?.id,
-      });
-      await refreshDraft();
+        batchId: selectedItem.batches[0]?.id ?? null,
+        item: {
+          nameEn: selectedItem.name,
+          nameAr: selectedItem.nameAr,
+          sku: selectedItem.sku,
+          unit: { nameEn: selectedItem.unit, symbol: null },
+        },
+      }));
       setSelectedItem(null);
       setQuantity('1');
       setShowItemPicker(false);
+      syncDraft(shelfId);
     } catch (error: any) {
       showError(error, locale);
-    } finally {
-      setSaving(false);
     }
   };
 
   const handleRemoveItem = async (lineId: string) => {
+    if (!shelfId) return;
     try {
-      await api.sales.dailyInvoiceDraft.removeLine(lineId);
-      await refreshDraft();
+      setDraft(await removeLocalDraftLine(shelfId, lineId));
+      syncDraft(shelfId);
     } catch (error: any) {
       showError(error, locale);
     }
   };
 
   const handleUpdateQuantity = async (lineId: string, newQty: number) => {
-    if (newQty < 1) return;
+    if (newQty < 1 || !shelfId) return;
+    const line = draftLines.find(l => l.id === lineId);
+    const item = availableItems.find(i => i.id === line?.itemId);
+    if (line && item && newQty - line.qty > getAvailableStock(item)) {
+      Alert.alert(t('error', locale), locale === 'ar' ? `الكمية المتوفرة: ${item.totalStock} فقط` : `Only ${item.totalStock} available in stock`);
+      return;
+    }
     try {
-      await api.sales.dailyInvoiceDraft.updateLineQty(lineId, newQty);
-      await refreshDraft();
+      setDraft(await updateLocalDraftLineQty(shelfId, lineId, newQty));
+      syncDraft(shelfId);
     } catch (error: any) {
       showError(error, locale);
     }
@@ -291,8 +368,8 @@ export default function DailyInvoiceScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await api.sales.dailyInvoiceDraft.clearDraft(shelfId);
-              await refreshDraft();
+              setDraft(await clearLocalDraft(shelfId));
+              syncDraft(shelfId);
             } catch (error: any) {
               showError(error, locale);
             }
@@ -349,31 +426,29 @@ export default function DailyInvoiceScreen() {
     setUploadingImages(true);
 
     try {
-      // Upload receipt images
-      let uploadedUrls: string[] = [];
-      if (receiptImages.length > 0) {
-        for (const uri of receiptImages) {
-          const url = await uploadReceipt(uri);
-          uploadedUrls.push(url);
-        }
-      }
-      setUploadingImages(false);
-
       const mappedPaymentMethod = paymentMethod === 'CARD' ? 'BANK_TRANSFER' : paymentMethod as 'CASH' | 'MIXED';
 
-      const checkoutResult = await api.sales.dailyInvoiceDraft.checkout({
+      // Receipts are uploaded with the checkout, or kept on the device when it is queued
+      const { queued, result: checkoutResult } = await offlineCheckoutDailyDraft({
         shelfId,
         paymentMethod: mappedPaymentMethod,
         cashAmountSdg: paymentMethod === 'CASH' ? cashAmount : paymentMethod === 'MIXED' ? cashAmount : 0,
         cardAmountSdg: paymentMethod === 'CARD' ? cardAmount : paymentMethod === 'MIXED' ? cardAmount : 0,
         transactionNumber: transactionNumber || undefined,
-        receiptImageUrls: uploadedUrls,
-      });
-      const createdInvoiceId = checkoutResult?.id || checkoutResult?.invoiceId || (checkoutResult as any)?.result?.data?.id;
+        receiptUris: receiptImages,
+      }, {
+        userId: user!.id,
+        branchId: user!.branchId!,
+        shelfId,
+        role: user!.role,
+      }, { idempotencyKey: checkoutKey.next() });
+      checkoutKey.settle();
+      setUploadingImages(false);
+      const createdInvoiceId = queued ? undefined : checkoutResult.id || checkoutResult.invoiceId;
 
       // Build invoice for preview
       const builtInvoice: Invoice = {
-        invoiceNumber: generateInvoiceNumber('SALES'),
+        invoiceNumber: queued ? checkoutResult.invoiceNumber : generateInvoiceNumber('SALES'),
         invoiceType: 'SALES',
         invoiceCategory: 'RETAIL',
         invoiceDate: new Date().toISOString(),
@@ -444,9 +519,16 @@ export default function DailyInvoiceScreen() {
         onPress: resetAndRefresh,
       });
 
-      Alert.alert(t('success', locale), t('invoiceClosed', locale), alertButtons);
+      Alert.alert(
+        t('success', locale),
+        queued
+          ? (locale === 'ar' ? 'تم حفظ الفاتورة على الجهاز وسيتم إرسالها عند الاتصال' : 'Invoice saved on this device — it will be sent when online')
+          : t('invoiceClosed', locale),
+        alertButtons
+      );
     } catch (error: any) {
       setUploadingImages(false);
+      checkoutKey.settle(error);
       const msg: string = error.message || '';
       if (msg.startsWith('DUPLICATE_TXN:')) {
         const systemId = msg.split(':')[1];
@@ -534,7 +616,14 @@ export default function DailyInvoiceScreen() {
       {/* Current Invoice Items */}
       <View style={[styles.invoiceSection, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
         <View style={[styles.invoiceHeader, isRtl && styles.rowReverse]}>
-          <Text style={[styles.invoiceTitle, { color: theme.text }]}>{t('currentInvoice', locale)}</Text>
+          <View style={isRtl && { alignItems: 'flex-end' }}>
+            <Text style={[styles.invoiceTitle, { color: theme.text }]}>{t('currentInvoice', locale)}</Text>
+            {draft?.pending && (
+              <Text style={[styles.pendingText, { color: theme.warning }]}>
+                {locale === 'ar' ? 'محفوظة على الجهاز — بانتظار المزامنة' : 'Saved on this device — waiting to sync'}
+              </Text>
+            )}
+          </View>
           {draftLines.length > 0 && (
             <TouchableOpacity onPress={handleClearDraft}>
               <Text style={[styles.clearText, { color: theme.error }]}>
@@ -1003,6 +1092,7 @@ const styles = StyleSheet.create({
   invoiceHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', padding: 16, borderBottomWidth: 1, borderBottomColor: '#e5e7eb' },
   rowReverse: { flexDirection: 'row-reverse' },
   invoiceTitle: { fontSize: 16, fontWeight: '600' },
+  pendingText: { fontSize: 12, marginTop: 2 },
   clearText: { fontSize: 14 },
   emptyState: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 40 },
   emptyText: { fontSize: 14, marginTop: 12 },
@@ -16,7 +16,9 @@ import { useThemeStore } from '@/stores/theme';
 import { t } from '@/lib/i18n';
 import { api } from '@/lib/api';
 import { getCachedDayCycle } from '@/lib/offlineApi';
+import { useOfflineQuery } from '@/lib/offlineQuery';
 import { connectivity } from '@/lib/connectivity';
+import type { DashboardReport } from '@/lib/schemas/accounting';
 
 const logo = require('@/assets/logo.jpeg');
 
@@ -25,35 +27,23 @@ export default function DashboardScreen() {
   const { locale } = useLocaleStore();
   const { theme } = useThemeStore();
   const [refreshing, setRefreshing] = useState(false);
-  const [dayCycle, setDayCycle] = useState<any>(null);
-  const [summary, setSummary] = useState<any>(null);
-  const [dayCycleFromCache, setDayCycleFromCache] = useState(false);
+  const [summary, setSummary] = useState<DashboardReport | null>(null);
   const isRtl = locale === 'ar';
   const isAdmin = ['ADMIN', 'MANAGER'].includes(user?.role || '');
 
+  const branchId = user?.branchId ?? '';
+  const { data: dayCycle, fromCache: dayCycleFromCache, refetch: refetchDayCycle } = useOfflineQuery({
+    queryKey: ['dayCycle', branchId],
+    remote: (signal) => api.dayCycle.getCurrent(branchId, { signal }),
+    local: () => getCachedDayCycle(branchId),
+    tables: ['day_cycle'],
+    enabled: !!branchId,
+  });
+
   const loadData = async () => {
     if (!user) return;
     const isOnline = connectivity.isOnline();
 
-    // Day cycle: try live first, fall back to cache
-    if (user.branchId) {
-      if (isOnline) {
-        try {
-          const cycle = await api.dayCycle.getCurrent(user.branchId);
-          setDayCycle(cycle);
-          setDayCycleFromCache(false);
-        } catch {
-          const cached = await getCachedDayCycle(user.branchId);
-          setDayCycle(cached);
-          setDayCycleFromCache(true);
-        }
-      } else {
-        const cached = await getCachedDayCycle(user.branchId);
-        setDayCycle(cached);
-        setDayCycleFromCache(true);
-      }
-    }
-
     // Dashboard summary only available online
     if (isAdmin && user.branchId && isOnline) {
       try {
@@ -69,7 +59,7 @@ export default function DashboardScreen() {
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadData();
+    await Promise.all([loadData(), refetchDayCycle()]);
     setRefreshing(false);
   };
 
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import {
   View,
   Text,
@@ -42,42 +43,29 @@ export default function DeferredInvoicesScreen() {
     }
   }, [user]);
 
-  const [invoices, setInvoices] = useState<DeferredInvoice[]>([]);
-  const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
-  useEffect(() => {
-    loadInvoices();
-  }, []);
-
-  const loadInvoices = async () => {
-    try {
-      const data = await api.accounting.supplierInvoices.listDeferred();
-      
-      if (data?.data) {
-        setInvoices(data.data.map((inv: any) => ({
-          id: inv.id,
-          number: inv.invoiceNumber || 'N/A',
-          supplier: inv.supplier?.name || 'Unknown',
-          supplierNameAr: inv.supplier?.nameAr,
-          totalAmount: Number(inv.totalSdg) || 0,
-          paidAmount: Number(inv.paidSdg) || 0,
-          remainingAmount: Number(inv.remainingSdg) || (Number(inv.totalSdg) - Number(inv.paidSdg)) || 0,
-          dueDate: inv.dueDate?.split('T')[0] || '',
-          confirmedDate: inv.confirmedDate?.split('T')[0] || inv.invoiceDate?.split('T')[0] || '',
-        })));
-      }
-    } catch (error) {
-      console.error('Failed to load deferred invoices:', error);
-      setInvoices([]);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { data: invoices = [], isLoading: loading, refetch } = useQuery({
+    queryKey: ['supplierInvoices', 'deferred'],
+    queryFn: async ({ signal }) => {
+      const data = await api.accounting.supplierInvoices.listDeferred({}, { signal });
+      return data.data.map((inv): DeferredInvoice => ({
+        id: inv.id,
+        number: inv.invoiceNumber || 'N/A',
+        supplier: inv.supplier?.name || 'Unknown',
+        supplierNameAr: inv.supplier?.nameAr,
+        totalAmount: inv.totalSdg,
+        paidAmount: inv.paidSdg ?? 0,
+        remainingAmount: inv.remainingSdg || (inv.totalSdg - (inv.paidSdg ?? 0)) || 0,
+        dueDate: inv.dueDate?.split('T')[0] || '',
+        confirmedDate: inv.confirmedDate?.split('T')[0] || inv.invoiceDate?.split('T')[0] || '',
+      }));
+    },
+  });
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadInvoices();
+    await refetch();
     setRefreshing(false);
   };
 
@@ -95,7 +83,7 @@ export default function DeferredInvoicesScreen() {
             try {
               await api.accounting.supplierInvoices.updateStatus(invoice.id, 'PAID');
               Alert.alert(t('success', locale), locale === 'ar' ? 'تم تسجيل الدفع' : 'Payment recorded');
-              loadInvoices();
+              refetch();
             } catch (error: any) {
               Alert.alert(t('error', locale), error?.message || 'Failed to record payment');
             }
@@ -20,13 +20,7 @@ import { useLocaleStore } from '@/stores/locale';
 import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { api } from '@/lib/api';
-
-interface ExpenseCategory {
-  id: string;
-  name: string;
-  nameAr: string;
-  isActive: boolean;
-}
+import type { ExpenseCategory } from '@/lib/schemas/accounting';
 
 export default function ExpenseCategoriesScreen() {
   const router = useRouter();
@@ -62,7 +56,7 @@ export default function ExpenseCategoriesScreen() {
   const loadCategories = async () => {
     try {
       const data = await api.accounting.expenses.categories.list({ includeInactive });
-      setCategories(Array.isArray(data) ? data : []);
+      setCategories(data);
     } catch (error) {
       console.error('Failed to load expense categories:', error);
       setCategories([]);
@@ -109,7 +103,7 @@ export default function ExpenseCategoriesScreen() {
     setSelectedCategory(cat);
     setEditCategory({
       name: cat.name,
-      nameAr: cat.nameAr,
+      nameAr: cat.nameAr ?? '',
       isActive: cat.isActive,
     });
     setShowEditModal(true);
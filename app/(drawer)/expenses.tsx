@@ -19,7 +19,19 @@ import { useLocaleStore } from '@/stores/locale';
 import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { t } from '@/lib/i18n';
-import { api, uploadReceipt } from '@/lib/api';
+import { api, showError } from '@/lib/api';
+import { useSubmitKey } from '@/lib/submitKey';
+import { connectivity } from '@/lib/connectivity';
+import {
+  getCachedDayCycle,
+  getCachedExpenseCategories,
+  getCachedHistory,
+  getLocalQueued,
+  matchesSearch,
+  offlineCreateExpense,
+  offlineRead,
+} from '@/lib/offlineApi';
+import CachedAsOf from '@/components/CachedAsOf';
 
 interface ExpenseCategory {
   id: string;
@@ -36,6 +48,8 @@ interface Expense {
   status: 'PENDING' | 'APPROVED' | 'REJECTED';
   createdAt: string;
   category?: ExpenseCategory;
+  /** Recorded offline, waiting in the sync queue. */
+  _queued?: boolean;
 }
 
 const categoryIcons: Record<string, { icon: string; color: string }> = {
@@ -59,6 +73,8 @@ export default function ExpensesScreen() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [isDayOpen, setIsDayOpen] = useState(true);
+  const [search, setSearch] = useState('');
+  const [fromCache, setFromCache] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
   const [saving, setSaving] = useState(false);
   
@@ -68,25 +84,57 @@ export default function ExpensesScreen() {
   const [description, setDescription] = useState('');
   const [paymentMethod, setPaymentMethod] = useState<'CASH' | 'BANK_TRANSFER'>('CASH');
   const [receiptUri, setReceiptUri] = useState<string | null>(null);
-  const [uploadingReceipt, setUploadingReceipt] = useState(false);
+  const saveKey = useSubmitKey();
 
   useEffect(() => {
     loadData();
   }, [user]);
 
+  const loadQueuedExpenses = async (knownCategories: ExpenseCategory[]): Promise<Expense[]> => {
+    const queued = await getLocalQueued('accounting.expenses.create');
+    return queued.map((q: any) => ({
+      id: q._localRef,
+      description: q.description,
+      amountSdg: q.amountSdg,
+      status: 'PENDING',
+      createdAt: new Date(q._createdAt).toISOString(),
+      category: knownCategories.find((c) => c.id === q.categoryId),
+      _queued: true,
+    }));
+  };
+
   const loadData = async () => {
     try {
       if (!user) return;
+
+      if (!connectivity.isOnline()) {
+        const [cachedCategories, cycle, cachedExpenses] = await Promise.all([
+          getCachedExpenseCategories(),
+          user.branchId ? getCachedDayCycle(user.branchId) : Promise.resolve(null),
+          getCachedHistory('expenses'),
+        ]);
+        setIsDayOpen(!!cycle);
+        setCategories(cachedCategories);
+        setExpenses([...(await loadQueuedExpenses(cachedCategories)), ...cachedExpenses]);
+        setFromCache(true);
+        return;
+      }
       
+      const branchId = user.branchId;
       const [expensesResult, categoriesResult, cycle] = await Promise.all([
-        api.accounting.expenses.list(user.branchId, { pageSize: 50 }),
+        offlineRead(
+          async () => (await api.accounting.expenses.list(branchId, { pageSize: 50 })).data,
+          () => getCachedHistory('expenses'),
+          'history.expenses'
+        ),
         api.accounting.expenses.categories.list().catch(() => []),
         user.branchId ? api.dayCycle.getCurrent(user.branchId).catch(() => null) : Promise.resolve(null),
       ]);
       
       setIsDayOpen(cycle?.status === 'OPEN');
-      setExpenses(expensesResult?.data || expensesResult || []);
-      setCategories(categoriesResult || []);
+      setExpenses([...(await loadQueuedExpenses(categoriesResult)), ...expensesResult.data]);
+      setFromCache(expensesResult.fromCache);
+      setCategories(categoriesResult);
     } catch (error) {
       console.error('Failed to load expenses:', error);
       setExpenses([]);
@@ -141,34 +189,41 @@ export default function ExpensesScreen() {
 
     setSaving(true);
     try {
-      let receiptImageUrl: string | undefined;
-      if (receiptUri) {
-        setUploadingReceipt(true);
-        try {
-          receiptImageUrl = await uploadReceipt(receiptUri);
-        } finally {
-          setUploadingReceipt(false);
-        }
-      }
+      const userCtx = {
+        userId: user!.id,
+        branchId: user!.branchId!,
+        shelfId: user!.shelf?.id,
+        role: user!.role,
+      };
 
-      await api.accounting.expenses.create({
-        categoryId: selectedCategory.id,
-        amountSdg: parseFloat(amount),
-        description: description.trim(),
-        paymentMethod,
-        receiptImageUrl,
-      });
+      const outcome = await offlineCreateExpense(
+        {
+          categoryId: selectedCategory.id,
+          amountSdg: parseFloat(amount),
+          description: description.trim(),
+          paymentMethod,
+          receiptUri: receiptUri ?? undefined,
+        },
+        userCtx,
+        { idempotencyKey: saveKey.next() }
+      );
+      saveKey.settle();
       
       Alert.alert(
         locale === 'ar' ? 'نجاح' : 'Success',
-        locale === 'ar' ? 'تم إضافة المصروف بنجاح' : 'Expense added successfully'
+        outcome.queued
+          ? (locale === 'ar'
+              ? 'تم حفظ المصروف محلياً وسيتم رفعه مع الإيصال عند الاتصال'
+              : 'Expense saved offline — it will be sent with its receipt when online')
+          : (locale === 'ar' ? 'تم إضافة المصروف بنجاح' : 'Expense added successfully')
       );
       
       setShowAddModal(false);
       resetForm();
       await loadData();
     } catch (error: any) {
-      Alert.alert(t('error', locale), error.message || 'Failed to add expense');
+      saveKey.settle(error);
+      showError(error, locale);
     } finally {
       setSaving(false);
     }
@@ -207,6 +262,8 @@ export default function ExpensesScreen() {
         return { color: theme.success, label: locale === 'ar' ? 'موافق عليه' : 'Approved' };
       case 'REJECTED':
         return { color: theme.error, label: locale === 'ar' ? 'مرفوض' : 'Rejected' };
+      case 'QUEUED':
+        return { color: theme.textMuted, label: locale === 'ar' ? 'بانتظار المزامنة' : 'Waiting to sync' };
       default:
         return { color: theme.warning, label: locale === 'ar' ? 'قيد المراجعة' : 'Pending' };
     }
@@ -214,7 +271,7 @@ export default function ExpensesScreen() {
 
   const renderExpense = ({ item }: { item: Expense }) => {
     const categoryStyle = getCategoryStyle(item.category);
-    const statusBadge = getStatusBadge(item.status);
+    const statusBadge = getStatusBadge(item._queued ? 'QUEUED' : item.status);
     
     return (
       <TouchableOpacity 
@@ -296,9 +353,31 @@ export default function ExpensesScreen() {
         </Text>
       </TouchableOpacity>
 
+      <CachedAsOf kind="expenses" visible={fromCache} />
+
+      {/* Search Bar */}
+      <View style={[styles.searchContainer, { backgroundColor: theme.card, borderColor: theme.border }, isRtl && styles.searchContainerRtl]}>
+        <Ionicons name="search" size={20} color={theme.textSecondary} />
+        <TextInput
+          style={[styles.searchInput, { color: theme.text }, isRtl && styles.searchInputRtl]}
+          placeholder={t('search', locale)}
+          placeholderTextColor={theme.inputPlaceholder}
+          value={search}
+          onChangeText={setSearch}
+          textAlign={isRtl ? 'right' : 'left'}
+        />
+        {search.length > 0 && (
+          <TouchableOpacity onPress={() => setSearch('')}>
+            <Ionicons name="close-circle" size={20} color={theme.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
       {/* Expenses List */}
       <FlatList
-        data={expenses}
+        data={expenses.filter((e) =>
+          matchesSearch(search, e.description, e.category?.name, e.category?.nameAr, e.amountSdg)
+        )}
         keyExtractor={(item) => item.id}
         renderItem={renderExpense}
         contentContainerStyle={styles.listContent}
@@ -467,9 +546,9 @@ export default function ExpensesScreen() {
               <TouchableOpacity
                 style={[styles.saveButton, { backgroundColor: theme.primary }]}
                 onPress={handleAddExpense}
-                disabled={saving || uploadingReceipt}
+                disabled={saving}
               >
-                {(saving || uploadingReceipt) ? (
+                {saving ? (
                   <ActivityIndicator size="small" color="#fff" />
                 ) : (
                   <Text style={styles.saveButtonText}>
@@ -539,6 +618,28 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#fff',
   },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginBottom: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  searchContainerRtl: {
+    flexDirection: 'row-reverse',
+  },
+  searchInput: {
+    flex: 1,
+    height: 44,
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  searchInputRtl: {
+    marginLeft: 0,
+    marginRight: 12,
+  },
   listContent: {
     paddingHorizontal: 16,
     paddingBottom: 100,
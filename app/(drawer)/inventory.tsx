@@ -18,6 +18,7 @@ import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { t } from '@/lib/i18n';
 import { api } from '@/lib/api';
+import type { StockItem } from '@/lib/schemas/inventory';
 import { getCachedStockForShelf, getCachedStockForWarehouse, getCachedWarehouses, getCachedShelves } from '@/lib/offlineApi';
 import { connectivity } from '@/lib/connectivity';
 
@@ -26,8 +27,8 @@ interface Item {
   sku: string;
   nameEn: string;
   nameAr: string;
-  category?: { name: string; nameAr: string };
-  unit?: { symbol: string };
+  category?: { name?: string; nameAr?: string };
+  unit?: { symbol?: string };
   currentStock?: number;
 }
 
@@ -109,7 +110,7 @@ export default function InventoryScreen() {
           if (isOnline) {
             try {
               const stockResult = await api.inventory.stockManagement.getWarehouseStock(wh.id, { pageSize: 200 });
-              const stockData = stockResult?.data || stockResult || [];
+              const stockData = stockResult.data;
               setItems(mapStockToItems(stockData));
               setFromCache(false);
             } catch {
@@ -140,7 +141,7 @@ export default function InventoryScreen() {
         if (isOnline) {
           try {
             const stockResult = await api.inventory.stockManagement.getShelfStock(assignedShelf.id, { pageSize: 200 });
-            const stockData = stockResult?.data || stockResult || [];
+            const stockData = stockResult.data;
             setItems(mapStockToItems(stockData));
             setFromCache(false);
           } catch {
@@ -162,7 +163,7 @@ export default function InventoryScreen() {
           setLocationName(warehouse ? (locale === 'ar' ? warehouse.nameAr || warehouse.name : warehouse.name) : '');
           setCurrentShelfId(undefined);
           const stockResult = await api.inventory.stockManagement.getWarehouseStock(currentWarehouseId, { pageSize: 200 });
-          const stockData = stockResult?.data || stockResult || [];
+          const stockData = stockResult.data;
           setItems(mapStockToItems(stockData));
         } else if (viewMode === 'shelf' && currentShelfId) {
           // View specific shelf
@@ -170,7 +171,7 @@ export default function InventoryScreen() {
           setLocationName(shelf ? (locale === 'ar' ? shelf.nameAr || shelf.name : shelf.name) : '');
           setCurrentWarehouseId(undefined);
           const stockResult = await api.inventory.stockManagement.getShelfStock(currentShelfId, { pageSize: 200 });
-          const stockData = stockResult?.data || stockResult || [];
+          const stockData = stockResult.data;
           setItems(mapStockToItems(stockData));
         } else {
           // View all stock (aggregated from all warehouses and shelves)
@@ -183,11 +184,11 @@ export default function InventoryScreen() {
           const allShelves = shelves.length > 0 ? shelves : await api.inventory.shelves();
           
           // Aggregate stock from all warehouses
-          const allStock: any[] = [];
+          const allStock: StockItem[] = [];
           for (const wh of (allWarehouses || [])) {
             try {
               const stockResult = await api.inventory.stockManagement.getWarehouseStock(wh.id, { pageSize: 200 });
-              const stockData = stockResult?.data || stockResult || [];
+              const stockData = stockResult.data;
               allStock.push(...stockData);
             } catch (error) {
               console.warn(`Failed to load stock for warehouse ${wh.id}:`, error);
@@ -198,7 +199,7 @@ export default function InventoryScreen() {
           for (const sh of (allShelves || [])) {
             try {
               const stockResult = await api.inventory.stockManagement.getShelfStock(sh.id, { pageSize: 200 });
-              const stockData = stockResult?.data || stockResult || [];
+              const stockData = stockResult.data;
               allStock.push(...stockData);
             } catch (error) {
               console.warn(`Failed to load stock for shelf ${sh.id}:`, error);
@@ -207,7 +208,7 @@ export default function InventoryScreen() {
           
           // Aggregate by item ID
           const itemMap = new Map();
-          allStock.forEach((stockItem: any) => {
+          allStock.forEach((stockItem) => {
             const itemId = stockItem.item.id;
             const qty = Number(stockItem.totalQty) || 0;
             
@@ -232,7 +233,7 @@ export default function InventoryScreen() {
       // Fallback to all items
       else {
         const result = await api.inventory.items.list();
-        setItems(result?.data || result || []);
+        setItems(result.data);
       }
     } catch (error) {
       console.error('Failed to load inventory:', error);
@@ -243,15 +244,15 @@ export default function InventoryScreen() {
     }
   };
 
-  const mapStockToItems = (stockData: any[]): Item[] => {
-    return stockData.map((stockItem: any) => ({
+  const mapStockToItems = (stockData: StockItem[]): Item[] => {
+    return stockData.map((stockItem) => ({
       id: stockItem.item.id,
-      sku: stockItem.item.sku,
-      nameEn: stockItem.item.nameEn || stockItem.item.name,
-      nameAr: stockItem.item.nameAr || stockItem.item.name,
+      sku: stockItem.item.sku ?? '',
+      nameEn: stockItem.item.nameEn || stockItem.item.name || '',
+      nameAr: stockItem.item.nameAr || stockItem.item.name || '',
       category: stockItem.item.category,
       unit: stockItem.item.unit,
-      currentStock: Number(stockItem.totalQty) || 0,
+      currentStock: stockItem.totalQty ?? 0,
     }));
   };
 
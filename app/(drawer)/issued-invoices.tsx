@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import {
   View,
   Text,
@@ -33,45 +34,35 @@ export default function IssuedInvoicesScreen() {
   const { theme } = useThemeStore();
   const { user } = useAuthStore();
   const isRtl = locale === 'ar';
-  const [invoices, setInvoices] = useState<IssuedInvoice[]>([]);
-  const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
   useEffect(() => {
     if (user && !['ADMIN', 'MANAGER', 'PROCUREMENT', 'ACCOUNTANT'].includes(user.role)) {
       router.replace('/(drawer)/dashboard');
-      return;
     }
-    loadInvoices();
   }, []);
 
-  const loadInvoices = async () => {
-    try {
-      const data = await api.accounting.supplierInvoices.listIssued();
-      
-      if (data?.data) {
-        setInvoices(data.data.map((inv: any) => ({
-          id: inv.id,
-          number: inv.invoiceNumber || 'N/A',
-          supplier: inv.supplier?.name || 'Unknown',
-          supplierNameAr: inv.supplier?.nameAr,
-          amount: Number(inv.totalSdg) || 0,
-          invoiceDate: inv.invoiceDate?.split('T')[0] || inv.createdAt?.split('T')[0] || '',
-          dueDate: inv.dueDate?.split('T')[0] || '',
-          status: inv.status || 'CONFIRMED',
-        })));
-      }
-    } catch (error) {
-      console.error('Failed to load issued invoices:', error);
-      setInvoices([]);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Leaving the screen aborts the request through React Query's signal
+  const { data: invoices = [], isLoading: loading, refetch } = useQuery({
+    queryKey: ['supplierInvoices', 'issued'],
+    queryFn: async ({ signal }) => {
+      const data = await api.accounting.supplierInvoices.listIssued({}, { signal });
+      return data.data.map((inv): IssuedInvoice => ({
+        id: inv.id,
+        number: inv.invoiceNumber || 'N/A',
+        supplier: inv.supplier?.name || 'Unknown',
+        supplierNameAr: inv.supplier?.nameAr,
+        amount: inv.totalSdg,
+        invoiceDate: inv.invoiceDate?.split('T')[0] || inv.createdAt?.split('T')[0] || '',
+        dueDate: inv.dueDate?.split('T')[0] || '',
+        status: inv.status || 'CONFIRMED',
+      }));
+    },
+  });
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadInvoices();
+    await refetch();
     setRefreshing(false);
   };
 
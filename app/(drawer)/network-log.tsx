@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  Switch,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeStore } from '@/stores/theme';
+import { useLocaleStore } from '@/stores/locale';
+import { useAuthStore } from '@/stores/auth';
+import {
+  clearNetworkLog,
+  getNetworkLog,
+  isNetworkLogEnabled,
+  setNetworkLogEnabled,
+  shareNetworkLog,
+  type NetworkLogEntry,
+} from '@/lib/networkLog';
+
+export default function NetworkLogScreen() {
+  const { theme } = useThemeStore();
+  const { locale } = useLocaleStore();
+  const { user } = useAuthStore();
+  const [enabled, setEnabled] = useState(false);
+  const [entries, setEntries] = useState<NetworkLogEntry[]>([]);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const isAr = locale === 'ar';
+  const isAdmin = ['ADMIN', 'MANAGER'].includes(user?.role || '');
+
+  const loadEntries = useCallback(async () => {
+    setEntries(await getNetworkLog());
+  }, []);
+
+  useEffect(() => {
+    isNetworkLogEnabled().then(setEnabled);
+    loadEntries();
+  }, [loadEntries]);
+
+  async function handleToggle(value: boolean) {
+    setEnabled(value);
+    await setNetworkLogEnabled(value);
+  }
+
+  async function handleRefresh() {
+    setRefreshing(true);
+    await loadEntries();
+    setRefreshing(false);
+  }
+
+  async function handleExport() {
+    try {
+      await shareNetworkLog();
+    } catch (error: any) {
+      Alert.alert(isAr ? 'خطأ' : 'Error', error?.message || (isAr ? 'تعذر تصدير السجل' : 'Could not export the log'));
+    }
+  }
+
+  function handleClear() {
+    Alert.alert(
+      isAr ? 'مسح السجل' : 'Clear Log',
+      isAr ? 'هل تريد حذف كل الطلبات المسجلة؟' : 'Delete all recorded calls?',
+      [
+        { text: isAr ? 'إلغاء' : 'Cancel', style: 'cancel' },
+        {
+          text: isAr ? 'مسح' : 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            await clearNetworkLog();
+            await loadEntries();
+          },
+        },
+      ]
+    );
+  }
+
+  const sourceLabel = (source: NetworkLogEntry['source']) => {
+    if (source === 'cache') return isAr ? 'ذاكرة محلية' : 'Cache';
+    if (source === 'queue') return isAr ? 'قائمة الانتظار' : 'Queue';
+    return isAr ? 'الشبكة' : 'Network';
+  };
+
+  const formatTime = (ts: number) =>
+    new Date(ts).toLocaleTimeString(isAr ? 'ar-SD' : 'en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+
+  if (!isAdmin) {
+    return (
+      <View style={[styles.emptyState, { backgroundColor: theme.background, flex: 1 }]}>
+        <Ionicons name="lock-closed-outline" size={48} color={theme.textSecondary || '#9ca3af'} />
+        <Text style={[styles.emptyText, { color: theme.textSecondary || '#9ca3af' }]}>
+          {isAr ? 'هذه الصفحة للمديرين فقط' : 'Only managers can open this page'}
+        </Text>
+      </View>
+    );
+  }
+
+  const visible = errorsOnly ? entries.filter((e) => !e.ok) : entries;
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.background }]}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+    >
+      <View style={[styles.card, { backgroundColor: theme.card }]}>
+        <View style={styles.toggleRow}>
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.sectionTitle, { color: theme.text, marginBottom: 4 }]}>
+              {isAr ? 'تسجيل طلبات الخادم' : 'Record API calls'}
+            </Text>
+            <Text style={[styles.hint, { color: theme.textSecondary || '#9ca3af' }]}>
+              {isAr
+                ? 'يحفظ آخر 500 طلب على هذا الجهاز. تُخفى الأسماء وأرقام الهواتف وكلمات المرور.'
+                : 'Keeps the last 500 calls on this device. Names, phone numbers and passwords are hidden.'}
+            </Text>
+          </View>
+          <Switch value={enabled} onValueChange={handleToggle} />
+        </View>
+      </View>
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.btn, { backgroundColor: theme.primary || '#3b82f6' }, entries.length === 0 && styles.btnDisabled]}
+          onPress={handleExport}
+          disabled={entries.length === 0}
+        >
+          <Ionicons name="share-outline" size={18} color="#fff" />
+          <Text style={styles.btnText}>{isAr ? 'تصدير للدعم الفني' : 'Export for Support'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.btn, { backgroundColor: '#ef4444' }, entries.length === 0 && styles.btnDisabled]}
+          onPress={handleClear}
+          disabled={entries.length === 0}
+        >
+          <Ionicons name="trash-outline" size={18} color="#fff" />
+          <Text style={styles.btnText}>{isAr ? 'مسح السجل' : 'Clear Log'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {entries.length > 0 && (
+        <View style={[styles.card, { backgroundColor: theme.card }]}>
+          <View style={styles.listHeader}>
+            <Text style={[styles.sectionTitle, { color: theme.text, marginBottom: 0 }]}>
+              {isAr ? `الطلبات (${visible.length})` : `Calls (${visible.length})`}
+            </Text>
+            <TouchableOpacity onPress={() => setErrorsOnly(!errorsOnly)} style={styles.filterChip}>
+              <Ionicons name={errorsOnly ? 'checkbox' : 'square-outline'} size={16} color={theme.primary || '#3b82f6'} />
+              <Text style={[styles.hint, { color: theme.text }]}>{isAr ? 'الأخطاء فقط' : 'Errors only'}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {visible.map((entry) => {
+            const expanded = expandedId === entry.id;
+            return (
+              <TouchableOpacity
+                key={entry.id}
+                style={[styles.entryRow, { borderColor: theme.border || '#e5e7eb' }]}
+                onPress={() => setExpandedId(expanded ? null : entry.id)}
+              >
+                <View style={styles.entryHeader}>
+                  <Ionicons
+                    name={entry.ok ? 'checkmark-circle' : 'close-circle'}
+                    size={16}
+                    color={entry.ok ? '#10b981' : '#ef4444'}
+                  />
+                  <Text style={[styles.procedure, { color: theme.text }]} numberOfLines={1}>
+                    {entry.procedure}
+                  </Text>
+                  <Text style={[styles.meta, { color: theme.textSecondary || '#9ca3af' }]}>
+                    {entry.latencyMs} ms
+                  </Text>
+                </View>
+                <Text style={[styles.meta, { color: theme.textSecondary || '#9ca3af' }]}>
+                  {formatTime(entry.startedAt)} · {sourceLabel(entry.source)}
+                  {entry.errorCode ? ` · ${entry.errorCode}` : ''}
+                  {entry.httpStatus ? ` (${entry.httpStatus})` : ''}
+                </Text>
+                {!entry.ok && entry.errorMessage && (
+                  <Text style={[styles.error, { color: '#ef4444' }]} numberOfLines={expanded ? undefined : 2}>
+                    {entry.errorMessage}
+                  </Text>
+                )}
+                {expanded && entry.input && (
+                  <Text style={[styles.input, { color: theme.text, backgroundColor: theme.background }]}>
+                    {entry.input}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {entries.length === 0 && (
+        <View style={styles.emptyState}>
+          <Ionicons name="pulse-outline" size={48} color={theme.textSecondary || '#9ca3af'} />
+          <Text style={[styles.emptyText, { color: theme.textSecondary || '#9ca3af' }]}>
+            {enabled
+              ? isAr ? 'لم تُسجل أي طلبات بعد' : 'No calls recorded yet'
+              : isAr ? 'التسجيل متوقف' : 'Recording is off'}
+          </Text>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, padding: 16 },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.08,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  hint: { fontSize: 13 },
+  actions: {
+    gap: 10,
+    marginBottom: 16,
+  },
+  btn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 14,
+    borderRadius: 10,
+  },
+  btnDisabled: { opacity: 0.6 },
+  btnText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  listHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  entryRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 2,
+  },
+  procedure: {
+    fontSize: 14,
+    fontWeight: '600',
+    flex: 1,
+  },
+  meta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  error: {
+    fontSize: 12,
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+  input: {
+    fontSize: 11,
+    fontFamily: 'monospace',
+    marginTop: 6,
+    padding: 8,
+    borderRadius: 6,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+  },
+});
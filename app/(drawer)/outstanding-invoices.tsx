@@ -18,6 +18,7 @@ import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { t } from '@/lib/i18n';
 import { api } from '@/lib/api';
+import type { OutstandingReport } from '@/lib/schemas/accounting';
 
 interface Invoice {
   id: string;
@@ -71,32 +72,20 @@ export default function OutstandingInvoicesScreen() {
       if (!user?.branchId) return;
       
       // Load data based on user role permissions - pass branchId for proper filtering
-      const promises: Promise<any>[] = [];
+      const empty: OutstandingReport = { invoices: [] };
+      const [receivablesResult, payablesResult] = await Promise.all([
+        canAccessReceivables
+          ? api.accounting.reports.outstandingReceivables(user.branchId)
+          : Promise.resolve(empty),
+        canAccessPayables
+          ? api.accounting.reports.outstandingPayables(user.branchId)
+          : Promise.resolve(empty),
+      ]);
       
-      if (canAccessReceivables) {
-        promises.push(api.accounting.reports.outstandingReceivables(user.branchId));
-      } else {
-        promises.push(Promise.resolve({ invoices: [] }));
-      }
+      const receivablesData = receivablesResult.invoices;
+      const payablesData = payablesResult.invoices;
       
-      if (canAccessPayables) {
-        promises.push(api.accounting.reports.outstandingPayables(user.branchId));
-      } else {
-        promises.push(Promise.resolve({ invoices: [] }));
-      }
-      
-      const [receivablesResult, payablesResult] = await Promise.all(promises);
-      
-      // Handle different response structures - could be { invoices: [...] } or just array
-      const receivablesData = Array.isArray(receivablesResult) 
-        ? receivablesResult 
-        : (receivablesResult?.invoices || receivablesResult?.data || []);
-      
-      const payablesData = Array.isArray(payablesResult) 
-        ? payablesResult 
-        : (payablesResult?.invoices || payablesResult?.data || []);
-      
-      const receivables = (receivablesData || []).map((inv: any) => {
+      const receivables = receivablesData.map((inv) => {
         const totalAmount = Number(inv.totalSdg) || Number(inv.amountSdg) || 0;
         const paidAmount = Number(inv.paidAmountSdg) || 0;
         const remaining = totalAmount - paidAmount;
@@ -115,7 +104,7 @@ export default function OutstandingInvoicesScreen() {
         };
       });
       
-      const payables = (payablesData || []).map((inv: any) => {
+      const payables = payablesData.map((inv) => {
         const totalAmount = Number(inv.totalSdg) || Number(inv.amountSdg) || 0;
         const paidAmount = Number(inv.paidAmountSdg) || 0;
         const remaining = totalAmount - paidAmount;
@@ -20,69 +20,8 @@ import { useLocaleStore } from '@/stores/locale';
 import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { api } from '@/lib/api';
-
-interface POLine {
-  id: string;
-  qty: number;
-  qtyReceived: number;
-  unitPriceSdg: number;
-  item: {
-    id: string;
-    name: string;
-    nameAr?: string;
-    sku: string;
-    unit?: { name: string; nameAr?: string };
-  };
-}
-
-interface GoodsReceipt {
-  id: string;
-  grNumber: string;
-  receiptDate: string;
-  receiptType: string;
-  receivedBy?: { name: string };
-  lines: { qtyReceived: number; itemId: string }[];
-}
-
-interface SupplierInvoice {
-  id: string;
-  invoiceNumber: string;
-  totalSdg: number;
-  paidAmountSdg?: number;
-  status: string;
-  dueDate: string;
-}
-
-interface PurchaseOrder {
-  id: string;
-  poNumber: string;
-  orderDate: string;
-  status: string;
-  totalSdg: number;
-  totalUsd: number;
-  notes?: string;
-  supplier?: {
-    id: string;
-    name: string;
-    nameAr?: string;
-  };
-  branch?: {
-    id: string;
-    name: string;
-    nameAr?: string;
-  };
-  createdBy?: { name: string };
-  approvedBy?: { name: string };
-  lines: POLine[];
-  goodsReceipts: GoodsReceipt[];
-  supplierInvoices?: SupplierInvoice[];
-}
-
-interface Warehouse {
-  id: string;
-  name: string;
-  nameAr?: string;
-}
+import type { Warehouse } from '@/lib/schemas/inventory';
+import type { PurchaseOrder, PurchaseOrderLine } from '@/lib/schemas/procurement';
 
 interface ReceiptLineInput {
   lineId: string;
@@ -138,30 +77,15 @@ export default function PODetailScreen() {
       ]);
       setIsDayOpen(cycle?.status === 'OPEN');
       
-      const mappedOrder = {
-        ...orderData,
-        totalSdg: Number(orderData.totalSdg) || 0,
-        totalUsd: Number(orderData.totalUsd) || 0,
-        lines: (orderData.lines || []).map((l: any) => ({
-          ...l,
-          qty: Number(l.qty) || 0,
-          qtyReceived: Number(l.qtyReceived) || 0,
-          unitPriceSdg: Number(l.unitPriceSdg) || 0,
-        })),
-        goodsReceipts: orderData.goodsReceipts || [],
-        supplierInvoices: orderData.supplierInvoices || [],
-      };
-      
-      setOrder(mappedOrder);
+      setOrder(orderData);
       
-      const whList = warehousesData?.data || warehousesData || [];
-      setWarehouses(whList);
-      if (whList.length > 0) {
-        setSelectedWarehouse(whList[0].id);
+      setWarehouses(warehousesData);
+      if (warehousesData.length > 0) {
+        setSelectedWarehouse(warehousesData[0].id);
       }
       
       // Initialize receipt lines
-      initReceiptLines(mappedOrder.lines);
+      initReceiptLines(orderData.lines);
     } catch (error: any) {
       console.error('Failed to load order:', error);
       Alert.alert(
@@ -173,7 +97,7 @@ export default function PODetailScreen() {
     }
   };
 
-  const initReceiptLines = (lines: POLine[]) => {
+  const initReceiptLines = (lines: PurchaseOrderLine[]) => {
     const inputs: ReceiptLineInput[] = lines
       .filter(l => l.qty > l.qtyReceived)
       .map(l => ({
@@ -48,15 +48,13 @@ export default function PreviousBudgetScreen() {
       
       const data = await api.accounting.budget.getPreviousPeriods(user.branchId, 12);
       
-      if (data && Array.isArray(data)) {
-        setPeriods(data.map((p: any, index: number) => ({
-          id: p.period || String(index),
-          period: p.period,
-          monthName: p.monthName,
-          monthNameAr: p.monthNameAr,
-          totalSdg: Number(p.totalSdg) || 0,
-        })));
-      }
+      setPeriods(data.map((p, index) => ({
+        id: p.period || String(index),
+        period: p.period,
+        monthName: p.monthName,
+        monthNameAr: p.monthNameAr,
+        totalSdg: p.totalSdg,
+      })));
     } catch (error) {
       console.error('Failed to load previous budgets:', error);
       setPeriods([]);
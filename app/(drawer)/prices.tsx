@@ -21,6 +21,7 @@ import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { t } from '@/lib/i18n';
 import { api, showError } from '@/lib/api';
+import { isApiError, type FieldErrors } from '@/lib/apiError';
 
 interface Item {
   id: string;
@@ -80,6 +81,8 @@ export default function PricesScreen() {
     wholesalePriceUsd: '',
     retailPriceUsd: '',
   });
+  // Fields the server or the input schema rejected on the last submit
+  const [addErrors, setAddErrors] = useState<FieldErrors>({});
 
   const loadItems = async () => {
     try {
@@ -246,6 +249,7 @@ export default function PricesScreen() {
   const handleOpenAddModal = async () => {
     await loadCategoriesAndUnits();
     setNewItem({ nameEn: '', nameAr: '', sku: '', categoryId: '', unitId: '', wholesalePriceUsd: '', retailPriceUsd: '' });
+    setAddErrors({});
     setShowAddModal(true);
   };
 
@@ -270,6 +274,7 @@ export default function PricesScreen() {
       return;
     }
     setAddingItem(true);
+    setAddErrors({});
     try {
       let itemId: string;
 
@@ -283,11 +288,11 @@ export default function PricesScreen() {
           unitId: newItem.unitId,
         });
         itemId = created?.id;
-      } catch (createErr: any) {
-        if (createErr.message?.includes('SKU already exists')) {
+      } catch (createErr) {
+        if (isApiError(createErr, 'CONFLICT')) {
           const allItems = await api.inventory.items.list();
-          const existing = (allItems?.data || allItems || []).find(
-            (it: any) => it.sku === newItem.sku.trim()
+          const existing = allItems.data.find(
+            (it) => it.sku === newItem.sku.trim()
           );
           if (!existing?.id) throw createErr;
           itemId = existing.id;
@@ -318,7 +323,8 @@ export default function PricesScreen() {
       setShowAddModal(false);
       Alert.alert(t('success', locale), locale === 'ar' ? 'تم إضافة الصنف بنجاح' : 'Item added successfully');
       await loadItems();
-    } catch (error: any) {
+    } catch (error) {
+      if (isApiError(error)) setAddErrors(error.fieldErrors);
       showError(error, locale);
     } finally {
       setAddingItem(false);
@@ -522,7 +528,7 @@ export default function PricesScreen() {
                   {locale === 'ar' ? 'الاسم (إنجليزي) *' : 'Name (English) *'}
                 </Text>
                 <TextInput
-                  style={[styles.addInput, { color: theme.text, backgroundColor: theme.backgroundSecondary, borderColor: theme.border }]}
+                  style={[styles.addInput, { color: theme.text, backgroundColor: theme.backgroundSecondary, borderColor: addErrors.nameEn ? theme.error : theme.border }]}
                   placeholder="Item name"
                   placeholderTextColor={theme.inputPlaceholder}
                   value={newItem.nameEn}
@@ -535,7 +541,7 @@ export default function PricesScreen() {
                   {locale === 'ar' ? 'الاسم (عربي)' : 'Name (Arabic)'}
                 </Text>
                 <TextInput
-                  style={[styles.addInput, { color: theme.text, backgroundColor: theme.backgroundSecondary, borderColor: theme.border, textAlign: 'right' }]}
+                  style={[styles.addInput, { color: theme.text, backgroundColor: theme.backgroundSecondary, borderColor: addErrors.nameAr ? theme.error : theme.border, textAlign: 'right' }]}
                   placeholder="اسم الصنف"
                   placeholderTextColor={theme.inputPlaceholder}
                   value={newItem.nameAr}
@@ -548,7 +554,7 @@ export default function PricesScreen() {
                   {locale === 'ar' ? 'رمز الصنف (SKU) *' : 'SKU *'}
                 </Text>
                 <TextInput
-                  style={[styles.addInput, { color: theme.text, backgroundColor: theme.backgroundSecondary, borderColor: theme.border }]}
+                  style={[styles.addInput, { color: theme.text, backgroundColor: theme.backgroundSecondary, borderColor: addErrors.sku ? theme.error : theme.border }]}
                   placeholder="SKU-001"
                   placeholderTextColor={theme.inputPlaceholder}
                   value={newItem.sku}
@@ -604,7 +610,7 @@ export default function PricesScreen() {
                   <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>
                     {t('wholesalePrice', locale)} (USD) *
                   </Text>
-                  <View style={[styles.priceInputWrapper, { backgroundColor: theme.backgroundSecondary, borderColor: theme.border }]}>
+                  <View style={[styles.priceInputWrapper, { backgroundColor: theme.backgroundSecondary, borderColor: addErrors.wholesalePriceUsd ? theme.error : theme.border }]}>
                     <Text style={[styles.currencySymbol, { color: theme.success }]}>$</Text>
                     <TextInput
                       style={[styles.priceInput, { color: theme.text }]}
@@ -622,7 +628,7 @@ export default function PricesScreen() {
                   <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>
                     {t('retailPrice', locale)} (USD) *
                   </Text>
-                  <View style={[styles.priceInputWrapper, { backgroundColor: theme.backgroundSecondary, borderColor: theme.border }]}>
+                  <View style={[styles.priceInputWrapper, { backgroundColor: theme.backgroundSecondary, borderColor: addErrors.retailPriceUsd ? theme.error : theme.border }]}>
                     <Text style={[styles.currencySymbol, { color: theme.success }]}>$</Text>
                     <TextInput
                       style={[styles.priceInput, { color: theme.text }]}
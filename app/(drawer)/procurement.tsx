@@ -25,7 +25,7 @@ interface PurchaseOrder {
   totalSdg: number;
   totalUsd: number;
   status: string;
-  supplier?: { name: string; nameAr: string };
+  supplier?: { name: string; nameAr?: string };
 }
 
 export default function ProcurementScreen() {
@@ -44,12 +44,10 @@ export default function ProcurementScreen() {
     try {
       if (user?.branchId) {
         const result = await api.procurement.orders(user.branchId);
-        const rawData = result?.result?.data?.data || result?.data || result || [];
-        
         // Map the data to ensure correct field names
-        const data = (Array.isArray(rawData) ? rawData : []).map((o: any) => ({
+        const data = result.data.map((o) => ({
           id: o.id,
-          poNumber: o.poNumber || o.orderNumber || `PO-${o.id?.substring(0, 8)}`,
+          poNumber: o.poNumber || `PO-${o.id?.substring(0, 8)}`,
           orderDate: o.orderDate || o.createdAt || new Date().toISOString(),
           totalSdg: Number(o.totalSdg) || 0,
           totalUsd: Number(o.totalUsd) || (Number(o.totalSdg) / 600) || 0,
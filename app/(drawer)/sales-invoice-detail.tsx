@@ -19,41 +19,12 @@ import { useLocaleStore } from '@/stores/locale';
 import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { api, getFullUrl, showError } from '@/lib/api';
+import type { SalesInvoice } from '@/lib/schemas/sales';
 import { t } from '@/lib/i18n';
-
-interface InvoiceLine {
-  id: string;
-  qty: number;
-  unitPriceSdg: number;
-  unitPriceUsd?: number;
-  totalSdg: number;
-  totalUsd?: number;
-  item: {
-    nameEn: string;
-    nameAr: string;
-    sku: string;
-    unit?: { nameEn: string; nameAr?: string; symbol?: string };
-  };
-}
-
-interface SalesInvoice {
-  id: string;
-  invoiceNumber: string;
-  invoiceDate: string;
-  status: string;
-  invoiceType: string;
-  totalSdg: number;
-  totalUsd: number;
-  paidAmountSdg?: number;
-  paymentMethod?: string;
-  transactionNumber?: string;
-  receiptImageUrls?: string[];
-  notes?: string;
-  customer?: { name: string };
-  createdBy?: { name: string };
-  shelf?: { name: string; nameAr?: string };
-  lines?: InvoiceLine[];
-}
+import type { Invoice, PaymentMethod, PaymentStatus } from '@/lib/invoice';
+import { cacheHistoryDetail, getCachedHistoryRecord, offlineRead } from '@/lib/offlineApi';
+import InvoicePreview from '@/components/InvoicePreview';
+import CachedAsOf from '@/components/CachedAsOf';
 
 const STATUS_STEPS = ['DRAFT', 'ISSUED', 'PAID'];
 
@@ -104,6 +75,68 @@ function getInvoiceTypeLabel(type: string, locale: string): string {
   return locale === 'ar' ? label.ar : label.en;
 }
 
+const PRINT_STATUSES: Record<string, PaymentStatus> = {
+  DRAFT: 'DRAFT',
+  PARTIALLY_PAID: 'PARTIALLY_PAID',
+  PAID: 'PAID',
+  CANCELLED: 'CANCELLED',
+};
+
+/**
+ * The invoice in the shape the print template takes. Everything comes from the
+ * record itself, so a copy cached for offline use prints the same as a fresh one.
+ */
+function toPrintableInvoice(invoice: SalesInvoice, branchId: string, isRtl: boolean): Invoice {
+  const totalSdg = Number(invoice.totalSdg) || 0;
+  const totalUsd = Number(invoice.totalUsd) || 0;
+  const paidSdg = invoice.status === 'PAID' ? totalSdg : Number(invoice.paidAmountSdg ?? 0);
+  const exchangeRate = totalUsd > 0 ? totalSdg / totalUsd : 0;
+  const toUsd = (sdg: number) => (exchangeRate > 0 ? sdg / exchangeRate : 0);
+
+  return {
+    id: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    invoiceType: 'SALES',
+    invoiceCategory: invoice.invoiceType === 'WHOLESALE' ? 'WHOLESALE' : 'RETAIL',
+    invoiceDate: invoice.invoiceDate,
+    customer: invoice.customer
+      ? { id: invoice.customer.id, name: invoice.customer.name, nameAr: invoice.customer.nameAr ?? undefined }
+      : undefined,
+    branchId,
+    items: (invoice.lines || []).map((line) => ({
+      id: line.id,
+      itemId: line.itemId ?? '',
+      name: isRtl ? line.item.nameAr : line.item.nameEn,
+      nameAr: line.item.nameAr,
+      sku: line.item.sku,
+      quantity: Number(line.qty),
+      unitPrice: Number(line.unitPriceUsd ?? 0),
+      unitPriceSdg: Number(line.unitPriceSdg),
+      total: Number(line.totalUsd ?? 0),
+      totalSdg: Number(line.totalSdg),
+      unit: line.item.unit?.symbol ?? line.item.unit?.nameEn ?? undefined,
+    })),
+    subtotal: totalUsd,
+    subtotalSdg: totalSdg,
+    discount: 0,
+    discountSdg: 0,
+    tax: 0,
+    taxSdg: 0,
+    total: totalUsd,
+    totalSdg,
+    exchangeRate,
+    paymentStatus: PRINT_STATUSES[invoice.status] ?? 'PENDING',
+    paymentMethod: (invoice.paymentMethod as PaymentMethod | null) ?? undefined,
+    amountPaid: toUsd(paidSdg),
+    amountPaidSdg: paidSdg,
+    amountDue: toUsd(totalSdg - paidSdg),
+    amountDueSdg: totalSdg - paidSdg,
+    notes: invoice.notes ?? undefined,
+    operationNumber: invoice.transactionNumber ?? undefined,
+    createdBy: invoice.createdBy?.name,
+  };
+}
+
 export default function SalesInvoiceDetailScreen() {
   const params = useLocalSearchParams();
   const router = useRouter();
@@ -121,14 +154,26 @@ export default function SalesInvoiceDetailScreen() {
   const [voiding, setVoiding] = useState(false);
   const [showReceiptModal, setShowReceiptModal] = useState(false);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  const [fromCache, setFromCache] = useState(false);
+  const [showPrint, setShowPrint] = useState(false);
 
   const canVoid = ['ADMIN', 'MANAGER'].includes(user?.role || '');
   const showUsd = ['ADMIN', 'MANAGER'].includes(user?.role || '');
 
   const loadInvoice = async () => {
     try {
-      const data = await api.sales.getInvoice(invoiceId);
+      // Kept on the device as it is fetched, so it can still be opened and reprinted offline
+      const { data, fromCache: cached } = await offlineRead(
+        async () => {
+          const fresh = await api.sales.getInvoice(invoiceId);
+          await cacheHistoryDetail('salesInvoices', fresh).catch(() => {});
+          return fresh;
+        },
+        () => getCachedHistoryRecord('salesInvoices', invoiceId),
+        'history.salesInvoices.get'
+      );
       setInvoice(data);
+      setFromCache(cached);
     } catch (e: any) {
       showError(e, locale);
     } finally {
@@ -229,6 +274,8 @@ export default function SalesInvoiceDetailScreen() {
         refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />}
         showsVerticalScrollIndicator={false}
       >
+        <CachedAsOf kind="salesInvoices" visible={fromCache} />
+
         {/* Header Card */}
         <View style={[styles.card, { backgroundColor: theme.card }]}>
           <View style={[styles.row, isRtl && styles.rowReverse, { justifyContent: 'space-between', marginBottom: 8 }]}>
@@ -450,6 +497,17 @@ export default function SalesInvoiceDetailScreen() {
         )}
 
         {/* Actions */}
+        <View style={{ paddingHorizontal: 16 }}>
+          <TouchableOpacity
+            style={[styles.printBtn, { borderColor: theme.primary }]}
+            onPress={() => setShowPrint(true)}
+          >
+            <Ionicons name="print-outline" size={20} color={theme.primary} />
+            <Text style={[styles.voidBtnText, { color: theme.primary }]}>
+              {locale === 'ar' ? 'إعادة طباعة الفاتورة' : 'Reprint Invoice'}
+            </Text>
+          </TouchableOpacity>
+        </View>
         {canVoid && !isCancelled && invoice.status !== 'PAID' && (
           <View style={{ paddingHorizontal: 16, paddingBottom: 32 }}>
             <TouchableOpacity
@@ -473,6 +531,13 @@ export default function SalesInvoiceDetailScreen() {
         <View style={{ height: 32 }} />
       </ScrollView>
 
+      <InvoicePreview
+        visible={showPrint}
+        onClose={() => setShowPrint(false)}
+        invoice={showPrint ? toPrintableInvoice(invoice, user?.branchId || '', isRtl) : null}
+        showUsd={showUsd}
+      />
+
       {/* Receipt Images Modal */}
       <Modal
         visible={showReceiptModal}
@@ -602,6 +667,16 @@ const styles = StyleSheet.create({
     marginTop: 16,
   },
   voidBtnText: { fontSize: 15, fontWeight: '600' },
+  printBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    marginTop: 16,
+  },
   receiptModalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0,0,0,0.9)',
@@ -16,48 +16,7 @@ import { useLocaleStore } from '@/stores/locale';
 import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { api } from '@/lib/api';
-
-interface SOLine {
-  id: string;
-  qty: number;
-  qtyDelivered: number;
-  unitPriceUsd: number;
-  unitPriceSdg: number;
-  item: {
-    id: string;
-    nameEn: string;
-    nameAr?: string;
-    sku: string;
-    unit?: { name: string; nameAr?: string };
-  };
-}
-
-interface SalesOrder {
-  id: string;
-  orderNumber: string;
-  orderDate: string;
-  status: string;
-  totalSdg: number;
-  totalUsd: number;
-  notes?: string;
-  customer?: {
-    id: string;
-    name: string;
-    nameAr?: string;
-  };
-  warehouse?: {
-    id: string;
-    name: string;
-    nameAr?: string;
-  };
-  branch?: {
-    id: string;
-    name: string;
-    nameAr?: string;
-  };
-  createdBy?: { name: string };
-  lines: SOLine[];
-}
+import type { SalesOrder, SalesOrderLine } from '@/lib/schemas/sales';
 
 interface DeliveryLineInput {
   lineId: string;
@@ -101,21 +60,8 @@ export default function SalesOrderDetailScreen() {
 
       setIsDayOpen(cycle?.status === 'OPEN');
 
-      const mappedOrder = {
-        ...data,
-        totalSdg: Number(data.totalSdg),
-        totalUsd: Number(data.totalUsd),
-        lines: data.lines.map((l: any) => ({
-          ...l,
-          qty: Number(l.qty),
-          qtyDelivered: Number(l.qtyDelivered || 0),
-          unitPriceUsd: Number(l.unitPriceUsd),
-          unitPriceSdg: Number(l.unitPriceSdg || 0),
-        })),
-      };
-      
-      setOrder(mappedOrder);
-      initDeliveryLines(mappedOrder.lines);
+      setOrder(data);
+      initDeliveryLines(data.lines);
     } catch (error: any) {
       console.error('Failed to load order:', error);
       Alert.alert(
@@ -127,7 +73,7 @@ export default function SalesOrderDetailScreen() {
     }
   };
 
-  const initDeliveryLines = (lines: SOLine[]) => {
+  const initDeliveryLines = (lines: SalesOrderLine[]) => {
     const inputs: DeliveryLineInput[] = lines
       .filter(l => l.qty > l.qtyDelivered)
       .map(l => ({
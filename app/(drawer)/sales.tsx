@@ -12,6 +12,7 @@ import {
   Modal,
   Image,
   ScrollView,
+  TextInput,
   useWindowDimensions,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
@@ -21,31 +22,17 @@ import { useLocaleStore } from '@/stores/locale';
 import { useThemeStore } from '@/stores/theme';
 import { t } from '@/lib/i18n';
 import { api, getFullUrl } from '@/lib/api';
-import { offlineVoidInvoice, getLocalQueuedInvoices } from '@/lib/offlineApi';
+import type { SalesInvoice } from '@/lib/schemas/sales';
+import {
+  offlineVoidInvoice,
+  getLocalQueuedInvoices,
+  offlineRead,
+  getCachedHistory,
+  getCachedHistoryRecord,
+  matchesSearch,
+} from '@/lib/offlineApi';
 import { connectivity } from '@/lib/connectivity';
-
-interface SalesInvoice {
-  id: string;
-  invoiceNumber: string;
-  invoiceDate: string;
-  totalSdg: number;
-  totalUsd: number;
-  status: string;
-  invoiceType: string;
-  paymentMethod?: string;
-  transactionNumber?: string;
-  receiptImageUrls?: string[];
-  customer?: { name: string };
-  createdBy?: { id: string; name: string };
-  shelf?: { name: string; nameAr: string };
-  lines?: Array<{
-    id: string;
-    qty: number;
-    unitPriceSdg: number;
-    totalSdg: number;
-    item: { nameEn: string; nameAr: string; sku: string; unit?: { nameEn: string } };
-  }>;
-}
+import CachedAsOf from '@/components/CachedAsOf';
 
 export default function SalesScreen() {
   const router = useRouter();
@@ -66,6 +53,8 @@ export default function SalesScreen() {
   const [loadingDetail, setLoadingDetail] = useState(false);
   const [detailedInvoice, setDetailedInvoice] = useState<SalesInvoice | null>(null);
   const [activeFilter, setActiveFilter] = useState<'all' | 'paid' | 'outstanding' | 'cancelled'>('all');
+  const [search, setSearch] = useState('');
+  const [fromCache, setFromCache] = useState(false);
   const isRtl = locale === 'ar';
   const isAdminOrManager = user?.role === 'ADMIN' || user?.role === 'MANAGER';
 
@@ -88,13 +77,15 @@ export default function SalesScreen() {
           _queued: true,
         }));
 
-        if (connectivity.isOnline()) {
-          const result = await api.sales.invoices(user.branchId);
-          const serverInvoices = result?.result?.data?.data || result?.data || [];
-          setInvoices([...queuedFormatted, ...serverInvoices]);
-        } else {
-          setInvoices(queuedFormatted);
-        }
+        // Offline, the last 30 days kept on the device stand in for the server's list
+        const branchId = user.branchId;
+        const result = await offlineRead(
+          async () => (await api.sales.invoices(branchId)).data,
+          () => getCachedHistory('salesInvoices'),
+          'history.salesInvoices'
+        );
+        setFromCache(result.fromCache);
+        setInvoices([...queuedFormatted, ...result.data]);
       }
     } catch (error) {
       console.error('Failed to load invoices:', error);
@@ -171,7 +162,11 @@ export default function SalesScreen() {
     if (showUsd) {
       setLoadingDetail(true);
       try {
-        const detail = await api.sales.getInvoice(invoice.id);
+        const { data: detail } = await offlineRead(
+          () => api.sales.getInvoice(invoice.id),
+          () => getCachedHistoryRecord('salesInvoices', invoice.id),
+          'history.salesInvoices.get'
+        );
         setDetailedInvoice(detail);
       } catch (e) {
         console.error('Failed to load invoice detail', e);
@@ -202,7 +197,7 @@ export default function SalesScreen() {
                 shelfId: (user as any)?.shelf?.id,
                 role: user!.role,
               };
-              const outcome = await offlineVoidInvoice(selectedInvoice.id, undefined, userCtx);
+              const outcome = await offlineVoidInvoice(selectedInvoice, undefined, userCtx);
               Alert.alert(
                 t('success', locale),
                 outcome.queued
@@ -244,9 +239,8 @@ export default function SalesScreen() {
         transactionType: 'BANK_IN',
         pageSize: 50,
       });
-      const transactions: any[] = result?.data || result || [];
-      const linked = transactions.find(
-        (tx: any) =>
+      const linked = result.data.find(
+        (tx) =>
           tx.referenceNumber === selectedInvoice.invoiceNumber ||
           (tx.description && tx.description.includes(selectedInvoice.invoiceNumber))
       );
@@ -270,11 +264,14 @@ export default function SalesScreen() {
   };
 
   const getFilteredInvoices = () => {
+    const matching = invoices.filter(i =>
+      matchesSearch(search, i.invoiceNumber, i.customer?.name, i.customer?.nameAr, i.transactionNumber, i.totalSdg)
+    );
     switch (activeFilter) {
-      case 'paid': return invoices.filter(i => i.status === 'PAID');
-      case 'outstanding': return invoices.filter(i => ['DRAFT', 'ISSUED', 'PARTIALLY_PAID'].includes(i.status));
-      case 'cancelled': return invoices.filter(i => i.status === 'CANCELLED');
-      default: return invoices;
+      case 'paid': return matching.filter(i => i.status === 'PAID');
+      case 'outstanding': return matching.filter(i => ['DRAFT', 'ISSUED', 'PARTIALLY_PAID'].includes(i.status));
+      case 'cancelled': return matching.filter(i => i.status === 'CANCELLED');
+      default: return matching;
     }
   };
 
@@ -367,6 +364,26 @@ export default function SalesScreen() {
         <Text style={styles.newSaleText}>{t('newSale', locale)}</Text>
       </TouchableOpacity>
 
+      <CachedAsOf kind="salesInvoices" visible={fromCache} />
+
+      {/* Search Bar */}
+      <View style={[styles.searchContainer, { backgroundColor: theme.card, borderColor: theme.border }, isRtl && styles.searchContainerRtl]}>
+        <Ionicons name="search" size={20} color={theme.textSecondary} />
+        <TextInput
+          style={[styles.searchInput, { color: theme.text }, isRtl && styles.searchInputRtl]}
+          placeholder={t('search', locale)}
+          placeholderTextColor={theme.inputPlaceholder}
+          value={search}
+          onChangeText={setSearch}
+          textAlign={isRtl ? 'right' : 'left'}
+        />
+        {search.length > 0 && (
+          <TouchableOpacity onPress={() => setSearch('')}>
+            <Ionicons name="close-circle" size={20} color={theme.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
       {/* Filter Tabs */}
       <ScrollView horizontal showsHorizontalScrollIndicator={false} style={[styles.filterContainer, { backgroundColor: theme.card }]} contentContainerStyle={{ paddingHorizontal: 12, paddingVertical: 8, gap: 8 }}>
         {[
@@ -900,6 +917,28 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '80%',
   },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  searchContainerRtl: {
+    flexDirection: 'row-reverse',
+  },
+  searchInput: {
+    flex: 1,
+    height: 44,
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  searchInputRtl: {
+    marginLeft: 0,
+    marginRight: 12,
+  },
   filterContainer: {
     maxHeight: 52,
     borderBottomWidth: 1,
@@ -18,6 +18,8 @@ import { useLocaleStore } from '@/stores/locale';
 import { useThemeStore } from '@/stores/theme';
 import { t } from '@/lib/i18n';
 import { api } from '@/lib/api';
+import { confirmLogout } from '@/lib/sync/confirmLogout';
+import ServerProfileManager from '@/components/ServerProfileManager';
 
 export default function SettingsScreen() {
   const { user, logout } = useAuthStore();
@@ -100,6 +102,7 @@ export default function SettingsScreen() {
           text: t('logout', locale),
           style: 'destructive',
           onPress: async () => {
+            if (!(await confirmLogout(locale === 'ar'))) return;
             await logout();
             router.replace('/login');
           },
@@ -230,6 +233,13 @@ export default function SettingsScreen() {
         />
       </View>
 
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: theme.textSecondary }, isRtl && styles.textRtl]}>
+          {locale === 'ar' ? 'الخوادم' : 'Servers'}
+        </Text>
+        <ServerProfileManager onSwitched={() => router.replace('/login')} />
+      </View>
+
       {/* Bank Accounts Section (Admin only) */}
       {isAdmin && (
         <View style={styles.section}>
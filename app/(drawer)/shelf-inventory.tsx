@@ -30,8 +30,8 @@ interface InventoryItem {
   sku: string;
   nameEn: string;
   nameAr: string;
-  unit?: { symbol: string; name: string };
-  category?: { name: string; nameAr: string };
+  unit?: { symbol?: string; name?: string };
+  category?: { name?: string; nameAr?: string };
   totalStock: number;
   batches: BatchInfo[];
 }
@@ -91,11 +91,10 @@ export default function ShelfInventoryScreen() {
     try {
       // Get shelf stock with item details from backend
       const stockResult = await api.inventory.stockManagement.getShelfStock(shelfIdParam, { pageSize: 100 });
-      const stockData = stockResult?.data || stockResult || [];
       
       // For each item with stock, fetch batch details
       const itemsWithBatches: InventoryItem[] = await Promise.all(
-        stockData.map(async (stockItem: any) => {
+        stockResult.data.map(async (stockItem) => {
           const item = stockItem.item;
           const totalQty = Number(stockItem.totalQty) || 0;
           
@@ -146,9 +145,8 @@ export default function ShelfInventoryScreen() {
       // Try fallback to items list if stock API fails
       try {
         const itemsResult = await api.inventory.items.list();
-        const allItems = itemsResult?.data || itemsResult || [];
         
-        const itemsWithBatches: InventoryItem[] = allItems.map((item: any) => ({
+        const itemsWithBatches: InventoryItem[] = itemsResult.data.map((item) => ({
           id: item.id,
           sku: item.sku || 'N/A',
           nameEn: item.nameEn || item.name || '',
@@ -20,43 +20,9 @@ import { useLocaleStore } from '@/stores/locale';
 import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { api } from '@/lib/api';
-
-interface RequestLine {
-  id: string;
-  qtyRequested: number;
-  qtyApproved: number;
-  qtyIssued: number;
-  item: {
-    id: string;
-    nameEn: string;
-    nameAr?: string;
-    sku: string;
-    unit?: { name: string; nameAr?: string };
-  };
-}
-
-interface GoodsRequest {
-  id: string;
-  requestNumber: string;
-  requestDate: string;
-  status: string;
-  notes?: string;
-  shelf?: {
-    id: string;
-    name: string;
-    nameAr?: string;
-    branch?: { name: string; nameAr?: string };
-  };
-  requestedBy?: { name: string };
-  lines: RequestLine[];
-  approvals?: { approvedBy?: { name: string }; notes?: string }[];
-}
-
-interface Warehouse {
-  id: string;
-  name: string;
-  nameAr?: string;
-}
+import { offlineIssueGoodsRequest } from '@/lib/offlineApi';
+import type { Warehouse } from '@/lib/schemas/inventory';
+import type { GoodsRequest, GoodsRequestLine } from '@/lib/schemas/sales';
 
 interface IssueLineInput {
   lineId: string;
@@ -103,25 +69,14 @@ export default function ShelfRequestDetailScreen() {
       ]);
       setIsDayOpen(cycle?.status === 'OPEN');
       
-      const mappedRequest = {
-        ...requestData,
-        lines: requestData.lines.map((l: any) => ({
-          ...l,
-          qtyRequested: Number(l.qtyRequested),
-          qtyApproved: Number(l.qtyApproved || 0),
-          qtyIssued: Number(l.qtyIssued || 0),
-        })),
-      };
+      setRequest(requestData);
       
-      setRequest(mappedRequest);
-      
-      const whList = warehousesData?.data || warehousesData || [];
-      setWarehouses(whList);
-      if (whList.length > 0) {
-        setSelectedWarehouse(whList[0].id);
+      setWarehouses(warehousesData);
+      if (warehousesData.length > 0) {
+        setSelectedWarehouse(warehousesData[0].id);
       }
       
-      initIssueLines(mappedRequest.lines);
+      initIssueLines(requestData.lines);
     } catch (error: any) {
       console.error('Failed to load request:', error);
       Alert.alert(
@@ -133,7 +88,7 @@ export default function ShelfRequestDetailScreen() {
     }
   };
 
-  const initIssueLines = (lines: RequestLine[]) => {
+  const initIssueLines = (lines: GoodsRequestLine[]) => {
     const inputs: IssueLineInput[] = lines
       .filter(l => l.qtyApproved > l.qtyIssued)
       .map(l => ({
@@ -236,20 +191,33 @@ export default function ShelfRequestDetailScreen() {
           onPress: async () => {
             try {
               setSubmitting(true);
-              await api.sales.goodsRequests.issue({
-                requestId: id!,
+              const userCtx = {
+                userId: user!.id,
+                branchId: user!.branchId!,
                 warehouseId: selectedWarehouse,
-                lines: validLines.map(l => ({
-                  lineId: l.lineId,
-                  qtyIssued: parseFloat(l.qtyToIssue),
-                })),
-              });
+                role: user!.role,
+              };
+              const outcome = await offlineIssueGoodsRequest(
+                {
+                  requestId: id!,
+                  warehouseId: selectedWarehouse,
+                  lines: validLines.map(l => ({
+                    lineId: l.lineId,
+                    qtyIssued: parseFloat(l.qtyToIssue),
+                  })),
+                },
+                request!,
+                userCtx
+              );
               Alert.alert(
                 locale === 'ar' ? 'نجاح' : 'Success',
-                locale === 'ar' ? 'تم صرف البضائع بنجاح' : 'Goods issued successfully'
+                outcome.queued
+                  ? (locale === 'ar' ? 'تم تسجيل الصرف وسيتم تطبيقه عند الاتصال' : 'Issue queued — will apply when online')
+                  : (locale === 'ar' ? 'تم صرف البضائع بنجاح' : 'Goods issued successfully')
               );
               setIssueMode(false);
-              await loadRequest();
+              // Offline the request cannot be reloaded; it shows as issued after the next sync
+              if (!outcome.queued) await loadRequest();
             } catch (error: any) {
               Alert.alert(
                 locale === 'ar' ? 'خطأ' : 'Error',
@@ -21,25 +21,9 @@ import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { t } from '@/lib/i18n';
 import { api } from '@/lib/api';
+import type { GoodsRequest } from '@/lib/schemas/sales';
 import { offlineCreateGoodsRequest, offlineSubmitGoodsRequest } from '@/lib/offlineApi';
 
-interface ShelfRequest {
-  id: string;
-  requestNumber: string;
-  createdAt: string;
-  status: 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED' | 'ISSUED' | 'RECEIVED' | 'CANCELLED';
-  requestedBy?: { name: string };
-  notes?: string;
-  lines: {
-    id: string;
-    item: { nameEn: string; nameAr: string; sku: string };
-    qtyRequested: number;
-    qtyApproved?: number;
-    qtyIssued?: number;
-    qtyReceived?: number;
-  }[];
-}
-
 interface AvailableItem {
   id: string;
   name: string;
@@ -63,7 +47,7 @@ export default function ShelfRequestsScreen() {
   const { user } = useAuthStore();
   const isRtl = locale === 'ar';
 
-  const [requests, setRequests] = useState<ShelfRequest[]>([]);
+  const [requests, setRequests] = useState<GoodsRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   
@@ -112,8 +96,7 @@ export default function ShelfRequestsScreen() {
         branchId: user?.branchId,
         pageSize: 100,
       });
-      const data = result?.data || result || [];
-      setRequests(Array.isArray(data) ? data : []);
+      setRequests(result.data);
     } catch (error) {
       console.error('Failed to load requests:', error);
       setRequests([]);
@@ -123,12 +106,11 @@ export default function ShelfRequestsScreen() {
   const loadAvailableItems = async () => {
     try {
       const result = await api.inventory.items.list();
-      const items = result?.data || result || [];
       setAvailableItems(
-        items.map((item: any) => ({
+        result.data.map((item) => ({
           id: item.id,
-          name: item.nameEn || item.name,
-          nameAr: item.nameAr || item.name,
+          name: item.nameEn || item.name || '',
+          nameAr: item.nameAr || item.name || '',
           sku: item.sku || 'N/A',
           unit: item.unit?.symbol || item.unit?.name || 'unit',
         }))
@@ -177,7 +159,7 @@ export default function ShelfRequestsScreen() {
     return labels[status] || { en: status, ar: status };
   };
 
-  const handleApprove = async (request: ShelfRequest, event: any) => {
+  const handleApprove = async (request: GoodsRequest, event: any) => {
     event?.stopPropagation?.();
     
     Alert.alert(
@@ -198,30 +180,18 @@ export default function ShelfRequestsScreen() {
               setApprovingId(request.id);
               
               // Fetch full request details to get lines
-              const fullRequestResult = await api.sales.goodsRequests.getById(request.id);
-              
-              // Handle different response structures
-              const fullRequest = fullRequestResult?.result?.data?.json || 
-                                 fullRequestResult?.result?.data || 
-                                 fullRequestResult?.data || 
-                                 fullRequestResult;
-              
-              if (!fullRequest) {
-                throw new Error(locale === 'ar' ? 'فشل في تحميل تفاصيل الطلب' : 'Failed to load request details');
-              }
-              
-              const lines = fullRequest.lines || [];
+              const { lines } = await api.sales.goodsRequests.getById(request.id);
               
-              if (!Array.isArray(lines) || lines.length === 0) {
+              if (lines.length === 0) {
                 throw new Error(locale === 'ar' ? 'الطلب لا يحتوي على أصناف' : 'Request has no items');
               }
               
               // Approve all lines with their requested quantities
               await api.sales.goodsRequests.approve({
                 requestId: request.id,
-                lines: lines.map((line: any) => ({
+                lines: lines.map((line) => ({
                   lineId: line.id,
-                  qtyApproved: Number(line.qtyRequested) || 0,
+                  qtyApproved: line.qtyRequested,
                 })),
               });
 
@@ -337,6 +307,11 @@ export default function ShelfRequestsScreen() {
 
       const createOutcome = await offlineCreateGoodsRequest(payload, userCtx);
 
+      // Offline this queues the submit behind the create
+      if (createOutcome.result?.id) {
+        await offlineSubmitGoodsRequest(createOutcome.result.id, userCtx);
+      }
+
       if (createOutcome.queued) {
         Alert.alert(
           locale === 'ar' ? 'نجاح' : 'Success',
@@ -345,10 +320,6 @@ export default function ShelfRequestsScreen() {
             : `Request saved offline (${createOutcome.localRef}) — will submit when online`
         );
       } else {
-        // Auto-submit when online
-        if (createOutcome.result?.id) {
-          await offlineSubmitGoodsRequest(createOutcome.result.id, userCtx);
-        }
         Alert.alert(
           locale === 'ar' ? 'نجاح' : 'Success',
           locale === 'ar' ? 'تم إرسال الطلب بنجاح' : 'Request submitted successfully'
@@ -381,7 +352,7 @@ export default function ShelfRequestsScreen() {
   const canApprove = ['ADMIN', 'MANAGER'].includes(user?.role || '');
   const [approvingId, setApprovingId] = useState<string | null>(null);
 
-  const renderRequest = ({ item }: { item: ShelfRequest }) => {
+  const renderRequest = ({ item }: { item: GoodsRequest }) => {
     const statusColor = getStatusColor(item.status);
     const itemCount = item.lines?.reduce((sum, l) => sum + l.qtyRequested, 0) || 0;
     const canIssueRequest = item.status === 'APPROVED' && canIssue;
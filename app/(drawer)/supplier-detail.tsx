@@ -64,8 +64,7 @@ export default function SupplierDetailScreen() {
       if (!id || !user?.branchId) return;
 
       // Fetch supplier data
-      const supplierData = await api.procurement.suppliers.getById(id);
-      const supplierResult = supplierData?.result?.data?.json || supplierData?.result?.data || supplierData;
+      const supplierResult = await api.procurement.suppliers.getById(id);
       
       setSupplier({
         id: supplierResult.id,
@@ -80,8 +79,7 @@ export default function SupplierDetailScreen() {
       // Fetch orders for this supplier
       try {
         const ordersData = await api.procurement.orders(user.branchId, 1, { supplierId: id });
-        const ordersResult = ordersData?.result?.data?.data || ordersData?.data || ordersData || [];
-        const allOrders = (Array.isArray(ordersResult) ? ordersResult : []).map((o: any) => ({
+        const allOrders = ordersData.data.map((o) => ({
           id: o.id,
           poNumber: o.poNumber || `PO-${o.id?.substring(0, 8)}`,
           orderDate: o.orderDate || o.createdAt || new Date().toISOString(),
@@ -20,39 +20,10 @@ import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { t } from '@/lib/i18n';
 import { api, uploadReceipt, getFullUrl } from '@/lib/api';
-
-interface SupplierInvoice {
-  id: string;
-  invoiceNumber: string;
-  supplier: {
-    id: string;
-    name: string;
-    nameAr?: string;
-    isConsignor: boolean;
-  };
-  purchaseOrder?: {
-    id: string;
-    poNumber: string;
-    status: string;
-    lines: Array<{
-      id: string;
-      item: { nameEn: string; nameAr: string; sku: string };
-      qty: number;
-      unitPriceSdg: number;
-      totalSdg: number;
-    }>;
-  };
-  totalSdg: number;
-  paidAmountSdg?: number;
-  invoiceDate: string;
-  dueDate: string;
-  status: string;
-  paymentMethod?: string;
-  transactionNumber?: string;
-  paidDate?: string;
-  notes?: string;
-  receiptImageUrl?: string;
-}
+import { useSubmitKey } from '@/lib/submitKey';
+import type { SupplierInvoice } from '@/lib/schemas/accounting';
+import { cacheHistoryDetail, getCachedHistoryRecord, offlineRead } from '@/lib/offlineApi';
+import CachedAsOf from '@/components/CachedAsOf';
 
 export default function SupplierInvoiceDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -65,8 +36,10 @@ export default function SupplierInvoiceDetailScreen() {
 
   const [invoice, setInvoice] = useState<SupplierInvoice | null>(null);
   const [loading, setLoading] = useState(true);
+  const paymentKey = useSubmitKey();
   const [refreshing, setRefreshing] = useState(false);
   const [processing, setProcessing] = useState(false);
+  const [fromCache, setFromCache] = useState(false);
 
   // Payment modal state
   const [showPaymentModal, setShowPaymentModal] = useState(false);
@@ -84,13 +57,19 @@ export default function SupplierInvoiceDetailScreen() {
   const loadInvoice = async () => {
     if (!id) return;
     try {
-      const data = await api.accounting.supplierInvoices.getById(id);
-      setInvoice({
-        ...data,
-        totalSdg: Number(data.totalSdg) || 0,
-        paidAmountSdg: Number(data.paidAmountSdg) || 0,
-      });
-      setPaymentAmount(String(Number(data.totalSdg) - (Number(data.paidAmountSdg) || 0)));
+      // Kept on the device as it is fetched, so it can still be opened offline
+      const { data, fromCache: cached } = await offlineRead(
+        async () => {
+          const fresh = await api.accounting.supplierInvoices.getById(id);
+          await cacheHistoryDetail('supplierInvoices', fresh).catch(() => {});
+          return fresh;
+        },
+        () => getCachedHistoryRecord('supplierInvoices', id),
+        'history.supplierInvoices.get'
+      );
+      setInvoice(data);
+      setFromCache(cached);
+      if (data) setPaymentAmount(String(data.totalSdg - data.paidAmountSdg));
     } catch (error) {
       console.error('Failed to load invoice:', error);
       Alert.alert(t('error', locale), locale === 'ar' ? 'فشل في تحميل الفاتورة' : 'Failed to load invoice');
@@ -172,7 +151,8 @@ export default function SupplierInvoiceDetailScreen() {
         paidAmountSdg: amount,
         receiptImageUrl,
         receiptImageUrls,
-      });
+      }, { idempotencyKey: paymentKey.next() });
+      paymentKey.settle();
 
       Alert.alert(t('success', locale), locale === 'ar' ? 'تم تسجيل الدفع بنجاح' : 'Payment recorded successfully');
       setShowPaymentModal(false);
@@ -180,6 +160,7 @@ export default function SupplierInvoiceDetailScreen() {
       setReceiptUris([]);
       loadInvoice();
     } catch (error: any) {
+      paymentKey.settle(error);
       Alert.alert(t('error', locale), error.message || (locale === 'ar' ? 'فشل في تسجيل الدفع' : 'Failed to record payment'));
     } finally {
       setProcessing(false);
@@ -310,6 +291,8 @@ export default function SupplierInvoiceDetailScreen() {
         style={styles.scrollView}
         refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />}
       >
+        <CachedAsOf kind="supplierInvoices" visible={fromCache} />
+
         {/* Header Card */}
         <View style={[styles.headerCard, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
           <View style={[styles.headerTop, isRtl && styles.rowReverse]}>
@@ -18,15 +18,7 @@ import { useLocaleStore } from '@/stores/locale';
 import { useThemeStore } from '@/stores/theme';
 import { t } from '@/lib/i18n';
 import { api } from '@/lib/api';
-
-interface Supplier {
-  id: string;
-  name: string;
-  nameAr?: string;
-  phone?: string;
-  email?: string;
-  isActive: boolean;
-}
+import type { Supplier } from '@/lib/schemas/procurement';
 
 export default function SuppliersScreen() {
   const router = useRouter();
@@ -49,7 +41,7 @@ export default function SuppliersScreen() {
   const loadSuppliers = async () => {
     try {
       const result = await api.procurement.suppliers.list();
-      setSuppliers(result?.result?.data?.data || result?.data || []);
+      setSuppliers(result.data);
     } catch (error) {
       console.error('Failed to load suppliers:', error);
       Alert.alert(locale === 'ar' ? 'خطأ' : 'Error', locale === 'ar' ? 'فشل تحميل الموردين' : 'Failed to load suppliers');
@@ -0,0 +1,502 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useThemeStore } from '@/stores/theme';
+import { useLocaleStore } from '@/stores/locale';
+import { useAuthStore } from '@/stores/auth';
+import {
+  discardMutation,
+  getDependents,
+  getMutation,
+  resubmitMutation,
+  type QueueEntry,
+} from '@/lib/sync/mutationQueue';
+import { mutationLabel } from '@/lib/sync/mutationLabels';
+import { moveEntryToDraft } from '@/lib/sync/dailyDraft';
+import { getCachedItems } from '@/lib/offlineApi';
+
+// Entries whose lines can go back on the shelf's daily invoice draft
+const DRAFTABLE = ['sales.invoices.create', 'sales.dailyInvoiceDraft.checkout'];
+
+/** A line of a queued sale, goods request or issue; fields the screen does not edit are sent back as they were. */
+interface PayloadLine {
+  itemId?: string;
+  lineId?: string;
+  qty?: number;
+  qtyRequested?: number;
+  qtyIssued?: number;
+  unitPriceUsd?: number;
+  [field: string]: unknown;
+}
+
+/** The parts of a queued payload this screen edits. */
+interface EditablePayload {
+  lines?: PayloadLine[];
+  /** Goods-request issues: line id → item id. */
+  itemIds?: Record<string, string>;
+  amountSdg?: number;
+  [field: string]: unknown;
+}
+
+interface EditableLine {
+  itemId: string;
+  qty: string;
+  price: string | null;
+  qtyKey: 'qty' | 'qtyRequested' | 'qtyIssued';
+  original: PayloadLine;
+}
+
+/** `itemIds` maps the line ids of a goods-request issue to their items. */
+function toEditableLines(lines: PayloadLine[], itemIds: Record<string, string> = {}): EditableLine[] {
+  return lines.map((line) => {
+    const qtyKey = 'qtyRequested' in line ? 'qtyRequested' : 'qtyIssued' in line ? 'qtyIssued' : 'qty';
+    return {
+      itemId: line.itemId ?? (line.lineId ? itemIds[line.lineId] : ''),
+      qty: String(line[qtyKey] ?? ''),
+      price: 'unitPriceUsd' in line ? String(line.unitPriceUsd) : null,
+      qtyKey,
+      original: line,
+    };
+  });
+}
+
+export default function SyncEntryScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { theme } = useThemeStore();
+  const { locale } = useLocaleStore();
+  const { user } = useAuthStore();
+  const isAr = locale === 'ar';
+
+  const [entry, setEntry] = useState<QueueEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [lines, setLines] = useState<EditableLine[]>([]);
+  const [amount, setAmount] = useState('');
+  const [itemNames, setItemNames] = useState<Map<string, { en: string; ar: string }>>(new Map());
+  const [dependentCount, setDependentCount] = useState(0);
+  const [showDiscard, setShowDiscard] = useState(false);
+  const [discardReason, setDiscardReason] = useState('');
+
+  const loadEntry = useCallback(async () => {
+    if (!id) return;
+    setLoading(true);
+    try {
+      const [found, items, dependents] = await Promise.all([getMutation(id), getCachedItems(), getDependents(id)]);
+      setEntry(found);
+      setDependentCount(dependents.length);
+      setItemNames(new Map(items.map((i: any) => [i.id, { en: i.name_en, ar: i.name_ar || i.name_en }])));
+      if (found) {
+        setLines(Array.isArray(found.payload?.lines) ? toEditableLines(found.payload.lines, found.payload.itemIds) : []);
+        setAmount(typeof found.payload?.amountSdg === 'number' ? String(found.payload.amountSdg) : '');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadEntry();
+  }, [loadEntry]);
+
+  const updateLine = (index: number, change: Partial<EditableLine>) =>
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...change } : line)));
+
+  const removeLine = (index: number) => setLines((prev) => prev.filter((_, i) => i !== index));
+
+  /** The payload with the edited lines and amount; null (after an alert) when a value is invalid. */
+  function buildPayload(): EditablePayload | null {
+    if (!entry) return null;
+    const payload: EditablePayload = { ...entry.payload };
+
+    if (Array.isArray(entry.payload?.lines)) {
+      if (lines.length === 0) {
+        Alert.alert(isAr ? 'خطأ' : 'Error', isAr ? 'يجب أن يبقى بند واحد على الأقل' : 'Keep at least one line');
+        return null;
+      }
+      const edited: PayloadLine[] = [];
+      for (const line of lines) {
+        const qty = parseFloat(line.qty);
+        const price = line.price === null ? null : parseFloat(line.price);
+        if (!(qty > 0) || (price !== null && !(price >= 0))) {
+          Alert.alert(isAr ? 'خطأ' : 'Error', isAr ? 'تحقق من الكميات والأسعار' : 'Check the quantities and prices');
+          return null;
+        }
+        edited.push({ ...line.original, [line.qtyKey]: qty, ...(price !== null && { unitPriceUsd: price }) });
+      }
+      payload.lines = edited;
+    }
+
+    if (typeof entry.payload?.amountSdg === 'number') {
+      const amountSdg = parseFloat(amount);
+      if (!(amountSdg > 0)) {
+        Alert.alert(isAr ? 'خطأ' : 'Error', isAr ? 'المبلغ يجب أن يكون أكبر من صفر' : 'Amount must be greater than 0');
+        return null;
+      }
+      payload.amountSdg = amountSdg;
+    }
+    return payload;
+  }
+
+  async function handleResubmit() {
+    const payload = buildPayload();
+    if (!entry || !payload) return;
+    setWorking(true);
+    try {
+      const outcome = await resubmitMutation(entry.id, payload);
+      const messages = {
+        synced: isAr ? 'تمت مزامنة العملية' : 'The operation was synced',
+        failed: isAr ? 'رفض الخادم العملية مرة أخرى' : 'The server rejected it again',
+        dead: isAr ? 'تعذر الإرسال بعد عدة محاولات' : 'Could not be sent after several attempts',
+        retrying: isAr ? 'تعذر الاتصال بالخادم، ستُعاد المحاولة تلقائياً' : 'The server could not be reached; it will retry automatically',
+        held: isAr ? 'بانتظار عملية سابقة تعتمد عليها' : 'Waiting for an earlier operation it depends on',
+        queued: isAr ? 'ستُرسل عند الاتصال' : 'It will be sent when online',
+      };
+      Alert.alert(isAr ? 'إعادة الإرسال' : 'Resubmit', messages[outcome]);
+      if (outcome === 'failed' || outcome === 'dead') await loadEntry();
+      else router.back();
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  function handleMoveToDraft() {
+    if (!entry) return;
+    Alert.alert(
+      isAr ? 'نقل إلى الفاتورة اليومية' : 'Move to Daily Invoice',
+      isAr
+        ? 'ستُضاف البنود إلى الفاتورة اليومية للرف وتُلغى هذه العملية.'
+        : "The lines are added to the shelf's daily invoice and this operation is discarded.",
+      [
+        { text: isAr ? 'إلغاء' : 'Cancel', style: 'cancel' },
+        {
+          text: isAr ? 'نقل' : 'Move',
+          onPress: async () => {
+            setWorking(true);
+            try {
+              await moveEntryToDraft(entry, user?.name || '');
+              router.back();
+            } catch (error: any) {
+              Alert.alert(isAr ? 'خطأ' : 'Error', error?.message || '');
+            } finally {
+              setWorking(false);
+            }
+          },
+        },
+      ]
+    );
+  }
+
+  async function handleDiscard() {
+    if (!entry) return;
+    if (!discardReason.trim()) {
+      Alert.alert(isAr ? 'خطأ' : 'Error', isAr ? 'اكتب سبب الإلغاء' : 'Enter a reason');
+      return;
+    }
+    setWorking(true);
+    try {
+      await discardMutation(entry.id, discardReason.trim(), user?.name || '');
+      setShowDiscard(false);
+      router.back();
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.background }]}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </View>
+    );
+  }
+
+  if (!entry) {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.background }]}>
+        <Text style={{ color: theme.textSecondary }}>{isAr ? 'العملية غير موجودة' : 'Operation not found'}</Text>
+      </View>
+    );
+  }
+
+  // Dead entries gave up after transient errors; they are resolved the same way
+  const failed = entry.status === 'failed' || entry.status === 'dead';
+  const secondary = theme.textSecondary || '#9ca3af';
+  const itemName = (itemId: string) => {
+    const name = itemNames.get(itemId);
+    return name ? (isAr ? name.ar : name.en) : itemId;
+  };
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={[styles.card, { backgroundColor: theme.card }]}>
+        <Text style={[styles.sectionTitle, { color: theme.text }]}>{mutationLabel(entry.mutationType, isAr)}</Text>
+        {entry.localRef && (
+          <Text style={[styles.meta, { color: secondary }]}>{isAr ? 'المرجع: ' : 'Ref: '}{entry.localRef}</Text>
+        )}
+        <Text style={[styles.meta, { color: secondary }]}>
+          {new Date(entry.createdAt).toLocaleString(isAr ? 'ar-SD' : 'en-US')}
+          {entry.retryCount > 0 ? (isAr ? ` · ${entry.retryCount} محاولات` : ` · ${entry.retryCount} attempts`) : ''}
+        </Text>
+        {entry.errorMessage && (
+          <View style={[styles.errorBox, { backgroundColor: '#fef2f2' }]}>
+            <Ionicons name="warning-outline" size={16} color="#ef4444" />
+            <Text style={styles.errorText}>{entry.errorMessage}</Text>
+          </View>
+        )}
+        {entry.status === 'discarded' && (
+          <Text style={[styles.meta, { color: theme.text }]}>
+            {isAr ? 'سبب الإلغاء: ' : 'Discarded: '}{entry.discardReason}
+            {entry.resolvedBy ? (isAr ? ` (${entry.resolvedBy})` : ` (by ${entry.resolvedBy})`) : ''}
+          </Text>
+        )}
+        {dependentCount > 0 && (
+          <Text style={[styles.meta, { color: '#f59e0b' }]}>
+            {isAr
+              ? `${dependentCount} عملية تنتظر هذه العملية`
+              : `${dependentCount} later operation${dependentCount > 1 ? 's wait' : ' waits'} for this one`}
+          </Text>
+        )}
+      </View>
+
+      {lines.length > 0 && (
+        <View style={[styles.card, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>{isAr ? 'البنود' : 'Lines'}</Text>
+          {lines.map((line, index) => (
+            <View key={`${line.itemId}-${index}`} style={[styles.lineRow, { borderColor: theme.border || '#e5e7eb' }]}>
+              <Text style={[styles.lineName, { color: theme.text }]} numberOfLines={1}>
+                {itemName(line.itemId)}
+              </Text>
+              <View style={styles.lineFields}>
+                <TextInput
+                  style={[styles.input, { color: theme.text, borderColor: theme.border || '#e5e7eb' }]}
+                  value={line.qty}
+                  onChangeText={(qty) => updateLine(index, { qty })}
+                  keyboardType="numeric"
+                  editable={failed}
+                  placeholder={isAr ? 'الكمية' : 'Qty'}
+                />
+                {line.price !== null && (
+                  <TextInput
+                    style={[styles.input, { color: theme.text, borderColor: theme.border || '#e5e7eb' }]}
+                    value={line.price}
+                    onChangeText={(price) => updateLine(index, { price })}
+                    keyboardType="decimal-pad"
+                    editable={failed}
+                    placeholder={isAr ? 'السعر $' : 'Price $'}
+                  />
+                )}
+                {failed && (
+                  <TouchableOpacity onPress={() => removeLine(index)}>
+                    <Ionicons name="close-circle" size={22} color="#ef4444" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {typeof entry.payload?.amountSdg === 'number' && (
+        <View style={[styles.card, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>{isAr ? 'المبلغ (ج.س)' : 'Amount (SDG)'}</Text>
+          <TextInput
+            style={[styles.input, { color: theme.text, borderColor: theme.border || '#e5e7eb' }]}
+            value={amount}
+            onChangeText={setAmount}
+            keyboardType="decimal-pad"
+            editable={failed}
+          />
+        </View>
+      )}
+
+      <View style={[styles.card, { backgroundColor: theme.card }]}>
+        <Text style={[styles.sectionTitle, { color: theme.text }]}>{isAr ? 'البيانات المرسلة' : 'Payload'}</Text>
+        <Text style={[styles.payload, { color: theme.text, backgroundColor: theme.background }]}>
+          {JSON.stringify(entry.payload, null, 2)}
+        </Text>
+      </View>
+
+      {failed && (
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.btn, { backgroundColor: theme.primary || '#3b82f6' }, working && styles.btnDisabled]}
+            onPress={handleResubmit}
+            disabled={working}
+          >
+            <Ionicons name="send-outline" size={18} color="#fff" />
+            <Text style={styles.btnText}>{isAr ? 'إعادة الإرسال' : 'Resubmit'}</Text>
+          </TouchableOpacity>
+          {DRAFTABLE.includes(entry.mutationType) && entry.payload?.shelfId && (
+            <TouchableOpacity
+              style={[styles.btn, { backgroundColor: '#8b5cf6' }, working && styles.btnDisabled]}
+              onPress={handleMoveToDraft}
+              disabled={working}
+            >
+              <Ionicons name="cart-outline" size={18} color="#fff" />
+              <Text style={styles.btnText}>{isAr ? 'نقل إلى الفاتورة اليومية' : 'Move to Daily Invoice'}</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.btn, { backgroundColor: '#ef4444' }, working && styles.btnDisabled]}
+            onPress={() => setShowDiscard(true)}
+            disabled={working}
+          >
+            <Ionicons name="trash-outline" size={18} color="#fff" />
+            <Text style={styles.btnText}>{isAr ? 'تجاهل العملية' : 'Discard'}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <Modal visible={showDiscard} animationType="fade" transparent>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
+            <Text style={[styles.sectionTitle, { color: theme.text }]}>{isAr ? 'تجاهل العملية' : 'Discard Operation'}</Text>
+            <Text style={[styles.meta, { color: secondary, marginBottom: 8 }]}>
+              {dependentCount > 0
+                ? isAr
+                  ? `ستُتجاهل أيضاً ${dependentCount} عملية تعتمد عليها. يبقى السبب في سجل العمليات المتجاهلة.`
+                  : `${dependentCount} operation${dependentCount > 1 ? 's' : ''} depending on it will be discarded too. The reason is kept in the discarded list.`
+                : isAr
+                  ? 'يبقى السبب في سجل العمليات المتجاهلة.'
+                  : 'The reason is kept in the discarded list.'}
+            </Text>
+            <TextInput
+              style={[styles.input, styles.reasonInput, { color: theme.text, borderColor: theme.border || '#e5e7eb' }]}
+              value={discardReason}
+              onChangeText={setDiscardReason}
+              placeholder={isAr ? 'السبب' : 'Reason'}
+              multiline
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity onPress={() => setShowDiscard(false)} style={styles.modalBtn}>
+                <Text style={{ color: secondary }}>{isAr ? 'رجوع' : 'Back'}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleDiscard} style={styles.modalBtn} disabled={working}>
+                <Text style={{ color: '#ef4444', fontWeight: '600' }}>{isAr ? 'تجاهل' : 'Discard'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, padding: 16 },
+  centered: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.08,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  meta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  errorBox: {
+    flexDirection: 'row',
+    gap: 6,
+    padding: 10,
+    borderRadius: 8,
+    marginTop: 10,
+  },
+  errorText: {
+    color: '#b91c1c',
+    fontSize: 13,
+    flex: 1,
+  },
+  lineRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  lineName: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  lineFields: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  reasonInput: {
+    flex: 0,
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  payload: {
+    fontSize: 11,
+    fontFamily: 'monospace',
+    padding: 8,
+    borderRadius: 6,
+  },
+  actions: {
+    gap: 10,
+    marginBottom: 24,
+  },
+  btn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 14,
+    borderRadius: 10,
+  },
+  btnDisabled: { opacity: 0.6 },
+  btnText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    borderRadius: 12,
+    padding: 20,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 16,
+  },
+  modalBtn: {
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+});
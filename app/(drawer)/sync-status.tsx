@@ -1,4 +1,5 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { useFocusEffect } from '@react-navigation/native';
 import {
   View,
   Text,
@@ -7,41 +8,149 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Alert,
+  Modal,
+  TextInput,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
 import { useThemeStore } from '@/stores/theme';
 import { useLocaleStore } from '@/stores/locale';
 import { useSyncStore } from '@/stores/sync';
 import { useAuthStore } from '@/stores/auth';
 import {
   getAllMutations,
+  getDiscardedMutations,
+  getOtherUsersQueues,
+  MAX_ATTEMPTS,
+  replayForUser,
   retryFailed,
   refreshPendingCount,
+  type OtherUserQueue,
+  type QueueEntry,
 } from '@/lib/sync/mutationQueue';
-import { performFullSync } from '@/lib/sync/syncManager';
+import { getLocalizedError } from '@/lib/api';
+import { mutationLabel } from '@/lib/sync/mutationLabels';
+import { getTableFreshness, performFullSync, resyncTableNow, type TableFreshness } from '@/lib/sync/syncManager';
+import { getSyncRuns, type SyncRun, type SyncTrigger } from '@/lib/sync/syncRuns';
 import { connectivity } from '@/lib/connectivity';
+import { OfflineDataWipedError } from '@/lib/unlockAttempts';
+
+const TABLE_LABELS: Record<string, { en: string; ar: string }> = {
+  items: { en: 'Items', ar: 'الأصناف' },
+  item_categories: { en: 'Item categories', ar: 'فئات الأصناف' },
+  units: { en: 'Units', ar: 'الوحدات' },
+  unit_conversions: { en: 'Unit conversions', ar: 'تحويلات الوحدات' },
+  price_policies: { en: 'Prices', ar: 'الأسعار' },
+  customers: { en: 'Customers', ar: 'العملاء' },
+  warehouses: { en: 'Warehouses', ar: 'المستودعات' },
+  shelves: { en: 'Shelves', ar: 'الرفوف' },
+  day_cycle: { en: 'Business day', ar: 'يوم العمل' },
+  batches: { en: 'Stock batches', ar: 'دفعات المخزون' },
+  expense_categories: { en: 'Expense categories', ar: 'فئات المصروفات' },
+  bank_accounts: { en: 'Bank accounts', ar: 'الحسابات البنكية' },
+  history: { en: 'Recent invoices and expenses', ar: 'الفواتير والمصروفات الأخيرة' },
+};
+
+const TRIGGER_LABELS: Record<SyncTrigger, { en: string; ar: string }> = {
+  startup: { en: 'App start', ar: 'بدء التطبيق' },
+  interval: { en: 'Scheduled', ar: 'مجدولة' },
+  reconnect: { en: 'Back online', ar: 'عودة الاتصال' },
+  manual: { en: 'Manual', ar: 'يدوية' },
+};
 
 export default function SyncStatusScreen() {
   const { theme } = useThemeStore();
   const { locale } = useLocaleStore();
-  const { user } = useAuthStore();
+  const { user, logout } = useAuthStore();
+  const router = useRouter();
   const { lastSyncAt, isSyncing, pendingMutations, syncErrors } = useSyncStore();
-  const [mutations, setMutations] = useState<any[]>([]);
+  const [mutations, setMutations] = useState<QueueEntry[]>([]);
+  const [discarded, setDiscarded] = useState<QueueEntry[]>([]);
+  const [otherUsers, setOtherUsers] = useState<OtherUserQueue[]>([]);
+  // Whose entries are being sent with their password
+  const [sendingFor, setSendingFor] = useState<OtherUserQueue | null>(null);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [sending, setSending] = useState(false);
   const [isOnline, setIsOnline] = useState(connectivity.isOnline());
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [freshness, setFreshness] = useState<TableFreshness[]>([]);
+  const [expandedRun, setExpandedRun] = useState<number | null>(null);
+  const [resyncing, setResyncing] = useState<string | null>(null);
 
   const isAr = locale === 'ar';
+  const isAdmin = ['ADMIN', 'MANAGER'].includes(user?.role || '');
 
   useEffect(() => {
-    loadMutations();
     const unsub = connectivity.onStatusChange(setIsOnline);
     return unsub;
   }, []);
 
+  // Also after coming back from an entry that was resubmitted or discarded
+  useFocusEffect(
+    useCallback(() => {
+      loadMutations();
+      loadDiagnostics();
+    }, [])
+  );
+
+  // Background runs finish while the screen is open too
+  useEffect(() => {
+    if (!isSyncing) loadDiagnostics();
+  }, [isSyncing]);
+
+  async function loadDiagnostics() {
+    const [recent, tables] = await Promise.all([getSyncRuns(), getTableFreshness()]);
+    setRuns(recent);
+    setFreshness(tables);
+  }
+
   async function loadMutations() {
-    const all = await getAllMutations();
+    const [all, gone, others] = await Promise.all([getAllMutations(), getDiscardedMutations(), getOtherUsersQueues()]);
     setMutations(all);
+    setDiscarded(gone);
+    setOtherUsers(others);
+  }
+
+  const openSendFor = (queue: OtherUserQueue) => {
+    setEmail(queue.email ?? '');
+    setPassword('');
+    setSendingFor(queue);
+  };
+
+  async function handleSendForUser() {
+    if (!sendingFor || !email.trim() || !password) return;
+    setSending(true);
+    try {
+      const result = await replayForUser(sendingFor.userId, email.trim(), password);
+      setSendingFor(null);
+      Alert.alert(
+        isAr ? 'تم الإرسال' : 'Sent',
+        isAr
+          ? `أُرسلت ${result.synced} عملية، وفشلت ${result.failed + result.dead}.`
+          : `${result.synced} sent, ${result.failed + result.dead} failed.`
+      );
+      await loadMutations();
+    } catch (error) {
+      if (error instanceof OfflineDataWipedError) {
+        // The signed-in user's offline data went with it
+        setSendingFor(null);
+        Alert.alert(
+          isAr ? 'خطأ' : 'Error',
+          isAr ? 'محاولات دخول فاشلة كثيرة: تم مسح البيانات المحفوظة على هذا الجهاز، ما عدا العمليات غير المُرسلة.' : error.message
+        );
+        await logout();
+        router.replace('/login');
+        return;
+      }
+      Alert.alert(isAr ? 'خطأ' : 'Error', getLocalizedError(error, locale));
+    } finally {
+      setSending(false);
+    }
   }
 
+  const openEntry = (id: string) => router.push({ pathname: '/(drawer)/sync-entry', params: { id } } as any);
+
   async function handleSyncNow() {
     if (!isOnline) {
       Alert.alert(
@@ -51,13 +160,39 @@ export default function SyncStatusScreen() {
       return;
     }
     if (!user?.branchId) return;
-    await performFullSync({
-      userId: user.id,
-      branchId: user.branchId,
-      shelfId: user.shelf?.id,
-      role: user.role,
-    });
+    await performFullSync(
+      {
+        userId: user.id,
+        branchId: user.branchId,
+        shelfId: user.shelf?.id,
+        role: user.role,
+      },
+      'manual'
+    );
     await loadMutations();
+    await loadDiagnostics();
+  }
+
+  async function handleResync(table: string) {
+    if (!user?.branchId || !isOnline) return;
+    setResyncing(table);
+    try {
+      const ok = await resyncTableNow(table, {
+        userId: user.id,
+        branchId: user.branchId,
+        shelfId: user.shelf?.id,
+        role: user.role,
+      });
+      if (!ok) {
+        Alert.alert(
+          isAr ? 'فشلت المزامنة' : 'Resync failed',
+          isAr ? 'راجع سجل المزامنة أدناه لمعرفة السبب.' : 'See the sync history below for the reason.'
+        );
+      }
+    } finally {
+      setResyncing(null);
+      await loadDiagnostics();
+    }
   }
 
   async function handleRetryFailed() {
@@ -77,26 +212,47 @@ export default function SyncStatusScreen() {
     });
   };
 
-  const mutationLabel = (type: string) => {
-    const labels: Record<string, { en: string; ar: string }> = {
-      'sales.invoices.create': { en: 'Create Sales Invoice', ar: 'إنشاء فاتورة مبيعات' },
-      'sales.invoices.void': { en: 'Void Invoice', ar: 'إلغاء فاتورة' },
-      'sales.goodsRequests.create': { en: 'Create Goods Request', ar: 'إنشاء طلب بضاعة' },
-      'sales.goodsRequests.submit': { en: 'Submit Goods Request', ar: 'إرسال طلب بضاعة' },
-    };
-    const label = labels[type];
-    return label ? (isAr ? label.ar : label.en) : type;
+  const formatAge = (ts: number) => {
+    if (!ts) return isAr ? 'لم تُحدّث بعد' : 'Never updated';
+    const minutes = Math.floor((Date.now() - ts) / 60000);
+    if (minutes < 1) return isAr ? 'حُدّثت الآن' : 'Updated just now';
+    if (minutes < 60) return isAr ? `حُدّثت قبل ${minutes} دقيقة` : `Updated ${minutes} min ago`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return isAr ? `حُدّثت قبل ${hours} ساعة` : `Updated ${hours} h ago`;
+    return isAr ? `حُدّثت قبل ${Math.floor(hours / 24)} يوم` : `Updated ${Math.floor(hours / 24)} d ago`;
+  };
+
+  const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const tableLabel = (table: string) => {
+    const label = TABLE_LABELS[table];
+    return label ? (isAr ? label.ar : label.en) : table;
+  };
+
+  // The newest recorded outcome of a table, to show why a stale table is stale
+  const lastOutcome = (table: string) => {
+    for (const run of runs) {
+      const outcome = run.tables.find((t) => t.table === table);
+      if (outcome) return outcome;
+    }
+    return null;
   };
 
   const statusColor = (status: string) => {
     if (status === 'synced') return '#10b981';
     if (status === 'failed') return '#ef4444';
+    if (status === 'dead') return '#7f1d1d';
     return '#f59e0b';
   };
 
   const statusLabel = (status: string) => {
     if (status === 'synced') return isAr ? 'تمت' : 'Synced';
     if (status === 'failed') return isAr ? 'فشل' : 'Failed';
+    if (status === 'dead') return isAr ? 'توقفت المحاولات' : 'Gave up';
     return isAr ? 'معلق' : 'Pending';
   };
 
@@ -184,6 +340,144 @@ export default function SyncStatusScreen() {
         )}
       </View>
 
+      {/* Offline tables: how fresh each is, with a resync of its own */}
+      {freshness.length > 0 && (
+        <View style={[styles.card, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>
+            {isAr ? 'البيانات على الجهاز' : 'Offline Data'}
+          </Text>
+          {freshness.map((t) => {
+            const outcome = lastOutcome(t.table);
+            return (
+              <View key={t.table} style={[styles.mutationRow, { borderColor: theme.border || '#e5e7eb' }]}>
+                <View style={styles.mutationHeader}>
+                  <Text style={[styles.mutationLabel, { color: theme.text }]}>{tableLabel(t.table)}</Text>
+                  {t.stale && (
+                    <View style={[styles.statusBadge, { backgroundColor: '#f59e0b', marginEnd: 12 }]}>
+                      <Text style={styles.statusText}>{isAr ? 'قديمة' : 'Stale'}</Text>
+                    </View>
+                  )}
+                  {resyncing === t.table ? (
+                    <ActivityIndicator size="small" color={theme.primary || '#3b82f6'} />
+                  ) : (
+                    <TouchableOpacity onPress={() => handleResync(t.table)} disabled={!isOnline || !!resyncing}>
+                      <Text
+                        style={{
+                          color: isOnline && !resyncing ? theme.primary || '#3b82f6' : theme.textSecondary || '#9ca3af',
+                          fontWeight: '600',
+                        }}
+                      >
+                        {isAr ? 'مزامنة' : 'Resync'}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+                <Text style={[styles.mutationMeta, { color: theme.textSecondary || '#9ca3af' }]}>
+                  {formatAge(t.lastSynced)}
+                  {isAr
+                    ? ` · تُحدّث كل ${Math.round(t.staleAfterMs / 60000)} دقيقة`
+                    : ` · refreshed every ${Math.round(t.staleAfterMs / 60000)} min`}
+                </Text>
+                {outcome && !outcome.ok && (
+                  <Text style={[styles.mutationError, { color: '#ef4444' }]}>{outcome.error}</Text>
+                )}
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      {/* Recent sync runs, newest first; tap one for its tables */}
+      {runs.length > 0 && (
+        <View style={[styles.card, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>
+            {isAr ? 'سجل المزامنة' : 'Sync History'}
+          </Text>
+          {runs.map((run) => {
+            const failed = run.tables.filter((t) => !t.ok).length;
+            const rows = run.tables.reduce((sum, t) => sum + t.rows, 0);
+            const bytes = run.tables.reduce((sum, t) => sum + t.bytes, 0);
+            const trigger = TRIGGER_LABELS[run.trigger];
+            const title =
+              run.kind === 'table'
+                ? `${isAr ? 'مزامنة' : 'Resync'}: ${run.tables.map((t) => tableLabel(t.table)).join(', ')}`
+                : `${trigger ? (isAr ? trigger.ar : trigger.en) : run.trigger} · ${
+                    run.kind === 'full' ? (isAr ? 'كاملة' : 'Full') : isAr ? 'الجداول القديمة' : 'Stale tables'
+                  }`;
+            return (
+              <TouchableOpacity
+                key={run.id}
+                style={[styles.mutationRow, { borderColor: theme.border || '#e5e7eb' }]}
+                onPress={() => setExpandedRun(expandedRun === run.id ? null : run.id)}
+              >
+                <View style={styles.mutationHeader}>
+                  <Text style={[styles.mutationLabel, { color: theme.text }]}>{title}</Text>
+                  <View
+                    style={[
+                      styles.statusBadge,
+                      { backgroundColor: run.finishedAt === null ? '#6b7280' : failed > 0 ? '#ef4444' : '#10b981' },
+                    ]}
+                  >
+                    <Text style={styles.statusText}>
+                      {run.finishedAt === null
+                        ? isAr ? 'لم تكتمل' : 'Unfinished'
+                        : failed > 0
+                          ? isAr ? `${failed} فشلت` : `${failed} failed`
+                          : isAr ? 'تمت' : 'OK'}
+                    </Text>
+                  </View>
+                </View>
+                <Text style={[styles.mutationMeta, { color: theme.textSecondary || '#9ca3af' }]}>
+                  {new Date(run.startedAt).toLocaleString(isAr ? 'ar-SD' : 'en-US')}
+                  {run.finishedAt !== null ? ` · ${((run.finishedAt - run.startedAt) / 1000).toFixed(1)} s` : ''}
+                  {` · ${rows} ${isAr ? 'صف' : 'rows'} · ${formatBytes(bytes)}`}
+                </Text>
+                {expandedRun === run.id &&
+                  run.tables.map((t) => (
+                    <View key={t.table} style={styles.runTable}>
+                      <Text style={[styles.mutationMeta, { color: t.ok ? theme.text : '#ef4444' }]}>
+                        {`${t.ok ? '✓' : '✗'} ${tableLabel(t.table)} · ${t.rows} ${isAr ? 'صف' : 'rows'} · ${formatBytes(t.bytes)}`}
+                        {t.failed > 0 ? ` · ${isAr ? `تعذر تنزيل ${t.failed} من التفاصيل` : `${t.failed} details not downloaded`}` : ''}
+                      </Text>
+                      {t.error && <Text style={[styles.mutationError, { color: '#ef4444' }]}>{t.error}</Text>}
+                    </View>
+                  ))}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {/* Entries other users left on this device; only their own session may send them */}
+      {otherUsers.length > 0 && (
+        <View style={[styles.card, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>
+            {isAr ? 'عمليات مستخدمين آخرين' : 'Other Users on This Device'}
+          </Text>
+          {otherUsers.map((queue) => (
+            <View key={queue.userId} style={[styles.mutationRow, { borderColor: theme.border || '#e5e7eb' }]}>
+              <View style={styles.mutationHeader}>
+                <Text style={[styles.mutationLabel, { color: theme.text }]}>
+                  {queue.name || queue.email || (isAr ? 'مستخدم غير معروف' : 'Unknown user')}
+                </Text>
+                {queue.pending > 0 && (
+                  <TouchableOpacity onPress={() => openSendFor(queue)} disabled={!isOnline}>
+                    <Text style={{ color: isOnline ? theme.primary || '#3b82f6' : theme.textSecondary || '#9ca3af', fontWeight: '600' }}>
+                      {isAr ? 'إرسال' : 'Send'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              <Text style={[styles.mutationMeta, { color: theme.textSecondary || '#9ca3af' }]}>
+                {isAr
+                  ? `${queue.pending} معلقة · ${queue.unresolved} تحتاج مراجعة منه`
+                  : `${queue.pending} pending · ${queue.unresolved} for them to fix`}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
       {/* Mutation history */}
       {mutations.length > 0 && (
         <View style={[styles.card, { backgroundColor: theme.card }]}>
@@ -191,10 +485,14 @@ export default function SyncStatusScreen() {
             {isAr ? 'سجل العمليات' : 'Operation Log'}
           </Text>
           {mutations.map((m) => (
-            <View key={m.id} style={[styles.mutationRow, { borderColor: theme.border || '#e5e7eb' }]}>
+            <TouchableOpacity
+              key={m.id}
+              style={[styles.mutationRow, { borderColor: theme.border || '#e5e7eb' }]}
+              onPress={() => openEntry(m.id)}
+            >
               <View style={styles.mutationHeader}>
                 <Text style={[styles.mutationLabel, { color: theme.text }]}>
-                  {mutationLabel(m.mutationType)}
+                  {mutationLabel(m.mutationType, isAr)}
                 </Text>
                 <View style={[styles.statusBadge, { backgroundColor: statusColor(m.status) }]}>
                   <Text style={styles.statusText}>{statusLabel(m.status)}</Text>
@@ -218,7 +516,45 @@ export default function SyncStatusScreen() {
               <Text style={[styles.mutationMeta, { color: theme.textSecondary || '#9ca3af' }]}>
                 {new Date(m.createdAt).toLocaleString(isAr ? 'ar-SD' : 'en-US')}
               </Text>
-            </View>
+              {m.status === 'pending' && m.nextAttemptAt && m.nextAttemptAt > Date.now() && (
+                <Text style={[styles.mutationMeta, { color: '#f59e0b' }]}>
+                  {isAr
+                    ? `المحاولة ${m.retryCount + 1} من ${MAX_ATTEMPTS} عند ${formatTime(m.nextAttemptAt)}`
+                    : `Attempt ${m.retryCount + 1} of ${MAX_ATTEMPTS} at ${formatTime(m.nextAttemptAt)}`}
+                </Text>
+              )}
+              {(m.status === 'failed' || m.status === 'dead') && (
+                <Text style={[styles.mutationMeta, { color: theme.primary || '#3b82f6' }]}>
+                  {isAr ? 'اضغط للتعديل أو الإلغاء' : 'Tap to fix or discard'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Audit trail of discarded entries */}
+      {discarded.length > 0 && (
+        <View style={[styles.card, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>
+            {isAr ? 'العمليات المتجاهلة' : 'Discarded Operations'}
+          </Text>
+          {discarded.map((m) => (
+            <TouchableOpacity
+              key={m.id}
+              style={[styles.mutationRow, { borderColor: theme.border || '#e5e7eb' }]}
+              onPress={() => openEntry(m.id)}
+            >
+              <Text style={[styles.mutationLabel, { color: theme.text }]}>
+                {mutationLabel(m.mutationType, isAr)}
+                {m.localRef ? ` · ${m.localRef}` : ''}
+              </Text>
+              <Text style={[styles.mutationError, { color: theme.text }]}>{m.discardReason}</Text>
+              <Text style={[styles.mutationMeta, { color: theme.textSecondary || '#9ca3af' }]}>
+                {m.resolvedAt ? new Date(m.resolvedAt).toLocaleString(isAr ? 'ar-SD' : 'en-US') : ''}
+                {m.resolvedBy ? (isAr ? ` · بواسطة ${m.resolvedBy}` : ` · by ${m.resolvedBy}`) : ''}
+              </Text>
+            </TouchableOpacity>
           ))}
         </View>
       )}
@@ -231,6 +567,62 @@ export default function SyncStatusScreen() {
           </Text>
         </View>
       )}
+
+      {isAdmin && (
+        <TouchableOpacity
+          style={styles.debugLink}
+          onPress={() => router.push('/(drawer)/network-log' as any)}
+        >
+          <Ionicons name="pulse-outline" size={16} color={theme.textSecondary || '#9ca3af'} />
+          <Text style={[styles.mutationMeta, { color: theme.textSecondary || '#9ca3af', marginTop: 0 }]}>
+            {isAr ? 'سجل الشبكة' : 'Network log'}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      <Modal visible={!!sendingFor} animationType="fade" transparent>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
+            <Text style={[styles.sectionTitle, { color: theme.text }]}>
+              {isAr ? 'الإرسال باسم المستخدم' : 'Send as Their User'}
+            </Text>
+            <Text style={[styles.mutationMeta, { color: theme.textSecondary || '#9ca3af', marginBottom: 8 }]}>
+              {isAr
+                ? 'تُرسل العمليات بحساب من أنشأها. يُستخدم الحساب لهذا الإرسال فقط ولا يتغير المستخدم الحالي.'
+                : 'Operations are sent under the account that made them. It is used for this send only; you stay signed in.'}
+            </Text>
+            {!sendingFor?.email && (
+              <TextInput
+                style={[styles.input, { color: theme.text, borderColor: theme.border || '#e5e7eb' }]}
+                value={email}
+                onChangeText={setEmail}
+                placeholder={isAr ? 'البريد الإلكتروني' : 'Email'}
+                autoCapitalize="none"
+                keyboardType="email-address"
+              />
+            )}
+            <TextInput
+              style={[styles.input, { color: theme.text, borderColor: theme.border || '#e5e7eb' }]}
+              value={password}
+              onChangeText={setPassword}
+              placeholder={isAr ? 'كلمة المرور' : 'Password'}
+              secureTextEntry
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity onPress={() => setSendingFor(null)} style={styles.modalBtn}>
+                <Text style={{ color: theme.textSecondary || '#9ca3af' }}>{isAr ? 'رجوع' : 'Back'}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleSendForUser} style={styles.modalBtn} disabled={sending}>
+                {sending ? (
+                  <ActivityIndicator size="small" color={theme.primary || '#3b82f6'} />
+                ) : (
+                  <Text style={{ color: theme.primary || '#3b82f6', fontWeight: '600' }}>{isAr ? 'إرسال' : 'Send'}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </ScrollView>
   );
 }
@@ -311,6 +703,10 @@ const styles = StyleSheet.create({
     marginTop: 2,
     fontStyle: 'italic',
   },
+  runTable: {
+    paddingStart: 8,
+    marginTop: 4,
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: 40,
@@ -319,4 +715,39 @@ const styles = StyleSheet.create({
   emptyText: {
     fontSize: 16,
   },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    marginTop: 8,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    borderRadius: 12,
+    padding: 20,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 16,
+  },
+  modalBtn: {
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  debugLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    marginBottom: 24,
+  },
 });
@@ -12,6 +12,7 @@ import {
   ScrollView,
   useWindowDimensions,
   Alert,
+  TextInput,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useLocaleStore } from '@/stores/locale';
@@ -19,6 +20,8 @@ import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { t } from '@/lib/i18n';
 import { api, getFullUrl } from '@/lib/api';
+import { getCachedHistory, matchesSearch, offlineRead } from '@/lib/offlineApi';
+import CachedAsOf from '@/components/CachedAsOf';
 
 
 interface Transaction {
@@ -50,6 +53,8 @@ export default function TransactionsScreen() {
   const [showReceiptModal, setShowReceiptModal] = useState(false);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [activeFilter, setActiveFilter] = useState<'all' | 'bank'>('all');
+  const [search, setSearch] = useState('');
+  const [fromCache, setFromCache] = useState(false);
 
   useEffect(() => {
     loadTransactions();
@@ -59,9 +64,15 @@ export default function TransactionsScreen() {
     try {
       if (!user) return;
       
-      const result = await api.accounting.transactions.list(user.branchId, { pageSize: 50 });
-      const data = result?.data || result || [];
+      const branchId = user.branchId;
+      const result = await offlineRead(
+        async () => (await api.accounting.transactions.list(branchId, { pageSize: 50 })).data,
+        () => getCachedHistory('transactions'),
+        'history.transactions'
+      );
+      const data = result.data;
       setTransactions(data);
+      setFromCache(result.fromCache);
       
       // Calculate summary
       let totalIn = 0;
@@ -270,9 +281,11 @@ export default function TransactionsScreen() {
     );
   };
 
-  const filteredTransactions = activeFilter === 'bank'
-    ? transactions.filter(t => ['BANK_IN', 'BANK_OUT'].includes(t.transactionType))
-    : transactions;
+  const filteredTransactions = transactions.filter(
+    (txn) =>
+      (activeFilter !== 'bank' || ['BANK_IN', 'BANK_OUT'].includes(txn.transactionType)) &&
+      matchesSearch(search, txn.description, txn.referenceNumber, txn.amountSdg)
+  );
 
   if (loading) {
     return (
@@ -325,6 +338,26 @@ export default function TransactionsScreen() {
         </View>
       </View>
 
+      <CachedAsOf kind="transactions" visible={fromCache} />
+
+      {/* Search Bar */}
+      <View style={[styles.searchContainer, { backgroundColor: theme.card, borderColor: theme.border }, isRtl && styles.searchContainerRtl]}>
+        <Ionicons name="search" size={20} color={theme.textSecondary} />
+        <TextInput
+          style={[styles.searchInput, { color: theme.text }, isRtl && styles.searchInputRtl]}
+          placeholder={t('search', locale)}
+          placeholderTextColor={theme.inputPlaceholder}
+          value={search}
+          onChangeText={setSearch}
+          textAlign={isRtl ? 'right' : 'left'}
+        />
+        {search.length > 0 && (
+          <TouchableOpacity onPress={() => setSearch('')}>
+            <Ionicons name="close-circle" size={20} color={theme.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
       {/* Transactions List */}
       <FlatList
         data={filteredTransactions}
@@ -482,6 +515,28 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     marginTop: 4,
   },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  searchContainerRtl: {
+    flexDirection: 'row-reverse',
+  },
+  searchInput: {
+    flex: 1,
+    height: 44,
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  searchInputRtl: {
+    marginLeft: 0,
+    marginRight: 12,
+  },
   listContent: {
     paddingHorizontal: 16,
     paddingBottom: 100,
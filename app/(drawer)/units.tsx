@@ -61,7 +61,7 @@ export default function UnitsScreen() {
   const loadUnits = async () => {
     try {
       const data = await api.inventory.units.list();
-      setUnits(Array.isArray(data) ? data : []);
+      setUnits(data);
     } catch (error) {
       console.error('Failed to load units:', error);
       setUnits([]);
@@ -17,26 +17,7 @@ import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { t } from '@/lib/i18n';
 import { api } from '@/lib/api';
-
-interface UserSalesData {
-  user: { id: string; name: string; nameAr: string | null; email: string };
-  totalSalesUsd: number;
-  totalSalesSdg: number;
-  totalCOGS: number;
-  grossProfit: number;
-  invoiceCount: number;
-  itemsSold: number;
-}
-
-interface ReportData {
-  users: UserSalesData[];
-  summary: {
-    totalRevenue: number;
-    totalCOGS: number;
-    totalProfit: number;
-    profitMargin: number;
-  };
-}
+import type { UserSalesProfitReport } from '@/lib/schemas/accounting';
 
 function getMonthStart(date: Date): Date {
   const d = new Date(date);
@@ -71,7 +52,7 @@ export default function UserSalesReportScreen() {
   const [dateFrom, setDateFrom] = useState(getMonthStart(new Date()));
   const [dateTo, setDateTo] = useState(getMonthEnd(new Date()));
   const [showDatePicker, setShowDatePicker] = useState<'from' | 'to' | null>(null);
-  const [data, setData] = useState<ReportData | null>(null);
+  const [data, setData] = useState<UserSalesProfitReport | null>(null);
 
   const formatAmount = (amount: number) =>
     new Intl.NumberFormat(locale === 'ar' ? 'ar-SA' : 'en-US').format(amount);
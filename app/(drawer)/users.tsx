@@ -19,23 +19,7 @@ import { useThemeStore } from '@/stores/theme';
 import { useAuthStore } from '@/stores/auth';
 import { t } from '@/lib/i18n';
 import { api } from '@/lib/api';
-
-interface User {
-  id: string;
-  email: string;
-  name: string;
-  nameAr?: string;
-  role: 'ADMIN' | 'MANAGER' | 'WAREHOUSE_SALES' | 'SHELF_SALES' | 'PROCUREMENT' | 'ACCOUNTANT';
-  branchId: string;
-  branch?: {
-    id: string;
-    name: string;
-    nameAr: string;
-  };
-  isActive: boolean;
-  lastLoginAt?: string;
-  createdAt: string;
-}
+import type { User } from '@/lib/schemas/user';
 
 const roleLabels: Record<string, { en: string; ar: string; color: string }> = {
   ADMIN: { en: 'Admin', ar: 'مدير', color: '#ef4444' },
@@ -101,9 +85,7 @@ export default function UsersScreen() {
 
   const loadBranches = async () => {
     try {
-      const result = await api.branches.list();
-      const data = result?.data || result || [];
-      setBranches(Array.isArray(data) ? data : []);
+      setBranches(await api.branch.list());
     } catch (error) {
       console.error('Failed to load branches:', error);
     }
@@ -111,9 +93,7 @@ export default function UsersScreen() {
 
   const loadShelves = async () => {
     try {
-      const result = await api.inventory.shelves();
-      const data = result?.data || result || [];
-      setShelves(Array.isArray(data) ? data : []);
+      setShelves(await api.inventory.shelves());
     } catch (error) {
       console.error('Failed to load shelves:', error);
     }
@@ -121,9 +101,7 @@ export default function UsersScreen() {
 
   const loadWarehouses = async () => {
     try {
-      const result = await api.inventory.warehouses();
-      const data = result?.data || result || [];
-      setWarehouses(Array.isArray(data) ? data : []);
+      setWarehouses(await api.inventory.warehouses());
     } catch (error) {
       console.error('Failed to load warehouses:', error);
     }
@@ -134,7 +112,7 @@ export default function UsersScreen() {
       const result = await api.users.list({ 
         pageSize: 100,
       });
-      setUsers(result?.data || result || []);
+      setUsers(result.data);
     } catch (error) {
       console.error('Failed to load users:', error);
       setUsers([]);
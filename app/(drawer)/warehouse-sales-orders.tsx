@@ -46,12 +46,11 @@ export default function WarehouseSalesOrdersScreen() {
         const result = await api.sales.salesOrders.list(user.branchId, {
           status: filter === 'pending' ? 'CONFIRMED' : undefined,
         });
-        const rawData = result?.data || result || [];
         
         // Filter orders ready for delivery
-        const filteredOrders = (Array.isArray(rawData) ? rawData : [])
-          .filter((o: any) => filter === 'all' || ['CONFIRMED', 'PARTIALLY_DELIVERED'].includes(o.status))
-          .map((o: any) => ({
+        const filteredOrders = result.data
+          .filter((o) => filter === 'all' || ['CONFIRMED', 'PARTIALLY_DELIVERED'].includes(o.status))
+          .map((o) => ({
             id: o.id,
             orderNumber: o.orderNumber || `SO-${o.id?.substring(0, 8)}`,
             orderDate: o.orderDate || o.createdAt || new Date().toISOString(),
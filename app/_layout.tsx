@@ -10,6 +10,7 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { useLocaleStore } from '@/stores/locale';
 import { useAuthStore } from '@/stores/auth';
 import { useThemeStore } from '@/stores/theme';
+import { useServerStore } from '@/stores/server';
 import ErrorBoundary from '@/components/ErrorBoundary';
 import { initDatabase } from '@/lib/db/database';
 import { startBackgroundSync, stopBackgroundSync, performFullSync } from '@/lib/sync/syncManager';
@@ -43,6 +44,8 @@ export default function RootLayout() {
   useEffect(() => {
     async function prepare() {
       try {
+        // The active server profile decides which offline database to open
+        await useServerStore.getState().load();
         // Initialize offline database first (fast, local)
         await initDatabase();
         await refreshPendingCount();
@@ -81,7 +84,7 @@ export default function RootLayout() {
         role: user.role,
       };
       startBackgroundSync(ctx);
-      performFullSync(ctx).catch(() => {});
+      performFullSync(ctx, 'startup').catch(() => {});
     } else {
       stopBackgroundSync();
     }
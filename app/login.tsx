@@ -10,6 +10,8 @@ import {
   Alert,
   ActivityIndicator,
   Image,
+  Modal,
+  ScrollView,
 } from 'react-native';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
@@ -17,7 +19,13 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuthStore } from '@/stores/auth';
 import { useLocaleStore } from '@/stores/locale';
 import { useThemeStore } from '@/stores/theme';
+import { useServerStore } from '@/stores/server';
 import { t } from '@/lib/i18n';
+import { defaultProfile } from '@/lib/serverProfiles';
+import { isApiError } from '@/lib/apiError';
+import { getUnlockAttemptsLeft, OfflineDataWipedError } from '@/lib/unlockAttempts';
+import { DEMO_ACCOUNTS, DEMO_PASSWORD } from '@/lib/mock/seed';
+import ServerProfileManager from '@/components/ServerProfileManager';
 
 const logo = require('@/assets/logo.jpeg');
 
@@ -26,10 +34,12 @@ export default function LoginScreen() {
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [showServers, setShowServers] = useState(false);
   
   const { login } = useAuthStore();
   const { locale, toggleLocale } = useLocaleStore();
   const { theme } = useThemeStore();
+  const activeProfile = useServerStore((s) => s.profiles.find((p) => p.id === s.activeId)) ?? defaultProfile;
 
   const handleLogin = async () => {
     if (!email || !password) {
@@ -42,8 +52,20 @@ export default function LoginScreen() {
       await login(email, password);
       router.replace('/(drawer)/dashboard');
     } catch (error: any) {
-      const errorMessage = error?.message || t('invalidCredentials', locale);
+      let errorMessage = error?.message || t('invalidCredentials', locale);
       console.error('Login error:', error);
+      if (error instanceof OfflineDataWipedError) {
+        errorMessage = locale === 'ar'
+          ? 'محاولات دخول فاشلة كثيرة: تم مسح البيانات المحفوظة على هذا الجهاز، ما عدا العمليات غير المُرسلة.'
+          : error.message;
+      } else if (isApiError(error, 'UNAUTHORIZED')) {
+        const left = await getUnlockAttemptsLeft(email);
+        if (left <= 3) {
+          errorMessage += locale === 'ar'
+            ? `\n\nبعد ${left} محاولة خاطئة أخرى ستُمسح البيانات المحفوظة على هذا الجهاز، ما عدا العمليات غير المُرسلة.`
+            : `\n\nAfter ${left} more wrong attempt(s) the data stored on this device, except unsynced operations, will be erased.`;
+        }
+      }
       Alert.alert(
         t('error', locale),
         errorMessage,
@@ -124,8 +146,54 @@ export default function LoginScreen() {
                 <Text style={styles.buttonText}>{t('signIn', locale)}</Text>
               )}
             </TouchableOpacity>
+
+            <TouchableOpacity style={styles.serverRow} onPress={() => setShowServers(true)}>
+              <Ionicons name="server-outline" size={16} color={theme.textSecondary} />
+              <Text style={[styles.serverText, { color: theme.textSecondary }]} numberOfLines={1}>
+                {locale === 'ar' ? 'الخادم' : 'Server'}: {activeProfile.name} ({activeProfile.baseUrl})
+              </Text>
+            </TouchableOpacity>
+
+            {activeProfile.transport === 'mock' && (
+              <View style={[styles.demoBox, { backgroundColor: theme.primaryBackground }]}>
+                <Text style={[styles.demoTitle, { color: theme.text }]}>
+                  {locale === 'ar'
+                    ? `حسابات تجريبية (كلمة المرور: ${DEMO_PASSWORD})`
+                    : `Demo accounts (password: ${DEMO_PASSWORD})`}
+                </Text>
+                {DEMO_ACCOUNTS.map((account) => (
+                  <TouchableOpacity
+                    key={account.email}
+                    onPress={() => {
+                      setEmail(account.email);
+                      setPassword(DEMO_PASSWORD);
+                    }}
+                  >
+                    <Text style={[styles.demoAccount, { color: theme.primary }]}>
+                      {account.email} · {account.role}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
           </View>
         </View>
+
+        <Modal visible={showServers} transparent animationType="slide" onRequestClose={() => setShowServers(false)}>
+          <View style={styles.modalOverlay}>
+            <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
+              <View style={styles.modalHeader}>
+                <Text style={[styles.modalTitle, { color: theme.text }]}>{locale === 'ar' ? 'الخوادم' : 'Servers'}</Text>
+                <TouchableOpacity onPress={() => setShowServers(false)}>
+                  <Ionicons name="close" size={24} color={theme.text} />
+                </TouchableOpacity>
+              </View>
+              <ScrollView contentContainerStyle={styles.modalBody} keyboardShouldPersistTaps="handled">
+                <ServerProfileManager onSwitched={() => setShowServers(false)} />
+              </ScrollView>
+            </View>
+          </View>
+        </Modal>
       </KeyboardAvoidingView>
     </SafeAreaView>
   );
@@ -211,4 +279,52 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#fff',
   },
+  serverRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 8,
+  },
+  serverText: {
+    fontSize: 13,
+    flexShrink: 1,
+  },
+  demoBox: {
+    borderRadius: 12,
+    padding: 12,
+    gap: 6,
+  },
+  demoTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  demoAccount: {
+    fontSize: 13,
+    paddingVertical: 2,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '80%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  modalBody: {
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
 });
@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocaleStore } from '@/stores/locale';
+import { useThemeStore } from '@/stores/theme';
+import { getHistoryAsOf } from '@/lib/offlineApi';
+import type { HistoryKind } from '@/lib/sync/history';
+
+interface Props {
+  /** Looks up when this kind of recent records was downloaded. */
+  kind?: HistoryKind;
+  /** When the offline copy was taken, for screens that know it already (`useOfflineQuery`'s `staleSince`). */
+  asOf?: number | null;
+  /** Whether what the screen shows came from the offline copy; nothing is rendered otherwise. */
+  visible: boolean;
+}
+
+/** Tells the user a list is the offline copy, and how old it is. */
+export default function CachedAsOf({ kind, asOf: knownAsOf, visible }: Props) {
+  const { locale } = useLocaleStore();
+  const { theme } = useThemeStore();
+  const [loadedAsOf, setLoadedAsOf] = useState<number | null>(null);
+  const isAr = locale === 'ar';
+  const asOf = knownAsOf !== undefined ? knownAsOf : loadedAsOf;
+
+  useEffect(() => {
+    if (visible && kind) getHistoryAsOf(kind).then(setLoadedAsOf, () => setLoadedAsOf(null));
+  }, [kind, visible]);
+
+  if (!visible) return null;
+
+  const when = asOf
+    ? new Date(asOf).toLocaleString(isAr ? 'ar-SA' : 'en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : null;
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: theme.warning + '20', borderColor: theme.warning },
+        isAr && styles.containerRtl,
+      ]}
+    >
+      <Ionicons name="cloud-offline-outline" size={16} color={theme.warning} />
+      <Text style={[styles.text, { color: theme.text }, isAr && { textAlign: 'right' }]}>
+        {when
+          ? isAr
+            ? `نسخة محفوظة على الجهاز، محدّثة في ${when}`
+            : `Offline copy as of ${when}`
+          : isAr
+            ? 'لم تُحفظ نسخة على الجهاز بعد؛ تُحفظ عند المزامنة'
+            : 'No offline copy yet; one is saved when the app syncs'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  containerRtl: {
+    flexDirection: 'row-reverse',
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+  },
+});
@@ -15,6 +15,7 @@ import { useAuthStore } from '@/stores/auth';
 import { useLocaleStore } from '@/stores/locale';
 import { useThemeStore } from '@/stores/theme';
 import { t } from '@/lib/i18n';
+import { confirmLogout } from '@/lib/sync/confirmLogout';
 
 const logo = require('@/assets/logo.jpeg');
 
@@ -184,6 +185,7 @@ export default function CustomDrawer(props: DrawerContentComponentProps) {
             { icon: 'cart-outline', label: t('goodsRequest', locale), route: '/(drawer)/shelf-requests' },
             { icon: 'cube-outline', label: locale === 'ar' ? 'مخزون الرف' : 'Shelf Inventory', route: '/(drawer)/shelf-inventory' },
             { icon: 'people-outline', label: t('customers', locale), route: '/(drawer)/customers' },
+            { icon: 'card-outline', label: locale === 'ar' ? 'دفعات البنك' : 'Bank Payments', route: '/(drawer)/bank-payments' },
           ],
         },
         {
@@ -215,6 +217,7 @@ export default function CustomDrawer(props: DrawerContentComponentProps) {
   };
 
   const handleLogout = async () => {
+    if (!(await confirmLogout(locale === 'ar'))) return;
     await logout();
     router.replace('/login');
   };
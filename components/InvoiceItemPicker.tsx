@@ -16,7 +16,14 @@ import { useAuthStore } from '@/stores/auth';
 import { api } from '@/lib/api';
 import { t } from '@/lib/i18n';
 import { connectivity } from '@/lib/connectivity';
-import { getCachedItems, getCachedPricePolicies, getCachedStockForShelf, getCachedStockForWarehouse } from '@/lib/offlineApi';
+import {
+  getCachedItems,
+  getCachedPricePolicies,
+  getCachedStockForShelf,
+  getCachedStockForWarehouse,
+  matchesSearch,
+  searchItems,
+} from '@/lib/offlineApi';
 
 interface Batch {
   id: string;
@@ -60,6 +67,7 @@ export default function InvoiceItemPicker({ visible, onClose, onSelect, priceTyp
   const [items, setItems] = useState<InventoryItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [rankedIds, setRankedIds] = useState<string[] | null>(null);
   const [selectedItem, setSelectedItem] = useState<InventoryItem | null>(null);
   const [quantity, setQuantity] = useState('1');
   const [stockError, setStockError] = useState<string | null>(null);
@@ -70,6 +78,17 @@ export default function InvoiceItemPicker({ visible, onClose, onSelect, priceTyp
     }
   }, [visible, user?.branchId, shelfId, warehouseId]);
 
+  useEffect(() => {
+    let cancelled = false;
+    searchItems(searchQuery).then(
+      (rows) => !cancelled && setRankedIds(rows && rows.map((row) => row.id)),
+      () => !cancelled && setRankedIds(null)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [searchQuery]);
+
   const loadItems = async () => {
     if (!user?.branchId) return;
     
@@ -87,8 +106,7 @@ export default function InvoiceItemPicker({ visible, onClose, onSelect, priceTyp
       if (shelfId) {
         try {
           const shelfStock = await api.inventory.stockManagement.getShelfStock(shelfId, { pageSize: 100 });
-          const stockData = shelfStock?.data || shelfStock || [];
-          stockData.forEach((s: any) => {
+          shelfStock.data.forEach((s: any) => {
             const itemId = s.item?.id || s.itemId;
             if (itemId) {
               stockMap.set(itemId, Number(s.totalQty) || 0);
@@ -120,8 +138,7 @@ export default function InvoiceItemPicker({ visible, onClose, onSelect, priceTyp
       } else if (warehouseId) {
         try {
           const warehouseStock = await api.inventory.stockManagement.getWarehouseStock(warehouseId, { pageSize: 100 });
-          const stockData = warehouseStock?.data || warehouseStock || [];
-          stockData.forEach((s: any) => {
+          warehouseStock.data.forEach((s: any) => {
             const itemId = s.item?.id || s.itemId;
             if (itemId) {
               stockMap.set(itemId, Number(s.totalQty) || 0);
@@ -210,14 +227,11 @@ export default function InvoiceItemPicker({ visible, onClose, onSelect, priceTyp
     }
   };
 
-  const filteredItems = items.filter((item) => {
-    const query = searchQuery.toLowerCase();
-    return (
-      item.name.toLowerCase().includes(query) ||
-      item.nameAr?.toLowerCase().includes(query) ||
-      item.sku?.toLowerCase().includes(query)
-    );
-  });
+  // Best matches first from the search index; without one, plain matching over what was loaded
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const filteredItems = rankedIds
+    ? rankedIds.map((id) => itemsById.get(id)).filter((item): item is InventoryItem => !!item)
+    : items.filter((item) => matchesSearch(searchQuery, item.name, item.nameAr, item.sku));
 
   const validateStock = (item: InventoryItem, qty: number): boolean => {
     // Skip stock validation for procurement (we're buying, not selling)
@@ -0,0 +1,360 @@
+import { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocaleStore } from '@/stores/locale';
+import { useThemeStore } from '@/stores/theme';
+import { useAuthStore } from '@/stores/auth';
+import { useServerStore } from '@/stores/server';
+import { t } from '@/lib/i18n';
+import {
+  DEFAULT_PROFILE_ID,
+  DEMO_PROFILE_ID,
+  checkServerHealth,
+  isBuiltInProfile,
+  isValidBaseUrl,
+  normalizeBaseUrl,
+  type HealthCheckResult,
+  type ServerProfile,
+} from '@/lib/serverProfiles';
+import { closeDatabase, deleteDatabaseFor, initDatabase } from '@/lib/db/database';
+import { refreshPendingCount } from '@/lib/sync/mutationQueue';
+import { stopBackgroundSync } from '@/lib/sync/syncManager';
+
+/**
+ * Makes `id` the active server. The session belongs to the old server, so the
+ * user is signed out first; then the old offline database is closed and the new
+ * profile's database (with its own queue) is opened.
+ */
+export async function switchServerProfile(id: string): Promise<void> {
+  const { isAuthenticated, logout } = useAuthStore.getState();
+  stopBackgroundSync();
+  if (isAuthenticated) await logout();
+  await closeDatabase();
+  await useServerStore.getState().setActive(id);
+  await initDatabase();
+  await refreshPendingCount();
+}
+
+interface Props {
+  /** Called after the active profile changed, e.g. to go back to the login screen. */
+  onSwitched?: () => void;
+}
+
+export default function ServerProfileManager({ onSwitched }: Props) {
+  const { locale } = useLocaleStore();
+  const { theme } = useThemeStore();
+  const { isAuthenticated } = useAuthStore();
+  const { profiles, activeId, addProfile, removeProfile } = useServerStore();
+  const isRtl = locale === 'ar';
+  const isAr = locale === 'ar';
+
+  const [results, setResults] = useState<Record<string, HealthCheckResult | 'testing'>>({});
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [switchingId, setSwitchingId] = useState<string | null>(null);
+
+  const testProfile = async (profile: ServerProfile) => {
+    setResults((prev) => ({ ...prev, [profile.id]: 'testing' }));
+    // The demo backend runs in the app, so it is always there
+    const result = profile.transport === 'mock' ? { ok: true, latencyMs: 0 } : await checkServerHealth(profile.baseUrl);
+    setResults((prev) => ({ ...prev, [profile.id]: result }));
+  };
+
+  const doSwitch = async (profile: ServerProfile) => {
+    setSwitchingId(profile.id);
+    try {
+      await switchServerProfile(profile.id);
+      onSwitched?.();
+    } catch (e: any) {
+      Alert.alert(t('error', locale), e?.message || 'Failed');
+    } finally {
+      setSwitchingId(null);
+    }
+  };
+
+  const confirmSwitch = (profile: ServerProfile) => {
+    if (profile.id === activeId || switchingId) return;
+    if (!isAuthenticated) {
+      doSwitch(profile);
+      return;
+    }
+    Alert.alert(
+      isAr ? 'تبديل الخادم' : 'Switch server',
+      isAr
+        ? `سيتم تسجيل خروجك والاتصال بـ "${profile.name}". تبقى التغييرات غير المتزامنة محفوظة مع الخادم الحالي.`
+        : `You will be signed out and connected to "${profile.name}". Unsynced changes stay with the current server.`,
+      [
+        { text: t('cancel', locale), style: 'cancel' },
+        { text: isAr ? 'تبديل' : 'Switch', onPress: () => doSwitch(profile) },
+      ]
+    );
+  };
+
+  const confirmRemove = (profile: ServerProfile) => {
+    Alert.alert(
+      isAr ? 'حذف الخادم' : 'Remove server',
+      isAr
+        ? `سيتم حذف "${profile.name}" وبياناته دون اتصال، بما فيها أي تغييرات لم تتم مزامنتها.`
+        : `"${profile.name}" and its offline data will be deleted, including any changes that were not synced.`,
+      [
+        { text: t('cancel', locale), style: 'cancel' },
+        {
+          text: isAr ? 'حذف' : 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            await removeProfile(profile.id);
+            try {
+              await deleteDatabaseFor(profile.id);
+            } catch {
+              // The profile may never have been opened
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setName('');
+    setBaseUrl('');
+  };
+
+  const saveProfile = async () => {
+    const url = normalizeBaseUrl(baseUrl);
+    if (!name.trim() || !isValidBaseUrl(url)) {
+      Alert.alert(
+        t('error', locale),
+        isAr ? 'أدخل اسماً ورابطاً صحيحاً مثل http://192.168.1.10:4000' : 'Enter a name and a valid URL such as http://192.168.1.10:4000'
+      );
+      return;
+    }
+    if (profiles.some((p) => p.baseUrl === url)) {
+      Alert.alert(t('error', locale), isAr ? 'هذا الخادم مضاف مسبقاً' : 'This server is already in the list');
+      return;
+    }
+
+    setSaving(true);
+    const result = await checkServerHealth(url);
+    setSaving(false);
+
+    const save = async () => {
+      const profile = await addProfile(name, url);
+      setResults((prev) => ({ ...prev, [profile.id]: result }));
+      resetForm();
+    };
+
+    if (result.ok) {
+      await save();
+      return;
+    }
+    Alert.alert(
+      isAr ? 'تعذر الوصول إلى الخادم' : 'Server not reachable',
+      `${result.message ?? ''}\n\n${isAr ? 'هل تريد حفظه على أي حال؟' : 'Save it anyway?'}`,
+      [
+        { text: t('cancel', locale), style: 'cancel' },
+        { text: isAr ? 'حفظ' : 'Save', onPress: save },
+      ]
+    );
+  };
+
+  const renderResult = (profileId: string) => {
+    const result = results[profileId];
+    if (!result) return null;
+    if (result === 'testing') return <ActivityIndicator size="small" color={theme.primary} />;
+    return (
+      <Text style={[styles.result, { color: result.ok ? theme.success : theme.error }]} numberOfLines={1}>
+        {result.ok ? `${isAr ? 'متصل' : 'Online'} · ${result.latencyMs} ms` : result.message}
+      </Text>
+    );
+  };
+
+  return (
+    <View>
+      {profiles.map((profile) => {
+        const isActive = profile.id === activeId;
+        return (
+          <TouchableOpacity
+            key={profile.id}
+            style={[
+              styles.card,
+              { backgroundColor: theme.surface, borderColor: isActive ? theme.primary : 'transparent' },
+              isRtl && styles.rowRtl,
+            ]}
+            onPress={() => confirmSwitch(profile)}
+            disabled={isActive || !!switchingId}
+          >
+            {switchingId === profile.id ? (
+              <ActivityIndicator size="small" color={theme.primary} />
+            ) : (
+              <Ionicons
+                name={isActive ? 'radio-button-on' : 'radio-button-off'}
+                size={20}
+                color={isActive ? theme.primary : theme.textSecondary}
+              />
+            )}
+            <View style={styles.cardBody}>
+              <Text style={[styles.name, { color: theme.text }, isRtl && styles.textRtl]}>
+                {isAr && profile.id === DEFAULT_PROFILE_ID
+                  ? 'الافتراضي'
+                  : isAr && profile.id === DEMO_PROFILE_ID
+                    ? 'تجريبي'
+                    : profile.name}
+              </Text>
+              {profile.transport === 'mock' ? (
+                <Text style={[styles.url, { color: theme.textSecondary }, isRtl && styles.textRtl]} numberOfLines={1}>
+                  {isAr ? 'بيانات تجريبية على هذا الجهاز، بدون خادم' : 'Sample data on this device, no server needed'}
+                </Text>
+              ) : (
+                <Text style={[styles.url, { color: theme.textSecondary }, isRtl && styles.textRtl]} numberOfLines={1}>
+                  {profile.baseUrl}
+                </Text>
+              )}
+              {renderResult(profile.id)}
+            </View>
+            <TouchableOpacity
+              onPress={() => testProfile(profile)}
+              style={styles.actionBtn}
+              disabled={results[profile.id] === 'testing'}
+            >
+              <Ionicons name="pulse-outline" size={18} color={theme.primary} />
+            </TouchableOpacity>
+            {!isBuiltInProfile(profile.id) && !isActive && (
+              <TouchableOpacity onPress={() => confirmRemove(profile)} style={styles.actionBtn}>
+                <Ionicons name="trash" size={18} color={theme.error} />
+              </TouchableOpacity>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+
+      {showForm ? (
+        <View style={[styles.form, { backgroundColor: theme.surface }]}>
+          <TextInput
+            style={[styles.input, { backgroundColor: theme.input, borderColor: theme.inputBorder, color: theme.text }, isRtl && styles.textRtl]}
+            value={name}
+            onChangeText={setName}
+            placeholder={isAr ? 'الاسم (مثلاً: الفرع الرئيسي)' : 'Name (e.g. Main branch)'}
+            placeholderTextColor={theme.inputPlaceholder}
+          />
+          <TextInput
+            style={[styles.input, { backgroundColor: theme.input, borderColor: theme.inputBorder, color: theme.text }]}
+            value={baseUrl}
+            onChangeText={setBaseUrl}
+            placeholder="http://192.168.1.10:4000"
+            placeholderTextColor={theme.inputPlaceholder}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <View style={[styles.formButtons, isRtl && styles.rowRtl]}>
+            <TouchableOpacity
+              style={[styles.formButton, { backgroundColor: theme.backgroundTertiary }]}
+              onPress={resetForm}
+              disabled={saving}
+            >
+              <Text style={[styles.formButtonText, { color: theme.text }]}>{t('cancel', locale)}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.formButton, { backgroundColor: theme.primary }, saving && { opacity: 0.6 }]}
+              onPress={saveProfile}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={[styles.formButtonText, { color: '#fff' }]}>{isAr ? 'اختبار وحفظ' : 'Test & Save'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={[styles.addRow, { backgroundColor: theme.primaryBackground }, isRtl && styles.rowRtl]}
+          onPress={() => setShowForm(true)}
+        >
+          <Ionicons name="add" size={18} color={theme.primary} />
+          <Text style={[styles.addText, { color: theme.primary }]}>{isAr ? 'إضافة خادم' : 'Add server'}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  cardBody: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  url: {
+    fontSize: 13,
+    marginTop: 2,
+    fontFamily: 'monospace',
+  },
+  result: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  actionBtn: {
+    padding: 8,
+  },
+  rowRtl: {
+    flexDirection: 'row-reverse',
+  },
+  textRtl: {
+    textAlign: 'right',
+  },
+  form: {
+    padding: 14,
+    borderRadius: 12,
+    gap: 10,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+  },
+  formButtons: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  formButton: {
+    flex: 1,
+    height: 44,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  formButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    padding: 12,
+    borderRadius: 12,
+  },
+  addText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
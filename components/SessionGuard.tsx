@@ -0,0 +1,334 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+  AppState,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useLocaleStore } from '@/stores/locale';
+import { useThemeStore } from '@/stores/theme';
+import { useAuthStore } from '@/stores/auth';
+import { t } from '@/lib/i18n';
+import { api, getLocalizedError, getTokenExpiry, setReauthHandler } from '@/lib/api';
+import { isApiError } from '@/lib/apiError';
+import { connectivity } from '@/lib/connectivity';
+import { guardUnlock, OfflineDataWipedError } from '@/lib/unlockAttempts';
+
+// Refresh (or warn, if refreshing fails) this long before the token expires
+const REFRESH_LEAD_MS = 5 * 60 * 1000;
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Keeps the session alive while the drawer is mounted: refreshes the token ahead
+ * of expiry, warns when that is not possible, and shows a re-login sheet when the
+ * server rejects a request. The sheet is a modal over the current screen, so
+ * navigation and unsaved form state survive and the rejected request is replayed
+ * once the user has signed in again.
+ */
+export default function SessionGuard() {
+  const { locale } = useLocaleStore();
+  const { theme } = useThemeStore();
+  const { user, logout } = useAuthStore();
+  const isRtl = locale === 'ar';
+  const isAr = locale === 'ar';
+
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [minutesLeft, setMinutesLeft] = useState<number | null>(null);
+  const [sheetVisible, setSheetVisible] = useState(false);
+  const [password, setPassword] = useState('');
+  const [signingIn, setSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Requests waiting on the sheet; all of them resume (or fail) together
+  const waiting = useRef<((ok: boolean) => void)[]>([]);
+  const refreshTried = useRef(false);
+
+  const loadExpiry = useCallback(async () => {
+    refreshTried.current = false;
+    setMinutesLeft(null);
+    setExpiresAt(await getTokenExpiry());
+  }, []);
+
+  const openSheet = useCallback(() => {
+    setPassword('');
+    setError(null);
+    setSheetVisible(true);
+  }, []);
+
+  const settle = (ok: boolean) => {
+    const resolvers = waiting.current;
+    waiting.current = [];
+    resolvers.forEach((resolve) => resolve(ok));
+  };
+
+  useEffect(() => {
+    setReauthHandler(
+      () =>
+        new Promise<boolean>((resolve) => {
+          waiting.current.push(resolve);
+          openSheet();
+        })
+    );
+    return () => {
+      setReauthHandler(null);
+      settle(false);
+    };
+  }, [openSheet]);
+
+  useEffect(() => {
+    loadExpiry();
+  }, [user?.id, loadExpiry]);
+
+  const check = useCallback(async () => {
+    if (!expiresAt || !connectivity.isOnline()) return;
+    const remaining = expiresAt - Date.now();
+
+    if (remaining <= 0) {
+      setMinutesLeft(0);
+      if (!sheetVisible) openSheet();
+      return;
+    }
+    if (remaining > REFRESH_LEAD_MS) return;
+
+    if (!refreshTried.current) {
+      refreshTried.current = true;
+      try {
+        await api.auth.refresh();
+        await loadExpiry();
+        return;
+      } catch (e) {
+        console.warn('Session refresh failed:', e);
+      }
+    }
+    setMinutesLeft(Math.max(1, Math.ceil(remaining / 60000)));
+  }, [expiresAt, sheetVisible, openSheet, loadExpiry]);
+
+  useEffect(() => {
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    // Timers do not run in the background; re-check as soon as the app is back
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') check();
+    });
+    return () => {
+      clearInterval(interval);
+      sub.remove();
+    };
+  }, [check]);
+
+  const handleSignIn = async () => {
+    if (!user || !password) return;
+    setSigningIn(true);
+    setError(null);
+    try {
+      // This sheet is the in-app unlock: wrong passwords count like those at sign-in
+      await guardUnlock(user.email, () => api.auth.login(user.email, password));
+      setSheetVisible(false);
+      setPassword('');
+      await loadExpiry();
+      settle(true);
+    } catch (e) {
+      if (e instanceof OfflineDataWipedError) {
+        setPassword('');
+        Alert.alert(
+          t('error', locale),
+          isAr ? 'محاولات دخول فاشلة كثيرة: تم مسح البيانات المحفوظة على هذا الجهاز، ما عدا العمليات غير المُرسلة.' : e.message
+        );
+        await handleSignOut();
+        return;
+      }
+      setError(isApiError(e, 'UNAUTHORIZED') ? t('invalidCredentials', locale) : getLocalizedError(e, locale));
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    setSheetVisible(false);
+    settle(false);
+    await logout();
+    router.replace('/login');
+  };
+
+  return (
+    <>
+      {minutesLeft !== null && !sheetVisible && (
+        <TouchableOpacity
+          style={[styles.banner, { backgroundColor: theme.warning }]}
+          onPress={openSheet}
+          activeOpacity={0.8}
+        >
+          <View style={[styles.bannerInner, isRtl && styles.rowRtl]}>
+            <Ionicons name="time-outline" size={16} color="#fff" />
+            <Text style={styles.bannerText}>
+              {minutesLeft === 0
+                ? (isAr ? 'انتهت الجلسة — اضغط لتسجيل الدخول' : 'Session expired — tap to sign in')
+                : isAr
+                  ? `تنتهي الجلسة خلال ${minutesLeft} دقيقة — اضغط لتسجيل الدخول`
+                  : `Session expires in ${minutesLeft} min — tap to sign in again`}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      )}
+
+      <Modal visible={sheetVisible} transparent animationType="slide" onRequestClose={() => {}}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={[styles.overlay, { backgroundColor: 'rgba(0,0,0,0.5)' }]}
+        >
+          <View style={[styles.sheet, { backgroundColor: theme.card }]}>
+            <Text style={[styles.title, { color: theme.text }, isRtl && styles.textRtl]}>
+              {isAr ? 'تسجيل الدخول مجدداً' : 'Sign in again'}
+            </Text>
+            <Text style={[styles.subtitle, { color: theme.textSecondary }, isRtl && styles.textRtl]}>
+              {isAr
+                ? 'انتهت جلستك. أدخل كلمة المرور للمتابعة دون فقدان عملك.'
+                : 'Your session has ended. Enter your password to continue without losing your work.'}
+            </Text>
+
+            <View style={[styles.inputContainer, { backgroundColor: theme.input, borderColor: theme.inputBorder }, isRtl && styles.rowRtl]}>
+              <Ionicons name="mail-outline" size={20} color={theme.textSecondary} />
+              <Text style={[styles.email, { color: theme.textSecondary }]} numberOfLines={1}>
+                {user?.email}
+              </Text>
+            </View>
+            <View
+              style={[
+                styles.inputContainer,
+                { backgroundColor: theme.input, borderColor: error ? theme.error : theme.inputBorder },
+                isRtl && styles.rowRtl,
+              ]}
+            >
+              <Ionicons name="lock-closed-outline" size={20} color={theme.textSecondary} />
+              <TextInput
+                style={[styles.input, { color: theme.text }, isRtl && styles.textRtl]}
+                placeholder={t('password', locale)}
+                placeholderTextColor={theme.inputPlaceholder}
+                value={password}
+                onChangeText={setPassword}
+                secureTextEntry
+                autoFocus
+                onSubmitEditing={handleSignIn}
+              />
+            </View>
+            {error && (
+              <Text style={[styles.error, { color: theme.error }, isRtl && styles.textRtl]}>{error}</Text>
+            )}
+
+            <View style={[styles.buttons, isRtl && styles.rowRtl]}>
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: theme.backgroundTertiary }]}
+                onPress={handleSignOut}
+                disabled={signingIn}
+              >
+                <Text style={[styles.buttonText, { color: theme.text }]}>{t('logout', locale)}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: theme.primary }, (!password || signingIn) && styles.buttonDisabled]}
+                onPress={handleSignIn}
+                disabled={!password || signingIn}
+              >
+                {signingIn ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={[styles.buttonText, { color: '#fff' }]}>{t('signIn', locale)}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  bannerInner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    justifyContent: 'center',
+  },
+  bannerText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+    flexShrink: 1,
+  },
+  rowRtl: {
+    flexDirection: 'row-reverse',
+  },
+  textRtl: {
+    textAlign: 'right',
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    height: 52,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+  },
+  email: {
+    flex: 1,
+    fontSize: 16,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+  },
+  error: {
+    fontSize: 13,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  button: {
+    flex: 1,
+    height: 52,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,36 @@
+import { api, getLocalizedError, setTransport } from '@/lib/api';
+import { ApiError } from '@/lib/apiError';
+import type { Transport } from '@/lib/transport';
+
+// Answers every write with the refusal the server sends for a reused idempotency key
+function refusingTransport(originalResult?: unknown): Transport {
+  const refusal = () =>
+    Promise.reject(
+      new ApiError('Duplicate request', { code: 'CONFLICT', status: 409, duplicate: true, originalResult })
+    );
+  return { query: refusal, mutation: refusal, upload: refusal };
+}
+
+afterEach(() => setTransport(null));
+
+describe('trpcMutation', () => {
+  it("takes a duplicate refusal's original result as the answer", async () => {
+    setTransport(refusingTransport({ success: true }));
+
+    await expect(
+      api.sales.voidInvoice('inv_1', undefined, { idempotencyKey: 'key-1', token: 'token' })
+    ).resolves.toEqual({ success: true });
+  });
+
+  it('fails a duplicate refusal without a result as already submitted, not as a conflict', async () => {
+    setTransport(refusingTransport());
+
+    const error = await api.sales
+      .voidInvoice('inv_1', undefined, { idempotencyKey: 'key-1', token: 'token' })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ code: 'ALREADY_SUBMITTED', duplicate: true, retryable: false });
+    expect(getLocalizedError(error, 'en')).toBe('This was already saved. Refresh to see it.');
+  });
+});
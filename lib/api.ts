@@ -1,36 +1,40 @@
-import Constants from 'expo-constants';
-import { Platform, Alert } from 'react-native';
+import { Alert } from 'react-native';
 import * as SecureStore from 'expo-secure-store';
+import { z } from 'zod';
 import { t, type Locale } from '@/lib/i18n';
+import { ApiError, codeFromStatus, isApiError, isDuplicateRequest } from '@/lib/apiError';
+import { parseInput, parseResponse, type Paginated } from '@/lib/schemas/common';
+import { dayCycleSchemas } from '@/lib/schemas/dayCycle';
+import {
+  inventoryInputs,
+  inventorySchemas,
+  type Item,
+  type ItemWithPrice,
+  type PricePolicy,
+} from '@/lib/schemas/inventory';
+import { salesInputs, salesSchemas } from '@/lib/schemas/sales';
+import { procurementInputs, procurementSchemas } from '@/lib/schemas/procurement';
+import { accountingInputs, accountingSchemas, type OutstandingInvoice } from '@/lib/schemas/accounting';
+import { authSchemas, userInputs, userSchemas } from '@/lib/schemas/user';
+import { branchSchemas } from '@/lib/schemas/branch';
+import { syncSchemas, type SyncTable } from '@/lib/schemas/sync';
+import type { Transport, TransportCall, TransportRequest } from '@/lib/transport';
+import { getDemoBackend } from '@/lib/mock/demo';
+import { withNetworkLog, type NetworkCallSource } from '@/lib/networkLog';
+import { getActiveProfile } from '@/stores/server';
 
-// Get API URL from config or environment
-// For Android emulator, use http://10.0.2.2:4000 (special IP that maps to host machine)
-// For iOS simulator, use http://localhost:4000
-// For physical device, use your computer's IP address (e.g., http://192.168.1.100:4000)
-const getDefaultApiUrl = () => {
-  if (Platform.OS === 'android') {
-    // Android emulator uses 10.0.2.2 to access host machine's localhost
-    return 'http://10.0.2.2:4000';
-  }
-  // iOS simulator and web can use localhost
-  return 'http://localhost:4000';
-};
-
-export const API_URL = 
-  process.env.EXPO_PUBLIC_API_URL || 
-  Constants.expoConfig?.extra?.apiUrl || 
-  getDefaultApiUrl();
+/** Base URL of the active server profile (see Settings → Servers). */
+export function getApiUrl(): string {
+  return getActiveProfile().baseUrl;
+}
 
 export const getFullUrl = (url?: string | null): string => {
   if (!url) return '';
-  if (url.startsWith('http')) return url;
-  return `${API_URL}${url}`;
+  // Absolute URLs, and local file:// receipts kept by the demo backend
+  if (/^[a-z][a-z0-9+.-]*:/i.test(url)) return url;
+  return `${getApiUrl()}${url}`;
 };
 
-// Debug logging (disabled in production)
-// console.log('API URL:', API_URL);
-// console.log('Platform:', Platform.OS);
-
 // Token storage
 export async function getToken(): Promise<string | null> {
   try {
@@ -40,77 +44,164 @@ export async function getToken(): Promise<string | null> {
   }
 }
 
-export async function setToken(token: string): Promise<void> {
+/**
+ * Stores the session token along with its expiry (ISO string from `auth.login`),
+ * so the app can warn and refresh before the server starts answering 401.
+ */
+export async function setToken(token: string, expiresAt?: string): Promise<void> {
   await SecureStore.setItemAsync('token', token);
+  if (expiresAt) {
+    await SecureStore.setItemAsync('tokenExpiresAt', expiresAt);
+  } else {
+    await SecureStore.deleteItemAsync('tokenExpiresAt');
+  }
 }
 
 export async function removeToken(): Promise<void> {
   await SecureStore.deleteItemAsync('token');
+  await SecureStore.deleteItemAsync('tokenExpiresAt');
 }
 
-// ─── Bilingual error helpers ───────────────────────────────────────────────
+/** Expiry of the stored token in epoch ms, or null when the server did not send one. */
+export async function getTokenExpiry(): Promise<number | null> {
+  try {
+    const value = await SecureStore.getItemAsync('tokenExpiresAt');
+    const time = value ? new Date(value).getTime() : NaN;
+    return isNaN(time) ? null : time;
+  } catch {
+    return null;
+  }
+}
+
+// ─── Re-authentication ─────────────────────────────────────────────────────
+
+type ReauthHandler = () => Promise<boolean>;
+
+let reauthHandler: ReauthHandler | null = null;
+let reauthInFlight: Promise<boolean> | null = null;
 
 /**
- * Maps a raw error to a localized (bilingual) message using the t() helper.
+ * Registers the UI that lets the user sign in again when a request is rejected
+ * with UNAUTHORIZED (the re-login sheet). The handler resolves `true` once a new
+ * token has been stored.
  */
-export function getLocalizedError(error: any, locale: Locale): string {
-  const msg: string = error?.message || '';
-
-  // Network errors
-  if (
-    error instanceof TypeError ||
-    msg.includes('Network request failed') ||
-    msg.includes('fetch failed') ||
-    msg.includes('Cannot connect') ||
-    msg.includes('ECONNREFUSED') ||
-    msg.includes('network')
-  ) {
-    return `${t('errorNoNetwork', locale)}\n${t('errorNoNetworkDesc', locale)}`;
-  }
+export function setReauthHandler(handler: ReauthHandler | null): void {
+  reauthHandler = handler;
+}
 
-  // Session expired
-  if (msg.includes('UNAUTHORIZED') || msg.includes('Unauthorized') || msg.includes('token')) {
-    return t('errorSessionExpired', locale);
+/** Concurrent 401s share one prompt. Without a handler the session is dropped. */
+async function reauthenticate(): Promise<boolean> {
+  if (!reauthHandler) {
+    await removeToken();
+    return false;
   }
+  reauthInFlight ??= reauthHandler().finally(() => {
+    reauthInFlight = null;
+  });
+  return reauthInFlight;
+}
 
-  // Server errors (HTTP 5xx)
-  if (msg.includes('500') || msg.includes('502') || msg.includes('503') || msg.includes('504')) {
-    return t('errorServer', locale);
+/**
+ * Runs `send`, and if the session has expired, asks the user to sign in again and
+ * replays it once. `send` must read the token itself so the replay uses the new one.
+ */
+async function withReauth<T>(send: () => Promise<T>): Promise<T> {
+  try {
+    return await send();
+  } catch (error) {
+    if (!isApiError(error, 'UNAUTHORIZED') || !(await reauthenticate())) throw error;
+    return send();
   }
+}
 
-  // Timeout
-  if (msg.includes('timeout') || msg.includes('ETIMEDOUT') || msg.includes('timed out')) {
-    return t('errorTimeout', locale);
-  }
+// ─── Idempotency ───────────────────────────────────────────────────────────
 
-  // SKU already exists
-  if (msg.includes('SKU') || msg.includes('sku') || msg.includes('already exists')) {
-    return t('errorSkuExists', locale);
-  }
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
 
-  // Permission denied
-  if (msg.includes('FORBIDDEN') || msg.includes('permission') || msg.includes('access')) {
-    return t('errorPermissionDenied', locale);
+/**
+ * Random UUID (v4) naming one logical write. The server applies a write at most
+ * once per key and answers repeats with the first outcome, so a retry after a
+ * lost response cannot create a second invoice or payment.
+ */
+export function createIdempotencyKey(): string {
+  const bytes = new Uint8Array(16);
+  if (typeof globalThis.crypto?.getRandomValues === 'function') {
+    globalThis.crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
   }
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
 
-  // Day cycle closed
-  if (msg.includes('day') && (msg.includes('closed') || msg.includes('open'))) {
-    return t('errorDayClosed', locale);
-  }
+/**
+ * Options of the money-moving mutations. Screens keep the key of an attempt that
+ * failed without a definite answer (timeout, network error, 5xx) and pass it with
+ * the next one; without it every call is a new write.
+ */
+export interface MutationOptions {
+  idempotencyKey?: string;
+  /** How the call shows up in the network log; the offline queue passes `'queue'`. */
+  source?: NetworkCallSource;
+  /**
+   * Session to send the write with instead of the stored one, e.g. to replay
+   * another user's queued writes. A 401 then fails without the re-login sheet.
+   */
+  token?: string;
+}
+
+function idempotent(options?: MutationOptions): MutationOptions {
+  return { ...options, idempotencyKey: options?.idempotencyKey ?? createIdempotencyKey() };
+}
+
+// ─── Bilingual error helpers ───────────────────────────────────────────────
 
-  // Insufficient quantity
-  if (msg.includes('insufficient') || msg.includes('stock') || msg.includes('quantity')) {
-    return t('errorInsufficientQty', locale);
+/**
+ * Maps an error to a localized (bilingual) message using the t() helper. The
+ * message is chosen from the error's `code`; the server's own text is only shown
+ * when no localized message fits (e.g. domain rules such as a closed day cycle).
+ */
+export function getLocalizedError(error: unknown, locale: Locale): string {
+  const err = ApiError.from(error);
+
+  switch (err.code) {
+    case 'NETWORK_ERROR':
+      return `${t('errorNoNetwork', locale)}\n${t('errorNoNetworkDesc', locale)}`;
+    case 'UNAUTHORIZED':
+      return t('errorSessionExpired', locale);
+    case 'FORBIDDEN':
+      return t('errorPermissionDenied', locale);
+    case 'NOT_FOUND':
+      return t('errorNotFound', locale);
+    case 'CONFLICT':
+      return t('errorAlreadyExists', locale);
+    case 'ALREADY_SUBMITTED':
+      return t('errorAlreadySubmitted', locale);
+    case 'TIMEOUT':
+    case 'GATEWAY_TIMEOUT':
+      return t('errorTimeout', locale);
+    case 'TOO_MANY_REQUESTS':
+    case 'INTERNAL_SERVER_ERROR':
+    case 'NOT_IMPLEMENTED':
+    case 'BAD_GATEWAY':
+    case 'SERVICE_UNAVAILABLE':
+    case 'INVALID_RESPONSE':
+      return t('errorServer', locale);
   }
 
-  // Zod / validation errors
-  if (msg.includes('invalid') || msg.includes('required') || msg.includes('validation')) {
-    return `${t('errorInvalidInput', locale)}: ${msg}`;
+  // Zod / validation errors name the offending fields
+  if (err.hasFieldErrors) {
+    const fields = Object.entries(err.fieldErrors)
+      .map(([field, messages]) => `• ${field}: ${messages[0]}`)
+      .join('\n');
+    return `${t('errorInvalidInput', locale)}\n${fields}`;
   }
 
   // Return raw message if it's meaningful, otherwise generic
-  if (msg && msg.length > 0 && msg !== 'Request failed') {
-    return msg;
+  if (err.message && err.message !== 'Request failed') {
+    return err.message;
   }
 
   return t('errorUnknown', locale);
@@ -119,20 +210,81 @@ export function getLocalizedError(error: any, locale: Locale): string {
 /**
  * Shows a user-friendly bilingual error alert.
  */
-export function showError(error: any, locale: Locale, title?: string): void {
+export function showError(error: unknown, locale: Locale, title?: string): void {
   const message = getLocalizedError(error, locale);
   Alert.alert(title || t('error', locale), message);
 }
 
 // ───────────────────────────────────────────────────────────────────────────
 
+// ─── Timeouts & cancellation ───────────────────────────────────────────────
+
+/** Per-call transport options accepted by every `api` query, plus uploads. */
+export type RequestOptions = TransportRequest;
+
+export const DEFAULT_QUERY_TIMEOUT = 15_000;
+export const DEFAULT_MUTATION_TIMEOUT = 30_000;
+const UPLOAD_TIMEOUT = 60_000;
+const AUTH_CHECK_TIMEOUT = 3_000;
+
+/**
+ * fetch() bounded by a deadline and the caller's signal. A deadline surfaces as a
+ * `TIMEOUT` ApiError, an abort by the caller as `CLIENT_CLOSED_REQUEST`.
+ */
+async function fetchWithTimeout(
+  endpoint: string,
+  url: string,
+  init: RequestInit,
+  request: RequestOptions | undefined,
+  defaultTimeout: number
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutMs = request?.timeoutMs ?? defaultTimeout;
+  const signal = request?.signal;
+  let timedOut = false;
+
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  else signal?.addEventListener('abort', onAbort);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) {
+      throw new ApiError(`Request timed out after ${timeoutMs}ms`, { code: 'TIMEOUT', endpoint, cause: error });
+    }
+    if (signal?.aborted) {
+      throw cancelledError(endpoint, error);
+    }
+    throw ApiError.from(error, endpoint);
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+function cancelledError(endpoint: string, cause?: unknown): ApiError {
+  return new ApiError('Request cancelled', {
+    code: 'CLIENT_CLOSED_REQUEST',
+    endpoint,
+    retryable: false,
+    cause,
+  });
+}
+
 // API client
-interface ApiOptions {
+interface ApiOptions extends RequestOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
   body?: object;
   headers?: Record<string, string>;
   retries?: number;
   retryDelay?: number;
+  /** Sent on every attempt; non-GET calls get a fresh key when none is given. */
+  idempotencyKey?: string;
 }
 
 // Retry configuration
@@ -143,38 +295,33 @@ const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
 // Helper function to delay execution
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-// Helper function to check if error is retryable
-const isRetryableError = (error: any, status?: number): boolean => {
-  if (status && RETRYABLE_STATUS_CODES.includes(status)) {
-    return true;
-  }
-  if (error.message === 'Network request failed' || error.message?.includes('Network')) {
-    return true;
-  }
-  if (error.message?.includes('timeout') || error.message?.includes('ETIMEDOUT')) {
-    return true;
-  }
-  return false;
-};
-
 export async function apiCall<T>(endpoint: string, options: ApiOptions = {}): Promise<T> {
   const token = await getToken();
   const maxRetries = options.retries ?? DEFAULT_RETRIES;
   const retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+  const method = options.method || 'GET';
+  const idempotencyKey = options.idempotencyKey ?? (method !== 'GET' ? createIdempotencyKey() : undefined);
   
-  let lastError: Error | null = null;
+  let lastError: ApiError | null = null;
   
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
-      const response = await fetch(`${API_URL}${endpoint}`, {
-        method: options.method || 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          ...options.headers,
+      const response = await fetchWithTimeout(
+        endpoint,
+        `${getApiUrl()}${endpoint}`,
+        {
+          method,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            ...(idempotencyKey ? { [IDEMPOTENCY_HEADER]: idempotencyKey } : {}),
+            ...options.headers,
+          },
+          ...(options.body ? { body: JSON.stringify(options.body) } : {}),
         },
-        ...(options.body ? { body: JSON.stringify(options.body) } : {}),
-      });
+        options,
+        method !== 'GET' ? DEFAULT_MUTATION_TIMEOUT : DEFAULT_QUERY_TIMEOUT
+      );
 
       // Check if we should retry based on status code
       if (!response.ok && RETRYABLE_STATUS_CODES.includes(response.status) && attempt < maxRetries) {
@@ -184,176 +331,462 @@ export async function apiCall<T>(endpoint: string, options: ApiOptions = {}): Pr
       }
 
       if (!response.ok) {
-        const error = await response.json().catch(() => ({ message: 'Request failed' }));
-        throw new Error(error.message || error.error?.message || 'Request failed');
+        const body = await response.json().catch(() => ({ message: 'Request failed' }));
+        throw ApiError.fromResponse(endpoint, response.status, body);
       }
 
       const data = await response.json();
       // tRPC returns data in result format, extract it
-      // Handle both nested (result.data.json) and flat (result.data) structures
-      if (data.result && data.result.data) {
-        return data.result.data.json || data.result.data;
-      }
-      return data;
-    } catch (error: any) {
-      lastError = error;
+      return unwrapTrpcResult(data) as T;
+    } catch (error) {
+      lastError = ApiError.from(error, endpoint);
       
       // Check if we should retry
-      if (isRetryableError(error) && attempt < maxRetries) {
+      if (lastError.retryable && attempt < maxRetries) {
         const waitTime = retryDelay * Math.pow(2, attempt); // Exponential backoff
         await delay(waitTime);
         continue;
       }
       
       // Handle network errors with helpful message
-      if (error.message === 'Network request failed' || error.message?.includes('Network')) {
-        throw new Error(
-          `Cannot connect to server at ${API_URL}. ` +
-          `Make sure the backend is running and the API URL is correct. ` +
-          `For Android emulator, use http://10.0.2.2:4000. ` +
-          `For physical device, use your computer's IP address.`
+      if (lastError.code === 'NETWORK_ERROR') {
+        throw new ApiError(
+          `Cannot connect to server at ${getApiUrl()}. ` +
+          `Make sure the backend is running and the server profile points to it.`,
+          { code: 'NETWORK_ERROR', endpoint, cause: error }
         );
       }
-      throw error;
+      throw lastError;
     }
   }
   
   // If we exhausted all retries, throw the last error
-  throw lastError || new Error('Request failed after retries');
+  throw lastError || new ApiError('Request failed after retries', { code: 'UNKNOWN', endpoint });
 }
 
 /**
- * Wrapper for tRPC query calls with consistent error handling
+ * Extracts the payload from a tRPC/superjson response envelope
+ * (`{ result: { data: { json } } }`). A `json` key is honoured even when its value
+ * is `null`, so procedures that legitimately return nothing are not mistaken for
+ * the envelope itself.
  */
-async function trpcQuery<T>(endpoint: string, params: object = {}): Promise<T> {
-  const token = await getToken();
-  const hasParams = Object.keys(params).length > 0;
-  const url = hasParams 
-    ? `${API_URL}/trpc/${endpoint}?input=${encodeURIComponent(JSON.stringify({ json: params }))}`
-    : `${API_URL}/trpc/${endpoint}`;
-  
-  const response = await fetch(url, {
-    headers: {
-      'Content-Type': 'application/json',
-      ...(token ? { Authorization: `Bearer ${token}` } : {}),
-    },
-  });
+function unwrapTrpcResult(result: any): unknown {
+  const data = result?.result?.data;
+  if (data === undefined) return result;
+  if (data !== null && typeof data === 'object' && 'json' in data) return data.json;
+  return data;
+}
+
+/**
+ * Sends a tRPC request and returns the parsed body. Transport failures, timeouts
+ * and non-JSON answers are reported as ApiError like any server-side error.
+ */
+async function trpcFetch(
+  endpoint: string,
+  url: string,
+  init: RequestInit,
+  request: RequestOptions | undefined,
+  defaultTimeout: number
+): Promise<unknown> {
+  const response = await fetchWithTimeout(endpoint, url, init, request, defaultTimeout);
 
   let result: any;
   try {
     result = await response.json();
   } catch {
-    throw new Error(`Server error (${response.status})`);
+    throw new ApiError(`Server error (${response.status})`, {
+      code: response.ok ? 'INVALID_RESPONSE' : codeFromStatus(response.status),
+      status: response.status,
+      endpoint,
+    });
   }
   
   // Check for tRPC error format
-  if (result.error) {
-    const err = result.error;
-    const msg = err.message || err.data?.message || (typeof err.data?.zodError === 'string' ? err.data.zodError : null) || `Request failed (${response.status})`;
-    if (response.status === 401 || err.data?.code === 'UNAUTHORIZED') {
-      await removeToken();
-    }
-    throw new Error(msg);
-  }
-  
-  if (!response.ok) {
-    throw new Error(result.message || `Request failed (${response.status})`);
+  if (result?.error || !response.ok) {
+    throw ApiError.fromResponse(endpoint, response.status, result);
   }
   
-  // Extract data from tRPC/superjson response format
-  return result.result?.data?.json ?? result.result?.data ?? result;
+  return unwrapTrpcResult(result);
 }
 
 /**
- * Wrapper for tRPC mutation calls with consistent error handling
+ * Wrapper for tRPC query calls with consistent error handling. The response is
+ * validated against `schema` and returned as its parsed (typed) output. Over HTTP,
+ * queries issued in the same tick share one batched request (see `enqueueQuery`).
  */
-async function trpcMutation<T>(endpoint: string, data: object): Promise<T> {
-  const token = await getToken();
+async function trpcQuery<S extends z.ZodTypeAny>(
+  endpoint: string,
+  schema: S,
+  params: object = {},
+  request?: RequestOptions
+): Promise<z.output<S>> {
+  const result = await withNetworkLog({ procedure: endpoint, kind: 'query', source: 'network', input: params }, () =>
+    withReauth(async () => getTransport().query({ endpoint, input: params, token: await getToken(), request }))
+  );
+  return parseResponse(endpoint, schema, result);
+}
+
+// ─── Query batching ────────────────────────────────────────────────────────
+
+interface PendingQuery {
+  endpoint: string;
+  params: object;
+  token: string | null;
+  request?: RequestOptions;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+// Keeps batched GET URLs well under what proxies and the server accept
+const MAX_BATCH_SIZE = 10;
+const MAX_BATCH_URL_LENGTH = 2000;
+
+let pendingQueries: PendingQuery[] = [];
+let flushScheduled = false;
+
+/**
+ * Queues a query for the next flush. Everything queued in the same tick goes out
+ * as one tRPC `?batch=1` GET; each caller still gets its own result or error.
+ */
+function enqueueQuery({ endpoint, input, token, request }: TransportCall): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    pendingQueries.push({ endpoint, params: input, token, request, resolve, reject });
+    if (!flushScheduled) {
+      flushScheduled = true;
+      setTimeout(flushQueries, 0);
+    }
+  });
+}
+
+function flushQueries(): void {
+  const queue = pendingQueries;
+  pendingQueries = [];
+  flushScheduled = false;
+
+  // Callers that gave up before the flush never reach the network
+  const live = queue.filter((q) => {
+    if (!q.request?.signal?.aborted) return true;
+    q.reject(cancelledError(q.endpoint));
+    return false;
+  });
+
+  for (const batch of splitBatches(live)) {
+    if (batch.length === 1) {
+      const [q] = batch;
+      fetchQuery(q.endpoint, q.params, q.token, q.request).then(q.resolve, q.reject);
+    } else {
+      void fetchBatch(batch);
+    }
+  }
+}
+
+function queryInput(params: object): object {
+  return Object.keys(params).length > 0 ? { json: params } : {};
+}
+
+function batchUrl(batch: PendingQuery[]): string {
+  const input = Object.fromEntries(batch.map((q, i) => [i, queryInput(q.params)]));
+  const endpoints = batch.map((q) => q.endpoint).join(',');
+  return `${getApiUrl()}/trpc/${endpoints}?batch=1&input=${encodeURIComponent(JSON.stringify(input))}`;
+}
+
+function timeoutOf(q: PendingQuery): number {
+  return q.request?.timeoutMs ?? DEFAULT_QUERY_TIMEOUT;
+}
+
+function splitBatches(queue: PendingQuery[]): PendingQuery[][] {
+  const batches: PendingQuery[][] = [];
+  let current: PendingQuery[] = [];
+  for (const q of queue) {
+    const next = [...current, q];
+    // A re-login between two calls changes the token; each batch carries one.
+    // Callers share the request's timeout, so only equal timeouts go together.
+    const compatible =
+      current.length === 0 ||
+      (current[0].token === q.token && timeoutOf(current[0]) === timeoutOf(q));
+    if (current.length > 0 && (!compatible || next.length > MAX_BATCH_SIZE || batchUrl(next).length > MAX_BATCH_URL_LENGTH)) {
+      batches.push(current);
+      current = [q];
+    } else {
+      current = next;
+    }
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+async function fetchQuery(endpoint: string, params: object, token: string | null, request?: RequestOptions): Promise<unknown> {
+  const url = Object.keys(params).length > 0
+    ? `${getApiUrl()}/trpc/${endpoint}?input=${encodeURIComponent(JSON.stringify(queryInput(params)))}`
+    : `${getApiUrl()}/trpc/${endpoint}`;
   
-  const response = await fetch(`${API_URL}/trpc/${endpoint}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  return trpcFetch(
+    endpoint,
+    url,
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
     },
-    body: JSON.stringify({ json: data }),
+    request,
+    DEFAULT_QUERY_TIMEOUT
+  );
+}
+
+/**
+ * Sends several queries as one request and settles each caller from its slot in
+ * the response array. Every caller in a batch asked for the same timeout; the
+ * shared request is only aborted once every caller has cancelled.
+ */
+async function fetchBatch(batch: PendingQuery[]): Promise<void> {
+  const endpoints = batch.map((q) => q.endpoint).join(',');
+  const controller = new AbortController();
+  const timeoutMs = timeoutOf(batch[0]);
+  let waiting = batch.length;
+
+  const detach = batch.map((q) => {
+    const signal = q.request?.signal;
+    if (!signal) return () => {};
+    const onAbort = () => {
+      q.reject(cancelledError(q.endpoint));
+      if (--waiting === 0) controller.abort();
+    };
+    signal.addEventListener('abort', onAbort);
+    return () => signal.removeEventListener('abort', onAbort);
   });
 
-  let result: any;
   try {
-    result = await response.json();
-  } catch {
-    throw new Error(`Server error (${response.status})`);
-  }
-  
-  // Check for tRPC error format
-  if (result.error) {
-    const err = result.error;
-    const msg = err.message || err.data?.message || (typeof err.data?.zodError === 'string' ? err.data.zodError : null) || `Request failed (${response.status})`;
-    if (response.status === 401 || err.data?.code === 'UNAUTHORIZED') {
-      await removeToken();
+    const { token } = batch[0];
+    const response = await fetchWithTimeout(
+      endpoints,
+      batchUrl(batch),
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+      },
+      { signal: controller.signal, timeoutMs },
+      DEFAULT_QUERY_TIMEOUT
+    );
+
+    let results: any;
+    try {
+      results = await response.json();
+    } catch {
+      throw new ApiError(`Server error (${response.status})`, {
+        code: response.ok ? 'INVALID_RESPONSE' : codeFromStatus(response.status),
+        status: response.status,
+        endpoint: endpoints,
+      });
+    }
+
+    // A failure before routing (e.g. auth middleware) answers with a single error
+    if (!Array.isArray(results)) {
+      throw ApiError.fromResponse(endpoints, response.status, results);
+    }
+
+    for (const [i, q] of batch.entries()) {
+      const entry = results[i];
+      if (entry && !entry.error) {
+        q.resolve(unwrapTrpcResult(entry));
+      } else {
+        const status = entry?.error?.json?.data?.httpStatus ?? entry?.error?.data?.httpStatus ?? response.status;
+        q.reject(ApiError.fromResponse(q.endpoint, status, entry));
+      }
     }
-    throw new Error(msg);
+  } catch (error) {
+    for (const q of batch) q.reject(error);
+  } finally {
+    detach.forEach((off) => off());
   }
+}
+
+/**
+ * Wrapper for tRPC mutation calls with consistent error handling. When an `input`
+ * schema is given the payload is checked before anything is sent.
+ *
+ * Mutations only get the default timeout: the api methods do not take a signal,
+ * since abandoning a write on unmount cannot undo it on the server.
+ *
+ * With an idempotency key, a duplicate refusal that carries the first attempt's
+ * result counts as success; one without it fails as `ALREADY_SUBMITTED`, since
+ * the write went through but there is nothing to show for it until a refresh.
+ */
+async function trpcMutation<S extends z.ZodTypeAny>(
+  endpoint: string,
+  schema: S,
+  data: object,
+  input?: z.ZodTypeAny,
+  options: MutationOptions = {}
+): Promise<z.output<S>> {
+  if (input) parseInput(endpoint, input, data);
+  const { idempotencyKey, source = 'network', token } = options;
+  const send = async () =>
+    getTransport().mutation({ endpoint, input: data, token: token ?? (await getToken()), idempotencyKey });
   
-  if (!response.ok) {
-    throw new Error(result.message || `Request failed (${response.status})`);
+  // A 401 means the write was never applied, so it is safe to replay after re-login
+  let result: unknown;
+  try {
+    result = await withNetworkLog({ procedure: endpoint, kind: 'mutation', source, input: data }, () =>
+      token ? send() : withReauth(send)
+    );
+  } catch (error) {
+    if (!idempotencyKey || !isDuplicateRequest(error)) throw error;
+    if (error.originalResult === undefined) {
+      throw new ApiError('Already submitted', {
+        code: 'ALREADY_SUBMITTED',
+        status: error.status,
+        endpoint,
+        duplicate: true,
+        cause: error,
+      });
+    }
+    result = error.originalResult;
   }
   
-  // Extract data from tRPC/superjson response format
-  return result.result?.data?.json ?? result.result?.data ?? result;
+  return parseResponse(endpoint, schema, result);
 }
 
 // Upload receipt image
-export async function uploadReceipt(uri: string): Promise<string> {
-  const token = await getToken();
+/** `token` and `source` work as for mutations (see `MutationOptions`). */
+export async function uploadReceipt(
+  uri: string,
+  request?: RequestOptions,
+  { token, source = 'network' }: Pick<MutationOptions, 'token' | 'source'> = {}
+): Promise<string> {
+  const sessionToken = token ?? (await getToken());
+  return withNetworkLog({ procedure: 'upload/receipt', kind: 'upload', source }, () =>
+    getTransport().upload(uri, sessionToken, request)
+  );
+}
+
+// ─── Transports ────────────────────────────────────────────────────────────
+
+async function uploadOverHttp(uri: string, token: string | null, request?: RequestOptions): Promise<string> {
   const formData = new FormData();
   const filename = uri.split('/').pop() || 'receipt.jpg';
   const match = /\.(\w+)$/.exec(filename);
   const type = match ? `image/${match[1]}` : 'image/jpeg';
   formData.append('receipt', { uri, name: filename, type } as any);
 
-  const response = await fetch(`${API_URL}/upload/receipt`, {
-    method: 'POST',
-    headers: {
-      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  const response = await fetchWithTimeout(
+    'upload/receipt',
+    `${getApiUrl()}/upload/receipt`,
+    {
+      method: 'POST',
+      headers: {
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: formData,
     },
-    body: formData,
-  });
+    request,
+    UPLOAD_TIMEOUT
+  );
 
   if (!response.ok) {
-    throw new Error('Failed to upload receipt');
+    throw new ApiError('Failed to upload receipt', {
+      code: codeFromStatus(response.status),
+      status: response.status,
+      endpoint: 'upload/receipt',
+    });
   }
 
   const result = await response.json();
   return result.url;
 }
 
+/** The tRPC server of the active profile. */
+const httpTransport: Transport = {
+  query: enqueueQuery,
+  mutation: ({ endpoint, input, token, request, idempotencyKey }) =>
+    trpcFetch(
+      endpoint,
+      `${getApiUrl()}/trpc/${endpoint}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          ...(idempotencyKey ? { [IDEMPOTENCY_HEADER]: idempotencyKey } : {}),
+        },
+        body: JSON.stringify({ json: input }),
+      },
+      request,
+      DEFAULT_MUTATION_TIMEOUT
+    ),
+  upload: uploadOverHttp,
+};
+
+let transportOverride: Transport | null = null;
+
+/**
+ * Replaces the transport for every request, e.g. `createMockBackend()` in tests.
+ * Pass `null` to go back to the one picked by the active server profile.
+ */
+export function setTransport(transport: Transport | null): void {
+  transportOverride = transport;
+}
+
+export function getTransport(): Transport {
+  if (transportOverride) return transportOverride;
+  return getActiveProfile().transport === 'mock' ? getDemoBackend() : httpTransport;
+}
+
+/**
+ * The auth calls below talk HTTP directly for their connection diagnostics; on
+ * any other transport they go through it like every other procedure.
+ */
+function nonHttpTransport(): Transport | null {
+  const transport = getTransport();
+  return transport === httpTransport ? null : transport;
+}
+
 // tRPC-style API calls
 export const api = {
   auth: {
-    login: async (email: string, password: string) => {
+    /**
+     * `store: false` signs in without replacing the stored session, e.g. to
+     * replay a queued write under the user who made it; end that session with
+     * `logout(token)`.
+     */
+    login: async (email: string, password: string, { store = true }: { store?: boolean } = {}) => {
+      const local = nonHttpTransport();
+      if (local) {
+        const result = await local.mutation({ endpoint: 'auth.login', input: { email, password }, token: null });
+        const session = parseResponse('auth.login', authSchemas.login, result);
+        if (store) await setToken(session.token, session.expiresAt);
+        return session;
+      }
       try {
         // tRPC mutation format
-        const response = await fetch(`${API_URL}/trpc/auth.login`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
+        const response = await fetchWithTimeout(
+          'auth.login',
+          `${getApiUrl()}/trpc/auth.login`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              json: { email, password },
+            }),
           },
-          body: JSON.stringify({
-            json: { email, password },
-          }),
-        });
+          undefined,
+          DEFAULT_QUERY_TIMEOUT
+        );
 
         // Check if response is actually JSON
         const contentType = response.headers.get('content-type');
         if (!contentType || !contentType.includes('application/json')) {
           const text = await response.text();
           console.error('Non-JSON response received:', text.substring(0, 500));
-          throw new Error(
+          throw new ApiError(
             `Server returned non-JSON response (${response.status}). ` +
             `This usually means the API endpoint is not found or the server is not running. ` +
-            `URL: ${API_URL}/trpc/auth.login`
+            `URL: ${getApiUrl()}/trpc/auth.login`,
+            { code: 'INVALID_RESPONSE', status: response.status, endpoint: 'auth.login' }
           );
         }
 
@@ -361,199 +794,218 @@ export const api = {
         // Debug: console.log('Login response:', JSON.stringify(responseData, null, 2));
 
         if (!response.ok) {
-          // tRPC error format
-          const error = responseData.error || responseData;
-          const errorMessage = error?.message || error?.data?.message || 'Invalid credentials';
-          throw new Error(errorMessage);
+          throw ApiError.fromResponse('auth.login', response.status, responseData);
         }
 
         // Extract the actual data from tRPC response
         // tRPC returns: { result: { data: { json: { user, token, expiresAt } } } }
-        const jsonData = responseData.result?.data?.json || responseData.result?.data || responseData;
+        const jsonData = authSchemas.login.safeParse(unwrapTrpcResult(responseData));
         
-        if (!jsonData || !jsonData.token) {
+        if (!jsonData.success) {
           console.error('Token extraction failed. Response structure:', responseData);
-          throw new Error('No token received from server');
+          throw new ApiError('No token received from server', {
+            code: 'INVALID_RESPONSE',
+            endpoint: 'auth.login',
+          });
         }
         
-        await setToken(jsonData.token);
-        return jsonData;
-      } catch (error: any) {
+        if (store) await setToken(jsonData.data.token, jsonData.data.expiresAt);
+        return jsonData.data;
+      } catch (error) {
         console.error('Login API error:', error);
+        const apiError = ApiError.from(error, 'auth.login');
         // Handle network errors with better messages
-        if (error.message === 'Network request failed' || error.message?.includes('Network')) {
-          throw new Error(
-            `Cannot connect to server at ${API_URL}.\n\n` +
+        if (apiError.code === 'NETWORK_ERROR') {
+          throw new ApiError(
+            `Cannot connect to server at ${getApiUrl()}.\n\n` +
             `Troubleshooting:\n` +
             `• Make sure backend is running (cd backend && npm run dev)\n` +
             `• Android emulator: Use http://10.0.2.2:4000\n` +
             `• iOS simulator: Use http://localhost:4000\n` +
             `• Physical device: Use your computer's IP (e.g., http://192.168.1.100:4000)\n\n` +
-            `Update API URL in app.json or set EXPO_PUBLIC_API_URL environment variable.`
+            `Pick or add the right server from "Server" on the sign-in screen.`,
+            { code: 'NETWORK_ERROR', endpoint: 'auth.login', cause: error }
           );
         }
-        // Re-throw with better error message
-        if (error.message) {
-          throw error;
-        }
-        throw new Error('Network error. Please check your API URL and ensure backend is running.');
+        throw apiError;
       }
     },
-    logout: async () => {
-      const token = await getToken();
+    /** Ends the stored session, or only `session` when given. */
+    logout: async (session?: string) => {
+      const token = session ?? (await getToken());
+      const local = nonHttpTransport();
       try {
-        await fetch(`${API_URL}/trpc/auth.logout`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        if (local) {
+          await local.mutation({ endpoint: 'auth.logout', input: {}, token });
+          return;
+        }
+        await fetchWithTimeout(
+          'auth.logout',
+          `${getApiUrl()}/trpc/auth.logout`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            },
           },
-        });
+          undefined,
+          AUTH_CHECK_TIMEOUT
+        );
       } catch (error) {
         console.error('Logout error:', error);
       } finally {
-        await removeToken();
+        if (!session) await removeToken();
       }
     },
-    me: async () => {
+    /**
+     * Exchanges the current (still valid) token for a fresh one. Called ahead of
+     * expiry; never prompts for re-login itself.
+     */
+    refresh: async () => {
       const token = await getToken();
+      const result = await getTransport().mutation({
+        endpoint: 'auth.refresh',
+        input: {},
+        token,
+        request: { timeoutMs: DEFAULT_QUERY_TIMEOUT },
+      });
+      const session = parseResponse('auth.refresh', authSchemas.refresh, result);
+      await setToken(session.token, session.expiresAt);
+      return session;
+    },
+    me: async (request?: RequestOptions) => {
+      const token = await getToken();
+      const local = nonHttpTransport();
+      if (local) {
+        return parseResponse('auth.me', authSchemas.me, await local.query({ endpoint: 'auth.me', input: {}, token, request }));
+      }
       
-      // Add timeout to prevent hanging
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 3000);
-      
-      try {
-        const response = await fetch(`${API_URL}/trpc/auth.me`, {
+      // Short default so app start never hangs on an unreachable server
+      const response = await fetchWithTimeout(
+        'auth.me',
+        `${getApiUrl()}/trpc/auth.me`,
+        {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
             ...(token ? { Authorization: `Bearer ${token}` } : {}),
           },
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-
-        // Check if response is actually JSON
-        const contentType = response.headers.get('content-type');
-        if (!contentType || !contentType.includes('application/json')) {
-          const text = await response.text();
-          console.error('Non-JSON response from auth.me:', text.substring(0, 500));
-          throw new Error(
-            `Server returned non-JSON response (${response.status}). ` +
-            `URL: ${API_URL}/trpc/auth.me`
-          );
-        }
+        },
+        request,
+        AUTH_CHECK_TIMEOUT
+      );
 
-        if (!response.ok) {
-          throw new Error('Failed to get user');
-        }
+      // Check if response is actually JSON
+      const contentType = response.headers.get('content-type');
+      if (!contentType || !contentType.includes('application/json')) {
+        const text = await response.text();
+        console.error('Non-JSON response from auth.me:', text.substring(0, 500));
+        throw new ApiError(
+          `Server returned non-JSON response (${response.status}). ` +
+          `URL: ${getApiUrl()}/trpc/auth.me`,
+          { code: 'INVALID_RESPONSE', status: response.status, endpoint: 'auth.me' }
+        );
+      }
 
-        const result = await response.json();
-        // Handle both nested and flat response structures
-        return result.result?.data?.json || result.result?.data || result;
-      } catch (error: any) {
-        clearTimeout(timeoutId);
-        if (error.name === 'AbortError') {
-          throw new Error('Request timeout - server may be unreachable');
-        }
-        throw error;
+      const result = await response.json();
+      if (!response.ok) {
+        throw ApiError.fromResponse('auth.me', response.status, result);
       }
+
+      return parseResponse('auth.me', authSchemas.me, unwrapTrpcResult(result));
     },
   },
   dayCycle: {
-    getCurrent: (branchId: string) => 
-      trpcQuery<any>('dayCycle.getCurrent', { branchId }),
+    getCurrent: (branchId: string, request?: RequestOptions) => 
+      trpcQuery('dayCycle.getCurrent', dayCycleSchemas.getCurrent, { branchId }, request),
     
-    list: (branchId: string, options?: { startDate?: string; endDate?: string; page?: number; pageSize?: number }) => 
-      trpcQuery<any>('dayCycle.list', {
+    list: (branchId: string, options?: { startDate?: string; endDate?: string; page?: number; pageSize?: number }, request?: RequestOptions) => 
+      trpcQuery('dayCycle.list', dayCycleSchemas.list, {
         branchId,
         page: options?.page || 1,
         pageSize: options?.pageSize || 30,
         ...(options?.startDate && { startDate: options.startDate }),
         ...(options?.endDate && { endDate: options.endDate }),
-      }),
+      }, request),
     
     open: (branchId: string, exchangeRate: number) => 
-      trpcMutation<any>('dayCycle.open', { branchId, exchangeRateUsdSdg: exchangeRate }),
+      trpcMutation('dayCycle.open', dayCycleSchemas.open, { branchId, exchangeRateUsdSdg: exchangeRate }),
     
     close: (dayCycleId: string, options?: { force?: boolean; notes?: string }) => 
-      trpcMutation<any>('dayCycle.close', { 
+      trpcMutation('dayCycle.close', dayCycleSchemas.close, { 
         dayCycleId,
         ...(options?.force !== undefined && { force: options.force }),
         ...(options?.notes && { notes: options.notes }),
       }),
     
     reopen: (dayCycleId: string, notes?: string) => 
-      trpcMutation<any>('dayCycle.reopen', { 
+      trpcMutation('dayCycle.reopen', dayCycleSchemas.reopen, { 
         dayCycleId,
         ...(notes && { notes }),
       }),
     
     updateExchangeRate: (dayCycleId: string, exchangeRate: number) => 
-      trpcMutation<any>('dayCycle.updateExchangeRate', { 
+      trpcMutation('dayCycle.updateExchangeRate', dayCycleSchemas.updateExchangeRate, { 
         dayCycleId, 
         exchangeRateUsdSdg: exchangeRate 
       }),
   },
   inventory: {
-    itemsWithPrices: async (branchId: string, _page = 1, _pageSize = 50, options?: { warehouseId?: string; shelfId?: string }) => {
-      const token = await getToken();
-      const authHeaders = { ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-
-      const parsePrice = (val: any): number => {
-        if (val == null) return 0;
-        const n = Number(val);
-        return isNaN(n) ? 0 : n;
-      };
-
+    itemsWithPrices: async (
+      branchId: string,
+      _page = 1,
+      _pageSize = 50,
+      options?: { warehouseId?: string; shelfId?: string },
+      request?: RequestOptions
+    ): Promise<ItemWithPrice[]> => {
       // Fetch all items across all pages (max 500 per page)
       const BATCH = 500;
-      let allItems: any[] = [];
+      let allItems: Item[] = [];
       let itemPage = 1;
       while (true) {
-        const res = await fetch(
-          `${API_URL}/trpc/inventory.items.list?input=${encodeURIComponent(JSON.stringify({ json: { page: itemPage, pageSize: BATCH, isActive: true } }))}`,
-          { headers: authHeaders }
-        );
-        const result = await res.json();
-        if (result.error) throw new Error(result.error.message || 'Failed to load items');
-        const batch = result.result?.data?.json?.data || result.result?.data?.data || [];
-        const totalPages = result.result?.data?.json?.totalPages ?? result.result?.data?.totalPages ?? 1;
-        allItems = allItems.concat(batch);
-        if (itemPage >= totalPages || batch.length === 0) break;
+        const result: Paginated<Item> = await trpcQuery('inventory.items.list', inventorySchemas.items.list, {
+          page: itemPage,
+          pageSize: BATCH,
+          isActive: true,
+        }, request);
+        allItems = allItems.concat(result.data);
+        if (itemPage >= result.totalPages || result.data.length === 0) break;
         itemPage++;
       }
 
       // Fetch all price policies for this branch+location in bulk (no N+1)
-      let allPolicies: any[] = [];
+      let allPolicies: PricePolicy[] = [];
       let policyPage = 1;
       const policyParams: Record<string, any> = { branchId, pageSize: BATCH };
       if (options?.warehouseId) policyParams.warehouseId = options.warehouseId;
       if (options?.shelfId) policyParams.shelfId = options.shelfId;
       while (true) {
-        const res = await fetch(
-          `${API_URL}/trpc/inventory.pricePolicies.list?input=${encodeURIComponent(JSON.stringify({ json: { ...policyParams, page: policyPage } }))}`,
-          { headers: authHeaders }
-        );
-        const result = await res.json();
-        // pricePolicies.list is admin-only; if forbidden, stop — prices will show as 0
-        if (result.error) break;
-        const batch = result.result?.data?.json?.data || result.result?.data?.data || [];
-        const totalPages = result.result?.data?.json?.totalPages ?? result.result?.data?.totalPages ?? 1;
-        allPolicies = allPolicies.concat(batch);
-        if (policyPage >= totalPages || batch.length === 0) break;
+        let result: Paginated<PricePolicy>;
+        try {
+          result = await trpcQuery('inventory.pricePolicies.list', inventorySchemas.pricePolicies.list, {
+            ...policyParams,
+            page: policyPage,
+          }, request);
+        } catch (error) {
+          // A cancelled or timed-out load must not look like a successful one
+          if (isApiError(error, 'CLIENT_CLOSED_REQUEST') || isApiError(error, 'TIMEOUT')) throw error;
+          // pricePolicies.list is admin-only; if forbidden, stop — prices will show as 0
+          break;
+        }
+        allPolicies = allPolicies.concat(result.data);
+        if (policyPage >= result.totalPages || result.data.length === 0) break;
         policyPage++;
       }
 
       // Build a best-match policy map per itemId.
       // Resolution order (most specific wins): shelf > warehouse > branch-only
-      const specificity = (p: any): number => {
+      const specificity = (p: PricePolicy): number => {
         if (p.shelfId) return 3;
         if (p.warehouseId) return 2;
         return 1;
       };
-      const policyMap = new Map<string, any>();
+      const policyMap = new Map<string, PricePolicy>();
       for (const p of allPolicies) {
         const existing = policyMap.get(p.itemId);
         if (!existing || specificity(p) > specificity(existing)) {
@@ -561,198 +1013,151 @@ export const api = {
         }
       }
 
-      return allItems.map((item: any) => {
-        const policy = policyMap.get(item.id) ?? null;
+      return allItems.map((item) => {
+        const policy = policyMap.get(item.id);
         return {
           id: item.id,
           name: item.nameEn,
           nameAr: item.nameAr,
           sku: item.sku,
-          wholesalePrice: policy ? parsePrice(policy.wholesalePriceUsd) : 0,
-          retailPrice: policy ? parsePrice(policy.retailPriceUsd) : 0,
+          wholesalePrice: policy?.wholesalePriceUsd ?? 0,
+          retailPrice: policy?.retailPriceUsd ?? 0,
           unit: item.unit?.symbol || item.unit?.name,
         };
       });
     },
-    shelves: () => 
-      trpcQuery<any>('inventory.shelves.list', {}),
+    shelves: (request?: RequestOptions) => 
+      trpcQuery('inventory.shelves.list', inventorySchemas.shelves, {}, request),
     
-    warehouses: () => 
-      trpcQuery<any>('inventory.warehouses.list', {}),
+    warehouses: (request?: RequestOptions) => 
+      trpcQuery('inventory.warehouses.list', inventorySchemas.warehouses, {}, request),
     
     categories: {
-      list: (opts?: { includeInactive?: boolean }) =>
-        trpcQuery<any>('inventory.categories.list', opts || {}),
-      create: (data: { name: string; nameAr: string; parentId?: string }) =>
-        trpcMutation<any>('inventory.categories.create', data),
-      update: (data: { id: string; name?: string; nameAr?: string; parentId?: string | null; isActive?: boolean }) =>
-        trpcMutation<any>('inventory.categories.update', data),
+      list: (opts?: { includeInactive?: boolean }, request?: RequestOptions) =>
+        trpcQuery('inventory.categories.list', inventorySchemas.categories.list, opts || {}, request),
+      create: (data: z.input<typeof inventoryInputs.createCategory>) =>
+        trpcMutation('inventory.categories.create', inventorySchemas.categories.create, data, inventoryInputs.createCategory),
+      update: (data: z.input<typeof inventoryInputs.updateCategory>) =>
+        trpcMutation('inventory.categories.update', inventorySchemas.categories.update, data, inventoryInputs.updateCategory),
     },
     units: {
-      list: () => trpcQuery<any>('inventory.units.list'),
-      create: (data: { name: string; nameAr: string; symbol: string }) =>
-        trpcMutation<any>('inventory.units.create', data),
-      update: (data: { id: string; name?: string; nameAr?: string; symbol?: string }) =>
-        trpcMutation<any>('inventory.units.update', data),
+      list: (request?: RequestOptions) => trpcQuery('inventory.units.list', inventorySchemas.units.list, {}, request),
+      create: (data: z.input<typeof inventoryInputs.createUnit>) =>
+        trpcMutation('inventory.units.create', inventorySchemas.units.create, data, inventoryInputs.createUnit),
+      update: (data: z.input<typeof inventoryInputs.updateUnit>) =>
+        trpcMutation('inventory.units.update', inventorySchemas.units.update, data, inventoryInputs.updateUnit),
     },
 
     items: {
-      list: (page = 1, pageSize = 50) =>
-        trpcQuery<any>('inventory.items.list', { page, pageSize, isActive: true }),
-      getById: (id: string) =>
-        trpcQuery<any>('inventory.items.getById', { id }),
-      create: (data: {
-        sku: string;
-        nameEn: string;
-        nameAr: string;
-        description?: string;
-        categoryId: string;
-        unitId: string;
-        isConsignment?: boolean;
-        minStockLevel?: number;
-        maxStockLevel?: number;
-      }) => trpcMutation<any>('inventory.items.create', data),
-      update: (data: {
-        id: string;
-        nameEn?: string;
-        nameAr?: string;
-        sku?: string;
-        description?: string;
-        categoryId?: string;
-        unitId?: string;
-        isActive?: boolean;
-      }) => trpcMutation<any>('inventory.items.update', data),
+      list: (page = 1, pageSize = 50, request?: RequestOptions) =>
+        trpcQuery('inventory.items.list', inventorySchemas.items.list, { page, pageSize, isActive: true }, request),
+      getById: (id: string, request?: RequestOptions) =>
+        trpcQuery('inventory.items.getById', inventorySchemas.items.getById, { id }, request),
+      create: (data: z.input<typeof inventoryInputs.createItem>) =>
+        trpcMutation('inventory.items.create', inventorySchemas.items.create, data, inventoryInputs.createItem),
+      update: (data: z.input<typeof inventoryInputs.updateItem>) =>
+        trpcMutation('inventory.items.update', inventorySchemas.items.update, data, inventoryInputs.updateItem),
     },
     // Price policies
     pricePolicies: {
-      list: (branchId: string, itemId?: string, warehouseId?: string, shelfId?: string) =>
-        trpcQuery<any>('inventory.pricePolicies.list', {
+      list: (branchId: string, itemId?: string, warehouseId?: string, shelfId?: string, request?: RequestOptions) =>
+        trpcQuery('inventory.pricePolicies.list', inventorySchemas.pricePolicies.list, {
           branchId,
           ...(itemId && { itemId }),
           ...(warehouseId !== undefined && { warehouseId }),
           ...(shelfId !== undefined && { shelfId }),
-        }),
+        }, request),
 
-      getForItem: (itemId: string, branchId: string, warehouseId?: string, shelfId?: string) =>
-        trpcQuery<any>('inventory.pricePolicies.getForItem', {
+      getForItem: (itemId: string, branchId: string, warehouseId?: string, shelfId?: string, request?: RequestOptions) =>
+        trpcQuery('inventory.pricePolicies.getForItem', inventorySchemas.pricePolicies.getForItem, {
           itemId,
           branchId,
           ...(warehouseId && { warehouseId }),
           ...(shelfId && { shelfId }),
-        }),
-
-      create: (data: {
-        itemId: string;
-        branchId: string;
-        warehouseId?: string;
-        shelfId?: string;
-        wholesalePriceUsd: number;
-        retailPriceUsd: number;
-        priceRangeMinUsd: number;
-        priceRangeMaxUsd: number;
-        effectiveFrom: string;
-        effectiveTo?: string;
-      }) => trpcMutation<any>('inventory.pricePolicies.create', data),
-
-      update: (data: {
-        id: string;
-        warehouseId?: string | null;
-        shelfId?: string | null;
-        wholesalePriceUsd?: number;
-        retailPriceUsd?: number;
-        priceRangeMinUsd?: number;
-        priceRangeMaxUsd?: number;
-        effectiveTo?: string | null;
-      }) => trpcMutation<any>('inventory.pricePolicies.update', data),
+        }, request),
+
+      create: (data: z.input<typeof inventoryInputs.createPricePolicy>) =>
+        trpcMutation('inventory.pricePolicies.create', inventorySchemas.pricePolicies.create, data, inventoryInputs.createPricePolicy),
+
+      update: (data: z.input<typeof inventoryInputs.updatePricePolicy>) =>
+        trpcMutation('inventory.pricePolicies.update', inventorySchemas.pricePolicies.update, data, inventoryInputs.updatePricePolicy),
     },
     // Stock management
     stockManagement: {
-      getWarehouseStock: (warehouseId: string, options?: { categoryId?: string; search?: string; page?: number; pageSize?: number }) => 
-        trpcQuery<any>('inventory.stock.getWarehouseStock', {
+      getWarehouseStock: (warehouseId: string, options?: { categoryId?: string; search?: string; page?: number; pageSize?: number }, request?: RequestOptions) => 
+        trpcQuery('inventory.stock.getWarehouseStock', inventorySchemas.stock.getWarehouseStock, {
           warehouseId,
           page: options?.page || 1,
           pageSize: options?.pageSize || 20,
           ...(options?.categoryId && { categoryId: options.categoryId }),
           ...(options?.search && { search: options.search }),
-        }),
+        }, request),
       
-      getShelfStock: (shelfId: string, options?: { categoryId?: string; search?: string; page?: number; pageSize?: number }) => 
-        trpcQuery<any>('inventory.stock.getShelfStock', {
+      getShelfStock: (shelfId: string, options?: { categoryId?: string; search?: string; page?: number; pageSize?: number }, request?: RequestOptions) => 
+        trpcQuery('inventory.stock.getShelfStock', inventorySchemas.stock.getShelfStock, {
           shelfId,
           page: options?.page || 1,
           pageSize: options?.pageSize || 20,
           ...(options?.categoryId && { categoryId: options.categoryId }),
           ...(options?.search && { search: options.search }),
-        }),
+        }, request),
       
-      getBatches: (itemId: string, options?: { warehouseId?: string; shelfId?: string; includeEmpty?: boolean }) => 
-        trpcQuery<any>('inventory.stock.getBatches', {
+      getBatches: (itemId: string, options?: { warehouseId?: string; shelfId?: string; includeEmpty?: boolean }, request?: RequestOptions) => 
+        trpcQuery('inventory.stock.getBatches', inventorySchemas.stock.getBatches, {
           itemId,
           ...(options?.warehouseId && { warehouseId: options.warehouseId }),
           ...(options?.shelfId && { shelfId: options.shelfId }),
           ...(options?.includeEmpty !== undefined && { includeEmpty: options.includeEmpty }),
-        }),
+        }, request),
       
-      getMovements: (options?: { batchId?: string; itemId?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }) =>
-        trpcQuery<any>('inventory.stock.getMovements', {
+      getMovements: (options?: { batchId?: string; itemId?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }, request?: RequestOptions) =>
+        trpcQuery('inventory.stock.getMovements', inventorySchemas.stock.getMovements, {
           page: options?.page || 1,
           pageSize: options?.pageSize || 50,
           ...(options?.batchId && { batchId: options.batchId }),
           ...(options?.itemId && { itemId: options.itemId }),
           ...(options?.startDate && { startDate: options.startDate }),
           ...(options?.endDate && { endDate: options.endDate }),
-        }),
+        }, request),
 
-      divideBatch: (data: { batchId: string; targetUnitId: string; quantityInTargetUnit: number }) =>
-        trpcMutation<any>('inventory.stock.divideBatch', data),
+      divideBatch: (data: z.input<typeof inventoryInputs.divideBatch>) =>
+        trpcMutation('inventory.stock.divideBatch', inventorySchemas.stock.divideBatch, data, inventoryInputs.divideBatch),
     },
 
     unitConversions: {
-      list: () => trpcQuery<any>('inventory.unitConversions.list'),
-      create: (data: { fromUnitId: string; toUnitId: string; factor: number }) =>
-        trpcMutation<any>('inventory.unitConversions.create', data),
-      update: (data: { id: string; factor?: number }) =>
-        trpcMutation<any>('inventory.unitConversions.update', data),
+      list: (request?: RequestOptions) => trpcQuery('inventory.unitConversions.list', inventorySchemas.unitConversions.list, {}, request),
+      create: (data: z.input<typeof inventoryInputs.createUnitConversion>) =>
+        trpcMutation('inventory.unitConversions.create', inventorySchemas.unitConversions.create, data, inventoryInputs.createUnitConversion),
+      update: (data: z.input<typeof inventoryInputs.updateUnitConversion>) =>
+        trpcMutation('inventory.unitConversions.update', inventorySchemas.unitConversions.update, data, inventoryInputs.updateUnitConversion),
     },
   },
   sales: {
-    invoices: (branchId: string, page = 1) => 
-      trpcQuery<any>('sales.salesInvoices.listByBranch', { branchId, page }),
+    invoices: (branchId: string, page = 1, request?: RequestOptions) => 
+      trpcQuery('sales.salesInvoices.listByBranch', salesSchemas.invoices.listByBranch, { branchId, page }, request),
     
-    getInvoice: (id: string) => 
-      trpcQuery<any>('sales.salesInvoices.getById', { id }),
+    getInvoice: (id: string, request?: RequestOptions) => 
+      trpcQuery('sales.salesInvoices.getById', salesSchemas.invoices.getById, { id }, request),
     
-    createInvoice: (data: {
-      shelfId: string;
-      customerId?: string;
-      invoiceType: 'WHOLESALE' | 'RETAIL';
-      paymentMethod?: 'CASH' | 'BANK_TRANSFER' | 'CREDIT' | 'MIXED';
-      notes?: string;
-      lines: { itemId: string; qty: number; unitPriceUsd: number }[];
-    }) => trpcMutation<any>('sales.salesInvoices.create', data),
+    createInvoice: (data: z.input<typeof salesInputs.createInvoice>, options?: MutationOptions) =>
+      trpcMutation('sales.salesInvoices.create', salesSchemas.invoices.create, data, salesInputs.createInvoice, idempotent(options)),
     
-    voidInvoice: (id: string, reason?: string) => 
-      trpcMutation<any>('sales.salesInvoices.void', { id, reason }),
+    voidInvoice: (id: string, reason?: string, options?: MutationOptions) => 
+      trpcMutation('sales.salesInvoices.void', salesSchemas.invoices.void, { id, reason }, undefined, idempotent(options)),
     customers: {
-      list: (page = 1, pageSize = 50) => 
-        trpcQuery<any>('sales.customers.list', { page, pageSize, isActive: true }),
+      list: (page = 1, pageSize = 50, request?: RequestOptions) => 
+        trpcQuery('sales.customers.list', salesSchemas.customers.list, { page, pageSize, isActive: true }, request),
       
-      getById: (id: string) => 
-        trpcQuery<any>('sales.customers.getById', { id }),
+      getById: (id: string, request?: RequestOptions) => 
+        trpcQuery('sales.customers.getById', salesSchemas.customers.getById, { id }, request),
       
-      create: (data: {
-        name: string;
-        nameAr?: string;
-        phone?: string;
-        email?: string;
-        customerType: 'WHOLESALE' | 'RETAIL';
-        creditLimitSdg?: number;
-      }) => trpcMutation<any>('sales.customers.create', data),
+      create: (data: z.input<typeof salesInputs.createCustomer>, options?: MutationOptions) =>
+        trpcMutation('sales.customers.create', salesSchemas.customers.create, data, salesInputs.createCustomer, idempotent(options)),
     },
     // Sales Orders (Warehouse)
     salesOrders: {
-      list: (branchId: string, options?: { customerId?: string; status?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }) => 
-        trpcQuery<any>('sales.salesOrders.list', {
+      list: (branchId: string, options?: { customerId?: string; status?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }, request?: RequestOptions) => 
+        trpcQuery('sales.salesOrders.list', salesSchemas.salesOrders.list, {
           branchId,
           page: options?.page || 1,
           pageSize: options?.pageSize || 20,
@@ -760,396 +1165,327 @@ export const api = {
           ...(options?.status && { status: options.status }),
           ...(options?.startDate && { startDate: options.startDate }),
           ...(options?.endDate && { endDate: options.endDate }),
-        }),
+        }, request),
       
-      getById: (id: string) => 
-        trpcQuery<any>('sales.salesOrders.getById', { id }),
+      getById: (id: string, request?: RequestOptions) => 
+        trpcQuery('sales.salesOrders.getById', salesSchemas.salesOrders.getById, { id }, request),
       
-      create: (data: {
-        customerId: string;
-        warehouseId: string;
-        notes?: string;
-        lines: { itemId: string; qty: number; unitPriceUsd: number }[];
-      }) => trpcMutation<any>('sales.salesOrders.create', data),
+      create: (data: z.input<typeof salesInputs.createSalesOrder>) =>
+        trpcMutation('sales.salesOrders.create', salesSchemas.salesOrders.create, data, salesInputs.createSalesOrder),
       
       confirm: (id: string) => 
-        trpcMutation<any>('sales.salesOrders.confirm', { id }),
+        trpcMutation('sales.salesOrders.confirm', salesSchemas.salesOrders.confirm, { id }),
       
-      deliver: (data: {
-        orderId: string;
-        lines: { lineId: string; qtyDelivered: number }[];
-      }) => trpcMutation<any>('sales.salesOrders.deliver', data),
+      deliver: (data: z.input<typeof salesInputs.deliverSalesOrder>) =>
+        trpcMutation('sales.salesOrders.deliver', salesSchemas.salesOrders.deliver, data, salesInputs.deliverSalesOrder),
     },
     // Goods Requests (Shelf to Warehouse)
     goodsRequests: {
-      list: (options?: { shelfId?: string; branchId?: string; status?: string; page?: number; pageSize?: number }) => 
-        trpcQuery<any>('sales.goodsRequests.list', {
+      list: (options?: { shelfId?: string; branchId?: string; status?: string; page?: number; pageSize?: number }, request?: RequestOptions) => 
+        trpcQuery('sales.goodsRequests.list', salesSchemas.goodsRequests.list, {
           page: options?.page || 1,
           pageSize: options?.pageSize || 20,
           ...(options?.shelfId && { shelfId: options.shelfId }),
           ...(options?.branchId && { branchId: options.branchId }),
           ...(options?.status && { status: options.status }),
-        }),
+        }, request),
       
-      getById: (id: string) => 
-        trpcQuery<any>('sales.goodsRequests.getById', { id }),
+      getById: (id: string, request?: RequestOptions) => 
+        trpcQuery('sales.goodsRequests.getById', salesSchemas.goodsRequests.getById, { id }, request),
       
-      create: (data: {
-        shelfId: string;
-        notes?: string;
-        lines: { itemId: string; qtyRequested: number }[];
-      }) => trpcMutation<any>('sales.goodsRequests.create', data),
+      create: (data: z.input<typeof salesInputs.createGoodsRequest>, options?: MutationOptions) =>
+        trpcMutation('sales.goodsRequests.create', salesSchemas.goodsRequests.create, data, salesInputs.createGoodsRequest, options),
       
-      submit: (id: string) => 
-        trpcMutation<any>('sales.goodsRequests.submit', { id }),
+      submit: (id: string, options?: MutationOptions) => 
+        trpcMutation('sales.goodsRequests.submit', salesSchemas.goodsRequests.submit, { id }, undefined, options),
       
-      approve: (data: {
-        requestId: string;
-        notes?: string;
-        lines: { lineId: string; qtyApproved: number }[];
-      }) => trpcMutation<any>('sales.goodsRequests.approve', data),
+      approve: (data: z.input<typeof salesInputs.approveGoodsRequest>) =>
+        trpcMutation('sales.goodsRequests.approve', salesSchemas.goodsRequests.approve, data, salesInputs.approveGoodsRequest),
       
-      reject: (data: {
-        requestId: string;
-        reason?: string;
-      }) => trpcMutation<any>('sales.goodsRequests.reject', data),
+      reject: (data: z.input<typeof salesInputs.rejectGoodsRequest>) =>
+        trpcMutation('sales.goodsRequests.reject', salesSchemas.goodsRequests.reject, data, salesInputs.rejectGoodsRequest),
       
-      issue: (data: {
-        requestId: string;
-        warehouseId: string;
-        lines: { lineId: string; qtyIssued: number }[];
-      }) => trpcMutation<any>('sales.goodsRequests.issue', data),
+      issue: (data: z.input<typeof salesInputs.issueGoodsRequest>, options?: MutationOptions) =>
+        trpcMutation('sales.goodsRequests.issue', salesSchemas.goodsRequests.issue, data, salesInputs.issueGoodsRequest, options),
     },
     // Daily aggregate invoice for shelf sales
     dailyAggregate: {
-      getOrCreate: (shelfId: string) => 
-        trpcQuery<any>('sales.dailyAggregate.getOrCreate', { shelfId }),
+      getOrCreate: (shelfId: string, request?: RequestOptions) => 
+        trpcQuery('sales.dailyAggregate.getOrCreate', salesSchemas.dailyAggregate.getOrCreate, { shelfId }, request),
       
       update: (shelfId: string, data: {
         cashTotalSdg?: number;
         cardTotalSdg?: number;
         itemCount?: number;
         transactionCount?: number;
-      }) => trpcMutation<any>('sales.dailyAggregate.update', { shelfId, ...data }),
+      }) =>
+        trpcMutation('sales.dailyAggregate.update', salesSchemas.dailyAggregate.update, { shelfId, ...data }),
     },
     // Server-side daily invoice draft
     dailyInvoiceDraft: {
-      getOrCreate: (shelfId: string) =>
-        trpcQuery<any>('sales.dailyInvoiceDraft.getOrCreate', { shelfId }),
-      addLine: (data: { shelfId: string; itemId: string; qty: number; unitPriceUsd: number; batchId?: string }) =>
-        trpcMutation<any>('sales.dailyInvoiceDraft.addLine', data),
+      getOrCreate: (shelfId: string, request?: RequestOptions) =>
+        trpcQuery('sales.dailyInvoiceDraft.getOrCreate', salesSchemas.dailyInvoiceDraft.getOrCreate, { shelfId }, request),
+      addLine: (data: z.input<typeof salesInputs.addDraftLine>, options?: MutationOptions) =>
+        trpcMutation('sales.dailyInvoiceDraft.addLine', salesSchemas.dailyInvoiceDraft.addLine, data, salesInputs.addDraftLine, options),
       removeLine: (lineId: string) =>
-        trpcMutation<any>('sales.dailyInvoiceDraft.removeLine', { lineId }),
+        trpcMutation('sales.dailyInvoiceDraft.removeLine', salesSchemas.dailyInvoiceDraft.removeLine, { lineId }),
       updateLineQty: (lineId: string, qty: number) =>
-        trpcMutation<any>('sales.dailyInvoiceDraft.updateLineQty', { lineId, qty }),
-      clearDraft: (shelfId: string) =>
-        trpcMutation<any>('sales.dailyInvoiceDraft.clearDraft', { shelfId }),
-      checkout: (data: {
-        shelfId: string;
-        paymentMethod: 'CASH' | 'BANK_TRANSFER' | 'MIXED';
-        cashAmountSdg?: number;
-        cardAmountSdg?: number;
-        transactionNumber?: string;
-        receiptImageUrls?: string[];
-        customerId?: string;
-      }) => trpcMutation<any>('sales.dailyInvoiceDraft.checkout', data),
+        trpcMutation('sales.dailyInvoiceDraft.updateLineQty', salesSchemas.dailyInvoiceDraft.updateLineQty, { lineId, qty }),
+      clearDraft: (shelfId: string, options?: MutationOptions) =>
+        trpcMutation('sales.dailyInvoiceDraft.clearDraft', salesSchemas.dailyInvoiceDraft.clearDraft, { shelfId }, undefined, options),
+      checkout: (data: z.input<typeof salesInputs.checkoutDraft>, options?: MutationOptions) =>
+        trpcMutation('sales.dailyInvoiceDraft.checkout', salesSchemas.dailyInvoiceDraft.checkout, data, salesInputs.checkoutDraft, idempotent(options)),
     },
   },
   procurement: {
-    orders: (branchId: string, page = 1, options?: { supplierId?: string; status?: string }) => 
-      trpcQuery<any>('procurement.purchaseOrders.list', { 
+    orders: (branchId: string, page = 1, options?: { supplierId?: string; status?: string }, request?: RequestOptions) => 
+      trpcQuery('procurement.purchaseOrders.list', procurementSchemas.purchaseOrders.list, { 
         branchId, 
         page,
         ...(options?.supplierId && { supplierId: options.supplierId }),
         ...(options?.status && { status: options.status }),
-      }),
+      }, request),
     
-    getOrderById: (id: string) => 
-      trpcQuery<any>('procurement.purchaseOrders.getById', { id }),
+    getOrderById: (id: string, request?: RequestOptions) => 
+      trpcQuery('procurement.purchaseOrders.getById', procurementSchemas.purchaseOrders.getById, { id }, request),
     
     approve: (id: string) => 
-      trpcMutation<any>('procurement.purchaseOrders.approve', { id }),
+      trpcMutation('procurement.purchaseOrders.approve', procurementSchemas.purchaseOrders.approve, { id }),
     
     // Goods Receipt
     goodsReceipts: {
-      create: (data: {
-        purchaseOrderId: string;
-        warehouseId: string;
-        notes?: string;
-        lines: {
-          purchaseOrderLineId: string;
-          itemId: string;
-          qtyReceived: number;
-          unitCostSdg: number;
-          expiryDate?: string;
-        }[];
-      }) => trpcMutation<any>('procurement.goodsReceipts.create', data),
+      create: (data: z.input<typeof procurementInputs.createGoodsReceipt>) =>
+        trpcMutation('procurement.goodsReceipts.create', procurementSchemas.goodsReceipts.create, data, procurementInputs.createGoodsReceipt),
       
-      getByPO: (purchaseOrderId: string) => 
-        trpcQuery<any>('procurement.goodsReceipts.getByPO', { purchaseOrderId }),
+      getByPO: (purchaseOrderId: string, request?: RequestOptions) => 
+        trpcQuery('procurement.goodsReceipts.getByPO', procurementSchemas.goodsReceipts.getByPO, { purchaseOrderId }, request),
     },
     
     suppliers: {
-      list: (page = 1, pageSize = 50) => 
-        trpcQuery<any>('procurement.suppliers.list', { page, pageSize, isActive: true }),
+      list: (page = 1, pageSize = 50, request?: RequestOptions) => 
+        trpcQuery('procurement.suppliers.list', procurementSchemas.suppliers.list, { page, pageSize, isActive: true }, request),
       
-      getById: (id: string) => 
-        trpcQuery<any>('procurement.suppliers.getById', { id }),
+      getById: (id: string, request?: RequestOptions) => 
+        trpcQuery('procurement.suppliers.getById', procurementSchemas.suppliers.getById, { id }, request),
       
-      create: (data: {
-        name: string;
-        nameAr?: string;
-        phone?: string;
-        email?: string;
-        address?: string;
-      }) => trpcMutation<any>('procurement.suppliers.create', data),
+      create: (data: z.input<typeof procurementInputs.createSupplier>) =>
+        trpcMutation('procurement.suppliers.create', procurementSchemas.suppliers.create, data, procurementInputs.createSupplier),
     },
     
-    createPurchaseOrder: (data: {
-      supplierId: string;
-      branchId: string;
-      expectedDate?: string;
-      notes?: string;
-      isConsignment?: boolean;
-      poNumber?: string;
-      operationNumber?: string;
-      lines: { itemId: string; qty: number; unitPriceSdg: number }[];
-    }) => trpcMutation<any>('procurement.purchaseOrders.create', data),
+    createPurchaseOrder: (data: z.input<typeof procurementInputs.createPurchaseOrder>) =>
+      trpcMutation('procurement.purchaseOrders.create', procurementSchemas.purchaseOrders.create, data, procurementInputs.createPurchaseOrder),
     
-    supplierInvoices: (page = 1, pageSize = 20) => 
-      trpcQuery<any>('procurement.supplierInvoices.list', { page, pageSize }),
+    supplierInvoices: (page = 1, pageSize = 20, request?: RequestOptions) => 
+      trpcQuery('procurement.supplierInvoices.list', procurementSchemas.supplierInvoices.list, { page, pageSize }, request),
     
-    createSupplierInvoice: (data: {
-      supplierId: string;
-      purchaseOrderId?: string;
-      invoiceNumber: string;
-      totalSdg: number;
-      invoiceDate: string;
-      dueDate: string;
-      notes?: string;
-    }) => trpcMutation<any>('procurement.supplierInvoices.create', data),
+    createSupplierInvoice: (data: z.input<typeof procurementInputs.createSupplierInvoice>) =>
+      trpcMutation('procurement.supplierInvoices.create', procurementSchemas.supplierInvoices.create, data, procurementInputs.createSupplierInvoice),
   },
   // ==================== ACCOUNTING ====================
   accounting: {
     // Accounts
     accounts: {
-      list: (accountType?: string) => 
-        trpcQuery<any>('accounting.accounts.list', accountType ? { accountType } : {}),
+      list: (accountType?: string, request?: RequestOptions) => 
+        trpcQuery('accounting.accounts.list', accountingSchemas.accounts.list, accountType ? { accountType } : {}, request),
     },
     
     // Transactions
     transactions: {
-      list: (branchId: string, options?: { transactionType?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }) => 
-        trpcQuery<any>('accounting.transactions.list', {
+      list: (branchId: string, options?: { transactionType?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }, request?: RequestOptions) => 
+        trpcQuery('accounting.transactions.list', accountingSchemas.transactions.list, {
           branchId,
           page: options?.page || 1,
           pageSize: options?.pageSize || 20,
           ...(options?.transactionType && { transactionType: options.transactionType }),
           ...(options?.startDate && { startDate: options.startDate }),
           ...(options?.endDate && { endDate: options.endDate }),
-        }),
+        }, request),
       
-      create: (data: {
-        transactionType: 'CASH_IN' | 'CASH_OUT' | 'BANK_IN' | 'BANK_OUT' | 'TRANSFER' | 'ADJUSTMENT';
-        amountSdg: number;
-        fromAccountId?: string;
-        toAccountId?: string;
-        description: string;
-        referenceNumber?: string;
-        receiptImages?: string[];
-      }) => trpcMutation<any>('accounting.transactions.create', data),
+      create: (data: z.input<typeof accountingInputs.createTransaction>) =>
+        trpcMutation('accounting.transactions.create', accountingSchemas.transactions.create, data, accountingInputs.createTransaction),
     },
     
     // Expenses
     expenses: {
-      list: (branchId: string, options?: { categoryId?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }) => 
-        trpcQuery<any>('accounting.expenses.list', {
+      list: (branchId: string, options?: { categoryId?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }, request?: RequestOptions) => 
+        trpcQuery('accounting.expenses.list', accountingSchemas.expenses.list, {
           branchId,
           page: options?.page || 1,
           pageSize: options?.pageSize || 20,
           ...(options?.categoryId && { categoryId: options.categoryId }),
           ...(options?.startDate && { startDate: options.startDate }),
           ...(options?.endDate && { endDate: options.endDate }),
-        }),
+        }, request),
       
-      create: (data: {
-        categoryId: string;
-        amountSdg: number;
-        description: string;
-        paymentMethod?: 'CASH' | 'BANK_TRANSFER';
-        receiptImageUrl?: string;
-      }) => trpcMutation<any>('accounting.expenses.create', data),
+      create: (data: z.input<typeof accountingInputs.createExpense>, options?: MutationOptions) =>
+        trpcMutation('accounting.expenses.create', accountingSchemas.expenses.create, data, accountingInputs.createExpense, idempotent(options)),
       
       approve: (id: string) => 
-        trpcMutation<any>('accounting.expenses.approve', { id }),
+        trpcMutation('accounting.expenses.approve', accountingSchemas.expenses.approve, { id }),
       
       categories: {
-        list: (opts?: { includeInactive?: boolean }) =>
-          trpcQuery<any>('accounting.expenses.categories.list', opts || {}),
-        create: (data: { name: string; nameAr: string }) =>
-          trpcMutation<any>('accounting.expenses.categories.create', data),
-        update: (data: { id: string; name?: string; nameAr?: string; isActive?: boolean }) =>
-          trpcMutation<any>('accounting.expenses.categories.update', data),
+        list: (opts?: { includeInactive?: boolean }, request?: RequestOptions) =>
+          trpcQuery('accounting.expenses.categories.list', accountingSchemas.expenses.categories.list, opts || {}, request),
+        create: (data: z.input<typeof accountingInputs.createExpenseCategory>) =>
+          trpcMutation('accounting.expenses.categories.create', accountingSchemas.expenses.categories.create, data, accountingInputs.createExpenseCategory),
+        update: (data: z.input<typeof accountingInputs.updateExpenseCategory>) =>
+          trpcMutation('accounting.expenses.categories.update', accountingSchemas.expenses.categories.update, data, accountingInputs.updateExpenseCategory),
       },
     },
     
     // Reports
     reports: {
-      dashboard: (branchId: string) => 
-        trpcQuery<any>('accounting.reports.dashboard', { branchId }),
+      dashboard: (branchId: string, request?: RequestOptions) => 
+        trpcQuery('accounting.reports.dashboard', accountingSchemas.reports.dashboard, { branchId }, request),
       
-      liquidAssets: (branchId: string) => 
-        trpcQuery<any>('accounting.reports.liquidAssets', { branchId }),
+      liquidAssets: (branchId: string, request?: RequestOptions) => 
+        trpcQuery('accounting.reports.liquidAssets', accountingSchemas.reports.liquidAssets, { branchId }, request),
       
-      outstandingPayables: (branchId?: string, supplierId?: string) => 
-        trpcQuery<any>('accounting.reports.outstandingPayables', {
+      outstandingPayables: (branchId?: string, supplierId?: string, request?: RequestOptions) => 
+        trpcQuery('accounting.reports.outstandingPayables', accountingSchemas.reports.outstandingPayables, {
           ...(branchId && { branchId }),
           ...(supplierId && { supplierId }),
-        }),
+        }, request),
       
-      outstandingReceivables: (branchId?: string, customerId?: string) => 
-        trpcQuery<any>('accounting.reports.outstandingReceivables', {
+      outstandingReceivables: (branchId?: string, customerId?: string, request?: RequestOptions) => 
+        trpcQuery('accounting.reports.outstandingReceivables', accountingSchemas.reports.outstandingReceivables, {
           ...(branchId && { branchId }),
           ...(customerId && { customerId }),
-        }),
+        }, request),
       
-      balanceSheet: (branchId: string, asOfDate?: string) => 
-        trpcQuery<any>('accounting.reports.balanceSheet', {
+      balanceSheet: (branchId: string, asOfDate?: string, request?: RequestOptions) => 
+        trpcQuery('accounting.reports.balanceSheet', accountingSchemas.reports.balanceSheet, {
           branchId,
           ...(asOfDate && { asOfDate }),
-        }),
+        }, request),
 
-      userSalesProfit: (options?: { dateFrom?: string; dateTo?: string; userId?: string }) =>
-        trpcQuery<any>('accounting.reports.userSalesProfit', {
+      userSalesProfit: (options?: { dateFrom?: string; dateTo?: string; userId?: string }, request?: RequestOptions) =>
+        trpcQuery('accounting.reports.userSalesProfit', accountingSchemas.reports.userSalesProfit, {
           ...(options?.dateFrom && { dateFrom: options.dateFrom }),
           ...(options?.dateTo && { dateTo: options.dateTo }),
           ...(options?.userId && { userId: options.userId }),
-        }),
+        }, request),
     },
     
     // Budget
     budget: {
-      list: (branchId: string, period?: string) => 
-        trpcQuery<any>('accounting.budget.list', {
+      list: (branchId: string, period?: string, request?: RequestOptions) => 
+        trpcQuery('accounting.budget.list', accountingSchemas.budget.list, {
           branchId,
           ...(period && { period }),
-        }),
+        }, request),
       
-      getPreviousPeriods: (branchId: string, months = 6) => 
-        trpcQuery<any>('accounting.budget.getPreviousPeriods', { branchId, months }),
+      getPreviousPeriods: (branchId: string, months = 6, request?: RequestOptions) => 
+        trpcQuery('accounting.budget.getPreviousPeriods', accountingSchemas.budget.getPreviousPeriods, { branchId, months }, request),
     },
     
     // Payment Schedules
     paymentSchedules: {
-      list: (options?: { status?: string; supplierId?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }) => 
-        trpcQuery<any>('accounting.paymentSchedules.list', {
+      list: (options?: { status?: string; supplierId?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }, request?: RequestOptions) => 
+        trpcQuery('accounting.paymentSchedules.list', accountingSchemas.paymentSchedules.list, {
           page: options?.page || 1,
           pageSize: options?.pageSize || 20,
           ...(options?.status && { status: options.status }),
           ...(options?.supplierId && { supplierId: options.supplierId }),
           ...(options?.startDate && { startDate: options.startDate }),
           ...(options?.endDate && { endDate: options.endDate }),
-        }),
+        }, request),
       
-      create: (data: { invoiceId: string; amountSdg: number; dueDate: string; notes?: string }) => 
-        trpcMutation<any>('accounting.paymentSchedules.create', data),
+      create: (data: z.input<typeof accountingInputs.createPaymentSchedule>) => 
+        trpcMutation('accounting.paymentSchedules.create', accountingSchemas.paymentSchedules.create, data, accountingInputs.createPaymentSchedule),
       
       markPaid: (id: string) => 
-        trpcMutation<any>('accounting.paymentSchedules.markPaid', { id }),
+        trpcMutation('accounting.paymentSchedules.markPaid', accountingSchemas.paymentSchedules.markPaid, { id }),
     },
     
     // Bank Notices (Match Operation)
     bankNotices: {
-      list: (options?: { isMatched?: boolean; supplierId?: string; page?: number; pageSize?: number }) => 
-        trpcQuery<any>('accounting.bankNotices.list', {
+      list: (options?: { isMatched?: boolean; supplierId?: string; page?: number; pageSize?: number }, request?: RequestOptions) => 
+        trpcQuery('accounting.bankNotices.list', accountingSchemas.bankNotices.list, {
           page: options?.page || 1,
           pageSize: options?.pageSize || 20,
           ...(options?.isMatched !== undefined && { isMatched: options.isMatched }),
           ...(options?.supplierId && { supplierId: options.supplierId }),
-        }),
+        }, request),
       
-      create: (data: { invoiceId: string; operationNumber: string; bankReference?: string; amountSdg: number; fileUrl?: string }) => 
-        trpcMutation<any>('accounting.bankNotices.create', data),
+      create: (data: z.input<typeof accountingInputs.createBankNotice>) => 
+        trpcMutation('accounting.bankNotices.create', accountingSchemas.bankNotices.create, data, accountingInputs.createBankNotice),
       
       match: (id: string, operationNumber: string) => 
-        trpcMutation<any>('accounting.bankNotices.match', { id, operationNumber }),
+        trpcMutation('accounting.bankNotices.match', accountingSchemas.bankNotices.match, { id, operationNumber }),
     },
     
     // Supplier Invoices (Consignment, Deferred, Issued)
     supplierInvoices: {
-      list: (options?: { status?: string; supplierId?: string; isConsignment?: boolean; startDate?: string; endDate?: string; page?: number; pageSize?: number }) => 
-        trpcQuery<any>('accounting.supplierInvoices.list', {
+      list: (options?: { branchId?: string; status?: string; supplierId?: string; isConsignment?: boolean; startDate?: string; endDate?: string; page?: number; pageSize?: number }, request?: RequestOptions) => 
+        trpcQuery('accounting.supplierInvoices.list', accountingSchemas.supplierInvoices.list, {
           page: options?.page || 1,
           pageSize: options?.pageSize || 20,
+          ...(options?.branchId && { branchId: options.branchId }),
           ...(options?.status && { status: options.status }),
           ...(options?.supplierId && { supplierId: options.supplierId }),
           ...(options?.isConsignment !== undefined && { isConsignment: options.isConsignment }),
           ...(options?.startDate && { startDate: options.startDate }),
           ...(options?.endDate && { endDate: options.endDate }),
-        }),
+        }, request),
       
-      listDeferred: (options?: { supplierId?: string; page?: number; pageSize?: number }) => 
-        trpcQuery<any>('accounting.supplierInvoices.listDeferred', {
+      listDeferred: (options?: { supplierId?: string; page?: number; pageSize?: number }, request?: RequestOptions) => 
+        trpcQuery('accounting.supplierInvoices.listDeferred', accountingSchemas.supplierInvoices.listDeferred, {
           page: options?.page || 1,
           pageSize: options?.pageSize || 20,
           ...(options?.supplierId && { supplierId: options.supplierId }),
-        }),
+        }, request),
       
-      listIssued: (options?: { supplierId?: string; page?: number; pageSize?: number }) => 
-        trpcQuery<any>('accounting.supplierInvoices.listIssued', {
+      listIssued: (options?: { supplierId?: string; page?: number; pageSize?: number }, request?: RequestOptions) => 
+        trpcQuery('accounting.supplierInvoices.listIssued', accountingSchemas.supplierInvoices.listIssued, {
           page: options?.page || 1,
           pageSize: options?.pageSize || 20,
           ...(options?.supplierId && { supplierId: options.supplierId }),
-        }),
+        }, request),
       
-      listConsignment: (options?: { page?: number; pageSize?: number }) => 
-        trpcQuery<any>('accounting.supplierInvoices.listConsignment', {
+      listConsignment: (options?: { page?: number; pageSize?: number }, request?: RequestOptions) => 
+        trpcQuery('accounting.supplierInvoices.listConsignment', accountingSchemas.supplierInvoices.listConsignment, {
           page: options?.page || 1,
           pageSize: options?.pageSize || 20,
-        }),
+        }, request),
       
       updateStatus: (id: string, status: string) => 
-        trpcMutation<any>('accounting.supplierInvoices.updateStatus', { id, status }),
+        trpcMutation('accounting.supplierInvoices.updateStatus', accountingSchemas.supplierInvoices.updateStatus, { id, status }),
       
       // Get single invoice by ID
-      getById: (id: string) => 
-        trpcQuery<any>('accounting.supplierInvoices.getById', { id }),
+      getById: (id: string, request?: RequestOptions) => 
+        trpcQuery('accounting.supplierInvoices.getById', accountingSchemas.supplierInvoices.getById, { id }, request),
       
       // Pay invoice (Admin only)
-      payInvoice: (data: {
-        id: string;
-        paymentMethod: 'CASH' | 'BANK_TRANSFER';
-        transactionNumber?: string;
-        receiptImageUrl?: string;
-        receiptImageUrls?: string[];
-        paidAmountSdg?: number;
-      }) => trpcMutation<any>('accounting.supplierInvoices.payInvoice', data),
+      payInvoice: (data: z.input<typeof accountingInputs.payInvoice>, options?: MutationOptions) =>
+        trpcMutation('accounting.supplierInvoices.payInvoice', accountingSchemas.supplierInvoices.payInvoice, data, accountingInputs.payInvoice, idempotent(options)),
       
       // Mark invoice as outstanding (ready for goods receipt)
       markOutstanding: (id: string) => 
-        trpcMutation<any>('accounting.supplierInvoices.markOutstanding', { id }),
+        trpcMutation('accounting.supplierInvoices.markOutstanding', accountingSchemas.supplierInvoices.markOutstanding, { id }),
       
       // Confirm payment (procurement user marks payment as confirmed)
       confirmPayment: (id: string) => 
-        trpcMutation<any>('accounting.supplierInvoices.updateStatus', { id, status: 'PAID' }),
+        trpcMutation('accounting.supplierInvoices.updateStatus', accountingSchemas.supplierInvoices.updateStatus, { id, status: 'PAID' }),
     },
     
     // Bank Accounts
     bankAccounts: {
-      list: () => trpcQuery<any>('accounting.bankAccounts.list'),
-      create: (data: { bankName: string; bankNameAr?: string; accountNumber: string; iban?: string }) =>
-        trpcMutation<any>('accounting.bankAccounts.create', data),
-      update: (data: { id: string; bankName?: string; bankNameAr?: string; accountNumber?: string; iban?: string; isActive?: boolean }) =>
-        trpcMutation<any>('accounting.bankAccounts.update', data),
-      delete: (id: string) => trpcMutation<any>('accounting.bankAccounts.delete', { id }),
+      list: (request?: RequestOptions) => trpcQuery('accounting.bankAccounts.list', accountingSchemas.bankAccounts.list, {}, request),
+      create: (data: z.input<typeof accountingInputs.createBankAccount>) =>
+        trpcMutation('accounting.bankAccounts.create', accountingSchemas.bankAccounts.create, data, accountingInputs.createBankAccount),
+      update: (data: z.input<typeof accountingInputs.updateBankAccount>) =>
+        trpcMutation('accounting.bankAccounts.update', accountingSchemas.bankAccounts.update, data, accountingInputs.updateBankAccount),
+      delete: (id: string) =>
+        trpcMutation('accounting.bankAccounts.delete', accountingSchemas.bankAccounts.delete, { id }),
     },
 
     // Bank Payments
     bankPayments: {
-      submit: (data: { bankAccountId: string; amountSdg: number; transactionId?: string; transactionNumber?: string; receiptImageUrl: string; receiptImageUrls?: string[]; description?: string }) =>
-        trpcMutation<any>('accounting.bankPayments.submit', data),
-      list: (options?: { status?: string; userId?: string; bankAccountId?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }) =>
-        trpcQuery<any>('accounting.bankPayments.list', {
+      submit: (data: z.input<typeof accountingInputs.submitBankPayment>, options?: MutationOptions) =>
+        trpcMutation('accounting.bankPayments.submit', accountingSchemas.bankPayments.submit, data, accountingInputs.submitBankPayment, idempotent(options)),
+      list: (options?: { status?: string; userId?: string; bankAccountId?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }, request?: RequestOptions) =>
+        trpcQuery('accounting.bankPayments.list', accountingSchemas.bankPayments.list, {
           page: options?.page || 1,
           pageSize: options?.pageSize || 20,
           ...(options?.status && { status: options.status }),
@@ -1157,117 +1493,85 @@ export const api = {
           ...(options?.bankAccountId && { bankAccountId: options.bankAccountId }),
           ...(options?.startDate && { startDate: options.startDate }),
           ...(options?.endDate && { endDate: options.endDate }),
-        }),
+        }, request),
       updateStatus: (id: string, status: 'APPROVED' | 'REJECTED') =>
-        trpcMutation<any>('accounting.bankPayments.updateStatus', { id, status }),
+        trpcMutation('accounting.bankPayments.updateStatus', accountingSchemas.bankPayments.updateStatus, { id, status }),
     },
 
     // Outstanding Invoices (for mobile screen)
     outstandingInvoices: {
-      list: async (branchId: string, type?: 'RECEIVABLE' | 'PAYABLE') => {
-        const token = await getToken();
+      list: async (
+        branchId: string,
+        type?: 'RECEIVABLE' | 'PAYABLE',
+        request?: RequestOptions
+      ): Promise<(OutstandingInvoice & { invoiceType: 'RECEIVABLE' | 'PAYABLE' })[]> => {
         const params = { branchId };
-        
-        if (type === 'RECEIVABLE' || !type) {
-          // Get sales invoices that are outstanding
-          const receivablesResponse = await fetch(
-            `${API_URL}/trpc/accounting.reports.outstandingReceivables?input=${encodeURIComponent(JSON.stringify({ json: params }))}`,
-            {
-              headers: {
-                ...(token ? { Authorization: `Bearer ${token}` } : {}),
-              },
-            }
+        const receivables = async () => {
+          const report = await trpcQuery(
+            'accounting.reports.outstandingReceivables',
+            accountingSchemas.reports.outstandingReceivables,
+            params,
+            request
           );
-          const receivablesResult = await receivablesResponse.json();
-          const receivables = receivablesResult.result?.data?.json || receivablesResult.result?.data || { invoices: [] };
-          
-          if (type === 'RECEIVABLE') {
-            return receivables.invoices.map((inv: any) => ({
-              ...inv,
-              invoiceType: 'RECEIVABLE',
-            }));
-          }
-          
-          // Get payables too if no specific type
-          const payablesResponse = await fetch(
-            `${API_URL}/trpc/accounting.reports.outstandingPayables?input=${encodeURIComponent(JSON.stringify({ json: params }))}`,
-            {
-              headers: {
-                ...(token ? { Authorization: `Bearer ${token}` } : {}),
-              },
-            }
+          return report.invoices.map((inv) => ({ ...inv, invoiceType: 'RECEIVABLE' as const }));
+        };
+        const payables = async () => {
+          const report = await trpcQuery(
+            'accounting.reports.outstandingPayables',
+            accountingSchemas.reports.outstandingPayables,
+            params,
+            request
           );
-          const payablesResult = await payablesResponse.json();
-          const payables = payablesResult.result?.data?.json || payablesResult.result?.data || { invoices: [] };
-          
-          return [
-            ...receivables.invoices.map((inv: any) => ({ ...inv, invoiceType: 'RECEIVABLE' })),
-            ...payables.invoices.map((inv: any) => ({ ...inv, invoiceType: 'PAYABLE' })),
-          ];
-        }
-        
-        // PAYABLE only
-        const payablesResponse = await fetch(
-          `${API_URL}/trpc/accounting.reports.outstandingPayables?input=${encodeURIComponent(JSON.stringify({ json: params }))}`,
-          {
-            headers: {
-              ...(token ? { Authorization: `Bearer ${token}` } : {}),
-            },
-          }
-        );
-        const payablesResult = await payablesResponse.json();
-        const payables = payablesResult.result?.data?.json || payablesResult.result?.data || { invoices: [] };
-        
-        return payables.invoices.map((inv: any) => ({
-          ...inv,
-          invoiceType: 'PAYABLE',
-        }));
+          return report.invoices.map((inv) => ({ ...inv, invoiceType: 'PAYABLE' as const }));
+        };
+
+        if (type === 'RECEIVABLE') return receivables();
+        if (type === 'PAYABLE') return payables();
+        return [...(await receivables()), ...(await payables())];
       },
     },
   },
   
   // ==================== USERS ====================
   users: {
-    list: (options?: { branchId?: string; role?: string; search?: string; page?: number; pageSize?: number }) =>
-      trpcQuery<any>('user.list', {
+    list: (options?: { branchId?: string; role?: string; search?: string; page?: number; pageSize?: number }, request?: RequestOptions) =>
+      trpcQuery('user.list', userSchemas.list, {
         page: options?.page || 1,
         pageSize: options?.pageSize || 50,
         ...(options?.branchId && { branchId: options.branchId }),
         ...(options?.role && { role: options.role }),
         ...(options?.search && { search: options.search }),
-      }),
+      }, request),
     
-    getById: (id: string) =>
-      trpcQuery<any>('user.getById', { id }),
+    getById: (id: string, request?: RequestOptions) =>
+      trpcQuery('user.getById', userSchemas.getById, { id }, request),
     
-    create: (data: {
-      email: string;
-      password: string;
-      name: string;
-      nameAr?: string;
-      role: 'MANAGER' | 'WAREHOUSE_SALES' | 'SHELF_SALES' | 'PROCUREMENT' | 'ACCOUNTANT';
-      branchId?: string;
-    }) => trpcMutation<any>('user.create', data),
+    create: (data: z.input<typeof userInputs.create>) =>
+      trpcMutation('user.create', userSchemas.create, data, userInputs.create),
     
-    update: (data: {
-      id: string;
-      email?: string;
-      name?: string;
-      nameAr?: string;
-      role?: 'MANAGER' | 'WAREHOUSE_SALES' | 'SHELF_SALES' | 'PROCUREMENT' | 'ACCOUNTANT';
-      branchId?: string;
-      warehouseId?: string | null;
-      shelfId?: string | null;
-      isActive?: boolean;
-    }) => trpcMutation<any>('user.update', data),
+    update: (data: z.input<typeof userInputs.update>) =>
+      trpcMutation('user.update', userSchemas.update, data, userInputs.update),
     
     resetPassword: (userId: string, newPassword: string) =>
-      trpcMutation<any>('user.resetPassword', { userId, newPassword }),
+      trpcMutation('user.resetPassword', userSchemas.resetPassword, { userId, newPassword }),
   },
   
   // ==================== BRANCHES ====================
   branch: {
-    list: () => trpcQuery<any>('branch.list'),
-    getById: (id: string) => trpcQuery<any>('branch.getById', { id }),
+    list: (request?: RequestOptions) => trpcQuery('branch.list', branchSchemas.list, {}, request),
+    getById: (id: string, request?: RequestOptions) => trpcQuery('branch.getById', branchSchemas.getById, { id }, request),
+  },
+
+  // ==================== OFFLINE SYNC ====================
+  sync: {
+    /**
+     * Changes to an offline table after `cursor`. Fails with PRECONDITION_FAILED
+     * when the cursor has expired; servers without delta sync answer NOT_FOUND.
+     */
+    changes: <T extends SyncTable>(
+      table: T,
+      params: { cursor?: string; branchId?: string; shelfId?: string; warehouseId?: string },
+      request?: RequestOptions
+    ) => trpcQuery('sync.changes', syncSchemas.changes[table], { table, ...params }, request),
   },
 };
@@ -0,0 +1,220 @@
+import type { z } from 'zod';
+
+/**
+ * tRPC error codes (`error.data.code`) plus a few the client raises itself when
+ * no server answer is available.
+ */
+export type ApiErrorCode =
+  | 'PARSE_ERROR'
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_SUPPORTED'
+  | 'TIMEOUT'
+  | 'CONFLICT'
+  | 'PRECONDITION_FAILED'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'UNPROCESSABLE_CONTENT'
+  | 'TOO_MANY_REQUESTS'
+  | 'CLIENT_CLOSED_REQUEST'
+  | 'INTERNAL_SERVER_ERROR'
+  | 'NOT_IMPLEMENTED'
+  | 'BAD_GATEWAY'
+  | 'SERVICE_UNAVAILABLE'
+  | 'GATEWAY_TIMEOUT'
+  // Client-side
+  | 'NETWORK_ERROR'
+  | 'INVALID_RESPONSE'
+  // A repeated write the server had already applied, refused without its result
+  | 'ALREADY_SUBMITTED'
+  | 'UNKNOWN';
+
+/** Validation messages keyed by dotted field path, e.g. `lines.0.qty`. */
+export type FieldErrors = Record<string, string[]>;
+
+const STATUS_CODES: Record<number, ApiErrorCode> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  405: 'METHOD_NOT_SUPPORTED',
+  408: 'TIMEOUT',
+  409: 'CONFLICT',
+  412: 'PRECONDITION_FAILED',
+  413: 'PAYLOAD_TOO_LARGE',
+  422: 'UNPROCESSABLE_CONTENT',
+  429: 'TOO_MANY_REQUESTS',
+  499: 'CLIENT_CLOSED_REQUEST',
+  500: 'INTERNAL_SERVER_ERROR',
+  501: 'NOT_IMPLEMENTED',
+  502: 'BAD_GATEWAY',
+  503: 'SERVICE_UNAVAILABLE',
+  504: 'GATEWAY_TIMEOUT',
+};
+
+// Worth sending again unchanged: the server may answer differently next time
+const RETRYABLE_CODES: ApiErrorCode[] = [
+  'NETWORK_ERROR',
+  'TIMEOUT',
+  'TOO_MANY_REQUESTS',
+  'INTERNAL_SERVER_ERROR',
+  'BAD_GATEWAY',
+  'SERVICE_UNAVAILABLE',
+  'GATEWAY_TIMEOUT',
+];
+
+export function codeFromStatus(status?: number): ApiErrorCode {
+  if (!status) return 'UNKNOWN';
+  return STATUS_CODES[status] ?? (status >= 500 ? 'INTERNAL_SERVER_ERROR' : 'UNKNOWN');
+}
+
+interface ApiErrorOptions {
+  code: ApiErrorCode;
+  status?: number;
+  endpoint?: string;
+  fieldErrors?: FieldErrors;
+  retryable?: boolean;
+  duplicate?: boolean;
+  originalResult?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * Error thrown by every request helper in `lib/api.ts`. Callers branch on `code`
+ * (never on the message text), forms read `fieldErrors` to mark the inputs the
+ * server or the input schema rejected.
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly fieldErrors: FieldErrors;
+  readonly retryable: boolean;
+  /**
+   * The server refused the write because its idempotency key was already used:
+   * the change has been applied by an earlier attempt.
+   */
+  readonly duplicate: boolean;
+  /** What the earlier attempt returned, when the server sends it with the refusal. */
+  readonly originalResult?: unknown;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = options.code;
+    this.status = options.status;
+    this.endpoint = options.endpoint;
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.retryable = options.retryable ?? RETRYABLE_CODES.includes(options.code);
+    this.duplicate = options.duplicate ?? false;
+    this.originalResult = options.originalResult;
+    this.cause = options.cause;
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+
+  /** First message for `field`, if the request failed validation on it. */
+  fieldError(field: string): string | undefined {
+    return this.fieldErrors[field]?.[0];
+  }
+
+  /** Builds the error for a failed tRPC response body (plain or superjson-wrapped). */
+  static fromResponse(endpoint: string, status: number, body: any): ApiError {
+    const err = body?.error?.json ?? body?.error ?? body;
+    const data = err?.data ?? {};
+    const code: ApiErrorCode = data.code ?? codeFromStatus(data.httpStatus ?? status);
+    const fieldErrors = parseZodError(data.zodError);
+    const message =
+      err?.message ||
+      data.message ||
+      Object.values(fieldErrors)[0]?.[0] ||
+      `Request failed (${status})`;
+    return new ApiError(message, {
+      code,
+      status: data.httpStatus ?? status,
+      endpoint,
+      fieldErrors,
+      duplicate: code === 'CONFLICT' && data.duplicateRequest === true,
+      originalResult: data.originalResult,
+    });
+  }
+
+  /** Builds a `BAD_REQUEST` error from zod issues raised on the client. */
+  static fromZodIssues(endpoint: string, issues: z.ZodIssue[]): ApiError {
+    const detail = issues
+      .slice(0, 3)
+      .map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`)
+      .join('; ');
+    return new ApiError(`Request validation failed for ${endpoint}: ${detail}`, {
+      code: 'BAD_REQUEST',
+      endpoint,
+      fieldErrors: groupIssues(issues),
+    });
+  }
+
+  /**
+   * Normalises anything thrown while talking to the server. `fetch` rejects with a
+   * TypeError when the host is unreachable and with an AbortError on abort.
+   */
+  static from(error: unknown, endpoint?: string): ApiError {
+    if (error instanceof ApiError) return error;
+    const e = error as any;
+    if (e instanceof TypeError || e?.message === 'Network request failed') {
+      return new ApiError(e.message || 'Network request failed', { code: 'NETWORK_ERROR', endpoint, cause: error });
+    }
+    if (e?.name === 'AbortError') {
+      return new ApiError('Request timed out', { code: 'TIMEOUT', endpoint, cause: error });
+    }
+    return new ApiError(e?.message || 'Request failed', { code: 'UNKNOWN', endpoint, cause: error });
+  }
+}
+
+export function isApiError(error: unknown, code?: ApiErrorCode): error is ApiError {
+  return error instanceof ApiError && (code === undefined || error.code === code);
+}
+
+/** True when a write failed only because an earlier attempt already applied it. */
+export function isDuplicateRequest(error: unknown): error is ApiError {
+  return error instanceof ApiError && error.duplicate;
+}
+
+function groupIssues(issues: { path: (string | number)[]; message: string }[]): FieldErrors {
+  const fields: FieldErrors = {};
+  for (const issue of issues) {
+    const key = issue.path.join('.');
+    if (!key) continue;
+    (fields[key] ??= []).push(issue.message);
+  }
+  return fields;
+}
+
+/**
+ * The server's error formatter sends `zodError` either as `ZodError.flatten()`
+ * (`{ fieldErrors }`) or, on older builds, as the serialised issue list.
+ */
+function parseZodError(zodError: unknown): FieldErrors {
+  let value = zodError;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  if (Array.isArray(value)) {
+    return groupIssues(value.filter((i) => Array.isArray(i?.path)));
+  }
+  const fieldErrors = (value as any)?.fieldErrors;
+  if (fieldErrors && typeof fieldErrors === 'object') {
+    const fields: FieldErrors = {};
+    for (const [key, messages] of Object.entries(fieldErrors)) {
+      if (Array.isArray(messages) && messages.length > 0) fields[key] = messages.map(String);
+    }
+    return fields;
+  }
+  return {};
+}
@@ -0,0 +1,65 @@
+import { closeDatabase, getDb, initDatabase, wipeOfflineData } from '@/lib/db/database';
+import { getSchemaVersion, LATEST_VERSION } from '@/lib/db/migrations';
+
+beforeAll(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => closeDatabase());
+
+describe('initDatabase', () => {
+  it('creates the offline database at the latest version', async () => {
+    await initDatabase();
+
+    expect(await getSchemaVersion(getDb())).toBe(LATEST_VERSION);
+  });
+
+  it('rebuilds a database it cannot upgrade, keeping the mutation queue', async () => {
+    await initDatabase();
+    const old = getDb();
+    await old.runAsync(
+      `INSERT INTO mutation_queue (id, mutation_type, payload, user_context, user_id, created_at, idempotency_key)
+       VALUES ('queued', 'sales.invoices.create', '{"shelfId":"s1"}', '{"userId":"u1"}', 'u1', 1, 'key-1')`
+    );
+    await old.runAsync(`INSERT INTO customers (id, name, customer_type) VALUES ('c1', 'Amna', 'RETAIL')`);
+    // Left by a newer app version, whose schema this one cannot read
+    await old.execAsync(`PRAGMA user_version = ${LATEST_VERSION + 1}`);
+    await closeDatabase();
+
+    await initDatabase();
+
+    const db = getDb();
+    expect(await getSchemaVersion(db)).toBe(LATEST_VERSION);
+    expect(await db.getAllAsync('SELECT id, user_id, idempotency_key FROM mutation_queue')).toEqual([
+      { id: 'queued', user_id: 'u1', idempotency_key: 'key-1' },
+    ]);
+    // Cached server data comes back with the next sync
+    expect(await db.getAllAsync('SELECT id FROM customers')).toEqual([]);
+  });
+});
+
+describe('wipeOfflineData', () => {
+  it('erases cached data and synced entries, keeping the writes not yet on the server', async () => {
+    await initDatabase();
+    const old = getDb();
+    await old.runAsync('DELETE FROM mutation_queue');
+    for (const [id, status] of [['pending', 'pending'], ['dead', 'dead'], ['synced', 'synced']]) {
+      await old.runAsync(
+        `INSERT INTO mutation_queue (id, mutation_type, payload, user_context, user_id, status, created_at, idempotency_key)
+         VALUES (?, 'accounting.expenses.create', '{}', '{"userId":"u1"}', 'u1', ?, 1, ?)`,
+        [id, status, `key-${id}`]
+      );
+    }
+    await old.runAsync(`INSERT INTO customers (id, name, customer_type) VALUES ('c1', 'Amna', 'RETAIL')`);
+
+    await wipeOfflineData();
+
+    const db = getDb();
+    expect(await db.getAllAsync('SELECT id, status, idempotency_key FROM mutation_queue ORDER BY id')).toEqual([
+      { id: 'dead', status: 'dead', idempotency_key: 'key-dead' },
+      { id: 'pending', status: 'pending', idempotency_key: 'key-pending' },
+    ]);
+    expect(await db.getAllAsync('SELECT id FROM customers')).toEqual([]);
+  });
+});
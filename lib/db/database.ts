@@ -1,162 +1,211 @@
 import * as SQLite from 'expo-sqlite';
+import { databaseNameFor } from '@/lib/serverProfiles';
+import { migrateDatabase, MigrationError } from '@/lib/db/migrations';
+import { deleteDatabaseKey, encryptDatabaseFile, loadDatabaseKey, openEncryptedDatabase } from '@/lib/db/encryption';
+import { reindexSearch } from '@/lib/db/search';
+import { getActiveProfile, useServerStore } from '@/stores/server';
 
 let _db: SQLite.SQLiteDatabase | null = null;
 
+/** Opens (once) the offline database of the active server profile; `initDatabase` must have run. */
 export function getDb(): SQLite.SQLiteDatabase {
   if (!_db) {
-    _db = SQLite.openDatabaseSync('golden_offline.db');
+    _db = openEncryptedDatabase(activeDatabaseName());
   }
   return _db;
 }
 
+/** Closes the open database so the next `getDb()` opens the active profile's file. */
+export async function closeDatabase(): Promise<void> {
+  const db = _db;
+  const writeDb = _writeDb;
+  _db = null;
+  _writeDb = null;
+  await writeDb?.closeAsync();
+  await db?.closeAsync();
+}
+
+// Second keyed connection to the same file, only ever used by `withWriteTransaction`
+let _writeDb: SQLite.SQLiteDatabase | null = null;
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+async function getWriteDb(): Promise<SQLite.SQLiteDatabase> {
+  if (!_writeDb) {
+    const db = openEncryptedDatabase(activeDatabaseName(), { useNewConnection: true });
+    await configure(db);
+    _writeDb = db;
+  }
+  return _writeDb;
+}
+
+/**
+ * Runs `task` as one transaction on a connection of its own. Readers keep
+ * seeing the last committed data until it commits, and if the app dies halfway
+ * nothing of it is kept. Transactions run one after another so table refreshes
+ * never fight over the write lock.
+ */
+export function withWriteTransaction(task: (txn: SQLite.SQLiteDatabase) => Promise<void>): Promise<void> {
+  const run = writeQueue.then(async () => {
+    const db = await getWriteDb();
+    // Takes the write lock up front, waiting out other writers instead of failing halfway as busy
+    await db.execAsync('BEGIN IMMEDIATE');
+    try {
+      await task(db);
+      await db.execAsync('COMMIT');
+    } catch (error) {
+      await db.execAsync('ROLLBACK');
+      throw error;
+    }
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+/** Removes a profile's database file; it must not be the one currently open. */
+export async function deleteDatabaseFor(profileId: string): Promise<void> {
+  const name = databaseNameFor(profileId);
+  await SQLite.deleteDatabaseAsync(name);
+  // Only exists once the database has been upgraded
+  await SQLite.deleteDatabaseAsync(backupNameFor(name)).catch(() => {});
+}
+
 export async function initDatabase(): Promise<void> {
-  const db = getDb();
+  await loadDatabaseKey();
+  // Files from before encryption, and the backup taken from them, are converted in place
+  await encryptDatabaseFile(activeDatabaseName());
+  await encryptDatabaseFile(backupNameFor(activeDatabaseName()));
+
+  let db = getDb();
+  if (!(await isReadable(db))) {
+    console.error('Offline database cannot be decrypted with this install\'s key, starting a new one');
+    await closeDatabase();
+    await SQLite.deleteDatabaseAsync(activeDatabaseName());
+    db = getDb();
+  }
+  await configure(db);
+
+  try {
+    await migrateDatabase(db, backupNameFor(activeDatabaseName()));
+  } catch (error) {
+    if (!(error instanceof MigrationError)) throw error;
+    console.error('Offline database upgrade failed, rebuilding it:', error);
+    await rebuildDatabase();
+  }
+}
 
+async function configure(db: SQLite.SQLiteDatabase): Promise<void> {
   await db.execAsync(`
     PRAGMA journal_mode = WAL;
     PRAGMA foreign_keys = ON;
+    -- Writes wait for a sync transaction to commit instead of failing as locked
+    PRAGMA busy_timeout = 5000;
+  `);
+}
 
-    -- Track per-table sync timestamps
-    CREATE TABLE IF NOT EXISTS cache_meta (
-      table_name TEXT PRIMARY KEY,
-      last_synced INTEGER NOT NULL DEFAULT 0
-    );
-
-    -- Item categories
-    CREATE TABLE IF NOT EXISTS item_categories (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      name_ar TEXT NOT NULL,
-      parent_id TEXT,
-      is_active INTEGER NOT NULL DEFAULT 1
-    );
-
-    -- Units
-    CREATE TABLE IF NOT EXISTS units (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      name_ar TEXT NOT NULL,
-      symbol TEXT NOT NULL
-    );
+async function isReadable(db: SQLite.SQLiteDatabase): Promise<boolean> {
+  try {
+    await db.getFirstAsync('SELECT COUNT(*) FROM sqlite_master');
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-    -- Unit conversions
-    CREATE TABLE IF NOT EXISTS unit_conversions (
-      id TEXT PRIMARY KEY,
-      from_unit_id TEXT NOT NULL,
-      to_unit_id TEXT NOT NULL,
-      factor REAL NOT NULL
-    );
+/**
+ * Erases the offline database of every server profile, backups included, and
+ * forgets the key they were encrypted with. Like `rebuildDatabase`, it carries
+ * over the queued writes not yet on the server, now under the new key: they
+ * are sales and payments of whoever used the device, and exist nowhere else.
+ */
+export async function wipeOfflineData(): Promise<void> {
+  await closeDatabase();
+  const unsynced = new Map<string, QueueRow[]>();
+  for (const profile of useServerStore.getState().profiles) {
+    const rows = await readUnsynced(databaseNameFor(profile.id));
+    if (rows.length > 0) unsynced.set(profile.id, rows);
+    // Profiles never switched to have no file
+    await deleteDatabaseFor(profile.id).catch(() => {});
+  }
+  await deleteDatabaseKey();
+  await initDatabase();
 
-    -- Items (product catalog)
-    CREATE TABLE IF NOT EXISTS items (
-      id TEXT PRIMARY KEY,
-      sku TEXT NOT NULL,
-      name_en TEXT NOT NULL,
-      name_ar TEXT NOT NULL,
-      category_id TEXT,
-      unit_id TEXT,
-      is_active INTEGER NOT NULL DEFAULT 1,
-      is_consignment INTEGER NOT NULL DEFAULT 0,
-      min_stock_level REAL,
-      max_stock_level REAL,
-      unit_symbol TEXT,
-      unit_name TEXT,
-      category_name TEXT,
-      category_name_ar TEXT
-    );
+  for (const [profileId, rows] of unsynced) {
+    if (profileId === getActiveProfile().id) {
+      await restoreQueue(getDb(), rows);
+      continue;
+    }
+    const name = databaseNameFor(profileId);
+    const db = openEncryptedDatabase(name);
+    try {
+      await configure(db);
+      await migrateDatabase(db, backupNameFor(name));
+      await restoreQueue(db, rows);
+    } finally {
+      await db.closeAsync();
+    }
+  }
+}
 
-    -- Price policies
-    CREATE TABLE IF NOT EXISTS price_policies (
-      id TEXT PRIMARY KEY,
-      item_id TEXT NOT NULL,
-      branch_id TEXT NOT NULL,
-      warehouse_id TEXT,
-      shelf_id TEXT,
-      wholesale_price_usd REAL NOT NULL DEFAULT 0,
-      retail_price_usd REAL NOT NULL DEFAULT 0,
-      price_range_min_usd REAL NOT NULL DEFAULT 0,
-      price_range_max_usd REAL NOT NULL DEFAULT 0,
-      effective_from TEXT NOT NULL,
-      effective_to TEXT
-    );
+type QueueRow = Record<string, SQLite.SQLiteBindValue>;
 
-    -- Customers
-    CREATE TABLE IF NOT EXISTS customers (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      name_ar TEXT,
-      phone TEXT,
-      email TEXT,
-      customer_type TEXT NOT NULL,
-      is_active INTEGER NOT NULL DEFAULT 1,
-      credit_limit_sdg REAL,
-      balance_sdg REAL DEFAULT 0
+async function readUnsynced(databaseName: string): Promise<QueueRow[]> {
+  const db = openEncryptedDatabase(databaseName);
+  try {
+    return await db.getAllAsync<QueueRow>(
+      `SELECT * FROM mutation_queue WHERE status IN ('pending', 'failed', 'dead')`
     );
+  } catch {
+    // No file yet, or one from before the queue existed
+    return [];
+  } finally {
+    await db.closeAsync();
+  }
+}
 
-    -- Warehouses
-    CREATE TABLE IF NOT EXISTS warehouses (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      name_ar TEXT NOT NULL,
-      code TEXT NOT NULL
-    );
+/** Inserts queue rows taken from an older file; columns the schema no longer has are dropped, new ones take their defaults. */
+async function restoreQueue(db: SQLite.SQLiteDatabase, rows: QueueRow[]): Promise<void> {
+  const columns = (await db.getAllAsync<{ name: string }>('PRAGMA table_info(mutation_queue)')).map((c) => c.name);
+  await db.withTransactionAsync(async () => {
+    for (const row of rows) {
+      const kept = columns.filter((c) => c in row);
+      await db.runAsync(
+        `INSERT OR IGNORE INTO mutation_queue (${kept.join(', ')}) VALUES (${kept.map(() => '?').join(', ')})`,
+        kept.map((c) => row[c])
+      );
+    }
+  });
+}
 
-    -- Shelves
-    CREATE TABLE IF NOT EXISTS shelves (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      name_ar TEXT NOT NULL,
-      code TEXT NOT NULL,
-      user_id TEXT
-    );
+function activeDatabaseName(): string {
+  return databaseNameFor(getActiveProfile().id);
+}
 
-    -- Current day cycle snapshot
-    CREATE TABLE IF NOT EXISTS day_cycle (
-      id TEXT PRIMARY KEY,
-      branch_id TEXT NOT NULL,
-      cycle_date TEXT NOT NULL,
-      exchange_rate_usd_sdg REAL NOT NULL,
-      status TEXT NOT NULL,
-      opened_at TEXT,
-      closed_at TEXT,
-      synced_at INTEGER NOT NULL DEFAULT 0
-    );
+/** Copy taken before each upgrade, kept next to the database it came from. */
+function backupNameFor(databaseName: string): string {
+  return databaseName.replace(/\.db$/, '') + '.backup.db';
+}
 
-    -- Batch / stock data for user's location
-    CREATE TABLE IF NOT EXISTS batches (
-      id TEXT PRIMARY KEY,
-      item_id TEXT NOT NULL,
-      warehouse_id TEXT,
-      shelf_id TEXT,
-      qty_remaining REAL NOT NULL DEFAULT 0,
-      unit_cost_usd REAL NOT NULL DEFAULT 0,
-      received_date TEXT NOT NULL,
-      is_consignment INTEGER NOT NULL DEFAULT 0
-    );
+/**
+ * Last resort when the schema cannot be upgraded: starts a fresh database and
+ * carries the mutation queue over, since it holds sales and payments that are
+ * not on the server yet. Everything else is cached server data and comes back
+ * with the next sync; the backup taken before the upgrade keeps the original.
+ */
+async function rebuildDatabase(): Promise<void> {
+  let queued: QueueRow[] = [];
+  try {
+    queued = await getDb().getAllAsync('SELECT * FROM mutation_queue');
+  } catch (error) {
+    console.error('Could not read the mutation queue of the old database:', error);
+  }
 
-    -- Offline mutation queue
-    CREATE TABLE IF NOT EXISTS mutation_queue (
-      id TEXT PRIMARY KEY,
-      mutation_type TEXT NOT NULL,
-      payload TEXT NOT NULL,
-      user_context TEXT NOT NULL,
-      status TEXT NOT NULL DEFAULT 'pending',
-      local_ref TEXT,
-      server_result TEXT,
-      error_message TEXT,
-      created_at INTEGER NOT NULL,
-      synced_at INTEGER,
-      retry_count INTEGER NOT NULL DEFAULT 0
-    );
+  await closeDatabase();
+  await SQLite.deleteDatabaseAsync(activeDatabaseName());
 
-    -- Create indexes for frequently queried columns
-    CREATE INDEX IF NOT EXISTS idx_price_policies_item_branch ON price_policies(item_id, branch_id);
-    CREATE INDEX IF NOT EXISTS idx_batches_item ON batches(item_id);
-    CREATE INDEX IF NOT EXISTS idx_batches_shelf ON batches(shelf_id);
-    CREATE INDEX IF NOT EXISTS idx_batches_warehouse ON batches(warehouse_id);
-    CREATE INDEX IF NOT EXISTS idx_mutation_queue_status ON mutation_queue(status);
-    CREATE INDEX IF NOT EXISTS idx_items_sku ON items(sku);
-  `);
+  const db = getDb();
+  await configure(db);
+  await migrateDatabase(db, backupNameFor(activeDatabaseName()));
+  await restoreQueue(db, queued);
 }
 
 export async function getCacheMeta(tableName: string): Promise<number> {
@@ -171,11 +220,44 @@ export async function getCacheMeta(tableName: string): Promise<number> {
 export async function updateCacheMeta(tableName: string): Promise<void> {
   const db = getDb();
   await db.runAsync(
-    'INSERT OR REPLACE INTO cache_meta (table_name, last_synced) VALUES (?, ?)',
+    `INSERT INTO cache_meta (table_name, last_synced) VALUES (?, ?)
+     ON CONFLICT(table_name) DO UPDATE SET last_synced = excluded.last_synced`,
     [tableName, Date.now()]
   );
 }
 
+/** Server cursor of the last delta sync of `key` (a table, or a table and its scope). */
+export async function getSyncCursor(key: string): Promise<string | null> {
+  const db = getDb();
+  const row = await db.getFirstAsync<{ cursor: string | null }>(
+    'SELECT cursor FROM cache_meta WHERE table_name = ?',
+    [key]
+  );
+  return row?.cursor ?? null;
+}
+
+/** Forgets every delta cursor of `table`, whatever scope it was kept for, so its next sync downloads it in full. */
+export async function clearSyncCursors(table: string): Promise<void> {
+  const db = getDb();
+  await db.runAsync('UPDATE cache_meta SET cursor = NULL WHERE table_name = ? OR table_name LIKE ?', [
+    table,
+    `${table}:%`,
+  ]);
+}
+
+/** Pass the transaction that wrote the rows, so the cursor commits with them. */
+export async function setSyncCursor(
+  key: string,
+  cursor: string | null,
+  db: SQLite.SQLiteDatabase = getDb()
+): Promise<void> {
+  await db.runAsync(
+    `INSERT INTO cache_meta (table_name, last_synced, cursor) VALUES (?, 0, ?)
+     ON CONFLICT(table_name) DO UPDATE SET cursor = excluded.cursor`,
+    [key, cursor]
+  );
+}
+
 export async function clearAllCaches(): Promise<void> {
   const db = getDb();
   await db.execAsync(`
@@ -184,11 +266,20 @@ export async function clearAllCaches(): Promise<void> {
     DELETE FROM unit_conversions;
     DELETE FROM items;
     DELETE FROM price_policies;
-    DELETE FROM customers;
+    -- Customers created offline stay until their create is replayed
+    DELETE FROM customers WHERE id NOT LIKE 'local-%';
     DELETE FROM warehouses;
     DELETE FROM shelves;
     DELETE FROM day_cycle;
     DELETE FROM batches;
+    -- The refetched rows include what synced writes took; queued ones still hold theirs
+    DELETE FROM stock_reservations WHERE confirmed_at IS NOT NULL;
+    DELETE FROM balance_reservations WHERE confirmed_at IS NOT NULL;
+    DELETE FROM expense_categories;
+    DELETE FROM bank_accounts;
+    DELETE FROM history_records;
     DELETE FROM cache_meta;
   `);
+  await reindexSearch(db, 'items');
+  await reindexSearch(db, 'customers');
 }
@@ -0,0 +1,118 @@
+/**
+ * Encryption at rest for the offline databases. The app is built with SQLCipher
+ * (the `useSQLCipher` option of the expo-sqlite plugin in app.json), and every
+ * connection opened through `openEncryptedDatabase` is keyed as it opens with
+ * one random key per install, kept in the secure store. Databases written
+ * before encryption are converted on their first open.
+ *
+ * expo-sqlite opens connections of its own that cannot be keyed, most notably
+ * the one behind `withExclusiveTransactionAsync`: on an encrypted file they
+ * fail with "file is not a database", so nothing here may use them.
+ *
+ * Where SQLCipher is missing (web, or a build without the plugin) the
+ * databases stay plain and a warning is logged.
+ */
+import * as SQLite from 'expo-sqlite';
+import * as SecureStore from 'expo-secure-store';
+import { File } from 'expo-file-system';
+
+const KEY_NAME = 'offlineDatabaseKey';
+
+/** `undefined` until loaded; `null` when SQLCipher is not available. */
+let databaseKey: string | null | undefined;
+
+/** Loads the install's key, creating it on first run. Must finish before any database opens. */
+export async function loadDatabaseKey(): Promise<void> {
+  if (databaseKey !== undefined) return;
+
+  const probe = await SQLite.openDatabaseAsync(':memory:');
+  try {
+    const cipher = await probe.getFirstAsync<{ cipher_version: string }>('PRAGMA cipher_version');
+    if (!cipher) {
+      console.warn('SQLCipher is not available: the offline database is stored unencrypted');
+      databaseKey = null;
+      return;
+    }
+
+    let key = await SecureStore.getItemAsync(KEY_NAME);
+    if (!key) {
+      // Hermes has no crypto.getRandomValues; SQLite's generator is seeded by the OS
+      const row = await probe.getFirstAsync<{ key: string }>('SELECT hex(randomblob(32)) AS key');
+      key = row!.key;
+      await SecureStore.setItemAsync(KEY_NAME, key, {
+        keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+      });
+    }
+    databaseKey = key;
+  } finally {
+    await probe.closeAsync();
+  }
+}
+
+/** Forgets the key; whatever was encrypted with it can no longer be read. */
+export async function deleteDatabaseKey(): Promise<void> {
+  databaseKey = undefined;
+  await SecureStore.deleteItemAsync(KEY_NAME);
+}
+
+/** Opens a database and keys the connection before anything else runs on it. */
+export function openEncryptedDatabase(name: string, options?: SQLite.SQLiteOpenOptions): SQLite.SQLiteDatabase {
+  if (databaseKey === undefined) {
+    throw new Error('The offline database key is not loaded; call initDatabase first');
+  }
+  const db = SQLite.openDatabaseSync(name, options);
+  if (databaseKey) db.execSync(`PRAGMA key = "${rawKey(databaseKey)}"`);
+  return db;
+}
+
+/**
+ * Converts a plain database file into an encrypted one under the same name.
+ * Files that are missing or already encrypted are left alone. The copy is
+ * written next to the original and only takes its place once complete, so an
+ * interrupted conversion starts over (or finishes the move) on the next run.
+ */
+export async function encryptDatabaseFile(name: string): Promise<void> {
+  if (!databaseKey) return;
+
+  const target = databaseFile(name);
+  const partial = databaseFile(name.replace(/\.db$/, '') + '.encrypting.db');
+  if (partial.exists) {
+    if (target.exists) partial.delete();
+    else partial.move(target);
+  }
+  if (!target.exists) return;
+
+  const plain = await SQLite.openDatabaseAsync(name);
+  try {
+    try {
+      await plain.getFirstAsync('SELECT COUNT(*) FROM sqlite_master');
+    } catch {
+      // Without the key an encrypted file does not read as a database
+      return;
+    }
+    const version = await plain.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    const partialPath = plain.databasePath.replace(/[^/]*$/, partial.name);
+    // sqlcipher_export copies schema and rows but not user_version, which tracks the migrations
+    await plain.execAsync(`
+      ATTACH DATABASE '${partialPath}' AS encrypted KEY "${rawKey(databaseKey)}";
+      SELECT sqlcipher_export('encrypted');
+      PRAGMA encrypted.user_version = ${version?.user_version ?? 0};
+      DETACH DATABASE encrypted;
+    `);
+  } finally {
+    await plain.closeAsync();
+  }
+
+  await SQLite.deleteDatabaseAsync(name);
+  partial.move(target);
+}
+
+/** A raw 256-bit key, so opening skips SQLCipher's passphrase derivation. */
+function rawKey(hex: string): string {
+  return `x'${hex}'`;
+}
+
+function databaseFile(name: string): File {
+  const directory: string = SQLite.defaultDatabaseDirectory;
+  return new File(directory.startsWith('file://') ? directory : `file://${directory}`, name);
+}
@@ -0,0 +1,190 @@
+import * as SQLite from 'expo-sqlite';
+import { loadDatabaseKey, openEncryptedDatabase } from '@/lib/db/encryption';
+import { getSchemaVersion, LATEST_VERSION, MigrationError, migrateDatabase } from '@/lib/db/migrations';
+
+// The offline database as the app created it before migrations were versioned
+const LEGACY_SCHEMA = `
+  CREATE TABLE cache_meta (table_name TEXT PRIMARY KEY, last_synced INTEGER NOT NULL DEFAULT 0);
+  CREATE TABLE item_categories (
+    id TEXT PRIMARY KEY, name TEXT NOT NULL, name_ar TEXT NOT NULL, parent_id TEXT,
+    is_active INTEGER NOT NULL DEFAULT 1
+  );
+  CREATE TABLE units (id TEXT PRIMARY KEY, name TEXT NOT NULL, name_ar TEXT NOT NULL, symbol TEXT NOT NULL);
+  CREATE TABLE unit_conversions (
+    id TEXT PRIMARY KEY, from_unit_id TEXT NOT NULL, to_unit_id TEXT NOT NULL, factor REAL NOT NULL
+  );
+  CREATE TABLE items (
+    id TEXT PRIMARY KEY, sku TEXT NOT NULL, name_en TEXT NOT NULL, name_ar TEXT NOT NULL, category_id TEXT,
+    unit_id TEXT, is_active INTEGER NOT NULL DEFAULT 1, is_consignment INTEGER NOT NULL DEFAULT 0,
+    min_stock_level REAL, max_stock_level REAL, unit_symbol TEXT, unit_name TEXT, category_name TEXT,
+    category_name_ar TEXT
+  );
+  CREATE TABLE price_policies (
+    id TEXT PRIMARY KEY, item_id TEXT NOT NULL, branch_id TEXT NOT NULL, warehouse_id TEXT, shelf_id TEXT,
+    wholesale_price_usd REAL NOT NULL DEFAULT 0, retail_price_usd REAL NOT NULL DEFAULT 0,
+    price_range_min_usd REAL NOT NULL DEFAULT 0, price_range_max_usd REAL NOT NULL DEFAULT 0,
+    effective_from TEXT NOT NULL, effective_to TEXT
+  );
+  CREATE TABLE customers (
+    id TEXT PRIMARY KEY, name TEXT NOT NULL, name_ar TEXT, phone TEXT, email TEXT, customer_type TEXT NOT NULL,
+    is_active INTEGER NOT NULL DEFAULT 1, credit_limit_sdg REAL, balance_sdg REAL DEFAULT 0
+  );
+  CREATE TABLE warehouses (id TEXT PRIMARY KEY, name TEXT NOT NULL, name_ar TEXT NOT NULL, code TEXT NOT NULL);
+  CREATE TABLE shelves (
+    id TEXT PRIMARY KEY, name TEXT NOT NULL, name_ar TEXT NOT NULL, code TEXT NOT NULL, user_id TEXT
+  );
+  CREATE TABLE day_cycle (
+    id TEXT PRIMARY KEY, branch_id TEXT NOT NULL, cycle_date TEXT NOT NULL, exchange_rate_usd_sdg REAL NOT NULL,
+    status TEXT NOT NULL, opened_at TEXT, closed_at TEXT, synced_at INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE batches (
+    id TEXT PRIMARY KEY, item_id TEXT NOT NULL, warehouse_id TEXT, shelf_id TEXT,
+    qty_remaining REAL NOT NULL DEFAULT 0, unit_cost_usd REAL NOT NULL DEFAULT 0, received_date TEXT NOT NULL,
+    is_consignment INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE mutation_queue (
+    id TEXT PRIMARY KEY, mutation_type TEXT NOT NULL, payload TEXT NOT NULL, user_context TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending', local_ref TEXT, server_result TEXT, error_message TEXT,
+    created_at INTEGER NOT NULL, synced_at INTEGER, retry_count INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX idx_price_policies_item_branch ON price_policies(item_id, branch_id);
+  CREATE INDEX idx_batches_item ON batches(item_id);
+  CREATE INDEX idx_batches_shelf ON batches(shelf_id);
+  CREATE INDEX idx_batches_warehouse ON batches(warehouse_id);
+  CREATE INDEX idx_mutation_queue_status ON mutation_queue(status);
+  CREATE INDEX idx_items_sku ON items(sku);
+`;
+
+let databases = 0;
+
+function openDatabase(): { db: SQLite.SQLiteDatabase; name: string; backupName: string } {
+  const name = `migrations-${++databases}.db`;
+  return { db: openEncryptedDatabase(name), name, backupName: `migrations-${databases}.backup.db` };
+}
+
+/** Columns and indexes of every table, comparable between databases that took different paths. */
+async function schemaOf(db: SQLite.SQLiteDatabase): Promise<Record<string, unknown>> {
+  const objects = await db.getAllAsync<{ type: string; name: string; tbl_name: string }>(
+    "SELECT type, name, tbl_name FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY name"
+  );
+  const schema: Record<string, unknown> = {};
+  for (const object of objects) {
+    if (object.type === 'table') {
+      const columns = await db.getAllAsync<{ name: string; type: string; notnull: number; dflt_value: unknown; pk: number }>(
+        `PRAGMA table_info(${object.name})`
+      );
+      schema[object.name] = columns
+        .map(({ name, type, notnull, dflt_value, pk }) => ({ name, type, notnull, dflt_value, pk }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } else if (object.type === 'index') {
+      schema[`index ${object.name}`] = object.tbl_name;
+    }
+  }
+  return schema;
+}
+
+async function queueRow(db: SQLite.SQLiteDatabase, id: string): Promise<any> {
+  return db.getFirstAsync('SELECT * FROM mutation_queue WHERE id = ?', [id]);
+}
+
+let latestSchema: Record<string, unknown>;
+
+beforeAll(async () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  await loadDatabaseKey();
+
+  const { db, backupName } = openDatabase();
+  await migrateDatabase(db, backupName);
+  latestSchema = await schemaOf(db);
+  await db.closeAsync();
+});
+
+describe('migrateDatabase', () => {
+  it('creates the latest schema on an empty database', async () => {
+    const { db, backupName } = openDatabase();
+    await migrateDatabase(db, backupName);
+
+    expect(await getSchemaVersion(db)).toBe(LATEST_VERSION);
+    expect(await schemaOf(db)).toEqual(latestSchema);
+    await db.closeAsync();
+  });
+
+  it.each(Array.from({ length: LATEST_VERSION }, (_, version) => version))(
+    'upgrades a database left at version %i',
+    async (version) => {
+      const { db, backupName } = openDatabase();
+      await migrateDatabase(db, backupName, version);
+      expect(await getSchemaVersion(db)).toBe(version);
+      if (version >= 1) {
+        await db.runAsync(
+          `INSERT INTO mutation_queue (id, mutation_type, payload, user_context, created_at)
+           VALUES ('queued', 'sales.invoices.create', '{"shelfId":"s1"}', '{"userId":"u1"}', 1)`
+        );
+        // As the app wrote it from the version that added the column
+        if (version >= 10) await db.runAsync(`UPDATE mutation_queue SET user_id = 'u1'`);
+        if (version >= 15) await db.runAsync(`UPDATE mutation_queue SET idempotency_key = id`);
+      }
+
+      await migrateDatabase(db, backupName);
+
+      expect(await getSchemaVersion(db)).toBe(LATEST_VERSION);
+      expect(await schemaOf(db)).toEqual(latestSchema);
+      if (version >= 1) {
+        expect(await queueRow(db, 'queued')).toMatchObject({
+          payload: '{"shelfId":"s1"}',
+          user_id: 'u1',
+          idempotency_key: 'queued',
+        });
+
+        // The copy taken before upgrading is the database as it was
+        const backup = openEncryptedDatabase(backupName);
+        expect(await getSchemaVersion(backup)).toBe(version);
+        expect(await queueRow(backup, 'queued')).toBeTruthy();
+        await backup.closeAsync();
+      }
+      await db.closeAsync();
+    }
+  );
+
+  it('upgrades a database from before versioning and keeps its queue and cached rows', async () => {
+    const { db, backupName } = openDatabase();
+    await db.execAsync(LEGACY_SCHEMA);
+    await db.runAsync(
+      `INSERT INTO mutation_queue (id, mutation_type, payload, user_context, created_at)
+       VALUES ('customer', 'sales.customers.create', ?, '{"userId":"u1"}', 1)`,
+      [JSON.stringify({ name: 'Amna', localId: 'local-1' })]
+    );
+    await db.runAsync(
+      `INSERT INTO customers (id, name, name_ar, customer_type) VALUES ('c1', 'Amna', 'آمنة', 'RETAIL')`
+    );
+
+    await migrateDatabase(db, backupName);
+
+    expect(await getSchemaVersion(db)).toBe(LATEST_VERSION);
+    expect(await schemaOf(db)).toEqual(latestSchema);
+    expect(await queueRow(db, 'customer')).toMatchObject({
+      payload: '{"name":"Amna"}',
+      local_id: 'local-1',
+      user_id: 'u1',
+      idempotency_key: 'customer',
+    });
+    // Indexed for search with the Arabic folded
+    expect(
+      await db.getAllAsync(`SELECT id FROM customers_search WHERE customers_search MATCH '"امنه"*'`)
+    ).toEqual([{ id: 'c1' }]);
+    await db.closeAsync();
+  });
+
+  it('refuses a database from a newer app version after backing it up', async () => {
+    const { db, backupName } = openDatabase();
+    await migrateDatabase(db, backupName);
+    await db.execAsync(`PRAGMA user_version = ${LATEST_VERSION + 1}`);
+
+    await expect(migrateDatabase(db, backupName)).rejects.toBeInstanceOf(MigrationError);
+
+    const backup = openEncryptedDatabase(backupName);
+    expect(await getSchemaVersion(backup)).toBe(LATEST_VERSION + 1);
+    await backup.closeAsync();
+    await db.closeAsync();
+  });
+});
@@ -0,0 +1,489 @@
+/**
+ * Schema of the offline database as an ordered list of up-migrations. The
+ * version a database is at lives in `PRAGMA user_version`; each migration runs
+ * in its own transaction together with the version bump, so a database is
+ * always exactly at one of the versions below.
+ *
+ * Never edit a migration that has shipped — add a new one. Databases created
+ * before versioning report version 0 and already hold some of the tables, which
+ * is why the early migrations tolerate existing tables and columns.
+ */
+import * as SQLite from 'expo-sqlite';
+import { openEncryptedDatabase } from '@/lib/db/encryption';
+import { createSearchIndexSql, reindexSearch } from '@/lib/db/search';
+
+interface Migration {
+  version: number;
+  description: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Cached reference data and the mutation queue',
+    up: (db) =>
+      db.execAsync(`
+        CREATE TABLE IF NOT EXISTS cache_meta (
+          table_name TEXT PRIMARY KEY,
+          last_synced INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS item_categories (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          name_ar TEXT NOT NULL,
+          parent_id TEXT,
+          is_active INTEGER NOT NULL DEFAULT 1
+        );
+
+        CREATE TABLE IF NOT EXISTS units (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          name_ar TEXT NOT NULL,
+          symbol TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS unit_conversions (
+          id TEXT PRIMARY KEY,
+          from_unit_id TEXT NOT NULL,
+          to_unit_id TEXT NOT NULL,
+          factor REAL NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS items (
+          id TEXT PRIMARY KEY,
+          sku TEXT NOT NULL,
+          name_en TEXT NOT NULL,
+          name_ar TEXT NOT NULL,
+          category_id TEXT,
+          unit_id TEXT,
+          is_active INTEGER NOT NULL DEFAULT 1,
+          is_consignment INTEGER NOT NULL DEFAULT 0,
+          min_stock_level REAL,
+          max_stock_level REAL,
+          unit_symbol TEXT,
+          unit_name TEXT,
+          category_name TEXT,
+          category_name_ar TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS price_policies (
+          id TEXT PRIMARY KEY,
+          item_id TEXT NOT NULL,
+          branch_id TEXT NOT NULL,
+          warehouse_id TEXT,
+          shelf_id TEXT,
+          wholesale_price_usd REAL NOT NULL DEFAULT 0,
+          retail_price_usd REAL NOT NULL DEFAULT 0,
+          price_range_min_usd REAL NOT NULL DEFAULT 0,
+          price_range_max_usd REAL NOT NULL DEFAULT 0,
+          effective_from TEXT NOT NULL,
+          effective_to TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS customers (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          name_ar TEXT,
+          phone TEXT,
+          email TEXT,
+          customer_type TEXT NOT NULL,
+          is_active INTEGER NOT NULL DEFAULT 1,
+          credit_limit_sdg REAL,
+          balance_sdg REAL DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS warehouses (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          name_ar TEXT NOT NULL,
+          code TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS shelves (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          name_ar TEXT NOT NULL,
+          code TEXT NOT NULL,
+          user_id TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS day_cycle (
+          id TEXT PRIMARY KEY,
+          branch_id TEXT NOT NULL,
+          cycle_date TEXT NOT NULL,
+          exchange_rate_usd_sdg REAL NOT NULL,
+          status TEXT NOT NULL,
+          opened_at TEXT,
+          closed_at TEXT,
+          synced_at INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS batches (
+          id TEXT PRIMARY KEY,
+          item_id TEXT NOT NULL,
+          warehouse_id TEXT,
+          shelf_id TEXT,
+          qty_remaining REAL NOT NULL DEFAULT 0,
+          unit_cost_usd REAL NOT NULL DEFAULT 0,
+          received_date TEXT NOT NULL,
+          is_consignment INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS mutation_queue (
+          id TEXT PRIMARY KEY,
+          mutation_type TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          user_context TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          local_ref TEXT,
+          server_result TEXT,
+          error_message TEXT,
+          created_at INTEGER NOT NULL,
+          synced_at INTEGER,
+          retry_count INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_price_policies_item_branch ON price_policies(item_id, branch_id);
+        CREATE INDEX IF NOT EXISTS idx_batches_item ON batches(item_id);
+        CREATE INDEX IF NOT EXISTS idx_batches_shelf ON batches(shelf_id);
+        CREATE INDEX IF NOT EXISTS idx_batches_warehouse ON batches(warehouse_id);
+        CREATE INDEX IF NOT EXISTS idx_mutation_queue_status ON mutation_queue(status);
+        CREATE INDEX IF NOT EXISTS idx_items_sku ON items(sku);
+      `),
+  },
+  {
+    version: 2,
+    description: 'Opt-in API call log (lib/networkLog.ts)',
+    up: (db) =>
+      db.execAsync(`
+        CREATE TABLE IF NOT EXISTS network_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          started_at INTEGER NOT NULL,
+          procedure TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          source TEXT NOT NULL,
+          input TEXT,
+          ok INTEGER NOT NULL,
+          http_status INTEGER,
+          error_code TEXT,
+          error_message TEXT,
+          latency_ms INTEGER NOT NULL
+        );
+      `),
+  },
+  {
+    version: 3,
+    description: 'Delta-sync cursors',
+    up: (db) => addColumnIfMissing(db, 'cache_meta', 'cursor', 'TEXT'),
+  },
+  {
+    version: 4,
+    description: 'Expense categories and bank accounts for offline expenses and bank payments',
+    up: (db) =>
+      db.execAsync(`
+        CREATE TABLE expense_categories (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          name_ar TEXT,
+          icon TEXT,
+          color TEXT
+        );
+
+        CREATE TABLE bank_accounts (
+          id TEXT PRIMARY KEY,
+          bank_name TEXT NOT NULL,
+          bank_name_ar TEXT,
+          account_number TEXT NOT NULL
+        );
+      `),
+  },
+  {
+    version: 5,
+    description: 'Local copy of the shelf daily invoice draft',
+    up: (db) =>
+      db.execAsync(`
+        CREATE TABLE daily_drafts (
+          shelf_id TEXT PRIMARY KEY,
+          revision INTEGER NOT NULL DEFAULT 0,
+          synced_revision INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE TABLE daily_draft_lines (
+          id TEXT PRIMARY KEY,
+          shelf_id TEXT NOT NULL,
+          item_id TEXT NOT NULL,
+          batch_id TEXT,
+          qty REAL NOT NULL,
+          unit_price_usd REAL NOT NULL,
+          item_name_en TEXT,
+          item_name_ar TEXT,
+          item_sku TEXT,
+          unit_name TEXT,
+          unit_symbol TEXT
+        );
+
+        CREATE INDEX idx_daily_draft_lines_shelf ON daily_draft_lines(shelf_id);
+      `),
+  },
+  {
+    version: 6,
+    description: 'Queue entries record the local id they create and the entries they depend on',
+    up: (db) =>
+      db.execAsync(`
+        ALTER TABLE mutation_queue ADD COLUMN local_id TEXT;
+        ALTER TABLE mutation_queue ADD COLUMN depends_on TEXT;
+
+        -- Offline customers kept their local id inside the payload
+        UPDATE mutation_queue
+        SET local_id = json_extract(payload, '$.localId'), payload = json_remove(payload, '$.localId')
+        WHERE json_extract(payload, '$.localId') IS NOT NULL;
+
+        CREATE INDEX idx_mutation_queue_local_id ON mutation_queue(local_id);
+      `),
+  },
+  {
+    version: 7,
+    description: 'Why, when and by whom a failed queue entry was discarded',
+    up: (db) =>
+      db.execAsync(`
+        ALTER TABLE mutation_queue ADD COLUMN discard_reason TEXT;
+        ALTER TABLE mutation_queue ADD COLUMN resolved_at INTEGER;
+        ALTER TABLE mutation_queue ADD COLUMN resolved_by TEXT;
+      `),
+  },
+  {
+    version: 8,
+    description: 'Backoff schedule for queue entries that failed transiently',
+    up: (db) => db.execAsync('ALTER TABLE mutation_queue ADD COLUMN next_attempt_at INTEGER'),
+  },
+  {
+    version: 9,
+    description: 'Stock and customer balance held by queued sales, voids and issues',
+    up: (db) =>
+      db.execAsync(`
+        CREATE TABLE stock_reservations (
+          mutation_id TEXT NOT NULL,
+          item_id TEXT NOT NULL,
+          batch_id TEXT,
+          shelf_id TEXT,
+          warehouse_id TEXT,
+          qty_delta REAL NOT NULL,
+          confirmed_at INTEGER
+        );
+
+        CREATE TABLE balance_reservations (
+          mutation_id TEXT NOT NULL,
+          customer_id TEXT NOT NULL,
+          amount_sdg REAL NOT NULL,
+          confirmed_at INTEGER
+        );
+
+        CREATE INDEX idx_stock_reservations_mutation ON stock_reservations(mutation_id);
+        CREATE INDEX idx_stock_reservations_batch ON stock_reservations(batch_id);
+        CREATE INDEX idx_balance_reservations_mutation ON balance_reservations(mutation_id);
+        CREATE INDEX idx_balance_reservations_customer ON balance_reservations(customer_id);
+      `),
+  },
+  {
+    version: 10,
+    description: 'Queue entries belong to the user who made them',
+    up: (db) =>
+      db.execAsync(`
+        ALTER TABLE mutation_queue ADD COLUMN user_id TEXT;
+        UPDATE mutation_queue SET user_id = json_extract(user_context, '$.userId');
+        CREATE INDEX idx_mutation_queue_user ON mutation_queue(user_id, status);
+
+        -- Who to ask for a password when replaying another user's entries
+        CREATE TABLE queue_users (
+          user_id TEXT PRIMARY KEY,
+          email TEXT NOT NULL,
+          name TEXT
+        );
+      `),
+  },
+  {
+    version: 11,
+    description: 'Recent invoices, expenses and transactions for offline browsing',
+    up: (db) =>
+      db.execAsync(`
+        CREATE TABLE history_records (
+          kind TEXT NOT NULL,
+          id TEXT NOT NULL,
+          record_date TEXT NOT NULL,
+          -- The list row and, once fetched, the detail payload, as the API returned them
+          record TEXT NOT NULL,
+          detail TEXT,
+          PRIMARY KEY (kind, id)
+        );
+
+        CREATE INDEX idx_history_records_date ON history_records(kind, record_date);
+      `),
+  },
+  {
+    version: 12,
+    description: 'Full-text search over items and customers',
+    up: async (db) => {
+      await db.execAsync(createSearchIndexSql('items') + createSearchIndexSql('customers'));
+      await reindexSearch(db, 'items');
+      await reindexSearch(db, 'customers');
+    },
+  },
+  {
+    version: 13,
+    description: 'History of sync runs with per-table outcomes',
+    up: (db) =>
+      db.execAsync(`
+        CREATE TABLE sync_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          triggered_by TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          started_at INTEGER NOT NULL,
+          -- NULL while running, or when the app stopped before the run ended
+          finished_at INTEGER
+        );
+
+        CREATE TABLE sync_run_tables (
+          run_id INTEGER NOT NULL,
+          table_name TEXT NOT NULL,
+          ok INTEGER NOT NULL,
+          started_at INTEGER NOT NULL,
+          finished_at INTEGER NOT NULL,
+          row_count INTEGER NOT NULL DEFAULT 0,
+          byte_count INTEGER NOT NULL DEFAULT 0,
+          error TEXT,
+          PRIMARY KEY (run_id, table_name)
+        );
+      `),
+  },
+  {
+    version: 14,
+    description: 'Stored React Query cache, one per user',
+    up: (db) =>
+      db.execAsync(`
+        CREATE TABLE query_cache (
+          user_id TEXT PRIMARY KEY,
+          -- Cache format and app version that wrote it; another one means the cache is dropped
+          buster TEXT NOT NULL,
+          saved_at INTEGER NOT NULL,
+          state TEXT NOT NULL
+        );
+      `),
+  },
+  {
+    version: 15,
+    description: 'Queue entries keep their idempotency key apart from their id',
+    up: (db) =>
+      db.execAsync(`
+        ALTER TABLE mutation_queue ADD COLUMN idempotency_key TEXT;
+        UPDATE mutation_queue SET idempotency_key = id;
+      `),
+  },
+  {
+    version: 16,
+    description: 'Sync run outcomes count the details that failed to download',
+    up: (db) => db.execAsync('ALTER TABLE sync_run_tables ADD COLUMN failed_count INTEGER NOT NULL DEFAULT 0'),
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** Thrown when the database cannot be brought to `LATEST_VERSION`; the failed step has been rolled back. */
+export class MigrationError extends Error {
+  /** Version the database was at before this run. */
+  readonly fromVersion: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, fromVersion: number, cause?: unknown) {
+    super(message);
+    this.name = 'MigrationError';
+    this.fromVersion = fromVersion;
+    this.cause = cause;
+  }
+}
+
+export async function getSchemaVersion(db: SQLite.SQLiteDatabase): Promise<number> {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return row?.user_version ?? 0;
+}
+
+/**
+ * Applies every migration newer than the database, oldest first. Before
+ * touching an existing database it is copied to `backupName`, replacing the
+ * previous backup; a database from a newer app version is only backed up. A migration that fails rolls back on its own, and the ones
+ * before it stay applied.
+ *
+ * `toVersion` stops at an earlier version, which tests use to build databases
+ * as past app versions left them.
+ */
+export async function migrateDatabase(
+  db: SQLite.SQLiteDatabase,
+  backupName: string,
+  toVersion = LATEST_VERSION
+): Promise<void> {
+  const fromVersion = await getSchemaVersion(db);
+  if (fromVersion === toVersion) return;
+
+  if (await hasTables(db)) {
+    try {
+      await backupDatabase(db, backupName);
+    } catch (error) {
+      throw new MigrationError('Could not back up the offline database before upgrading it', fromVersion, error);
+    }
+  }
+
+  if (fromVersion > LATEST_VERSION) {
+    throw new MigrationError(
+      `Offline database is at version ${fromVersion}, newer than this app (${LATEST_VERSION})`,
+      fromVersion
+    );
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion || migration.version > toVersion) continue;
+    try {
+      // On the keyed connection itself: nothing else uses the database while it is migrated
+      await db.withTransactionAsync(async () => {
+        await migration.up(db);
+        // Part of the transaction: rolls back together with the migration
+        await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+      });
+    } catch (error) {
+      throw new MigrationError(
+        `Migration ${migration.version} (${migration.description}) failed: ${(error as Error)?.message ?? error}`,
+        fromVersion,
+        error
+      );
+    }
+  }
+}
+
+async function hasTables(db: SQLite.SQLiteDatabase): Promise<boolean> {
+  const row = await db.getFirstAsync<{ count: number }>(
+    "SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table'"
+  );
+  return (row?.count ?? 0) > 0;
+}
+
+async function backupDatabase(db: SQLite.SQLiteDatabase, backupName: string): Promise<void> {
+  // Keyed like the source: SQLCipher only copies between databases with the same key
+  const backup = openEncryptedDatabase(backupName);
+  try {
+    await SQLite.backupDatabaseAsync({ sourceDatabase: db, destDatabase: backup });
+  } finally {
+    await backup.closeAsync();
+  }
+}
+
+async function addColumnIfMissing(
+  db: SQLite.SQLiteDatabase,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  if (!columns.some((c) => c.name === column)) {
+    await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Full-text indexes over the cached items and customers (FTS5). The indexed
+ * text and every query go through the same folding, so Arabic spelling
+ * variants match each other: the alef forms (أ إ آ ٱ → ا), ة → ه, ى → ي,
+ * tashkeel and tatweel dropped, Arabic-Indic digits read as 0-9. Case and
+ * Latin accents are folded by the tokenizer.
+ *
+ * The indexes are rebuilt from their tables rather than kept by triggers:
+ * the sync writes rows with `INSERT OR REPLACE`, which skips delete triggers.
+ * Whatever writes `items` or `customers` calls `reindexSearch` afterwards.
+ */
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+export type SearchTable = 'items' | 'customers';
+
+// Tatweel, the eight harakat (U+064B-U+0652) and the superscript alef
+const MARKS = ['\u0640', ...Array.from({ length: 8 }, (_, i) => String.fromCharCode(0x064b + i)), '\u0670'];
+const ARABIC_INDIC_DIGITS = Array.from({ length: 10 }, (_, i) => String.fromCharCode(0x0660 + i));
+
+/** Applied in order, in JS to queries and in SQL to the indexed columns. */
+const FOLDS: [string, string][] = [
+  ...MARKS.map((mark): [string, string] => [mark, '']),
+  ['أ', 'ا'],
+  ['إ', 'ا'],
+  ['آ', 'ا'],
+  ['ٱ', 'ا'],
+  ['ة', 'ه'],
+  ['ى', 'ي'],
+  ...ARABIC_INDIC_DIGITS.map((digit, i): [string, string] => [digit, String(i)]),
+];
+
+const TOKENIZER = `tokenize = "unicode61 remove_diacritics 2"`;
+
+interface IndexDefinition {
+  /** Indexed columns, highest weight first, and the SQL each takes its text from. */
+  columns: { name: string; source: string; weight: number }[];
+  where?: string;
+}
+
+const INDEXES: Record<SearchTable, IndexDefinition> = {
+  items: {
+    columns: [
+      { name: 'sku', source: 'sku', weight: 10 },
+      { name: 'name_en', source: 'name_en', weight: 5 },
+      { name: 'name_ar', source: 'name_ar', weight: 5 },
+      { name: 'category', source: `COALESCE(category_name, '') || ' ' || COALESCE(category_name_ar, '')`, weight: 1 },
+    ],
+    where: 'is_active = 1',
+  },
+  customers: {
+    columns: [
+      { name: 'name', source: 'name', weight: 5 },
+      { name: 'name_ar', source: 'name_ar', weight: 5 },
+      { name: 'phone', source: 'phone', weight: 3 },
+    ],
+  },
+};
+
+export function foldSearchText(text: string): string {
+  return FOLDS.reduce((folded, [from, to]) => folded.split(from).join(to), text);
+}
+
+function foldSql(expression: string): string {
+  return FOLDS.reduce(
+    (sql, [from, to]) => `REPLACE(${sql}, '${from}', '${to}')`,
+    `COALESCE(${expression}, '')`
+  );
+}
+
+/** The FTS5 table behind `table`'s index. */
+export function searchIndexOf(table: SearchTable): string {
+  return `${table}_search`;
+}
+
+/** `CREATE VIRTUAL TABLE` for an index; the row id is kept but not searched. */
+export function createSearchIndexSql(table: SearchTable): string {
+  const columns = INDEXES[table].columns.map((column) => column.name).join(', ');
+  return `CREATE VIRTUAL TABLE ${searchIndexOf(table)} USING fts5(id UNINDEXED, ${columns}, ${TOKENIZER});`;
+}
+
+/** Ranks matches by BM25 with the column weights; lower sorts first. */
+export function searchRankSql(table: SearchTable): string {
+  const weights = INDEXES[table].columns.map((column) => column.weight).join(', ');
+  return `bm25(${searchIndexOf(table)}, 0, ${weights})`;
+}
+
+/** Rebuilds an index from its table, or re-reads just one row when `id` is given. */
+export async function reindexSearch(db: SQLiteDatabase, table: SearchTable, id?: string): Promise<void> {
+  const { columns, where } = INDEXES[table];
+  const index = searchIndexOf(table);
+  const conditions = [where, id !== undefined ? 'id = ?' : undefined].filter(Boolean);
+  const params = id !== undefined ? [id] : [];
+
+  await db.runAsync(id !== undefined ? `DELETE FROM ${index} WHERE id = ?` : `DELETE FROM ${index}`, params);
+  await db.runAsync(
+    `INSERT INTO ${index} (id, ${columns.map((column) => column.name).join(', ')})
+     SELECT id, ${columns.map((column) => foldSql(column.source)).join(', ')}
+     FROM ${table}
+     ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}`,
+    params
+  );
+}
+
+/**
+ * FTS5 query for what the user typed: every word must match, each as a
+ * prefix, so results narrow while typing. `null` when nothing searchable is left.
+ */
+export function toMatchQuery(query: string): string | null {
+  const terms = foldSearchText(query)
+    .split(/\s+/)
+    // Words of punctuation only would be empty phrases, which FTS5 rejects
+    .filter((word) => /[0-9A-Za-z\u00c0-\uffff]/.test(word))
+    .map((word) => `"${word.replace(/"/g, '""')}"*`);
+  return terms.length ? terms.join(' ') : null;
+}
@@ -225,12 +225,12 @@ export const translations = {
     errorServer: 'Server error. Please try again later',
     errorSessionExpired: 'Session expired. Please log in again',
     errorTimeout: 'Request timed out. Please try again',
-    errorSkuExists: 'An item with this SKU already exists',
+    errorAlreadyExists: 'This record already exists',
+    errorAlreadySubmitted: 'This was already saved. Refresh to see it.',
+    errorNotFound: 'The requested record was not found',
     errorPermissionDenied: 'You do not have permission for this action',
     errorInvalidInput: 'Please check your input and try again',
     errorUnknown: 'Something went wrong. Please try again',
-    errorDayClosed: 'Day cycle is not open',
-    errorInsufficientQty: 'Insufficient quantity available',
     retry: 'Retry',
     
     // Settings
@@ -626,12 +626,12 @@ export const translations = {
     errorServer: 'خطأ في الخادم، يرجى المحاولة لاحقاً',
     errorSessionExpired: 'انتهت الجلسة، يرجى تسجيل الدخول مجدداً',
     errorTimeout: 'انتهت مهلة الطلب، يرجى المحاولة مجدداً',
-    errorSkuExists: 'يوجد صنف بهذا الرمز مسبقاً',
+    errorAlreadyExists: 'هذا السجل موجود مسبقاً',
+    errorAlreadySubmitted: 'تم حفظ هذا مسبقاً. حدّث الصفحة لعرضه.',
+    errorNotFound: 'السجل المطلوب غير موجود',
     errorPermissionDenied: 'ليس لديك صلاحية لهذا الإجراء',
     errorInvalidInput: 'يرجى التحقق من المدخلات والمحاولة مجدداً',
     errorUnknown: 'حدث خطأ غير متوقع، يرجى المحاولة مجدداً',
-    errorDayClosed: 'يوم العمل غير مفتوح',
-    errorInsufficientQty: 'الكمية المتاحة غير كافية',
     retry: 'إعادة المحاولة',
     
     // Settings
@@ -0,0 +1,184 @@
+/**
+ * In-process backend that answers the app's tRPC procedures from a local data
+ * set, for the Demo server profile and for automated tests.
+ *
+ * State is loaded (or seeded) on first use and written back to `storage` after
+ * every mutation. A mutation that throws leaves the state untouched, like a
+ * server-side transaction, and a mutation repeated with the same idempotency key
+ * gets the first output back without being applied again. Handlers fail with
+ * the same `ApiError` codes the real server uses, so error handling in screens
+ * can be exercised too.
+ */
+import { ApiError } from '@/lib/apiError';
+import type { Transport, TransportCall, TransportRequest } from '@/lib/transport';
+import { MOCK_DB_VERSION, memoryStorage, type MockDb, type MockStorage } from '@/lib/mock/db';
+import { createSeed } from '@/lib/mock/seed';
+import type { MockContext, ProcedureMap } from '@/lib/mock/context';
+import { authProcedures, userProcedures } from '@/lib/mock/procedures/auth';
+import { dayCycleProcedures } from '@/lib/mock/procedures/dayCycle';
+import { inventoryProcedures } from '@/lib/mock/procedures/inventory';
+import { salesProcedures } from '@/lib/mock/procedures/sales';
+import { procurementProcedures } from '@/lib/mock/procedures/procurement';
+import { accountingProcedures } from '@/lib/mock/procedures/accounting';
+import { syncProcedures, trackChanges } from '@/lib/mock/procedures/sync';
+
+const PROCEDURES: ProcedureMap = {
+  ...authProcedures,
+  ...userProcedures,
+  ...dayCycleProcedures,
+  ...inventoryProcedures,
+  ...salesProcedures,
+  ...procurementProcedures,
+  ...accountingProcedures,
+  ...syncProcedures,
+};
+
+export interface MockBackendOptions {
+  /** Where state survives between runs; defaults to memory (fresh seed every time). */
+  storage?: MockStorage;
+  storageKey?: string;
+  /** Initial data set; defaults to the demo branch from `seed.ts`. */
+  seed?: () => MockDb;
+  /** Clock for record timestamps, so tests can pin dates. */
+  now?: () => Date;
+  /** Simulated round-trip, so loading states are visible in the demo. */
+  latencyMs?: number;
+}
+
+export interface MockBackend extends Transport {
+  /** Drops all changes and starts again from the seed. */
+  reset(): Promise<void>;
+  /** Copy of the current state, for assertions in tests. */
+  getState(): Promise<MockDb>;
+}
+
+export const DEFAULT_MOCK_STORAGE_KEY = 'golden_mock_db';
+
+// Enough to cover any retry window; older keys are forgotten
+const MAX_IDEMPOTENT_REPLIES = 200;
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function wait(ms: number, signal: AbortSignal | undefined, endpoint: string): Promise<void> {
+  const aborted = () => new ApiError('Request was cancelled', { code: 'CLIENT_CLOSED_REQUEST', endpoint });
+  if (signal?.aborted) return Promise.reject(aborted());
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(aborted());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function createMockBackend(options: MockBackendOptions = {}): MockBackend {
+  const storage = options.storage ?? memoryStorage();
+  const storageKey = options.storageKey ?? DEFAULT_MOCK_STORAGE_KEY;
+  const seed = options.seed ?? (() => createSeed());
+  const now = options.now ?? (() => new Date());
+  const latencyMs = options.latencyMs ?? 0;
+
+  let state: Promise<MockDb> | null = null;
+  // Calls run one at a time so a mutation never sees another one half-applied
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = (): Promise<MockDb> => {
+    state ??= (async () => {
+      const stored = await storage.getItem(storageKey).catch(() => null);
+      if (stored) {
+        try {
+          const db = JSON.parse(stored) as MockDb;
+          if (db.version === MOCK_DB_VERSION) return db;
+        } catch {
+          // Corrupt state is replaced by a fresh seed
+        }
+      }
+      const db = seed();
+      await storage.setItem(storageKey, JSON.stringify(db));
+      return db;
+    })();
+    return state;
+  };
+
+  const run = (call: TransportCall, isMutation: boolean): Promise<unknown> => {
+    const result = queue.then(async () => {
+      await wait(latencyMs, call.request?.signal, call.endpoint);
+      const procedure = PROCEDURES[call.endpoint];
+      if (!procedure) {
+        throw new ApiError(`No procedure on path "${call.endpoint}"`, { code: 'NOT_FOUND', status: 404, endpoint: call.endpoint });
+      }
+
+      const db = await load();
+      const session = call.token ? db.sessions.find((s) => s.token === call.token) : undefined;
+      const ctx: MockContext = {
+        db,
+        user: session && new Date(session.expiresAt) > now() ? (db.users.find((u) => u.id === session.userId) ?? null) : null,
+        token: call.token,
+        now: () => now().toISOString(),
+        endpoint: call.endpoint,
+      };
+
+      const key = isMutation ? call.idempotencyKey : undefined;
+      const replay = key ? db.idempotentReplies.find((r) => r.key === key) : undefined;
+      if (replay) {
+        if (replay.endpoint !== call.endpoint) {
+          throw new ApiError('Idempotency key was already used for another request', {
+            code: 'CONFLICT',
+            status: 409,
+            endpoint: call.endpoint,
+          });
+        }
+        return clone(replay.output);
+      }
+
+      const before = isMutation ? JSON.stringify(db) : '';
+      try {
+        const output = clone(procedure(ctx, call.input ?? {}) ?? null);
+        if (isMutation) trackChanges(db, JSON.parse(before));
+        if (key) {
+          db.idempotentReplies.push({ key, endpoint: call.endpoint, output, createdAt: ctx.now() });
+          db.idempotentReplies.splice(0, db.idempotentReplies.length - MAX_IDEMPOTENT_REPLIES);
+        }
+        if (isMutation) await storage.setItem(storageKey, JSON.stringify(db));
+        return output;
+      } catch (error) {
+        if (isMutation) Object.assign(db, JSON.parse(before));
+        if (error instanceof ApiError) throw error;
+        throw new ApiError((error as Error)?.message || 'Internal server error', {
+          code: 'INTERNAL_SERVER_ERROR',
+          status: 500,
+          endpoint: call.endpoint,
+          cause: error,
+        });
+      }
+    });
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    query: (call) => run(call, false),
+    mutation: (call) => run(call, true),
+
+    // Receipts stay on the device; the local URI is what gets saved with the record
+    upload: async (uri: string, _token: string | null, request?: TransportRequest) => {
+      await wait(latencyMs, request?.signal, 'upload');
+      return uri;
+    },
+
+    reset: async () => {
+      const db = seed();
+      state = Promise.resolve(db);
+      await storage.setItem(storageKey, JSON.stringify(db));
+    },
+
+    getState: async () => clone(await load()),
+  };
+}
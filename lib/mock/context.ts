@@ -0,0 +1,272 @@
+import { ApiError, type ApiErrorCode } from '@/lib/apiError';
+import type { MockAccount, MockBatch, MockDb, MockItem, MockUser } from '@/lib/mock/db';
+
+/** What a mock procedure gets for each call. */
+export interface MockContext {
+  db: MockDb;
+  /** Signed-in caller, `null` for `auth.login` and unauthenticated calls. */
+  user: MockUser | null;
+  token: string | null;
+  now: () => string;
+  endpoint: string;
+}
+
+export type Procedure = (ctx: MockContext, input: any) => unknown;
+export type ProcedureMap = Record<string, Procedure>;
+
+// ─── Errors ─────────────────────────────────────────────────────────────────
+
+const STATUS: Partial<Record<ApiErrorCode, number>> = {
+  BAD_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  PRECONDITION_FAILED: 412,
+};
+
+/** Throws the error the real server would send for `code`. */
+export function fail(ctx: MockContext, code: ApiErrorCode, message: string, fieldErrors?: Record<string, string[]>): never {
+  throw new ApiError(message, { code, status: STATUS[code], endpoint: ctx.endpoint, fieldErrors });
+}
+
+export function requireUser(ctx: MockContext): MockUser {
+  if (!ctx.user) fail(ctx, 'UNAUTHORIZED', 'Not authenticated');
+  return ctx.user;
+}
+
+export function requireRole(ctx: MockContext, ...roles: MockUser['role'][]): MockUser {
+  const user = requireUser(ctx);
+  if (user.role !== 'ADMIN' && !roles.includes(user.role)) {
+    fail(ctx, 'FORBIDDEN', 'You do not have permission to perform this action');
+  }
+  return user;
+}
+
+export function findOr404<T extends { id: string }>(ctx: MockContext, rows: T[], id: string, what: string): T {
+  const row = rows.find((r) => r.id === id);
+  if (!row) fail(ctx, 'NOT_FOUND', `${what} not found`);
+  return row;
+}
+
+// ─── Ids & numbering ────────────────────────────────────────────────────────
+
+function next(db: MockDb, key: string): number {
+  db.sequences[key] = (db.sequences[key] ?? 0) + 1;
+  return db.sequences[key];
+}
+
+/** Record id such as `inv_12`. */
+export function nextId(db: MockDb, prefix: string): string {
+  return `${prefix}_${next(db, prefix)}`;
+}
+
+/** Document number such as `INV-000012`. */
+export function nextNumber(db: MockDb, prefix: string): string {
+  return `${prefix}-${String(next(db, prefix)).padStart(6, '0')}`;
+}
+
+// ─── Lists ──────────────────────────────────────────────────────────────────
+
+export function paginate<T>(rows: T[], input: { page?: number; pageSize?: number }) {
+  const pageSize = Math.max(1, input.pageSize ?? 20);
+  const page = Math.max(1, input.page ?? 1);
+  return {
+    data: rows.slice((page - 1) * pageSize, page * pageSize),
+    total: rows.length,
+    page,
+    pageSize,
+    totalPages: Math.max(1, Math.ceil(rows.length / pageSize)),
+  };
+}
+
+export function newestFirst<T>(rows: T[], key: (row: T) => string): T[] {
+  return [...rows].sort((a, b) => key(b).localeCompare(key(a)));
+}
+
+export function inDateRange(value: string, input: { startDate?: string; endDate?: string; dateFrom?: string; dateTo?: string }): boolean {
+  const from = input.startDate ?? input.dateFrom;
+  const to = input.endDate ?? input.dateTo;
+  if (from && value < from) return false;
+  // Date-only bounds include the whole day
+  if (to && value.slice(0, to.length) > to) return false;
+  return true;
+}
+
+export function matchesSearch(search: string | undefined, ...values: (string | null | undefined)[]): boolean {
+  if (!search) return true;
+  const needle = search.toLowerCase();
+  return values.some((v) => v?.toLowerCase().includes(needle));
+}
+
+// ─── Views (records joined the way the server includes them) ────────────────
+
+export function namedRef(row: { id: string; name: string; nameAr?: string | null } | undefined) {
+  return row ? { id: row.id, name: row.name, nameAr: row.nameAr ?? null } : null;
+}
+
+export function userRef(db: MockDb, userId: string | null | undefined) {
+  const user = db.users.find((u) => u.id === userId);
+  return user ? { id: user.id, name: user.name, nameAr: user.nameAr ?? null, email: user.email } : null;
+}
+
+export function itemView(db: MockDb, item: MockItem) {
+  const unit = db.units.find((u) => u.id === item.unitId);
+  const category = db.categories.find((c) => c.id === item.categoryId);
+  return { ...item, unit: unit ?? null, category: category ?? null };
+}
+
+export function itemRef(db: MockDb, itemId: string) {
+  const item = db.items.find((i) => i.id === itemId);
+  if (!item) return { id: itemId, sku: '', nameEn: 'Unknown item', nameAr: 'صنف غير معروف', unit: null };
+  const unit = db.units.find((u) => u.id === item.unitId);
+  return {
+    id: item.id,
+    sku: item.sku,
+    name: item.nameEn,
+    nameEn: item.nameEn,
+    nameAr: item.nameAr,
+    unit: unit ? { id: unit.id, name: unit.name, nameEn: unit.name, nameAr: unit.nameAr, symbol: unit.symbol } : null,
+  };
+}
+
+// ─── Day cycle ──────────────────────────────────────────────────────────────
+
+export function openDayCycle(db: MockDb, branchId: string | null | undefined) {
+  return db.dayCycles.find((d) => d.branchId === branchId && d.status === 'OPEN');
+}
+
+/** Stock and money movements need an open day, like on the server. */
+export function requireOpenDay(ctx: MockContext, branchId: string | null | undefined) {
+  const day = openDayCycle(ctx.db, branchId);
+  if (!day) fail(ctx, 'PRECONDITION_FAILED', 'The day cycle is closed. Open a new day first.');
+  return day;
+}
+
+// ─── Stock ──────────────────────────────────────────────────────────────────
+
+export interface StockLocation {
+  warehouseId?: string | null;
+  shelfId?: string | null;
+}
+
+function atLocation(batch: MockBatch, location: StockLocation): boolean {
+  if (location.shelfId) return batch.shelfId === location.shelfId;
+  if (location.warehouseId) return batch.warehouseId === location.warehouseId;
+  return true;
+}
+
+export function batchesAt(db: MockDb, itemId: string, location: StockLocation): MockBatch[] {
+  return db.batches.filter((b) => b.itemId === itemId && atLocation(b, location));
+}
+
+export function qtyAt(db: MockDb, itemId: string, location: StockLocation): number {
+  return batchesAt(db, itemId, location).reduce((sum, b) => sum + b.qtyRemaining, 0);
+}
+
+/** First-expiring first, then oldest received: the order stock leaves a location. */
+function fifoOrder(a: MockBatch, b: MockBatch): number {
+  if (a.expiryDate && b.expiryDate && a.expiryDate !== b.expiryDate) return a.expiryDate.localeCompare(b.expiryDate);
+  if (a.expiryDate && !b.expiryDate) return -1;
+  if (!a.expiryDate && b.expiryDate) return 1;
+  return a.receivedDate.localeCompare(b.receivedDate);
+}
+
+/**
+ * Takes `qty` of an item out of a location, FIFO across its batches (or from
+ * `preferredBatchId` first), and records the movements. Fails without touching
+ * anything when the location does not hold enough.
+ */
+export function takeStock(
+  ctx: MockContext,
+  itemId: string,
+  location: StockLocation,
+  qty: number,
+  movement: { type: 'SALE' | 'TRANSFER_OUT'; referenceId: string; preferredBatchId?: string | null }
+): { batchId: string; qty: number }[] {
+  const available = batchesAt(ctx.db, itemId, location)
+    .filter((b) => b.qtyRemaining > 0)
+    .sort((a, b) => {
+      if (a.id === movement.preferredBatchId) return -1;
+      if (b.id === movement.preferredBatchId) return 1;
+      return fifoOrder(a, b);
+    });
+  const onHand = available.reduce((sum, b) => sum + b.qtyRemaining, 0);
+  if (onHand + 1e-9 < qty) {
+    const item = ctx.db.items.find((i) => i.id === itemId);
+    fail(ctx, 'BAD_REQUEST', `Insufficient quantity for ${item?.nameEn ?? itemId}: ${onHand} available, ${qty} requested`);
+  }
+
+  const allocations: { batchId: string; qty: number }[] = [];
+  let remaining = qty;
+  for (const batch of available) {
+    if (remaining <= 0) break;
+    const taken = Math.min(batch.qtyRemaining, remaining);
+    batch.qtyRemaining = round(batch.qtyRemaining - taken);
+    remaining = round(remaining - taken);
+    allocations.push({ batchId: batch.id, qty: taken });
+    recordMovement(ctx, batch, movement.type, -taken, movement.referenceId);
+  }
+  return allocations;
+}
+
+/** Puts previously taken quantities back into the batches they came from. */
+export function returnStock(ctx: MockContext, allocations: { batchId: string; qty: number }[], referenceId: string) {
+  for (const { batchId, qty } of allocations) {
+    const batch = ctx.db.batches.find((b) => b.id === batchId);
+    if (!batch) continue;
+    batch.qtyRemaining = round(batch.qtyRemaining + qty);
+    recordMovement(ctx, batch, 'VOID_RETURN', qty, referenceId);
+  }
+}
+
+export function addBatch(
+  ctx: MockContext,
+  fields: Omit<MockBatch, 'id' | 'batchNumber' | 'qtyRemaining' | 'receivedDate'>,
+  movementType: 'RECEIPT' | 'TRANSFER_IN' | 'DIVIDE_IN',
+  referenceId: string
+): MockBatch {
+  const id = nextId(ctx.db, 'batch');
+  const batch: MockBatch = {
+    ...fields,
+    id,
+    batchNumber: `B-${id.split('_')[1].padStart(4, '0')}`,
+    qtyRemaining: fields.qtyReceived,
+    receivedDate: ctx.now(),
+  };
+  ctx.db.batches.push(batch);
+  recordMovement(ctx, batch, movementType, fields.qtyReceived, referenceId);
+  return batch;
+}
+
+export function recordMovement(
+  ctx: MockContext,
+  batch: MockBatch,
+  movementType: MockDb['stockMovements'][number]['movementType'],
+  qty: number,
+  referenceId?: string
+) {
+  ctx.db.stockMovements.push({
+    id: nextId(ctx.db, 'mov'),
+    batchId: batch.id,
+    itemId: batch.itemId,
+    movementType,
+    qty,
+    referenceId,
+    createdAt: ctx.now(),
+  });
+}
+
+// ─── Money ──────────────────────────────────────────────────────────────────
+
+/** Moves the balance of the branch's account of that type (cash, bank, ...). */
+export function adjustAccount(db: MockDb, accountType: MockAccount['accountType'], deltaSdg: number) {
+  const account = db.accounts.find((a) => a.accountType === accountType);
+  if (account) account.balanceSdg = round(account.balanceSdg + deltaSdg, 2);
+}
+
+/** Keeps float noise out of quantities and amounts. */
+export function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
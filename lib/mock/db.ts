@@ -0,0 +1,466 @@
+/**
+ * State of the in-process mock backend. Records are stored the way the real
+ * server serialises them (ISO date strings, ids as strings) so handlers can
+ * return them as-is; relations are resolved by the procedure handlers.
+ */
+
+export interface MockUser {
+  id: string;
+  email: string;
+  password: string;
+  name: string;
+  nameAr?: string;
+  role: 'ADMIN' | 'MANAGER' | 'WAREHOUSE_SALES' | 'SHELF_SALES' | 'PROCUREMENT' | 'ACCOUNTANT';
+  branchId: string | null;
+  warehouseId?: string | null;
+  shelfId?: string | null;
+  isActive: boolean;
+  lastLoginAt?: string | null;
+  createdAt: string;
+}
+
+export interface MockSession {
+  token: string;
+  userId: string;
+  expiresAt: string;
+}
+
+export interface MockBranch {
+  id: string;
+  name: string;
+  nameAr: string;
+  code: string;
+  isActive: boolean;
+}
+
+export interface MockDayCycle {
+  id: string;
+  branchId: string;
+  cycleDate: string;
+  exchangeRateUsdSdg: number;
+  status: 'OPEN' | 'CLOSED';
+  openedAt: string;
+  closedAt?: string | null;
+  notes?: string;
+}
+
+export interface MockCategory {
+  id: string;
+  name: string;
+  nameAr: string;
+  parentId?: string | null;
+  isActive: boolean;
+}
+
+export interface MockUnit {
+  id: string;
+  name: string;
+  nameAr: string;
+  symbol: string;
+}
+
+export interface MockUnitConversion {
+  id: string;
+  fromUnitId: string;
+  toUnitId: string;
+  factor: number;
+}
+
+export interface MockLocation {
+  id: string;
+  name: string;
+  nameAr: string;
+  code: string;
+  branchId: string;
+  userId?: string | null;
+}
+
+export interface MockItem {
+  id: string;
+  sku: string;
+  nameEn: string;
+  nameAr: string;
+  description?: string;
+  categoryId: string;
+  unitId: string;
+  isActive: boolean;
+  isConsignment: boolean;
+  minStockLevel?: number;
+  maxStockLevel?: number;
+}
+
+export interface MockPricePolicy {
+  id: string;
+  itemId: string;
+  branchId: string;
+  warehouseId?: string | null;
+  shelfId?: string | null;
+  wholesalePriceUsd: number;
+  retailPriceUsd: number;
+  priceRangeMinUsd: number;
+  priceRangeMaxUsd: number;
+  effectiveFrom: string;
+  effectiveTo?: string | null;
+}
+
+export interface MockBatch {
+  id: string;
+  itemId: string;
+  batchNumber: string;
+  warehouseId?: string | null;
+  shelfId?: string | null;
+  qtyReceived: number;
+  qtyRemaining: number;
+  unitCostUsd: number;
+  receivedDate: string;
+  expiryDate?: string | null;
+  isConsignment: boolean;
+}
+
+export interface MockStockMovement {
+  id: string;
+  batchId: string;
+  itemId: string;
+  movementType: 'RECEIPT' | 'SALE' | 'TRANSFER_OUT' | 'TRANSFER_IN' | 'VOID_RETURN' | 'DIVIDE_OUT' | 'DIVIDE_IN';
+  qty: number;
+  referenceId?: string;
+  createdAt: string;
+}
+
+export interface MockCustomer {
+  id: string;
+  name: string;
+  nameAr?: string;
+  phone?: string;
+  email?: string;
+  customerType: 'WHOLESALE' | 'RETAIL';
+  isActive: boolean;
+  creditLimitSdg: number;
+  balanceSdg: number;
+}
+
+export interface MockInvoiceLine {
+  id: string;
+  itemId: string;
+  qty: number;
+  unitPriceUsd: number;
+  unitPriceSdg: number;
+  totalUsd: number;
+  totalSdg: number;
+  /** Batches the qty was taken from, so a void can put it back. */
+  allocations: { batchId: string; qty: number }[];
+}
+
+export interface MockSalesInvoice {
+  id: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  branchId: string;
+  shelfId?: string | null;
+  customerId?: string | null;
+  createdById: string;
+  status: 'ISSUED' | 'PAID' | 'VOIDED';
+  invoiceType: 'WHOLESALE' | 'RETAIL';
+  paymentMethod?: string | null;
+  transactionNumber?: string | null;
+  receiptImageUrls?: string[];
+  notes?: string | null;
+  exchangeRate: number;
+  totalUsd: number;
+  totalSdg: number;
+  paidAmountSdg: number;
+  lines: MockInvoiceLine[];
+}
+
+export interface MockSalesOrder {
+  id: string;
+  orderNumber: string;
+  orderDate: string;
+  branchId: string;
+  warehouseId: string;
+  customerId: string;
+  createdById: string;
+  status: 'DRAFT' | 'CONFIRMED' | 'PARTIALLY_DELIVERED' | 'FULLY_DELIVERED' | 'CANCELLED';
+  notes?: string | null;
+  lines: {
+    id: string;
+    itemId: string;
+    qty: number;
+    qtyDelivered: number;
+    unitPriceUsd: number;
+    unitPriceSdg: number;
+  }[];
+}
+
+export interface MockGoodsRequest {
+  id: string;
+  requestNumber: string;
+  createdAt: string;
+  shelfId: string;
+  branchId: string;
+  requestedById: string;
+  status: 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED' | 'ISSUED' | 'RECEIVED' | 'CANCELLED';
+  notes?: string | null;
+  rejectReason?: string | null;
+  lines: {
+    id: string;
+    itemId: string;
+    qtyRequested: number;
+    qtyApproved: number;
+    qtyIssued: number;
+    qtyReceived: number;
+  }[];
+}
+
+export interface MockDailyDraft {
+  id: string;
+  shelfId: string;
+  userId: string;
+  lines: { id: string; itemId: string; qty: number; unitPriceUsd: number; batchId?: string | null }[];
+}
+
+export interface MockDailyAggregate {
+  id: string;
+  shelfId: string;
+  date: string;
+  cashTotalSdg: number;
+  cardTotalSdg: number;
+  itemCount: number;
+  transactionCount: number;
+}
+
+export interface MockSupplier {
+  id: string;
+  name: string;
+  nameAr?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  isActive: boolean;
+  isConsignor: boolean;
+}
+
+export interface MockPurchaseOrder {
+  id: string;
+  poNumber: string;
+  orderDate: string;
+  branchId: string;
+  supplierId: string;
+  createdById: string;
+  approvedById?: string | null;
+  status: 'DRAFT' | 'APPROVED' | 'PARTIALLY_RECEIVED' | 'FULLY_RECEIVED' | 'CANCELLED';
+  isConsignment: boolean;
+  notes?: string | null;
+  expectedDate?: string | null;
+  operationNumber?: string | null;
+  exchangeRate: number;
+  lines: { id: string; itemId: string; qty: number; qtyReceived: number; unitPriceSdg: number }[];
+}
+
+export interface MockGoodsReceipt {
+  id: string;
+  grNumber: string;
+  purchaseOrderId: string;
+  warehouseId: string;
+  receiptDate: string;
+  receivedById: string;
+  notes?: string | null;
+  lines: { itemId: string; purchaseOrderLineId: string; qtyReceived: number; unitCostSdg: number; batchId: string }[];
+}
+
+export interface MockSupplierInvoice {
+  id: string;
+  invoiceNumber: string;
+  supplierId: string;
+  purchaseOrderId?: string | null;
+  branchId: string;
+  status: 'CONFIRMED' | 'OUTSTANDING' | 'PARTIALLY_PAID' | 'PAID' | 'CANCELLED';
+  invoiceDate: string;
+  dueDate: string;
+  confirmedDate?: string | null;
+  paidDate?: string | null;
+  totalSdg: number;
+  paidAmountSdg: number;
+  isConsignment: boolean;
+  paymentMethod?: string | null;
+  transactionNumber?: string | null;
+  receiptImageUrl?: string | null;
+  receiptImageUrls?: string[];
+  notes?: string | null;
+}
+
+export interface MockAccount {
+  id: string;
+  code: string;
+  nameEn: string;
+  nameAr: string;
+  accountType: 'CASH' | 'BANK' | 'RECEIVABLE' | 'PAYABLE' | 'INVENTORY' | 'EXPENSE' | 'REVENUE';
+  balanceSdg: number;
+}
+
+export interface MockTransaction {
+  id: string;
+  branchId: string;
+  transactionType: 'CASH_IN' | 'CASH_OUT' | 'BANK_IN' | 'BANK_OUT' | 'TRANSFER' | 'ADJUSTMENT';
+  amountSdg: number;
+  description: string;
+  referenceNumber?: string | null;
+  fromAccountId?: string | null;
+  toAccountId?: string | null;
+  receiptImages?: string[];
+  createdAt: string;
+}
+
+export interface MockExpenseCategory {
+  id: string;
+  name: string;
+  nameAr: string;
+  icon?: string;
+  color?: string;
+  isActive: boolean;
+  /** Monthly budget used by `accounting.budget.list`. */
+  monthlyBudgetSdg: number;
+}
+
+export interface MockExpense {
+  id: string;
+  branchId: string;
+  categoryId: string;
+  description: string;
+  amountSdg: number;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  paymentMethod?: string | null;
+  receiptImageUrl?: string | null;
+  createdById: string;
+  createdAt: string;
+}
+
+export interface MockPaymentSchedule {
+  id: string;
+  invoiceId: string;
+  amountSdg: number;
+  dueDate: string;
+  status: 'PENDING' | 'PAID' | 'OVERDUE' | 'CANCELLED';
+  notes?: string | null;
+}
+
+export interface MockBankNotice {
+  id: string;
+  invoiceId: string;
+  operationNumber: string;
+  bankReference?: string | null;
+  amountSdg: number;
+  isMatched: boolean;
+  fileUrl?: string | null;
+  createdAt: string;
+}
+
+export interface MockBankAccount {
+  id: string;
+  bankName: string;
+  bankNameAr?: string;
+  accountNumber: string;
+  iban?: string;
+  isActive: boolean;
+}
+
+export interface MockBankPayment {
+  id: string;
+  userId: string;
+  bankAccountId: string;
+  amountSdg: number;
+  receiptImageUrl: string;
+  receiptImageUrls?: string[];
+  transactionNumber?: string | null;
+  description?: string | null;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  createdAt: string;
+}
+
+/** A record of a synced collection that a mutation created, changed or deleted. */
+export interface MockChange {
+  seq: number;
+  collection: string;
+  id: string;
+}
+
+/** Output of an applied mutation, returned again when its idempotency key is replayed. */
+export interface MockIdempotentReply {
+  key: string;
+  endpoint: string;
+  output: unknown;
+  createdAt: string;
+}
+
+export interface MockDb {
+  /** Bumped when the shape changes; stored state with another version is reseeded. */
+  version: number;
+  /** Last number handed out per id/document prefix. */
+  sequences: Record<string, number>;
+
+  branches: MockBranch[];
+  users: MockUser[];
+  sessions: MockSession[];
+  idempotentReplies: MockIdempotentReply[];
+  /** Change feed behind `sync.changes`; `changeFloor` is the oldest cursor still served. */
+  changeSeq: number;
+  changeFloor: number;
+  changeLog: MockChange[];
+  dayCycles: MockDayCycle[];
+
+  categories: MockCategory[];
+  units: MockUnit[];
+  unitConversions: MockUnitConversion[];
+  warehouses: MockLocation[];
+  shelves: MockLocation[];
+  items: MockItem[];
+  pricePolicies: MockPricePolicy[];
+  batches: MockBatch[];
+  stockMovements: MockStockMovement[];
+
+  customers: MockCustomer[];
+  salesInvoices: MockSalesInvoice[];
+  salesOrders: MockSalesOrder[];
+  goodsRequests: MockGoodsRequest[];
+  dailyDrafts: MockDailyDraft[];
+  dailyAggregates: MockDailyAggregate[];
+
+  suppliers: MockSupplier[];
+  purchaseOrders: MockPurchaseOrder[];
+  goodsReceipts: MockGoodsReceipt[];
+  supplierInvoices: MockSupplierInvoice[];
+
+  accounts: MockAccount[];
+  transactions: MockTransaction[];
+  expenseCategories: MockExpenseCategory[];
+  expenses: MockExpense[];
+  paymentSchedules: MockPaymentSchedule[];
+  bankNotices: MockBankNotice[];
+  bankAccounts: MockBankAccount[];
+  bankPayments: MockBankPayment[];
+}
+
+export const MOCK_DB_VERSION = 3;
+
+// ─── Persistence ────────────────────────────────────────────────────────────
+
+/** Where the mock keeps its state between launches; any string key-value store works. */
+export interface MockStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/** Non-persistent storage, the default for tests. */
+export function memoryStorage(): MockStorage {
+  const values = new Map<string, string>();
+  return {
+    getItem: async (key) => values.get(key) ?? null,
+    setItem: async (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: async (key) => {
+      values.delete(key);
+    },
+  };
+}
@@ -0,0 +1,20 @@
+import Storage from 'expo-sqlite/kv-store';
+import { createMockBackend, type MockBackend } from '@/lib/mock/backend';
+import type { MockStorage } from '@/lib/mock/db';
+
+/** Demo data lives in the SQLite key-value store, apart from the offline databases. */
+const deviceStorage: MockStorage = {
+  getItem: (key) => Storage.getItem(key),
+  setItem: (key, value) => Storage.setItem(key, value),
+  removeItem: async (key) => {
+    await Storage.removeItem(key);
+  },
+};
+
+let demoBackend: MockBackend | null = null;
+
+/** Mock backend behind the built-in Demo server profile, persisted on the device. */
+export function getDemoBackend(): MockBackend {
+  demoBackend ??= createMockBackend({ storage: deviceStorage, latencyMs: 150 });
+  return demoBackend;
+}
@@ -0,0 +1,585 @@
+import type { MockDb, MockSupplierInvoice, MockTransaction } from '@/lib/mock/db';
+import {
+  adjustAccount,
+  fail,
+  findOr404,
+  inDateRange,
+  itemRef,
+  namedRef,
+  newestFirst,
+  nextId,
+  paginate,
+  requireRole,
+  requireUser,
+  round,
+  userRef,
+  type MockContext,
+  type ProcedureMap,
+} from '@/lib/mock/context';
+
+const MONTHS_AR = ['يناير', 'فبراير', 'مارس', 'أبريل', 'مايو', 'يونيو', 'يوليو', 'أغسطس', 'سبتمبر', 'أكتوبر', 'نوفمبر', 'ديسمبر'];
+
+// ─── Views ──────────────────────────────────────────────────────────────────
+
+function transactionView(db: MockDb, transaction: MockTransaction) {
+  const ref = (id: string | null | undefined) => {
+    const account = db.accounts.find((a) => a.id === id);
+    return account ? { nameEn: account.nameEn, nameAr: account.nameAr, code: account.code } : null;
+  };
+  return { ...transaction, fromAccount: ref(transaction.fromAccountId), toAccount: ref(transaction.toAccountId) };
+}
+
+/** Supplier invoice with the supplier and its purchase order lines, as the invoice screens show it. */
+function fullSupplierInvoice(db: MockDb, invoice: MockSupplierInvoice) {
+  const supplier = db.suppliers.find((s) => s.id === invoice.supplierId);
+  const order = db.purchaseOrders.find((o) => o.id === invoice.purchaseOrderId);
+  return {
+    ...invoice,
+    paidSdg: invoice.paidAmountSdg,
+    remainingSdg: round(invoice.totalSdg - invoice.paidAmountSdg, 2),
+    supplier: supplier
+      ? { id: supplier.id, name: supplier.name, nameAr: supplier.nameAr ?? null, isConsignor: supplier.isConsignor }
+      : { id: invoice.supplierId, name: 'Unknown supplier', nameAr: null, isConsignor: false },
+    purchaseOrder: order
+      ? {
+          id: order.id,
+          poNumber: order.poNumber,
+          status: order.status,
+          lines: order.lines.map((line) => ({
+            ...line,
+            totalSdg: round(line.qty * line.unitPriceSdg, 2),
+            item: itemRef(db, line.itemId),
+          })),
+        }
+      : null,
+  };
+}
+
+function invoiceRef(db: MockDb, invoiceId: string) {
+  const invoice = db.supplierInvoices.find((i) => i.id === invoiceId);
+  return invoice ? { invoiceNumber: invoice.invoiceNumber, supplier: namedRef(db.suppliers.find((s) => s.id === invoice.supplierId)) } : null;
+}
+
+function listSupplierInvoices(ctx: MockContext, rows: MockSupplierInvoice[], input: { page?: number; pageSize?: number }) {
+  return paginate(newestFirst(rows, (i) => i.invoiceDate).map((i) => fullSupplierInvoice(ctx.db, i)), input);
+}
+
+// ─── Reports ────────────────────────────────────────────────────────────────
+
+function inventoryValueSdg(ctx: MockContext, branchId: string) {
+  const rate = ctx.db.dayCycles.find((d) => d.branchId === branchId && d.status === 'OPEN')?.exchangeRateUsdSdg
+    ?? ctx.db.dayCycles.at(-1)?.exchangeRateUsdSdg
+    ?? 0;
+  const valueUsd = ctx.db.batches.filter((b) => !b.isConsignment).reduce((sum, b) => sum + b.qtyRemaining * b.unitCostUsd, 0);
+  return round(valueUsd * rate, 2);
+}
+
+function openReceivables(db: MockDb, branchId?: string, customerId?: string) {
+  return db.salesInvoices.filter(
+    (i) =>
+      i.status === 'ISSUED' &&
+      i.totalSdg > i.paidAmountSdg &&
+      (!branchId || i.branchId === branchId) &&
+      (!customerId || i.customerId === customerId)
+  );
+}
+
+function openPayables(db: MockDb, branchId?: string, supplierId?: string) {
+  return db.supplierInvoices.filter(
+    (i) =>
+      i.status !== 'PAID' &&
+      i.status !== 'CANCELLED' &&
+      (!branchId || i.branchId === branchId) &&
+      (!supplierId || i.supplierId === supplierId)
+  );
+}
+
+function outstanding(invoices: { totalSdg: number; paidAmountSdg: number }[]) {
+  return round(invoices.reduce((sum, i) => sum + i.totalSdg - i.paidAmountSdg, 0), 2);
+}
+
+function spentIn(db: MockDb, period: string, categoryId?: string) {
+  return db.expenses
+    .filter((e) => e.status !== 'REJECTED' && e.createdAt.startsWith(period) && (!categoryId || e.categoryId === categoryId))
+    .reduce((sum, e) => sum + e.amountSdg, 0);
+}
+
+// ─── Procedures ─────────────────────────────────────────────────────────────
+
+export const accountingProcedures: ProcedureMap = {
+  'accounting.accounts.list': (ctx, input: { accountType?: string }) => {
+    requireUser(ctx);
+    return ctx.db.accounts.filter((a) => !input.accountType || a.accountType === input.accountType);
+  },
+
+  'accounting.transactions.list': (ctx, input: { branchId: string; transactionType?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    const rows = ctx.db.transactions.filter(
+      (t) =>
+        t.branchId === input.branchId &&
+        (!input.transactionType || t.transactionType === input.transactionType) &&
+        inDateRange(t.createdAt, input)
+    );
+    return paginate(newestFirst(rows, (t) => t.createdAt).map((t) => transactionView(ctx.db, t)), input);
+  },
+
+  /** Moves money out of `fromAccountId` and into `toAccountId`, whichever are given. */
+  'accounting.transactions.create': (ctx, input: Omit<MockTransaction, 'id' | 'branchId' | 'createdAt'>) => {
+    const user = requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    const from = input.fromAccountId ? findOr404(ctx, ctx.db.accounts, input.fromAccountId, 'Account') : undefined;
+    const to = input.toAccountId ? findOr404(ctx, ctx.db.accounts, input.toAccountId, 'Account') : undefined;
+    if (input.transactionType === 'TRANSFER' && (!from || !to)) {
+      fail(ctx, 'BAD_REQUEST', 'A transfer needs both accounts', { toAccountId: ['Required for transfers'] });
+    }
+    if (from && from.balanceSdg < input.amountSdg && (from.accountType === 'CASH' || from.accountType === 'BANK')) {
+      fail(ctx, 'BAD_REQUEST', `Insufficient balance in ${from.nameEn}`, { amountSdg: ['Exceeds the account balance'] });
+    }
+    if (from) from.balanceSdg = round(from.balanceSdg - input.amountSdg, 2);
+    if (to) to.balanceSdg = round(to.balanceSdg + input.amountSdg, 2);
+    const transaction: MockTransaction = { ...input, id: nextId(ctx.db, 'trx'), branchId: user.branchId ?? '', createdAt: ctx.now() };
+    ctx.db.transactions.push(transaction);
+    return { id: transaction.id };
+  },
+
+  // ─── Expenses ─────────────────────────────────────────────────────────────
+
+  'accounting.expenses.list': (ctx, input: { branchId: string; categoryId?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    const rows = ctx.db.expenses.filter(
+      (e) => e.branchId === input.branchId && (!input.categoryId || e.categoryId === input.categoryId) && inDateRange(e.createdAt, input)
+    );
+    return paginate(
+      newestFirst(rows, (e) => e.createdAt).map((e) => ({
+        ...e,
+        category: ctx.db.expenseCategories.find((c) => c.id === e.categoryId) ?? null,
+      })),
+      input
+    );
+  },
+
+  'accounting.expenses.create': (ctx, input: { categoryId: string; amountSdg: number; description: string; paymentMethod?: string; receiptImageUrl?: string }) => {
+    const user = requireUser(ctx);
+    findOr404(ctx, ctx.db.expenseCategories, input.categoryId, 'Expense category');
+    const expense = {
+      ...input,
+      id: nextId(ctx.db, 'exp'),
+      branchId: user.branchId ?? '',
+      status: 'PENDING' as const,
+      createdById: user.id,
+      createdAt: ctx.now(),
+    };
+    ctx.db.expenses.push(expense);
+    return { id: expense.id };
+  },
+
+  /** Approval is when the money leaves the cash box or the bank. */
+  'accounting.expenses.approve': (ctx, input: { id: string }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    const expense = findOr404(ctx, ctx.db.expenses, input.id, 'Expense');
+    if (expense.status !== 'PENDING') fail(ctx, 'PRECONDITION_FAILED', 'Expense is not pending');
+    expense.status = 'APPROVED';
+    adjustAccount(ctx.db, expense.paymentMethod === 'BANK_TRANSFER' ? 'BANK' : 'CASH', -expense.amountSdg);
+    return { success: true };
+  },
+
+  'accounting.expenses.categories.list': (ctx, input: { includeInactive?: boolean }) => {
+    requireUser(ctx);
+    return ctx.db.expenseCategories.filter((c) => input.includeInactive || c.isActive);
+  },
+
+  'accounting.expenses.categories.create': (ctx, input: { name: string; nameAr: string }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    if (ctx.db.expenseCategories.some((c) => c.name.toLowerCase() === input.name.toLowerCase())) {
+      fail(ctx, 'CONFLICT', 'Category already exists', { name: ['Already exists'] });
+    }
+    const category = { ...input, id: nextId(ctx.db, 'expcat'), isActive: true, monthlyBudgetSdg: 0 };
+    ctx.db.expenseCategories.push(category);
+    return category;
+  },
+
+  'accounting.expenses.categories.update': (ctx, input: { id: string; name?: string; nameAr?: string; isActive?: boolean }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    return Object.assign(findOr404(ctx, ctx.db.expenseCategories, input.id, 'Expense category'), input);
+  },
+
+  // ─── Reports ──────────────────────────────────────────────────────────────
+
+  'accounting.reports.dashboard': (ctx, input: { branchId: string }) => {
+    requireUser(ctx);
+    const today = ctx.now().slice(0, 10);
+    const todaySales = ctx.db.salesInvoices
+      .filter((i) => i.branchId === input.branchId && i.status !== 'VOIDED' && i.invoiceDate.startsWith(today))
+      .reduce((sum, i) => sum + i.totalSdg, 0);
+    const todayExpenses = ctx.db.expenses
+      .filter((e) => e.branchId === input.branchId && e.status !== 'REJECTED' && e.createdAt.startsWith(today))
+      .reduce((sum, e) => sum + e.amountSdg, 0);
+    return { todaySales: round(todaySales, 2), todayExpenses: round(todayExpenses, 2) };
+  },
+
+  'accounting.reports.liquidAssets': (ctx, input: { branchId: string }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    const cash = ctx.db.accounts.filter((a) => a.accountType === 'CASH').reduce((sum, a) => sum + a.balanceSdg, 0);
+    return {
+      accounts: ctx.db.accounts.filter((a) => a.accountType === 'CASH' || a.accountType === 'BANK'),
+      inventoryValue: { valueSdg: inventoryValueSdg(ctx, input.branchId) },
+      cash: { balanceSdg: round(cash, 2) },
+    };
+  },
+
+  'accounting.reports.outstandingPayables': (ctx, input: { branchId?: string; supplierId?: string }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT', 'PROCUREMENT');
+    const invoices = openPayables(ctx.db, input.branchId, input.supplierId);
+    const total = outstanding(invoices);
+    return {
+      invoices: invoices.map((i) => ({ id: i.id, invoiceNumber: i.invoiceNumber, totalSdg: i.totalSdg, paidAmountSdg: i.paidAmountSdg, dueDate: i.dueDate })),
+      totalPayables: total,
+      totalOutstanding: total,
+    };
+  },
+
+  'accounting.reports.outstandingReceivables': (ctx, input: { branchId?: string; customerId?: string }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    const invoices = openReceivables(ctx.db, input.branchId, input.customerId);
+    const total = outstanding(invoices);
+    return {
+      invoices: invoices.map((i) => ({ id: i.id, invoiceNumber: i.invoiceNumber, totalSdg: i.totalSdg, paidAmountSdg: i.paidAmountSdg, dueDate: null })),
+      totalReceivables: total,
+      totalOutstanding: total,
+    };
+  },
+
+  'accounting.reports.balanceSheet': (ctx, input: { branchId: string; asOfDate?: string }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    const balanceOf = (type: string) => ctx.db.accounts.filter((a) => a.accountType === type).reduce((sum, a) => sum + a.balanceSdg, 0);
+    const assets = {
+      cashSdg: round(balanceOf('CASH'), 2),
+      bankSdg: round(balanceOf('BANK'), 2),
+      receivablesSdg: outstanding(openReceivables(ctx.db, input.branchId)),
+      inventorySdg: inventoryValueSdg(ctx, input.branchId),
+    };
+    const liabilities = { payablesSdg: outstanding(openPayables(ctx.db, input.branchId)) };
+    const totalAssetsSdg = round(assets.cashSdg + assets.bankSdg + assets.receivablesSdg + assets.inventorySdg, 2);
+    return {
+      asOfDate: input.asOfDate ?? ctx.now().slice(0, 10),
+      assets,
+      liabilities,
+      totalAssetsSdg,
+      totalLiabilitiesSdg: liabilities.payablesSdg,
+      equitySdg: round(totalAssetsSdg - liabilities.payablesSdg, 2),
+    };
+  },
+
+  /** Revenue per seller against the cost of the batches their sales were taken from. */
+  'accounting.reports.userSalesProfit': (ctx, input: { dateFrom?: string; dateTo?: string; userId?: string }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    const invoices = ctx.db.salesInvoices.filter(
+      (i) => i.status !== 'VOIDED' && (!input.userId || i.createdById === input.userId) && inDateRange(i.invoiceDate, input)
+    );
+    const byUser = new Map<string, { totalSalesUsd: number; totalSalesSdg: number; totalCOGS: number; invoiceCount: number; itemsSold: number }>();
+    for (const invoice of invoices) {
+      const row = byUser.get(invoice.createdById) ?? { totalSalesUsd: 0, totalSalesSdg: 0, totalCOGS: 0, invoiceCount: 0, itemsSold: 0 };
+      row.totalSalesUsd += invoice.totalUsd;
+      row.totalSalesSdg += invoice.totalSdg;
+      row.invoiceCount += 1;
+      for (const line of invoice.lines) {
+        row.itemsSold += line.qty;
+        // Seeded history has no allocations; cost those lines at the item's oldest batch
+        const allocations = line.allocations.length
+          ? line.allocations
+          : [{ batchId: ctx.db.batches.find((b) => b.itemId === line.itemId)?.id ?? '', qty: line.qty }];
+        for (const { batchId, qty } of allocations) {
+          const cost = ctx.db.batches.find((b) => b.id === batchId)?.unitCostUsd ?? 0;
+          row.totalCOGS += cost * qty * invoice.exchangeRate;
+        }
+      }
+      byUser.set(invoice.createdById, row);
+    }
+    const users = [...byUser].map(([userId, row]) => ({
+      user: userRef(ctx.db, userId) ?? { id: userId, name: userId, nameAr: null, email: '' },
+      totalSalesUsd: round(row.totalSalesUsd, 2),
+      totalSalesSdg: round(row.totalSalesSdg, 2),
+      totalCOGS: round(row.totalCOGS, 2),
+      grossProfit: round(row.totalSalesSdg - row.totalCOGS, 2),
+      invoiceCount: row.invoiceCount,
+      itemsSold: round(row.itemsSold),
+    }));
+    const totalRevenue = users.reduce((sum, u) => sum + u.totalSalesSdg, 0);
+    const totalCOGS = users.reduce((sum, u) => sum + u.totalCOGS, 0);
+    return {
+      users,
+      summary: {
+        totalRevenue: round(totalRevenue, 2),
+        totalCOGS: round(totalCOGS, 2),
+        totalProfit: round(totalRevenue - totalCOGS, 2),
+        profitMargin: totalRevenue > 0 ? round(((totalRevenue - totalCOGS) / totalRevenue) * 100, 2) : 0,
+      },
+    };
+  },
+
+  // ─── Budget ───────────────────────────────────────────────────────────────
+
+  'accounting.budget.list': (ctx, input: { branchId: string; period?: string }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    const period = input.period ?? ctx.now().slice(0, 7);
+    return {
+      items: ctx.db.expenseCategories
+        .filter((c) => c.isActive)
+        .map((c) => ({
+          categoryId: c.id,
+          categoryName: c.name,
+          categoryNameAr: c.nameAr,
+          allocatedSdg: c.monthlyBudgetSdg,
+          spentSdg: round(spentIn(ctx.db, period, c.id), 2),
+        })),
+    };
+  },
+
+  'accounting.budget.getPreviousPeriods': (ctx, input: { branchId: string; months?: number }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    const now = new Date(ctx.now());
+    return Array.from({ length: input.months ?? 6 }, (_, i) => {
+      const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i - 1, 1));
+      const period = month.toISOString().slice(0, 7);
+      return {
+        period,
+        monthName: month.toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+        monthNameAr: `${MONTHS_AR[month.getUTCMonth()]} ${month.getUTCFullYear()}`,
+        totalSdg: round(spentIn(ctx.db, period), 2),
+      };
+    });
+  },
+
+  // ─── Payment schedules & bank notices ─────────────────────────────────────
+
+  'accounting.paymentSchedules.list': (ctx, input: { status?: string; supplierId?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    const rows = ctx.db.paymentSchedules.filter((s) => {
+      const invoice = ctx.db.supplierInvoices.find((i) => i.id === s.invoiceId);
+      return (
+        (!input.status || s.status === input.status) &&
+        (!input.supplierId || invoice?.supplierId === input.supplierId) &&
+        inDateRange(s.dueDate, input)
+      );
+    });
+    const soonestFirst = [...rows].sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+    return paginate(soonestFirst.map((s) => ({ ...s, invoice: invoiceRef(ctx.db, s.invoiceId) })), input);
+  },
+
+  'accounting.paymentSchedules.create': (ctx, input: { invoiceId: string; amountSdg: number; dueDate: string; notes?: string }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    findOr404(ctx, ctx.db.supplierInvoices, input.invoiceId, 'Supplier invoice');
+    const schedule = { ...input, id: nextId(ctx.db, 'ps'), status: 'PENDING' as const, notes: input.notes ?? null };
+    ctx.db.paymentSchedules.push(schedule);
+    return { id: schedule.id };
+  },
+
+  'accounting.paymentSchedules.markPaid': (ctx, input: { id: string }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    findOr404(ctx, ctx.db.paymentSchedules, input.id, 'Payment schedule').status = 'PAID';
+    return { success: true };
+  },
+
+  'accounting.bankNotices.list': (ctx, input: { isMatched?: boolean; supplierId?: string; page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    const rows = ctx.db.bankNotices.filter(
+      (n) =>
+        (input.isMatched === undefined || n.isMatched === input.isMatched) &&
+        (!input.supplierId || ctx.db.supplierInvoices.find((i) => i.id === n.invoiceId)?.supplierId === input.supplierId)
+    );
+    return paginate(newestFirst(rows, (n) => n.createdAt).map((n) => ({ ...n, invoice: invoiceRef(ctx.db, n.invoiceId) })), input);
+  },
+
+  'accounting.bankNotices.create': (ctx, input: { invoiceId: string; operationNumber: string; bankReference?: string; amountSdg: number; fileUrl?: string }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    findOr404(ctx, ctx.db.supplierInvoices, input.invoiceId, 'Supplier invoice');
+    const notice = { ...input, id: nextId(ctx.db, 'bn'), isMatched: false, createdAt: ctx.now() };
+    ctx.db.bankNotices.push(notice);
+    return { id: notice.id };
+  },
+
+  /** Matches when the operation number on the notice is the one given. */
+  'accounting.bankNotices.match': (ctx, input: { id: string; operationNumber: string }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    const notice = findOr404(ctx, ctx.db.bankNotices, input.id, 'Bank notice');
+    if (notice.operationNumber !== input.operationNumber.trim()) {
+      fail(ctx, 'BAD_REQUEST', 'Operation number does not match the bank notice', { operationNumber: ['Does not match'] });
+    }
+    notice.isMatched = true;
+    return { success: true };
+  },
+
+  // ─── Supplier invoices ────────────────────────────────────────────────────
+
+  'accounting.supplierInvoices.list': (ctx, input: { branchId?: string; status?: string; supplierId?: string; isConsignment?: boolean; startDate?: string; endDate?: string; page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    const rows = ctx.db.supplierInvoices.filter(
+      (i) =>
+        (!input.branchId || i.branchId === input.branchId) &&
+        (!input.status || i.status === input.status) &&
+        (!input.supplierId || i.supplierId === input.supplierId) &&
+        (input.isConsignment === undefined || i.isConsignment === input.isConsignment) &&
+        inDateRange(i.invoiceDate, input)
+    );
+    return listSupplierInvoices(ctx, rows, input);
+  },
+
+  'accounting.supplierInvoices.listDeferred': (ctx, input: { supplierId?: string; page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    const rows = ctx.db.supplierInvoices.filter(
+      (i) =>
+        !i.isConsignment &&
+        (i.status === 'OUTSTANDING' || i.status === 'PARTIALLY_PAID') &&
+        (!input.supplierId || i.supplierId === input.supplierId)
+    );
+    return listSupplierInvoices(ctx, rows, input);
+  },
+
+  'accounting.supplierInvoices.listIssued': (ctx, input: { supplierId?: string; page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    const rows = ctx.db.supplierInvoices.filter(
+      (i) => !i.isConsignment && i.status === 'CONFIRMED' && (!input.supplierId || i.supplierId === input.supplierId)
+    );
+    return listSupplierInvoices(ctx, rows, input);
+  },
+
+  'accounting.supplierInvoices.listConsignment': (ctx, input: { page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    return listSupplierInvoices(ctx, ctx.db.supplierInvoices.filter((i) => i.isConsignment), input);
+  },
+
+  'accounting.supplierInvoices.getById': (ctx, input: { id: string }) => {
+    requireUser(ctx);
+    return fullSupplierInvoice(ctx.db, findOr404(ctx, ctx.db.supplierInvoices, input.id, 'Supplier invoice'));
+  },
+
+  'accounting.supplierInvoices.updateStatus': (ctx, input: { id: string; status: MockSupplierInvoice['status'] }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT', 'PROCUREMENT');
+    const invoice = findOr404(ctx, ctx.db.supplierInvoices, input.id, 'Supplier invoice');
+    invoice.status = input.status;
+    if (input.status === 'PAID') invoice.paidDate = invoice.paidDate ?? ctx.now();
+    return { success: true };
+  },
+
+  /** Pays all or part of what is left; the money leaves the cash box or the bank. */
+  'accounting.supplierInvoices.payInvoice': (ctx, input: {
+    id: string;
+    paymentMethod: 'CASH' | 'BANK_TRANSFER';
+    transactionNumber?: string;
+    receiptImageUrl?: string;
+    receiptImageUrls?: string[];
+    paidAmountSdg?: number;
+  }) => {
+    requireRole(ctx, 'ACCOUNTANT');
+    const invoice = findOr404(ctx, ctx.db.supplierInvoices, input.id, 'Supplier invoice');
+    if (invoice.status === 'PAID' || invoice.status === 'CANCELLED') fail(ctx, 'PRECONDITION_FAILED', 'This invoice is already settled');
+    const remaining = round(invoice.totalSdg - invoice.paidAmountSdg, 2);
+    const amount = input.paidAmountSdg ?? remaining;
+    if (amount > remaining) {
+      fail(ctx, 'BAD_REQUEST', `Payment exceeds the remaining ${remaining} SDG`, { paidAmountSdg: ['Exceeds the remaining amount'] });
+    }
+    adjustAccount(ctx.db, input.paymentMethod === 'BANK_TRANSFER' ? 'BANK' : 'CASH', -amount);
+    invoice.paidAmountSdg = round(invoice.paidAmountSdg + amount, 2);
+    invoice.status = invoice.paidAmountSdg >= invoice.totalSdg ? 'PAID' : 'PARTIALLY_PAID';
+    if (invoice.status === 'PAID') invoice.paidDate = ctx.now();
+    invoice.paymentMethod = input.paymentMethod;
+    invoice.transactionNumber = input.transactionNumber ?? invoice.transactionNumber ?? null;
+    invoice.receiptImageUrl = input.receiptImageUrl ?? invoice.receiptImageUrl ?? null;
+    invoice.receiptImageUrls = [...(invoice.receiptImageUrls ?? []), ...(input.receiptImageUrls ?? [])];
+    return { success: true };
+  },
+
+  'accounting.supplierInvoices.markOutstanding': (ctx, input: { id: string }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT', 'PROCUREMENT');
+    const invoice = findOr404(ctx, ctx.db.supplierInvoices, input.id, 'Supplier invoice');
+    if (invoice.status !== 'CONFIRMED') fail(ctx, 'PRECONDITION_FAILED', 'Only confirmed invoices can be marked outstanding');
+    invoice.status = 'OUTSTANDING';
+    return { success: true };
+  },
+
+  // ─── Bank accounts & payments ─────────────────────────────────────────────
+
+  'accounting.bankAccounts.list': (ctx) => {
+    requireUser(ctx);
+    return ctx.db.bankAccounts.filter((b) => b.isActive);
+  },
+
+  'accounting.bankAccounts.create': (ctx, input: { bankName: string; bankNameAr?: string; accountNumber: string; iban?: string }) => {
+    requireRole(ctx, 'ACCOUNTANT');
+    if (ctx.db.bankAccounts.some((b) => b.accountNumber === input.accountNumber)) {
+      fail(ctx, 'CONFLICT', 'This account number already exists', { accountNumber: ['Already exists'] });
+    }
+    const account = { ...input, id: nextId(ctx.db, 'bank'), isActive: true };
+    ctx.db.bankAccounts.push(account);
+    return account;
+  },
+
+  'accounting.bankAccounts.update': (ctx, input: { id: string }) => {
+    requireRole(ctx, 'ACCOUNTANT');
+    return Object.assign(findOr404(ctx, ctx.db.bankAccounts, input.id, 'Bank account'), input);
+  },
+
+  'accounting.bankAccounts.delete': (ctx, input: { id: string }) => {
+    requireRole(ctx, 'ACCOUNTANT');
+    // Payments keep pointing at it, so it is deactivated rather than removed
+    findOr404(ctx, ctx.db.bankAccounts, input.id, 'Bank account').isActive = false;
+    return { success: true };
+  },
+
+  'accounting.bankPayments.submit': (ctx, input: {
+    bankAccountId: string;
+    amountSdg: number;
+    transactionNumber?: string;
+    receiptImageUrl: string;
+    receiptImageUrls?: string[];
+    description?: string;
+  }) => {
+    const user = requireUser(ctx);
+    findOr404(ctx, ctx.db.bankAccounts, input.bankAccountId, 'Bank account');
+    const payment = {
+      id: nextId(ctx.db, 'bp'),
+      userId: user.id,
+      bankAccountId: input.bankAccountId,
+      amountSdg: input.amountSdg,
+      receiptImageUrl: input.receiptImageUrl,
+      receiptImageUrls: input.receiptImageUrls,
+      transactionNumber: input.transactionNumber ?? null,
+      description: input.description ?? null,
+      status: 'PENDING' as const,
+      createdAt: ctx.now(),
+    };
+    ctx.db.bankPayments.push(payment);
+    return { id: payment.id };
+  },
+
+  'accounting.bankPayments.list': (ctx, input: { status?: string; userId?: string; bankAccountId?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    const rows = ctx.db.bankPayments.filter(
+      (p) =>
+        (!input.status || p.status === input.status) &&
+        (!input.userId || p.userId === input.userId) &&
+        (!input.bankAccountId || p.bankAccountId === input.bankAccountId) &&
+        inDateRange(p.createdAt, input)
+    );
+    return paginate(
+      newestFirst(rows, (p) => p.createdAt).map((p) => {
+        const bank = ctx.db.bankAccounts.find((b) => b.id === p.bankAccountId);
+        return {
+          ...p,
+          user: userRef(ctx.db, p.userId) ?? { id: p.userId, name: p.userId, email: '' },
+          bankAccount: { id: p.bankAccountId, bankName: bank?.bankName ?? '', accountNumber: bank?.accountNumber ?? '' },
+        };
+      }),
+      input
+    );
+  },
+
+  /** An approved transfer is money in the bank. */
+  'accounting.bankPayments.updateStatus': (ctx, input: { id: string; status: 'APPROVED' | 'REJECTED' }) => {
+    requireRole(ctx, 'ACCOUNTANT');
+    const payment = findOr404(ctx, ctx.db.bankPayments, input.id, 'Bank payment');
+    if (payment.status !== 'PENDING') fail(ctx, 'PRECONDITION_FAILED', 'This payment was already reviewed');
+    payment.status = input.status;
+    if (input.status === 'APPROVED') adjustAccount(ctx.db, 'BANK', payment.amountSdg);
+    return { success: true };
+  },
+};
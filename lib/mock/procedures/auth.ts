@@ -0,0 +1,130 @@
+import type { MockDb, MockUser } from '@/lib/mock/db';
+import {
+  fail,
+  findOr404,
+  matchesSearch,
+  nextId,
+  paginate,
+  requireRole,
+  requireUser,
+  type MockContext,
+  type ProcedureMap,
+} from '@/lib/mock/context';
+
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+function sessionUser(db: MockDb, user: MockUser) {
+  const branch = db.branches.find((b) => b.id === user.branchId);
+  const shelf = db.shelves.find((s) => s.id === user.shelfId || s.userId === user.id);
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    nameAr: user.nameAr ?? null,
+    role: user.role,
+    branchId: user.branchId,
+    warehouseId: user.warehouseId ?? null,
+    branch: branch ? { id: branch.id, name: branch.name, nameAr: branch.nameAr } : null,
+    shelf: shelf ? { id: shelf.id, name: shelf.name, nameAr: shelf.nameAr, code: shelf.code } : null,
+  };
+}
+
+function userView(db: MockDb, user: MockUser) {
+  const { password: _password, ...rest } = user;
+  const branch = db.branches.find((b) => b.id === user.branchId);
+  return { ...rest, branch: branch ? { id: branch.id, name: branch.name, nameAr: branch.nameAr } : null };
+}
+
+function startSession(ctx: MockContext, user: MockUser) {
+  const token = `demo.${user.id}.${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
+  ctx.db.sessions.push({ token, userId: user.id, expiresAt });
+  return { token, expiresAt };
+}
+
+export const authProcedures: ProcedureMap = {
+  'auth.login': (ctx, input: { email: string; password: string }) => {
+    const user = ctx.db.users.find((u) => u.email.toLowerCase() === String(input.email).trim().toLowerCase());
+    if (!user || user.password !== input.password || !user.isActive) {
+      fail(ctx, 'UNAUTHORIZED', 'Invalid email or password');
+    }
+    user.lastLoginAt = ctx.now();
+    return { user: sessionUser(ctx.db, user), ...startSession(ctx, user) };
+  },
+
+  'auth.logout': (ctx) => {
+    ctx.db.sessions = ctx.db.sessions.filter((s) => s.token !== ctx.token);
+    return { success: true };
+  },
+
+  'auth.me': (ctx) => sessionUser(ctx.db, requireUser(ctx)),
+
+  'auth.refresh': (ctx) => {
+    const user = requireUser(ctx);
+    ctx.db.sessions = ctx.db.sessions.filter((s) => s.token !== ctx.token);
+    return startSession(ctx, user);
+  },
+};
+
+export const userProcedures: ProcedureMap = {
+  'user.list': (ctx, input: { branchId?: string; role?: string; search?: string; page?: number; pageSize?: number }) => {
+    requireRole(ctx, 'MANAGER');
+    const rows = ctx.db.users.filter(
+      (u) =>
+        (!input.branchId || u.branchId === input.branchId) &&
+        (!input.role || u.role === input.role) &&
+        matchesSearch(input.search, u.name, u.nameAr, u.email)
+    );
+    return paginate(rows.map((u) => userView(ctx.db, u)), input);
+  },
+
+  'user.getById': (ctx, input: { id: string }) => {
+    requireUser(ctx);
+    return userView(ctx.db, findOr404(ctx, ctx.db.users, input.id, 'User'));
+  },
+
+  'user.create': (ctx, input: Omit<MockUser, 'id' | 'isActive' | 'createdAt' | 'branchId'> & { branchId?: string }) => {
+    const caller = requireRole(ctx, 'MANAGER');
+    if (ctx.db.users.some((u) => u.email.toLowerCase() === input.email.toLowerCase())) {
+      fail(ctx, 'CONFLICT', 'A user with this email already exists', { email: ['Email already in use'] });
+    }
+    const user: MockUser = {
+      ...input,
+      id: nextId(ctx.db, 'user'),
+      branchId: input.branchId ?? caller.branchId,
+      isActive: true,
+      createdAt: ctx.now(),
+    };
+    ctx.db.users.push(user);
+    return userView(ctx.db, user);
+  },
+
+  'user.update': (ctx, input: Partial<MockUser> & { id: string }) => {
+    requireRole(ctx, 'MANAGER');
+    const user = findOr404(ctx, ctx.db.users, input.id, 'User');
+    if (input.email && ctx.db.users.some((u) => u.id !== user.id && u.email.toLowerCase() === input.email!.toLowerCase())) {
+      fail(ctx, 'CONFLICT', 'A user with this email already exists', { email: ['Email already in use'] });
+    }
+    const { id: _id, password: _password, ...changes } = input;
+    Object.assign(user, changes);
+    return userView(ctx.db, user);
+  },
+
+  'user.resetPassword': (ctx, input: { userId: string; newPassword: string }) => {
+    requireRole(ctx, 'MANAGER');
+    const user = findOr404(ctx, ctx.db.users, input.userId, 'User');
+    user.password = input.newPassword;
+    ctx.db.sessions = ctx.db.sessions.filter((s) => s.userId !== user.id);
+    return { success: true };
+  },
+
+  'branch.list': (ctx) => {
+    requireUser(ctx);
+    return ctx.db.branches;
+  },
+
+  'branch.getById': (ctx, input: { id: string }) => {
+    requireUser(ctx);
+    return findOr404(ctx, ctx.db.branches, input.id, 'Branch');
+  },
+};
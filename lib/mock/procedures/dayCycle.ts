@@ -0,0 +1,90 @@
+import {
+  fail,
+  findOr404,
+  inDateRange,
+  newestFirst,
+  nextId,
+  openDayCycle,
+  paginate,
+  requireRole,
+  requireUser,
+  type ProcedureMap,
+} from '@/lib/mock/context';
+
+export const dayCycleProcedures: ProcedureMap = {
+  /** Today's cycle, open or closed, so the exchange-rate screen can reopen it. */
+  'dayCycle.getCurrent': (ctx, input: { branchId: string }) => {
+    requireUser(ctx);
+    const today = ctx.now().slice(0, 10);
+    return (
+      ctx.db.dayCycles.find((d) => d.branchId === input.branchId && d.cycleDate === today) ??
+      openDayCycle(ctx.db, input.branchId) ??
+      null
+    );
+  },
+
+  'dayCycle.list': (ctx, input: { branchId: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    const rows = ctx.db.dayCycles.filter((d) => d.branchId === input.branchId && inDateRange(d.cycleDate, input));
+    return paginate(newestFirst(rows, (d) => d.cycleDate), input);
+  },
+
+  'dayCycle.open': (ctx, input: { branchId: string; exchangeRateUsdSdg: number }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    if (!(input.exchangeRateUsdSdg > 0)) {
+      fail(ctx, 'BAD_REQUEST', 'Exchange rate must be positive', { exchangeRateUsdSdg: ['Must be greater than 0'] });
+    }
+    const today = ctx.now().slice(0, 10);
+    if (openDayCycle(ctx.db, input.branchId)) fail(ctx, 'CONFLICT', 'A day cycle is already open for this branch');
+    if (ctx.db.dayCycles.some((d) => d.branchId === input.branchId && d.cycleDate === today)) {
+      fail(ctx, 'CONFLICT', 'Today already has a day cycle; reopen it instead');
+    }
+    const cycle = {
+      id: nextId(ctx.db, 'day'),
+      branchId: input.branchId,
+      cycleDate: today,
+      exchangeRateUsdSdg: input.exchangeRateUsdSdg,
+      status: 'OPEN' as const,
+      openedAt: ctx.now(),
+      closedAt: null,
+    };
+    ctx.db.dayCycles.push(cycle);
+    return cycle;
+  },
+
+  'dayCycle.close': (ctx, input: { dayCycleId: string; force?: boolean; notes?: string }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    const cycle = findOr404(ctx, ctx.db.dayCycles, input.dayCycleId, 'Day cycle');
+    if (cycle.status === 'CLOSED') fail(ctx, 'PRECONDITION_FAILED', 'The day cycle is already closed');
+    const openDrafts = ctx.db.dailyDrafts.filter((d) => d.lines.length > 0);
+    if (openDrafts.length > 0 && !input.force) {
+      fail(ctx, 'PRECONDITION_FAILED', `${openDrafts.length} shelf draft(s) have not been checked out`);
+    }
+    cycle.status = 'CLOSED';
+    cycle.closedAt = ctx.now();
+    if (input.notes) cycle.notes = input.notes;
+    return cycle;
+  },
+
+  'dayCycle.reopen': (ctx, input: { dayCycleId: string; notes?: string }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    const cycle = findOr404(ctx, ctx.db.dayCycles, input.dayCycleId, 'Day cycle');
+    if (cycle.status === 'OPEN') return cycle;
+    if (openDayCycle(ctx.db, cycle.branchId)) fail(ctx, 'CONFLICT', 'Another day cycle is open for this branch');
+    cycle.status = 'OPEN';
+    cycle.closedAt = null;
+    if (input.notes) cycle.notes = input.notes;
+    return cycle;
+  },
+
+  'dayCycle.updateExchangeRate': (ctx, input: { dayCycleId: string; exchangeRateUsdSdg: number }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT');
+    const cycle = findOr404(ctx, ctx.db.dayCycles, input.dayCycleId, 'Day cycle');
+    if (cycle.status !== 'OPEN') fail(ctx, 'PRECONDITION_FAILED', 'The day cycle is closed');
+    if (!(input.exchangeRateUsdSdg > 0)) {
+      fail(ctx, 'BAD_REQUEST', 'Exchange rate must be positive', { exchangeRateUsdSdg: ['Must be greater than 0'] });
+    }
+    cycle.exchangeRateUsdSdg = input.exchangeRateUsdSdg;
+    return cycle;
+  },
+};
@@ -0,0 +1,328 @@
+import type { MockDb, MockPricePolicy } from '@/lib/mock/db';
+import {
+  addBatch,
+  batchesAt,
+  fail,
+  findOr404,
+  inDateRange,
+  itemView,
+  matchesSearch,
+  newestFirst,
+  nextId,
+  paginate,
+  qtyAt,
+  recordMovement,
+  requireRole,
+  requireUser,
+  round,
+  type MockContext,
+  type ProcedureMap,
+  type StockLocation,
+} from '@/lib/mock/context';
+
+function conversionView(db: MockDb, id: string) {
+  const conversion = db.unitConversions.find((c) => c.id === id)!;
+  return {
+    ...conversion,
+    fromUnit: db.units.find((u) => u.id === conversion.fromUnitId) ?? null,
+    toUnit: db.units.find((u) => u.id === conversion.toUnitId) ?? null,
+  };
+}
+
+function batchView(db: MockDb, batchId: string) {
+  const batch = db.batches.find((b) => b.id === batchId)!;
+  const warehouse = db.warehouses.find((w) => w.id === batch.warehouseId);
+  const shelf = db.shelves.find((s) => s.id === batch.shelfId);
+  return {
+    ...batch,
+    warehouse: warehouse ? { id: warehouse.id, name: warehouse.name, nameAr: warehouse.nameAr } : null,
+    shelf: shelf ? { id: shelf.id, name: shelf.name, nameAr: shelf.nameAr } : null,
+  };
+}
+
+/** One row per item held at the location, like `inventory.stock.get*Stock`. */
+function stockAt(ctx: MockContext, location: StockLocation, input: { categoryId?: string; search?: string; page?: number; pageSize?: number }) {
+  const rows = ctx.db.items
+    .filter(
+      (item) =>
+        (!input.categoryId || item.categoryId === input.categoryId) &&
+        matchesSearch(input.search, item.nameEn, item.nameAr, item.sku) &&
+        batchesAt(ctx.db, item.id, location).length > 0
+    )
+    .map((item) => ({
+      itemId: item.id,
+      totalQty: round(qtyAt(ctx.db, item.id, location)),
+      batchCount: batchesAt(ctx.db, item.id, location).filter((b) => b.qtyRemaining > 0).length,
+      item: itemView(ctx.db, item),
+    }));
+  return paginate(rows, input);
+}
+
+function requireUnique(ctx: MockContext, taken: boolean, field: string, message: string) {
+  if (taken) fail(ctx, 'CONFLICT', message, { [field]: [message] });
+}
+
+export const inventoryProcedures: ProcedureMap = {
+  // ─── Locations ────────────────────────────────────────────────────────────
+
+  'inventory.shelves.list': (ctx) => {
+    const user = requireUser(ctx);
+    return ctx.db.shelves.filter((s) => !user.branchId || s.branchId === user.branchId);
+  },
+
+  'inventory.warehouses.list': (ctx) => {
+    const user = requireUser(ctx);
+    return ctx.db.warehouses.filter((w) => !user.branchId || w.branchId === user.branchId);
+  },
+
+  // ─── Reference data ───────────────────────────────────────────────────────
+
+  'inventory.categories.list': (ctx, input: { includeInactive?: boolean }) => {
+    requireUser(ctx);
+    return ctx.db.categories.filter((c) => input.includeInactive || c.isActive);
+  },
+
+  'inventory.categories.create': (ctx, input: { name: string; nameAr: string; parentId?: string }) => {
+    requireRole(ctx, 'MANAGER');
+    requireUnique(ctx, ctx.db.categories.some((c) => c.name.toLowerCase() === input.name.toLowerCase()), 'name', 'Category already exists');
+    const category = { id: nextId(ctx.db, 'cat'), ...input, parentId: input.parentId ?? null, isActive: true };
+    ctx.db.categories.push(category);
+    return category;
+  },
+
+  'inventory.categories.update': (ctx, input: { id: string }) => {
+    requireRole(ctx, 'MANAGER');
+    const category = findOr404(ctx, ctx.db.categories, input.id, 'Category');
+    Object.assign(category, input);
+    return category;
+  },
+
+  'inventory.units.list': (ctx) => {
+    requireUser(ctx);
+    return ctx.db.units;
+  },
+
+  'inventory.units.create': (ctx, input: { name: string; nameAr: string; symbol: string }) => {
+    requireRole(ctx, 'MANAGER');
+    requireUnique(ctx, ctx.db.units.some((u) => u.symbol === input.symbol), 'symbol', 'Unit symbol already exists');
+    const unit = { id: nextId(ctx.db, 'unit'), ...input };
+    ctx.db.units.push(unit);
+    return unit;
+  },
+
+  'inventory.units.update': (ctx, input: { id: string }) => {
+    requireRole(ctx, 'MANAGER');
+    const unit = findOr404(ctx, ctx.db.units, input.id, 'Unit');
+    Object.assign(unit, input);
+    return unit;
+  },
+
+  'inventory.unitConversions.list': (ctx) => {
+    requireUser(ctx);
+    return ctx.db.unitConversions.map((c) => conversionView(ctx.db, c.id));
+  },
+
+  'inventory.unitConversions.create': (ctx, input: { fromUnitId: string; toUnitId: string; factor: number }) => {
+    requireRole(ctx, 'MANAGER');
+    findOr404(ctx, ctx.db.units, input.fromUnitId, 'Unit');
+    findOr404(ctx, ctx.db.units, input.toUnitId, 'Unit');
+    requireUnique(
+      ctx,
+      ctx.db.unitConversions.some((c) => c.fromUnitId === input.fromUnitId && c.toUnitId === input.toUnitId),
+      'toUnitId',
+      'This conversion already exists'
+    );
+    const conversion = { id: nextId(ctx.db, 'conv'), ...input };
+    ctx.db.unitConversions.push(conversion);
+    return conversionView(ctx.db, conversion.id);
+  },
+
+  'inventory.unitConversions.update': (ctx, input: { id: string; factor?: number }) => {
+    requireRole(ctx, 'MANAGER');
+    const conversion = findOr404(ctx, ctx.db.unitConversions, input.id, 'Unit conversion');
+    if (input.factor !== undefined) conversion.factor = input.factor;
+    return conversionView(ctx.db, conversion.id);
+  },
+
+  // ─── Items & prices ───────────────────────────────────────────────────────
+
+  'inventory.items.list': (ctx, input: { page?: number; pageSize?: number; isActive?: boolean; search?: string; categoryId?: string }) => {
+    requireUser(ctx);
+    const rows = ctx.db.items.filter(
+      (i) =>
+        (input.isActive === undefined || i.isActive === input.isActive) &&
+        (!input.categoryId || i.categoryId === input.categoryId) &&
+        matchesSearch(input.search, i.nameEn, i.nameAr, i.sku)
+    );
+    return paginate(rows.map((i) => itemView(ctx.db, i)), input);
+  },
+
+  'inventory.items.getById': (ctx, input: { id: string }) => {
+    requireUser(ctx);
+    return itemView(ctx.db, findOr404(ctx, ctx.db.items, input.id, 'Item'));
+  },
+
+  'inventory.items.create': (ctx, input: { sku: string; nameEn: string; nameAr: string; categoryId: string; unitId: string; isConsignment?: boolean }) => {
+    requireRole(ctx, 'MANAGER', 'PROCUREMENT');
+    requireUnique(ctx, ctx.db.items.some((i) => i.sku.toLowerCase() === input.sku.toLowerCase()), 'sku', 'SKU already exists');
+    findOr404(ctx, ctx.db.categories, input.categoryId, 'Category');
+    findOr404(ctx, ctx.db.units, input.unitId, 'Unit');
+    const item = { ...input, id: nextId(ctx.db, 'item'), isActive: true, isConsignment: input.isConsignment ?? false };
+    ctx.db.items.push(item);
+    return itemView(ctx.db, item);
+  },
+
+  'inventory.items.update': (ctx, input: { id: string; sku?: string }) => {
+    requireRole(ctx, 'MANAGER', 'PROCUREMENT');
+    const item = findOr404(ctx, ctx.db.items, input.id, 'Item');
+    if (input.sku) {
+      requireUnique(
+        ctx,
+        ctx.db.items.some((i) => i.id !== item.id && i.sku.toLowerCase() === input.sku!.toLowerCase()),
+        'sku',
+        'SKU already exists'
+      );
+    }
+    Object.assign(item, input);
+    return itemView(ctx.db, item);
+  },
+
+  'inventory.pricePolicies.list': (ctx, input: { branchId: string; itemId?: string; warehouseId?: string; shelfId?: string; page?: number; pageSize?: number }) => {
+    requireRole(ctx, 'MANAGER', 'ACCOUNTANT', 'WAREHOUSE_SALES', 'SHELF_SALES');
+    const rows = ctx.db.pricePolicies.filter(
+      (p) =>
+        p.branchId === input.branchId &&
+        (!input.itemId || p.itemId === input.itemId) &&
+        // A location filter also returns the branch-wide policies it falls back to
+        (input.warehouseId === undefined || !p.warehouseId || p.warehouseId === input.warehouseId) &&
+        (input.shelfId === undefined || !p.shelfId || p.shelfId === input.shelfId)
+    );
+    return paginate(rows, input);
+  },
+
+  'inventory.pricePolicies.getForItem': (ctx, input: { itemId: string; branchId: string; warehouseId?: string; shelfId?: string }) => {
+    requireUser(ctx);
+    const candidates = ctx.db.pricePolicies.filter(
+      (p) =>
+        p.itemId === input.itemId &&
+        p.branchId === input.branchId &&
+        (!p.warehouseId || p.warehouseId === input.warehouseId) &&
+        (!p.shelfId || p.shelfId === input.shelfId)
+    );
+    const specificity = (p: MockPricePolicy) => (p.shelfId ? 3 : p.warehouseId ? 2 : 1);
+    return candidates.sort((a, b) => specificity(b) - specificity(a))[0] ?? null;
+  },
+
+  'inventory.pricePolicies.create': (ctx, input: Omit<MockPricePolicy, 'id'>) => {
+    requireRole(ctx, 'MANAGER');
+    findOr404(ctx, ctx.db.items, input.itemId, 'Item');
+    requireUnique(
+      ctx,
+      ctx.db.pricePolicies.some(
+        (p) =>
+          p.itemId === input.itemId &&
+          p.branchId === input.branchId &&
+          (p.warehouseId ?? null) === (input.warehouseId ?? null) &&
+          (p.shelfId ?? null) === (input.shelfId ?? null)
+      ),
+      'itemId',
+      'A price policy already exists for this item and location'
+    );
+    const policy = { ...input, id: nextId(ctx.db, 'price') };
+    ctx.db.pricePolicies.push(policy);
+    return policy;
+  },
+
+  'inventory.pricePolicies.update': (ctx, input: Partial<MockPricePolicy> & { id: string }) => {
+    requireRole(ctx, 'MANAGER');
+    const policy = findOr404(ctx, ctx.db.pricePolicies, input.id, 'Price policy');
+    Object.assign(policy, input);
+    return policy;
+  },
+
+  // ─── Stock ────────────────────────────────────────────────────────────────
+
+  'inventory.stock.getWarehouseStock': (ctx, input: { warehouseId: string; categoryId?: string; search?: string; page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    return stockAt(ctx, { warehouseId: input.warehouseId }, input);
+  },
+
+  'inventory.stock.getShelfStock': (ctx, input: { shelfId: string; categoryId?: string; search?: string; page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    return stockAt(ctx, { shelfId: input.shelfId }, input);
+  },
+
+  'inventory.stock.getBatches': (ctx, input: { itemId: string; warehouseId?: string; shelfId?: string; includeEmpty?: boolean }) => {
+    requireUser(ctx);
+    return batchesAt(ctx.db, input.itemId, input)
+      .filter((b) => input.includeEmpty || b.qtyRemaining > 0)
+      .map((b) => batchView(ctx.db, b.id));
+  },
+
+  'inventory.stock.getMovements': (ctx, input: { batchId?: string; itemId?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    const rows = ctx.db.stockMovements.filter(
+      (m) =>
+        (!input.batchId || m.batchId === input.batchId) &&
+        (!input.itemId || m.itemId === input.itemId) &&
+        inDateRange(m.createdAt, input)
+    );
+    return paginate(newestFirst(rows, (m) => m.createdAt), input);
+  },
+
+  /**
+   * Breaks part of a batch into another unit (e.g. a carton into pieces). The
+   * source batch loses `quantityInTargetUnit / factor`; a new batch of the
+   * target-unit item is created at the same location.
+   */
+  'inventory.stock.divideBatch': (ctx, input: { batchId: string; targetUnitId: string; quantityInTargetUnit: number }) => {
+    requireRole(ctx, 'MANAGER', 'WAREHOUSE_SALES', 'SHELF_SALES');
+    const source = findOr404(ctx, ctx.db.batches, input.batchId, 'Batch');
+    const sourceItem = findOr404(ctx, ctx.db.items, source.itemId, 'Item');
+    const conversion = ctx.db.unitConversions.find(
+      (c) => c.fromUnitId === sourceItem.unitId && c.toUnitId === input.targetUnitId
+    );
+    if (!conversion) fail(ctx, 'BAD_REQUEST', 'No unit conversion defined for this batch', { targetUnitId: ['No conversion'] });
+
+    const sourceQty = round(input.quantityInTargetUnit / conversion.factor);
+    if (sourceQty > source.qtyRemaining) {
+      fail(ctx, 'BAD_REQUEST', `Insufficient quantity: ${source.qtyRemaining} available`, {
+        quantityInTargetUnit: ['Exceeds the batch quantity'],
+      });
+    }
+    // The broken-down item shares the category and a name; create it on first use
+    let target = ctx.db.items.find((i) => i.unitId === input.targetUnitId && i.sku === `${sourceItem.sku}-U`);
+    if (!target) {
+      const unit = findOr404(ctx, ctx.db.units, input.targetUnitId, 'Unit');
+      target = {
+        id: nextId(ctx.db, 'item'),
+        sku: `${sourceItem.sku}-U`,
+        nameEn: `${sourceItem.nameEn} (${unit.name})`,
+        nameAr: `${sourceItem.nameAr} (${unit.nameAr})`,
+        categoryId: sourceItem.categoryId,
+        unitId: unit.id,
+        isActive: true,
+        isConsignment: sourceItem.isConsignment,
+      };
+      ctx.db.items.push(target);
+    }
+
+    source.qtyRemaining = round(source.qtyRemaining - sourceQty);
+    recordMovement(ctx, source, 'DIVIDE_OUT', -sourceQty, source.id);
+    const created = addBatch(
+      ctx,
+      {
+        itemId: target.id,
+        warehouseId: source.warehouseId,
+        shelfId: source.shelfId,
+        qtyReceived: input.quantityInTargetUnit,
+        unitCostUsd: round(source.unitCostUsd / conversion.factor),
+        expiryDate: source.expiryDate,
+        isConsignment: source.isConsignment,
+      },
+      'DIVIDE_IN',
+      source.id
+    );
+    return { sourceBatch: batchView(ctx.db, source.id), newBatch: batchView(ctx.db, created.id) };
+  },
+};
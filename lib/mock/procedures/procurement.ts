@@ -0,0 +1,255 @@
+import type { MockDb, MockPurchaseOrder, MockSupplier, MockSupplierInvoice } from '@/lib/mock/db';
+import {
+  addBatch,
+  fail,
+  findOr404,
+  itemRef,
+  matchesSearch,
+  namedRef,
+  newestFirst,
+  nextId,
+  nextNumber,
+  openDayCycle,
+  paginate,
+  requireRole,
+  requireUser,
+  round,
+  userRef,
+  type ProcedureMap,
+} from '@/lib/mock/context';
+
+// ─── Views ──────────────────────────────────────────────────────────────────
+
+/** What the branch still owes the supplier across its open invoices. */
+function supplierView(db: MockDb, supplier: MockSupplier) {
+  const balanceSdg = db.supplierInvoices
+    .filter((i) => i.supplierId === supplier.id && i.status !== 'PAID' && i.status !== 'CANCELLED')
+    .reduce((sum, i) => sum + i.totalSdg - i.paidAmountSdg, 0);
+  return { ...supplier, balanceSdg: round(balanceSdg, 2) };
+}
+
+function supplierInvoiceView(db: MockDb, invoice: MockSupplierInvoice) {
+  return { ...invoice, supplier: namedRef(db.suppliers.find((s) => s.id === invoice.supplierId)) };
+}
+
+function receiptView(db: MockDb, receiptId: string) {
+  const receipt = db.goodsReceipts.find((r) => r.id === receiptId)!;
+  return { ...receipt, receiptType: 'STANDARD', receivedBy: userRef(db, receipt.receivedById) };
+}
+
+function purchaseOrderView(db: MockDb, order: MockPurchaseOrder) {
+  const totalSdg = round(order.lines.reduce((sum, l) => sum + l.qty * l.unitPriceSdg, 0), 2);
+  return {
+    ...order,
+    totalSdg,
+    totalUsd: order.exchangeRate > 0 ? round(totalSdg / order.exchangeRate, 2) : 0,
+    supplier: namedRef(db.suppliers.find((s) => s.id === order.supplierId)),
+    branch: namedRef(db.branches.find((b) => b.id === order.branchId)),
+    createdBy: userRef(db, order.createdById),
+    approvedBy: userRef(db, order.approvedById),
+    lines: order.lines.map((line) => ({
+      ...line,
+      totalSdg: round(line.qty * line.unitPriceSdg, 2),
+      item: itemRef(db, line.itemId),
+    })),
+    goodsReceipts: db.goodsReceipts.filter((r) => r.purchaseOrderId === order.id).map((r) => receiptView(db, r.id)),
+    supplierInvoices: db.supplierInvoices
+      .filter((i) => i.purchaseOrderId === order.id)
+      .map((i) => supplierInvoiceView(db, i)),
+  };
+}
+
+// ─── Procedures ─────────────────────────────────────────────────────────────
+
+export const procurementProcedures: ProcedureMap = {
+  'procurement.purchaseOrders.list': (ctx, input: { branchId: string; supplierId?: string; status?: string; page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    const rows = ctx.db.purchaseOrders.filter(
+      (o) =>
+        o.branchId === input.branchId &&
+        (!input.supplierId || o.supplierId === input.supplierId) &&
+        (!input.status || o.status === input.status)
+    );
+    return paginate(newestFirst(rows, (o) => o.orderDate).map((o) => purchaseOrderView(ctx.db, o)), input);
+  },
+
+  'procurement.purchaseOrders.getById': (ctx, input: { id: string }) => {
+    requireUser(ctx);
+    return purchaseOrderView(ctx.db, findOr404(ctx, ctx.db.purchaseOrders, input.id, 'Purchase order'));
+  },
+
+  'procurement.purchaseOrders.approve': (ctx, input: { id: string }) => {
+    const user = requireRole(ctx, 'MANAGER');
+    const order = findOr404(ctx, ctx.db.purchaseOrders, input.id, 'Purchase order');
+    if (order.status !== 'DRAFT') fail(ctx, 'PRECONDITION_FAILED', 'Only draft purchase orders can be approved');
+    order.status = 'APPROVED';
+    order.approvedById = user.id;
+    return { success: true };
+  },
+
+  'procurement.purchaseOrders.create': (ctx, input: {
+    supplierId: string;
+    branchId: string;
+    expectedDate?: string;
+    notes?: string;
+    isConsignment?: boolean;
+    poNumber?: string;
+    operationNumber?: string;
+    lines: { itemId: string; qty: number; unitPriceSdg: number }[];
+  }) => {
+    const user = requireRole(ctx, 'MANAGER', 'PROCUREMENT');
+    const supplier = findOr404(ctx, ctx.db.suppliers, input.supplierId, 'Supplier');
+    if (input.poNumber && ctx.db.purchaseOrders.some((o) => o.poNumber === input.poNumber)) {
+      fail(ctx, 'CONFLICT', 'PO number already exists', { poNumber: ['Already used'] });
+    }
+    const order: MockPurchaseOrder = {
+      id: nextId(ctx.db, 'po'),
+      poNumber: input.poNumber || nextNumber(ctx.db, 'PO'),
+      orderDate: ctx.now(),
+      branchId: input.branchId,
+      supplierId: supplier.id,
+      createdById: user.id,
+      approvedById: null,
+      status: 'DRAFT',
+      isConsignment: input.isConsignment ?? supplier.isConsignor,
+      notes: input.notes ?? null,
+      expectedDate: input.expectedDate ?? null,
+      operationNumber: input.operationNumber ?? null,
+      exchangeRate: openDayCycle(ctx.db, input.branchId)?.exchangeRateUsdSdg ?? 0,
+      lines: input.lines.map((line) => {
+        findOr404(ctx, ctx.db.items, line.itemId, 'Item');
+        return { id: nextId(ctx.db, 'pol'), itemId: line.itemId, qty: line.qty, qtyReceived: 0, unitPriceSdg: line.unitPriceSdg };
+      }),
+    };
+    ctx.db.purchaseOrders.push(order);
+    return purchaseOrderView(ctx.db, order);
+  },
+
+  // ─── Goods receipts ───────────────────────────────────────────────────────
+
+  /** Receives PO lines into the warehouse as new batches and advances the PO status. */
+  'procurement.goodsReceipts.create': (ctx, input: {
+    purchaseOrderId: string;
+    warehouseId: string;
+    notes?: string;
+    lines: { purchaseOrderLineId: string; itemId: string; qtyReceived: number; unitCostSdg: number; expiryDate?: string }[];
+  }) => {
+    const user = requireRole(ctx, 'MANAGER', 'WAREHOUSE_SALES', 'PROCUREMENT');
+    const order = findOr404(ctx, ctx.db.purchaseOrders, input.purchaseOrderId, 'Purchase order');
+    if (order.status !== 'APPROVED' && order.status !== 'PARTIALLY_RECEIVED') {
+      fail(ctx, 'PRECONDITION_FAILED', 'Only approved purchase orders can be received');
+    }
+    findOr404(ctx, ctx.db.warehouses, input.warehouseId, 'Warehouse');
+    const rate = openDayCycle(ctx.db, order.branchId)?.exchangeRateUsdSdg || order.exchangeRate;
+
+    const id = nextId(ctx.db, 'grn');
+    const lines = input.lines.map((received) => {
+      const line = findOr404(ctx, order.lines, received.purchaseOrderLineId, 'Order line');
+      if (line.qtyReceived + received.qtyReceived > line.qty) {
+        fail(ctx, 'BAD_REQUEST', `Cannot receive more than ordered (${round(line.qty - line.qtyReceived)} left)`);
+      }
+      line.qtyReceived = round(line.qtyReceived + received.qtyReceived);
+      const batch = addBatch(
+        ctx,
+        {
+          itemId: line.itemId,
+          warehouseId: input.warehouseId,
+          qtyReceived: received.qtyReceived,
+          unitCostUsd: rate > 0 ? round(received.unitCostSdg / rate) : 0,
+          expiryDate: received.expiryDate ?? null,
+          isConsignment: order.isConsignment,
+        },
+        'RECEIPT',
+        id
+      );
+      return {
+        itemId: line.itemId,
+        purchaseOrderLineId: line.id,
+        qtyReceived: received.qtyReceived,
+        unitCostSdg: received.unitCostSdg,
+        batchId: batch.id,
+      };
+    });
+
+    ctx.db.goodsReceipts.push({
+      id,
+      grNumber: nextNumber(ctx.db, 'GRN'),
+      purchaseOrderId: order.id,
+      warehouseId: input.warehouseId,
+      receiptDate: ctx.now(),
+      receivedById: user.id,
+      notes: input.notes ?? null,
+      lines,
+    });
+    order.status = order.lines.every((l) => l.qtyReceived >= l.qty) ? 'FULLY_RECEIVED' : 'PARTIALLY_RECEIVED';
+    return { id };
+  },
+
+  'procurement.goodsReceipts.getByPO': (ctx, input: { purchaseOrderId: string }) => {
+    requireUser(ctx);
+    return ctx.db.goodsReceipts.filter((r) => r.purchaseOrderId === input.purchaseOrderId).map((r) => receiptView(ctx.db, r.id));
+  },
+
+  // ─── Suppliers ────────────────────────────────────────────────────────────
+
+  'procurement.suppliers.list': (ctx, input: { page?: number; pageSize?: number; isActive?: boolean; search?: string }) => {
+    requireUser(ctx);
+    const rows = ctx.db.suppliers.filter(
+      (s) => (input.isActive === undefined || s.isActive === input.isActive) && matchesSearch(input.search, s.name, s.nameAr, s.phone)
+    );
+    return paginate(rows.map((s) => supplierView(ctx.db, s)), input);
+  },
+
+  'procurement.suppliers.getById': (ctx, input: { id: string }) => {
+    requireUser(ctx);
+    return supplierView(ctx.db, findOr404(ctx, ctx.db.suppliers, input.id, 'Supplier'));
+  },
+
+  'procurement.suppliers.create': (ctx, input: { name: string; nameAr?: string; phone?: string; email?: string; address?: string }) => {
+    requireRole(ctx, 'MANAGER', 'PROCUREMENT');
+    if (ctx.db.suppliers.some((s) => s.name.toLowerCase() === input.name.toLowerCase())) {
+      fail(ctx, 'CONFLICT', 'A supplier with this name already exists', { name: ['Already exists'] });
+    }
+    const supplier = { ...input, id: nextId(ctx.db, 'sup'), isActive: true, isConsignor: false };
+    ctx.db.suppliers.push(supplier);
+    return supplierView(ctx.db, supplier);
+  },
+
+  // ─── Supplier invoices ────────────────────────────────────────────────────
+
+  'procurement.supplierInvoices.list': (ctx, input: { page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    const rows = newestFirst(ctx.db.supplierInvoices, (i) => i.invoiceDate);
+    return paginate(rows.map((i) => supplierInvoiceView(ctx.db, i)), input);
+  },
+
+  'procurement.supplierInvoices.create': (ctx, input: {
+    supplierId: string;
+    purchaseOrderId?: string;
+    invoiceNumber: string;
+    totalSdg: number;
+    invoiceDate: string;
+    dueDate: string;
+    notes?: string;
+  }) => {
+    const user = requireRole(ctx, 'MANAGER', 'PROCUREMENT', 'ACCOUNTANT');
+    findOr404(ctx, ctx.db.suppliers, input.supplierId, 'Supplier');
+    const order = input.purchaseOrderId ? findOr404(ctx, ctx.db.purchaseOrders, input.purchaseOrderId, 'Purchase order') : undefined;
+    if (ctx.db.supplierInvoices.some((i) => i.supplierId === input.supplierId && i.invoiceNumber === input.invoiceNumber)) {
+      fail(ctx, 'CONFLICT', 'This supplier invoice number is already recorded', { invoiceNumber: ['Already recorded'] });
+    }
+    const invoice: MockSupplierInvoice = {
+      ...input,
+      id: nextId(ctx.db, 'sinv'),
+      purchaseOrderId: order?.id ?? null,
+      branchId: order?.branchId ?? user.branchId ?? '',
+      status: 'CONFIRMED',
+      confirmedDate: ctx.now(),
+      paidAmountSdg: 0,
+      isConsignment: order?.isConsignment ?? false,
+      notes: input.notes ?? null,
+    };
+    ctx.db.supplierInvoices.push(invoice);
+    return { id: invoice.id };
+  },
+};
@@ -0,0 +1,534 @@
+import type { MockDb, MockGoodsRequest, MockInvoiceLine, MockSalesInvoice, MockSalesOrder } from '@/lib/mock/db';
+import {
+  addBatch,
+  adjustAccount,
+  fail,
+  findOr404,
+  inDateRange,
+  itemRef,
+  matchesSearch,
+  namedRef,
+  newestFirst,
+  nextId,
+  nextNumber,
+  paginate,
+  qtyAt,
+  requireOpenDay,
+  requireRole,
+  requireUser,
+  returnStock,
+  round,
+  takeStock,
+  userRef,
+  type MockContext,
+  type ProcedureMap,
+} from '@/lib/mock/context';
+
+// ─── Views ──────────────────────────────────────────────────────────────────
+
+function invoiceView(db: MockDb, invoice: MockSalesInvoice) {
+  return {
+    ...invoice,
+    customer: namedRef(db.customers.find((c) => c.id === invoice.customerId)),
+    createdBy: userRef(db, invoice.createdById),
+    shelf: namedRef(db.shelves.find((s) => s.id === invoice.shelfId)),
+    lines: invoice.lines.map(({ allocations: _, ...line }) => ({ ...line, item: itemRef(db, line.itemId) })),
+  };
+}
+
+function orderView(db: MockDb, order: MockSalesOrder) {
+  const totalUsd = order.lines.reduce((sum, l) => sum + l.qty * l.unitPriceUsd, 0);
+  const totalSdg = order.lines.reduce((sum, l) => sum + l.qty * l.unitPriceSdg, 0);
+  return {
+    ...order,
+    totalUsd: round(totalUsd, 2),
+    totalSdg: round(totalSdg, 2),
+    customer: namedRef(db.customers.find((c) => c.id === order.customerId)),
+    warehouse: namedRef(db.warehouses.find((w) => w.id === order.warehouseId)),
+    branch: namedRef(db.branches.find((b) => b.id === order.branchId)),
+    createdBy: userRef(db, order.createdById),
+    lines: order.lines.map((line) => ({ ...line, item: itemRef(db, line.itemId) })),
+  };
+}
+
+function requestView(db: MockDb, request: MockGoodsRequest) {
+  return {
+    ...request,
+    requestDate: request.createdAt,
+    shelf: namedRef(db.shelves.find((s) => s.id === request.shelfId)),
+    requestedBy: userRef(db, request.requestedById),
+    lines: request.lines.map((line) => ({ ...line, item: itemRef(db, line.itemId) })),
+  };
+}
+
+// ─── Invoicing ──────────────────────────────────────────────────────────────
+
+interface InvoiceInput {
+  shelfId: string;
+  customerId?: string;
+  invoiceType: MockSalesInvoice['invoiceType'];
+  paymentMethod?: string;
+  transactionNumber?: string;
+  receiptImageUrls?: string[];
+  notes?: string;
+  lines: { itemId: string; qty: number; unitPriceUsd: number; batchId?: string | null }[];
+}
+
+/**
+ * Issues an invoice off a shelf at today's rate. Stock leaves FIFO; a credit
+ * sale goes on the customer's balance (within the credit limit), anything else
+ * is paid and lands in the cash or bank account.
+ */
+function issueInvoice(ctx: MockContext, input: InvoiceInput): MockSalesInvoice {
+  const user = requireUser(ctx);
+  const day = requireOpenDay(ctx, user.branchId);
+  findOr404(ctx, ctx.db.shelves, input.shelfId, 'Shelf');
+  const customer = input.customerId ? findOr404(ctx, ctx.db.customers, input.customerId, 'Customer') : undefined;
+  if (input.lines.length === 0) fail(ctx, 'BAD_REQUEST', 'Invoice has no lines', { lines: ['Add at least one item'] });
+
+  const id = nextId(ctx.db, 'inv');
+  const rate = day.exchangeRateUsdSdg;
+  const lines: MockInvoiceLine[] = input.lines.map((line) => {
+    findOr404(ctx, ctx.db.items, line.itemId, 'Item');
+    const allocations = takeStock(ctx, line.itemId, { shelfId: input.shelfId }, line.qty, {
+      type: 'SALE',
+      referenceId: id,
+      preferredBatchId: line.batchId,
+    });
+    return {
+      id: nextId(ctx.db, 'sil'),
+      itemId: line.itemId,
+      qty: line.qty,
+      unitPriceUsd: line.unitPriceUsd,
+      unitPriceSdg: round(line.unitPriceUsd * rate, 2),
+      totalUsd: round(line.unitPriceUsd * line.qty, 2),
+      totalSdg: round(line.unitPriceUsd * line.qty * rate, 2),
+      allocations,
+    };
+  });
+  const totalUsd = round(lines.reduce((sum, l) => sum + l.totalUsd, 0), 2);
+  const totalSdg = round(lines.reduce((sum, l) => sum + l.totalSdg, 0), 2);
+
+  const onCredit = input.paymentMethod === 'CREDIT';
+  if (onCredit) {
+    if (!customer) fail(ctx, 'BAD_REQUEST', 'A credit sale needs a customer', { customerId: ['Required for credit sales'] });
+    if (customer.balanceSdg + totalSdg > customer.creditLimitSdg) {
+      fail(ctx, 'PRECONDITION_FAILED', `Credit limit exceeded for ${customer.name}`);
+    }
+    customer.balanceSdg = round(customer.balanceSdg + totalSdg, 2);
+  } else {
+    adjustAccount(ctx.db, input.paymentMethod === 'BANK_TRANSFER' ? 'BANK' : 'CASH', totalSdg);
+  }
+
+  const invoice: MockSalesInvoice = {
+    id,
+    invoiceNumber: nextNumber(ctx.db, 'INV'),
+    invoiceDate: ctx.now(),
+    branchId: user.branchId ?? day.branchId,
+    shelfId: input.shelfId,
+    customerId: customer?.id ?? null,
+    createdById: user.id,
+    status: onCredit ? 'ISSUED' : 'PAID',
+    invoiceType: input.invoiceType,
+    paymentMethod: input.paymentMethod ?? 'CASH',
+    transactionNumber: input.transactionNumber ?? null,
+    receiptImageUrls: input.receiptImageUrls ?? [],
+    notes: input.notes ?? null,
+    exchangeRate: rate,
+    totalUsd,
+    totalSdg,
+    paidAmountSdg: onCredit ? 0 : totalSdg,
+    lines,
+  };
+  ctx.db.salesInvoices.push(invoice);
+  return invoice;
+}
+
+function todaysAggregate(ctx: MockContext, shelfId: string) {
+  const today = ctx.now().slice(0, 10);
+  let aggregate = ctx.db.dailyAggregates.find((a) => a.shelfId === shelfId && a.date === today);
+  if (!aggregate) {
+    aggregate = { id: nextId(ctx.db, 'agg'), shelfId, date: today, cashTotalSdg: 0, cardTotalSdg: 0, itemCount: 0, transactionCount: 0 };
+    ctx.db.dailyAggregates.push(aggregate);
+  }
+  return aggregate;
+}
+
+function draftFor(ctx: MockContext, shelfId: string) {
+  const user = requireUser(ctx);
+  let draft = ctx.db.dailyDrafts.find((d) => d.shelfId === shelfId && d.userId === user.id);
+  if (!draft) {
+    findOr404(ctx, ctx.db.shelves, shelfId, 'Shelf');
+    draft = { id: nextId(ctx.db, 'draft'), shelfId, userId: user.id, lines: [] };
+    ctx.db.dailyDrafts.push(draft);
+  }
+  return draft;
+}
+
+function draftLine(ctx: MockContext, lineId: string) {
+  const user = requireUser(ctx);
+  for (const draft of ctx.db.dailyDrafts) {
+    const line = draft.userId === user.id ? draft.lines.find((l) => l.id === lineId) : undefined;
+    if (line) return { draft, line };
+  }
+  return fail(ctx, 'NOT_FOUND', 'Draft line not found');
+}
+
+/** Draft lines reserve nothing, but a line may not ask for more than the shelf holds. */
+function checkShelfQty(ctx: MockContext, shelfId: string, itemId: string, qty: number) {
+  const onShelf = qtyAt(ctx.db, itemId, { shelfId });
+  if (qty > onShelf) {
+    fail(ctx, 'BAD_REQUEST', `Insufficient quantity: ${onShelf} available on the shelf`, { qty: [`Max ${onShelf}`] });
+  }
+}
+
+// ─── Procedures ─────────────────────────────────────────────────────────────
+
+export const salesProcedures: ProcedureMap = {
+  'sales.salesInvoices.listByBranch': (ctx, input: { branchId: string; page?: number; pageSize?: number; startDate?: string; endDate?: string }) => {
+    requireUser(ctx);
+    const rows = ctx.db.salesInvoices.filter((i) => i.branchId === input.branchId && inDateRange(i.invoiceDate, input));
+    return paginate(newestFirst(rows, (i) => i.invoiceDate).map((i) => invoiceView(ctx.db, i)), input);
+  },
+
+  'sales.salesInvoices.getById': (ctx, input: { id: string }) => {
+    requireUser(ctx);
+    return invoiceView(ctx.db, findOr404(ctx, ctx.db.salesInvoices, input.id, 'Invoice'));
+  },
+
+  'sales.salesInvoices.create': (ctx, input: InvoiceInput) => {
+    requireRole(ctx, 'MANAGER', 'SHELF_SALES', 'WAREHOUSE_SALES');
+    return invoiceView(ctx.db, issueInvoice(ctx, input));
+  },
+
+  /** Puts the stock back where it came from and reverses the payment or the customer balance. */
+  'sales.salesInvoices.void': (ctx, input: { id: string; reason?: string }) => {
+    requireRole(ctx, 'MANAGER');
+    const invoice = findOr404(ctx, ctx.db.salesInvoices, input.id, 'Invoice');
+    if (invoice.status === 'VOIDED') fail(ctx, 'CONFLICT', 'Invoice is already voided');
+    for (const line of invoice.lines) returnStock(ctx, line.allocations, invoice.id);
+    if (invoice.status === 'ISSUED') {
+      const customer = ctx.db.customers.find((c) => c.id === invoice.customerId);
+      if (customer) customer.balanceSdg = round(customer.balanceSdg - (invoice.totalSdg - invoice.paidAmountSdg), 2);
+    }
+    if (invoice.paidAmountSdg > 0) {
+      adjustAccount(ctx.db, invoice.paymentMethod === 'BANK_TRANSFER' ? 'BANK' : 'CASH', -invoice.paidAmountSdg);
+    }
+    invoice.status = 'VOIDED';
+    invoice.notes = input.reason ? `${invoice.notes ? `${invoice.notes}\n` : ''}Voided: ${input.reason}` : invoice.notes;
+    return { success: true };
+  },
+
+  // ─── Customers ────────────────────────────────────────────────────────────
+
+  'sales.customers.list': (ctx, input: { page?: number; pageSize?: number; isActive?: boolean; search?: string }) => {
+    requireUser(ctx);
+    const rows = ctx.db.customers.filter(
+      (c) => (input.isActive === undefined || c.isActive === input.isActive) && matchesSearch(input.search, c.name, c.nameAr, c.phone)
+    );
+    return paginate(rows, input);
+  },
+
+  'sales.customers.getById': (ctx, input: { id: string }) => {
+    requireUser(ctx);
+    return findOr404(ctx, ctx.db.customers, input.id, 'Customer');
+  },
+
+  'sales.customers.create': (ctx, input: { name: string; nameAr?: string; phone?: string; email?: string; customerType: 'WHOLESALE' | 'RETAIL'; creditLimitSdg?: number }) => {
+    requireRole(ctx, 'MANAGER', 'SHELF_SALES', 'WAREHOUSE_SALES', 'ACCOUNTANT');
+    if (input.phone && ctx.db.customers.some((c) => c.phone === input.phone)) {
+      fail(ctx, 'CONFLICT', 'A customer with this phone number already exists', { phone: ['Already registered'] });
+    }
+    const customer = { ...input, id: nextId(ctx.db, 'cust'), isActive: true, creditLimitSdg: input.creditLimitSdg ?? 0, balanceSdg: 0 };
+    ctx.db.customers.push(customer);
+    return customer;
+  },
+
+  // ─── Sales orders (warehouse) ─────────────────────────────────────────────
+
+  'sales.salesOrders.list': (ctx, input: { branchId: string; customerId?: string; status?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    const rows = ctx.db.salesOrders.filter(
+      (o) =>
+        o.branchId === input.branchId &&
+        (!input.customerId || o.customerId === input.customerId) &&
+        (!input.status || o.status === input.status) &&
+        inDateRange(o.orderDate, input)
+    );
+    return paginate(newestFirst(rows, (o) => o.orderDate).map((o) => orderView(ctx.db, o)), input);
+  },
+
+  'sales.salesOrders.getById': (ctx, input: { id: string }) => {
+    requireUser(ctx);
+    return orderView(ctx.db, findOr404(ctx, ctx.db.salesOrders, input.id, 'Sales order'));
+  },
+
+  'sales.salesOrders.create': (ctx, input: { customerId: string; warehouseId: string; notes?: string; lines: { itemId: string; qty: number; unitPriceUsd: number }[] }) => {
+    const user = requireRole(ctx, 'MANAGER', 'WAREHOUSE_SALES');
+    const day = requireOpenDay(ctx, user.branchId);
+    findOr404(ctx, ctx.db.customers, input.customerId, 'Customer');
+    findOr404(ctx, ctx.db.warehouses, input.warehouseId, 'Warehouse');
+    const order: MockSalesOrder = {
+      id: nextId(ctx.db, 'so'),
+      orderNumber: nextNumber(ctx.db, 'SO'),
+      orderDate: ctx.now(),
+      branchId: user.branchId ?? day.branchId,
+      warehouseId: input.warehouseId,
+      customerId: input.customerId,
+      createdById: user.id,
+      status: 'DRAFT',
+      notes: input.notes ?? null,
+      lines: input.lines.map((line) => {
+        findOr404(ctx, ctx.db.items, line.itemId, 'Item');
+        return {
+          id: nextId(ctx.db, 'sol'),
+          itemId: line.itemId,
+          qty: line.qty,
+          qtyDelivered: 0,
+          unitPriceUsd: line.unitPriceUsd,
+          unitPriceSdg: round(line.unitPriceUsd * day.exchangeRateUsdSdg, 2),
+        };
+      }),
+    };
+    ctx.db.salesOrders.push(order);
+    return { id: order.id, orderNumber: order.orderNumber };
+  },
+
+  'sales.salesOrders.confirm': (ctx, input: { id: string }) => {
+    requireRole(ctx, 'MANAGER', 'WAREHOUSE_SALES');
+    const order = findOr404(ctx, ctx.db.salesOrders, input.id, 'Sales order');
+    if (order.status !== 'DRAFT') fail(ctx, 'PRECONDITION_FAILED', 'Only draft orders can be confirmed');
+    order.status = 'CONFIRMED';
+    return { success: true };
+  },
+
+  /** Each line's `qtyDelivered` is what leaves the warehouse now, on top of earlier deliveries. */
+  'sales.salesOrders.deliver': (ctx, input: { orderId: string; lines: { lineId: string; qtyDelivered: number }[] }) => {
+    const user = requireRole(ctx, 'MANAGER', 'WAREHOUSE_SALES');
+    requireOpenDay(ctx, user.branchId);
+    const order = findOr404(ctx, ctx.db.salesOrders, input.orderId, 'Sales order');
+    if (order.status !== 'CONFIRMED' && order.status !== 'PARTIALLY_DELIVERED') {
+      fail(ctx, 'PRECONDITION_FAILED', 'Only confirmed orders can be delivered');
+    }
+    for (const delivery of input.lines) {
+      if (delivery.qtyDelivered <= 0) continue;
+      const line = findOr404(ctx, order.lines, delivery.lineId, 'Order line');
+      if (line.qtyDelivered + delivery.qtyDelivered > line.qty) {
+        fail(ctx, 'BAD_REQUEST', `Cannot deliver more than ordered (${line.qty - line.qtyDelivered} left)`);
+      }
+      takeStock(ctx, line.itemId, { warehouseId: order.warehouseId }, delivery.qtyDelivered, { type: 'SALE', referenceId: order.id });
+      line.qtyDelivered = round(line.qtyDelivered + delivery.qtyDelivered);
+    }
+    order.status = order.lines.every((l) => l.qtyDelivered >= l.qty) ? 'FULLY_DELIVERED' : 'PARTIALLY_DELIVERED';
+    return { success: true };
+  },
+
+  // ─── Goods requests (shelf → warehouse) ───────────────────────────────────
+
+  'sales.goodsRequests.list': (ctx, input: { shelfId?: string; branchId?: string; status?: string; page?: number; pageSize?: number }) => {
+    requireUser(ctx);
+    const rows = ctx.db.goodsRequests.filter(
+      (r) =>
+        (!input.shelfId || r.shelfId === input.shelfId) &&
+        (!input.branchId || r.branchId === input.branchId) &&
+        (!input.status || r.status === input.status)
+    );
+    return paginate(newestFirst(rows, (r) => r.createdAt).map((r) => requestView(ctx.db, r)), input);
+  },
+
+  'sales.goodsRequests.getById': (ctx, input: { id: string }) => {
+    requireUser(ctx);
+    return requestView(ctx.db, findOr404(ctx, ctx.db.goodsRequests, input.id, 'Goods request'));
+  },
+
+  'sales.goodsRequests.create': (ctx, input: { shelfId: string; notes?: string; lines: { itemId: string; qtyRequested: number }[] }) => {
+    const user = requireRole(ctx, 'MANAGER', 'SHELF_SALES');
+    const shelf = findOr404(ctx, ctx.db.shelves, input.shelfId, 'Shelf');
+    const request: MockGoodsRequest = {
+      id: nextId(ctx.db, 'gr'),
+      requestNumber: nextNumber(ctx.db, 'GR'),
+      createdAt: ctx.now(),
+      shelfId: shelf.id,
+      branchId: shelf.branchId,
+      requestedById: user.id,
+      status: 'DRAFT',
+      notes: input.notes ?? null,
+      lines: input.lines.map((line) => {
+        findOr404(ctx, ctx.db.items, line.itemId, 'Item');
+        return { id: nextId(ctx.db, 'grl'), itemId: line.itemId, qtyRequested: line.qtyRequested, qtyApproved: 0, qtyIssued: 0, qtyReceived: 0 };
+      }),
+    };
+    ctx.db.goodsRequests.push(request);
+    return requestView(ctx.db, request);
+  },
+
+  'sales.goodsRequests.submit': (ctx, input: { id: string }) => {
+    requireRole(ctx, 'MANAGER', 'SHELF_SALES');
+    const request = findOr404(ctx, ctx.db.goodsRequests, input.id, 'Goods request');
+    if (request.status !== 'DRAFT') fail(ctx, 'PRECONDITION_FAILED', 'Only draft requests can be submitted');
+    request.status = 'SUBMITTED';
+    return { success: true };
+  },
+
+  'sales.goodsRequests.approve': (ctx, input: { requestId: string; notes?: string; lines: { lineId: string; qtyApproved: number }[] }) => {
+    requireRole(ctx, 'MANAGER', 'WAREHOUSE_SALES');
+    const request = findOr404(ctx, ctx.db.goodsRequests, input.requestId, 'Goods request');
+    if (request.status !== 'SUBMITTED') fail(ctx, 'PRECONDITION_FAILED', 'Only submitted requests can be approved');
+    for (const approval of input.lines) {
+      const line = findOr404(ctx, request.lines, approval.lineId, 'Request line');
+      line.qtyApproved = approval.qtyApproved;
+    }
+    if (input.notes) request.notes = input.notes;
+    request.status = 'APPROVED';
+    return { success: true };
+  },
+
+  'sales.goodsRequests.reject': (ctx, input: { requestId: string; reason?: string }) => {
+    requireRole(ctx, 'MANAGER', 'WAREHOUSE_SALES');
+    const request = findOr404(ctx, ctx.db.goodsRequests, input.requestId, 'Goods request');
+    if (request.status !== 'SUBMITTED' && request.status !== 'APPROVED') {
+      fail(ctx, 'PRECONDITION_FAILED', 'This request can no longer be rejected');
+    }
+    request.status = 'REJECTED';
+    request.rejectReason = input.reason ?? null;
+    return { success: true };
+  },
+
+  /** Moves the issued quantities from the warehouse onto the shelf as new batches at the same cost. */
+  'sales.goodsRequests.issue': (ctx, input: { requestId: string; warehouseId: string; lines: { lineId: string; qtyIssued: number }[] }) => {
+    const user = requireRole(ctx, 'MANAGER', 'WAREHOUSE_SALES');
+    requireOpenDay(ctx, user.branchId);
+    const request = findOr404(ctx, ctx.db.goodsRequests, input.requestId, 'Goods request');
+    if (request.status !== 'APPROVED') fail(ctx, 'PRECONDITION_FAILED', 'Only approved requests can be issued');
+    findOr404(ctx, ctx.db.warehouses, input.warehouseId, 'Warehouse');
+
+    for (const issue of input.lines) {
+      if (issue.qtyIssued <= 0) continue;
+      const line = findOr404(ctx, request.lines, issue.lineId, 'Request line');
+      if (issue.qtyIssued > line.qtyApproved) {
+        fail(ctx, 'BAD_REQUEST', `Cannot issue more than approved (${line.qtyApproved})`);
+      }
+      const allocations = takeStock(ctx, line.itemId, { warehouseId: input.warehouseId }, issue.qtyIssued, {
+        type: 'TRANSFER_OUT',
+        referenceId: request.id,
+      });
+      for (const allocation of allocations) {
+        const source = ctx.db.batches.find((b) => b.id === allocation.batchId)!;
+        addBatch(
+          ctx,
+          {
+            itemId: line.itemId,
+            shelfId: request.shelfId,
+            qtyReceived: allocation.qty,
+            unitCostUsd: source.unitCostUsd,
+            expiryDate: source.expiryDate,
+            isConsignment: source.isConsignment,
+          },
+          'TRANSFER_IN',
+          request.id
+        );
+      }
+      line.qtyIssued = issue.qtyIssued;
+      line.qtyReceived = issue.qtyIssued;
+    }
+    request.status = 'ISSUED';
+    return { success: true };
+  },
+
+  // ─── Daily shelf invoice ──────────────────────────────────────────────────
+
+  'sales.dailyAggregate.getOrCreate': (ctx, input: { shelfId: string }) => {
+    requireUser(ctx);
+    return todaysAggregate(ctx, input.shelfId);
+  },
+
+  'sales.dailyAggregate.update': (ctx, input: { shelfId: string; cashTotalSdg?: number; cardTotalSdg?: number; itemCount?: number; transactionCount?: number }) => {
+    requireUser(ctx);
+    const { shelfId, ...totals } = input;
+    return Object.assign(todaysAggregate(ctx, shelfId), totals);
+  },
+
+  'sales.dailyInvoiceDraft.getOrCreate': (ctx, input: { shelfId: string }) => {
+    const draft = draftFor(ctx, input.shelfId);
+    return { ...draft, lines: draft.lines.map((line) => ({ ...line, item: itemRef(ctx.db, line.itemId) })) };
+  },
+
+  /** Adding an item that is already on the draft (same batch) raises that line's qty. */
+  'sales.dailyInvoiceDraft.addLine': (ctx, input: { shelfId: string; itemId: string; qty: number; unitPriceUsd: number; batchId?: string }) => {
+    requireRole(ctx, 'MANAGER', 'SHELF_SALES');
+    findOr404(ctx, ctx.db.items, input.itemId, 'Item');
+    const draft = draftFor(ctx, input.shelfId);
+    const existing = draft.lines.find((l) => l.itemId === input.itemId && (l.batchId ?? null) === (input.batchId ?? null));
+    const onDraft = draft.lines.filter((l) => l.itemId === input.itemId).reduce((sum, l) => sum + l.qty, 0);
+    checkShelfQty(ctx, input.shelfId, input.itemId, onDraft + input.qty);
+    if (existing) {
+      existing.qty = round(existing.qty + input.qty);
+      existing.unitPriceUsd = input.unitPriceUsd;
+      return existing;
+    }
+    const line = { id: nextId(ctx.db, 'dl'), itemId: input.itemId, qty: input.qty, unitPriceUsd: input.unitPriceUsd, batchId: input.batchId ?? null };
+    draft.lines.push(line);
+    return line;
+  },
+
+  'sales.dailyInvoiceDraft.removeLine': (ctx, input: { lineId: string }) => {
+    const { draft } = draftLine(ctx, input.lineId);
+    draft.lines = draft.lines.filter((l) => l.id !== input.lineId);
+    return { success: true };
+  },
+
+  'sales.dailyInvoiceDraft.updateLineQty': (ctx, input: { lineId: string; qty: number }) => {
+    const { draft, line } = draftLine(ctx, input.lineId);
+    if (!(input.qty > 0)) fail(ctx, 'BAD_REQUEST', 'Quantity must be positive', { qty: ['Must be greater than 0'] });
+    const others = draft.lines.filter((l) => l.itemId === line.itemId && l.id !== line.id).reduce((sum, l) => sum + l.qty, 0);
+    checkShelfQty(ctx, draft.shelfId, line.itemId, others + input.qty);
+    line.qty = input.qty;
+    return { success: true };
+  },
+
+  'sales.dailyInvoiceDraft.clearDraft': (ctx, input: { shelfId: string }) => {
+    draftFor(ctx, input.shelfId).lines = [];
+    return { success: true };
+  },
+
+  /** Turns the draft into one paid retail invoice, empties it and adds the sale to today's totals. */
+  'sales.dailyInvoiceDraft.checkout': (ctx, input: {
+    shelfId: string;
+    paymentMethod: 'CASH' | 'BANK_TRANSFER' | 'MIXED';
+    cashAmountSdg?: number;
+    cardAmountSdg?: number;
+    transactionNumber?: string;
+    receiptImageUrls?: string[];
+    customerId?: string;
+  }) => {
+    requireRole(ctx, 'MANAGER', 'SHELF_SALES');
+    const draft = draftFor(ctx, input.shelfId);
+    if (draft.lines.length === 0) fail(ctx, 'BAD_REQUEST', 'The draft is empty');
+
+    const invoice = issueInvoice(ctx, {
+      shelfId: input.shelfId,
+      customerId: input.customerId,
+      invoiceType: 'RETAIL',
+      paymentMethod: input.paymentMethod,
+      transactionNumber: input.transactionNumber,
+      receiptImageUrls: input.receiptImageUrls,
+      lines: draft.lines,
+    });
+    draft.lines = [];
+
+    const cardSdg =
+      input.paymentMethod === 'BANK_TRANSFER' ? invoice.totalSdg : input.paymentMethod === 'MIXED' ? input.cardAmountSdg ?? 0 : 0;
+    if (input.paymentMethod === 'MIXED') {
+      // issueInvoice booked it all as cash
+      adjustAccount(ctx.db, 'CASH', -cardSdg);
+      adjustAccount(ctx.db, 'BANK', cardSdg);
+    }
+    const aggregate = todaysAggregate(ctx, input.shelfId);
+    aggregate.cardTotalSdg = round(aggregate.cardTotalSdg + cardSdg, 2);
+    aggregate.cashTotalSdg = round(aggregate.cashTotalSdg + invoice.totalSdg - cardSdg, 2);
+    aggregate.itemCount = round(aggregate.itemCount + invoice.lines.reduce((sum, l) => sum + l.qty, 0));
+    aggregate.transactionCount += 1;
+
+    return { id: invoice.id, invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber };
+  },
+};
@@ -0,0 +1,104 @@
+import type { MockDb } from '@/lib/mock/db';
+import { fail, itemView, requireUser, type ProcedureMap } from '@/lib/mock/context';
+
+interface Scope {
+  branchId?: string;
+  shelfId?: string;
+  warehouseId?: string;
+}
+
+type Row = { id: string } & Record<string, any>;
+
+interface SyncedTable {
+  collection: keyof MockDb;
+  inScope?: (row: Row, scope: Scope) => boolean;
+  view?: (db: MockDb, row: Row) => unknown;
+}
+
+/** Offline tables the app pulls through `sync.changes`, by their SQLite names. */
+const SYNCED_TABLES: Record<string, SyncedTable> = {
+  items: { collection: 'items', view: (db, row) => itemView(db, row as MockDb['items'][number]) },
+  item_categories: { collection: 'categories' },
+  units: { collection: 'units' },
+  unit_conversions: { collection: 'unitConversions' },
+  price_policies: {
+    collection: 'pricePolicies',
+    inScope: (row, scope) =>
+      row.branchId === scope.branchId &&
+      (!row.shelfId || row.shelfId === scope.shelfId) &&
+      (!row.warehouseId || row.warehouseId === scope.warehouseId),
+  },
+  customers: { collection: 'customers' },
+  warehouses: { collection: 'warehouses' },
+  shelves: { collection: 'shelves' },
+  batches: {
+    collection: 'batches',
+    inScope: (row, scope) =>
+      (!scope.shelfId || row.shelfId === scope.shelfId) && (!scope.warehouseId || row.warehouseId === scope.warehouseId),
+  },
+};
+
+// Older changes are forgotten; a cursor from before them has to resync in full
+const MAX_CHANGES = 1000;
+
+/**
+ * Appends what a mutation changed in the synced collections to `db.changeLog`,
+ * by comparing against the state before it. Called by the backend after every
+ * successful mutation.
+ */
+export function trackChanges(db: MockDb, before: MockDb): void {
+  const collections = new Set(Object.values(SYNCED_TABLES).map((t) => t.collection));
+  for (const collection of collections) {
+    const previous = new Map((before[collection] as Row[]).map((r) => [r.id, JSON.stringify(r)]));
+    const current = db[collection] as Row[];
+    const ids = new Set<string>();
+    for (const row of current) {
+      if (previous.get(row.id) !== JSON.stringify(row)) ids.add(row.id);
+      previous.delete(row.id);
+    }
+    for (const id of previous.keys()) ids.add(id);
+    for (const id of ids) db.changeLog.push({ seq: ++db.changeSeq, collection, id });
+  }
+
+  const excess = db.changeLog.length - MAX_CHANGES;
+  if (excess > 0) {
+    db.changeLog.splice(0, excess);
+    db.changeFloor = db.changeLog[0].seq - 1;
+  }
+}
+
+export const syncProcedures: ProcedureMap = {
+  /** Cursors are change sequence numbers; no cursor means every row in scope. */
+  'sync.changes': (ctx, input: Scope & { table: string; cursor?: string }) => {
+    requireUser(ctx);
+    const spec = SYNCED_TABLES[input.table];
+    if (!spec) fail(ctx, 'BAD_REQUEST', `Table "${input.table}" is not synced`);
+
+    const rows = ctx.db[spec.collection] as Row[];
+    const inScope = (row: Row) => !spec.inScope || spec.inScope(row, input);
+    const view = (row: Row) => (spec.view ? spec.view(ctx.db, row) : row);
+    const cursor = String(ctx.db.changeSeq);
+
+    if (!input.cursor) {
+      return { rows: rows.filter(inScope).map(view), deletedIds: [], cursor, hasMore: false };
+    }
+
+    const since = Number(input.cursor);
+    if (!Number.isInteger(since) || since < ctx.db.changeFloor || since > ctx.db.changeSeq) {
+      fail(ctx, 'PRECONDITION_FAILED', 'Sync cursor has expired');
+    }
+
+    const changed = new Set(
+      ctx.db.changeLog.filter((c) => c.seq > since && c.collection === spec.collection).map((c) => c.id)
+    );
+    const upserts: unknown[] = [];
+    const deletedIds: string[] = [];
+    for (const id of changed) {
+      const row = rows.find((r) => r.id === id);
+      // Rows that left the caller's scope are deletions from its point of view
+      if (row && inScope(row)) upserts.push(view(row));
+      else deletedIds.push(id);
+    }
+    return { rows: upserts, deletedIds, cursor, hasMore: false };
+  },
+};
@@ -0,0 +1,331 @@
+import { MOCK_DB_VERSION, type MockBatch, type MockDb, type MockItem } from '@/lib/mock/db';
+
+/** Password of every seeded demo user. */
+export const DEMO_PASSWORD = 'demo123';
+
+/** Seeded sign-ins, one per role, shown on the login screen in demo mode. */
+export const DEMO_ACCOUNTS = [
+  { email: 'admin@demo.golden', role: 'ADMIN' },
+  { email: 'manager@demo.golden', role: 'MANAGER' },
+  { email: 'warehouse@demo.golden', role: 'WAREHOUSE_SALES' },
+  { email: 'shelf@demo.golden', role: 'SHELF_SALES' },
+  { email: 'procurement@demo.golden', role: 'PROCUREMENT' },
+  { email: 'accountant@demo.golden', role: 'ACCOUNTANT' },
+] as const;
+
+const DAY = 24 * 60 * 60 * 1000;
+const EXCHANGE_RATE = 2500;
+
+// [sku, nameEn, nameAr, categoryId, unitId, wholesaleUsd, retailUsd, unitCostUsd]
+const ITEMS: [string, string, string, string, string, number, number, number][] = [
+  ['SUG-001', 'Sugar 1kg', 'سكر ١ كيلو', 'cat_1', 'unit_3', 0.9, 1.1, 0.75],
+  ['RIC-005', 'Rice 5kg', 'أرز ٥ كيلو', 'cat_1', 'unit_1', 5.5, 6.25, 4.8],
+  ['FLR-001', 'Wheat Flour 1kg', 'دقيق قمح ١ كيلو', 'cat_1', 'unit_3', 0.7, 0.85, 0.55],
+  ['LEN-001', 'Red Lentils 1kg', 'عدس أحمر ١ كيلو', 'cat_1', 'unit_3', 1.6, 1.9, 1.3],
+  ['OIL-001', 'Sunflower Oil 1L', 'زيت عباد الشمس ١ لتر', 'cat_2', 'unit_4', 2.1, 2.5, 1.8],
+  ['OIL-005', 'Sesame Oil 5L', 'زيت سمسم ٥ لتر', 'cat_2', 'unit_1', 11.5, 13, 10],
+  ['TEA-250', 'Black Tea 250g', 'شاي أسود ٢٥٠ جرام', 'cat_3', 'unit_1', 1.4, 1.75, 1.1],
+  ['WAT-015', 'Mineral Water 1.5L', 'مياه معدنية ١.٥ لتر', 'cat_3', 'unit_1', 0.3, 0.4, 0.22],
+  ['MLK-400', 'Milk Powder 400g', 'حليب بودرة ٤٠٠ جرام', 'cat_3', 'unit_1', 3.2, 3.75, 2.7],
+  ['SOP-001', 'Soap Bar', 'صابون', 'cat_4', 'unit_1', 0.35, 0.5, 0.25],
+  ['DET-001', 'Laundry Detergent 1kg', 'مسحوق غسيل ١ كيلو', 'cat_4', 'unit_3', 1.8, 2.2, 1.45],
+  ['SOP-CTN', 'Soap Bar (carton of 12)', 'صابون (كرتونة ١٢)', 'cat_4', 'unit_2', 3.9, 5.5, 3],
+];
+
+/**
+ * A small but complete branch: staff for every role, an open day, stock in the
+ * warehouse and on the shelves, and some history in every module so each screen
+ * has something to show.
+ */
+export function createSeed(now = Date.now()): MockDb {
+  const iso = (daysAgo: number) => new Date(now - daysAgo * DAY).toISOString();
+  const dateOnly = (daysAgo: number) => iso(daysAgo).slice(0, 10);
+
+  const items: MockItem[] = ITEMS.map(([sku, nameEn, nameAr, categoryId, unitId], i) => ({
+    id: `item_${i + 1}`,
+    sku,
+    nameEn,
+    nameAr,
+    categoryId,
+    unitId,
+    isActive: true,
+    isConsignment: false,
+    minStockLevel: 20,
+    maxStockLevel: 500,
+  }));
+
+  const batches: MockBatch[] = [];
+  ITEMS.forEach(([, , , , , , , cost], i) => {
+    const itemId = `item_${i + 1}`;
+    // Two warehouse batches so FIFO is visible, and one shelf batch for most items
+    batches.push({
+      id: `batch_${batches.length + 1}`,
+      itemId,
+      batchNumber: `B-${String(batches.length + 1).padStart(4, '0')}`,
+      warehouseId: 'wh_1',
+      qtyReceived: 150,
+      qtyRemaining: 80 + ((i * 37) % 70),
+      unitCostUsd: cost,
+      receivedDate: iso(40),
+      expiryDate: i % 3 === 0 ? dateOnly(-60) : null,
+      isConsignment: false,
+    });
+    batches.push({
+      id: `batch_${batches.length + 1}`,
+      itemId,
+      batchNumber: `B-${String(batches.length + 1).padStart(4, '0')}`,
+      warehouseId: 'wh_1',
+      qtyReceived: 200,
+      qtyRemaining: 200,
+      unitCostUsd: cost * 1.04,
+      receivedDate: iso(10),
+      expiryDate: i % 3 === 0 ? dateOnly(-180) : null,
+      isConsignment: false,
+    });
+    if (i % 4 !== 3) {
+      batches.push({
+        id: `batch_${batches.length + 1}`,
+        itemId,
+        batchNumber: `B-${String(batches.length + 1).padStart(4, '0')}`,
+        shelfId: i % 2 === 0 ? 'shelf_1' : 'shelf_2',
+        qtyReceived: 60,
+        qtyRemaining: 15 + ((i * 13) % 40),
+        unitCostUsd: cost,
+        receivedDate: iso(5),
+        expiryDate: i % 3 === 0 ? dateOnly(-45) : null,
+        isConsignment: false,
+      });
+    }
+  });
+
+  const line = (id: string, itemIndex: number, qty: number, retail = true) => {
+    const [, , , , , wholesale, retailPrice] = ITEMS[itemIndex];
+    const unitPriceUsd = retail ? retailPrice : wholesale;
+    return {
+      id,
+      itemId: `item_${itemIndex + 1}`,
+      qty,
+      unitPriceUsd,
+      unitPriceSdg: unitPriceUsd * EXCHANGE_RATE,
+      totalUsd: unitPriceUsd * qty,
+      totalSdg: unitPriceUsd * qty * EXCHANGE_RATE,
+      allocations: [],
+    };
+  };
+  const totals = (lines: { totalUsd: number; totalSdg: number }[]) => ({
+    totalUsd: lines.reduce((s, l) => s + l.totalUsd, 0),
+    totalSdg: lines.reduce((s, l) => s + l.totalSdg, 0),
+  });
+
+  const invoice1Lines = [line('sil_1', 0, 4), line('sil_2', 6, 2)];
+  const invoice2Lines = [line('sil_3', 1, 10, false), line('sil_4', 4, 12, false)];
+  const invoice3Lines = [line('sil_5', 9, 6), line('sil_6', 7, 12)];
+
+  const db: MockDb = {
+    version: MOCK_DB_VERSION,
+    // Document numbers; record id sequences are derived below
+    sequences: { INV: 3, SO: 1, GR: 1, PO: 2, GRN: 0, SINV: 3 },
+
+    branches: [{ id: 'branch_1', name: 'Main Branch', nameAr: 'الفرع الرئيسي', code: 'MAIN', isActive: true }],
+    users: [
+      { id: 'user_1', email: 'admin@demo.golden', password: DEMO_PASSWORD, name: 'Amal Admin', nameAr: 'أمل المديرة', role: 'ADMIN', branchId: 'branch_1', isActive: true, createdAt: iso(365) },
+      { id: 'user_2', email: 'manager@demo.golden', password: DEMO_PASSWORD, name: 'Mohamed Manager', nameAr: 'محمد المدير', role: 'MANAGER', branchId: 'branch_1', isActive: true, createdAt: iso(300) },
+      { id: 'user_3', email: 'warehouse@demo.golden', password: DEMO_PASSWORD, name: 'Waleed Warehouse', nameAr: 'وليد المخزن', role: 'WAREHOUSE_SALES', branchId: 'branch_1', warehouseId: 'wh_1', isActive: true, createdAt: iso(200) },
+      { id: 'user_4', email: 'shelf@demo.golden', password: DEMO_PASSWORD, name: 'Sara Shelf', nameAr: 'سارة الرف', role: 'SHELF_SALES', branchId: 'branch_1', shelfId: 'shelf_1', isActive: true, createdAt: iso(150) },
+      { id: 'user_5', email: 'procurement@demo.golden', password: DEMO_PASSWORD, name: 'Pierre Procurement', nameAr: 'بيير المشتريات', role: 'PROCUREMENT', branchId: 'branch_1', isActive: true, createdAt: iso(120) },
+      { id: 'user_6', email: 'accountant@demo.golden', password: DEMO_PASSWORD, name: 'Huda Accountant', nameAr: 'هدى المحاسبة', role: 'ACCOUNTANT', branchId: 'branch_1', isActive: true, createdAt: iso(90) },
+    ],
+    sessions: [],
+    idempotentReplies: [],
+    changeSeq: 0,
+    changeFloor: 0,
+    changeLog: [],
+    dayCycles: [
+      { id: 'day_1', branchId: 'branch_1', cycleDate: dateOnly(2), exchangeRateUsdSdg: 2480, status: 'CLOSED', openedAt: iso(2), closedAt: iso(1.6) },
+      { id: 'day_2', branchId: 'branch_1', cycleDate: dateOnly(1), exchangeRateUsdSdg: 2490, status: 'CLOSED', openedAt: iso(1), closedAt: iso(0.6) },
+      { id: 'day_3', branchId: 'branch_1', cycleDate: dateOnly(0), exchangeRateUsdSdg: EXCHANGE_RATE, status: 'OPEN', openedAt: iso(0) },
+    ],
+
+    categories: [
+      { id: 'cat_1', name: 'Grains & Staples', nameAr: 'الحبوب والأساسيات', isActive: true },
+      { id: 'cat_2', name: 'Oils', nameAr: 'الزيوت', isActive: true },
+      { id: 'cat_3', name: 'Beverages', nameAr: 'المشروبات', isActive: true },
+      { id: 'cat_4', name: 'Cleaning', nameAr: 'المنظفات', isActive: true },
+    ],
+    units: [
+      { id: 'unit_1', name: 'Piece', nameAr: 'قطعة', symbol: 'pcs' },
+      { id: 'unit_2', name: 'Carton', nameAr: 'كرتونة', symbol: 'ctn' },
+      { id: 'unit_3', name: 'Kilogram', nameAr: 'كيلوجرام', symbol: 'kg' },
+      { id: 'unit_4', name: 'Litre', nameAr: 'لتر', symbol: 'L' },
+    ],
+    unitConversions: [{ id: 'conv_1', fromUnitId: 'unit_2', toUnitId: 'unit_1', factor: 12 }],
+    warehouses: [{ id: 'wh_1', name: 'Main Warehouse', nameAr: 'المخزن الرئيسي', code: 'WH-01', branchId: 'branch_1' }],
+    shelves: [
+      { id: 'shelf_1', name: 'Shelf A', nameAr: 'الرف أ', code: 'SH-A', branchId: 'branch_1', userId: 'user_4' },
+      { id: 'shelf_2', name: 'Shelf B', nameAr: 'الرف ب', code: 'SH-B', branchId: 'branch_1', userId: null },
+    ],
+    items,
+    pricePolicies: ITEMS.map(([, , , , , wholesale, retail], i) => ({
+      id: `price_${i + 1}`,
+      itemId: `item_${i + 1}`,
+      branchId: 'branch_1',
+      wholesalePriceUsd: wholesale,
+      retailPriceUsd: retail,
+      priceRangeMinUsd: wholesale * 0.95,
+      priceRangeMaxUsd: retail * 1.1,
+      effectiveFrom: iso(60),
+    })),
+    batches,
+    stockMovements: batches.map((b, i) => ({
+      id: `mov_${i + 1}`,
+      batchId: b.id,
+      itemId: b.itemId,
+      movementType: b.shelfId ? ('TRANSFER_IN' as const) : ('RECEIPT' as const),
+      qty: b.qtyReceived,
+      createdAt: b.receivedDate,
+    })),
+
+    customers: [
+      { id: 'cust_1', name: 'Al Noor Grocery', nameAr: 'بقالة النور', phone: '0912345678', customerType: 'WHOLESALE', isActive: true, creditLimitSdg: 2_000_000, balanceSdg: totals(invoice2Lines).totalSdg },
+      { id: 'cust_2', name: 'Blue Nile Restaurant', nameAr: 'مطعم النيل الأزرق', phone: '0923456789', customerType: 'WHOLESALE', isActive: true, creditLimitSdg: 1_000_000, balanceSdg: 0 },
+      { id: 'cust_3', name: 'Fatima Ahmed', nameAr: 'فاطمة أحمد', phone: '0934567890', customerType: 'RETAIL', isActive: true, creditLimitSdg: 0, balanceSdg: 0 },
+      { id: 'cust_4', name: 'Omar Hassan', nameAr: 'عمر حسن', customerType: 'RETAIL', isActive: true, creditLimitSdg: 0, balanceSdg: 0 },
+    ],
+    salesInvoices: [
+      { id: 'inv_1', invoiceNumber: 'INV-000001', invoiceDate: iso(1), branchId: 'branch_1', shelfId: 'shelf_1', customerId: 'cust_3', createdById: 'user_4', status: 'PAID', invoiceType: 'RETAIL', paymentMethod: 'CASH', exchangeRate: EXCHANGE_RATE, ...totals(invoice1Lines), paidAmountSdg: totals(invoice1Lines).totalSdg, lines: invoice1Lines },
+      { id: 'inv_2', invoiceNumber: 'INV-000002', invoiceDate: iso(1), branchId: 'branch_1', customerId: 'cust_1', createdById: 'user_3', status: 'ISSUED', invoiceType: 'WHOLESALE', paymentMethod: 'CREDIT', exchangeRate: EXCHANGE_RATE, ...totals(invoice2Lines), paidAmountSdg: 0, lines: invoice2Lines },
+      { id: 'inv_3', invoiceNumber: 'INV-000003', invoiceDate: iso(0.2), branchId: 'branch_1', shelfId: 'shelf_1', createdById: 'user_4', status: 'PAID', invoiceType: 'RETAIL', paymentMethod: 'BANK_TRANSFER', transactionNumber: 'TRX-88213', exchangeRate: EXCHANGE_RATE, ...totals(invoice3Lines), paidAmountSdg: totals(invoice3Lines).totalSdg, lines: invoice3Lines },
+    ],
+    salesOrders: [
+      {
+        id: 'so_1',
+        orderNumber: 'SO-000001',
+        orderDate: iso(1),
+        branchId: 'branch_1',
+        warehouseId: 'wh_1',
+        customerId: 'cust_2',
+        createdById: 'user_3',
+        status: 'CONFIRMED',
+        lines: [
+          { id: 'sol_1', itemId: 'item_5', qty: 24, qtyDelivered: 0, unitPriceUsd: 2.1, unitPriceSdg: 2.1 * EXCHANGE_RATE },
+          { id: 'sol_2', itemId: 'item_2', qty: 10, qtyDelivered: 0, unitPriceUsd: 5.5, unitPriceSdg: 5.5 * EXCHANGE_RATE },
+        ],
+      },
+    ],
+    goodsRequests: [
+      {
+        id: 'gr_1',
+        requestNumber: 'GR-000001',
+        createdAt: iso(0.3),
+        shelfId: 'shelf_1',
+        branchId: 'branch_1',
+        requestedById: 'user_4',
+        status: 'SUBMITTED',
+        lines: [
+          { id: 'grl_1', itemId: 'item_1', qtyRequested: 30, qtyApproved: 0, qtyIssued: 0, qtyReceived: 0 },
+          { id: 'grl_2', itemId: 'item_7', qtyRequested: 20, qtyApproved: 0, qtyIssued: 0, qtyReceived: 0 },
+        ],
+      },
+    ],
+    dailyDrafts: [],
+    dailyAggregates: [],
+
+    suppliers: [
+      { id: 'sup_1', name: 'Khartoum Trading Co.', nameAr: 'شركة الخرطوم التجارية', phone: '0911111111', address: 'Khartoum Industrial Area', isActive: true, isConsignor: false },
+      { id: 'sup_2', name: 'Port Sudan Imports', nameAr: 'واردات بورتسودان', phone: '0922222222', address: 'Port Sudan', isActive: true, isConsignor: false },
+      { id: 'sup_3', name: 'Gezira Farms', nameAr: 'مزارع الجزيرة', phone: '0933333333', address: 'Wad Madani', isActive: true, isConsignor: true },
+    ],
+    purchaseOrders: [
+      {
+        id: 'po_1',
+        poNumber: 'PO-000001',
+        orderDate: iso(3),
+        branchId: 'branch_1',
+        supplierId: 'sup_1',
+        createdById: 'user_5',
+        approvedById: 'user_1',
+        status: 'APPROVED',
+        isConsignment: false,
+        exchangeRate: EXCHANGE_RATE,
+        lines: [
+          { id: 'pol_1', itemId: 'item_1', qty: 100, qtyReceived: 0, unitPriceSdg: 0.75 * EXCHANGE_RATE },
+          { id: 'pol_2', itemId: 'item_3', qty: 120, qtyReceived: 0, unitPriceSdg: 0.55 * EXCHANGE_RATE },
+        ],
+      },
+      {
+        id: 'po_2',
+        poNumber: 'PO-000002',
+        orderDate: iso(0.5),
+        branchId: 'branch_1',
+        supplierId: 'sup_3',
+        createdById: 'user_5',
+        status: 'DRAFT',
+        isConsignment: true,
+        exchangeRate: EXCHANGE_RATE,
+        lines: [
+          { id: 'pol_3', itemId: 'item_4', qty: 50, qtyReceived: 0, unitPriceSdg: 1.3 * EXCHANGE_RATE },
+          { id: 'pol_4', itemId: 'item_9', qty: 40, qtyReceived: 0, unitPriceSdg: 2.7 * EXCHANGE_RATE },
+        ],
+      },
+    ],
+    goodsReceipts: [],
+    supplierInvoices: [
+      { id: 'sinv_1', invoiceNumber: 'SINV-000001', supplierId: 'sup_1', purchaseOrderId: 'po_1', branchId: 'branch_1', status: 'CONFIRMED', invoiceDate: iso(3), dueDate: dateOnly(-27), confirmedDate: iso(3), totalSdg: (100 * 0.75 + 120 * 0.55) * EXCHANGE_RATE, paidAmountSdg: 0, isConsignment: false },
+      { id: 'sinv_2', invoiceNumber: 'SINV-000002', supplierId: 'sup_2', branchId: 'branch_1', status: 'OUTSTANDING', invoiceDate: iso(20), dueDate: dateOnly(-10), confirmedDate: iso(20), totalSdg: 1_250_000, paidAmountSdg: 250_000, isConsignment: false },
+      { id: 'sinv_3', invoiceNumber: 'SINV-000003', supplierId: 'sup_3', purchaseOrderId: 'po_2', branchId: 'branch_1', status: 'CONFIRMED', invoiceDate: iso(0.5), dueDate: dateOnly(-30), confirmedDate: iso(0.5), totalSdg: (50 * 1.3 + 40 * 2.7) * EXCHANGE_RATE, paidAmountSdg: 0, isConsignment: true },
+    ],
+
+    accounts: [
+      { id: 'acc_1', code: '1000', nameEn: 'Cash', nameAr: 'النقدية', accountType: 'CASH', balanceSdg: 3_500_000 },
+      { id: 'acc_2', code: '1100', nameEn: 'Bank of Khartoum', nameAr: 'بنك الخرطوم', accountType: 'BANK', balanceSdg: 12_750_000 },
+      { id: 'acc_3', code: '1200', nameEn: 'Accounts Receivable', nameAr: 'الذمم المدينة', accountType: 'RECEIVABLE', balanceSdg: 0 },
+      { id: 'acc_4', code: '2000', nameEn: 'Accounts Payable', nameAr: 'الذمم الدائنة', accountType: 'PAYABLE', balanceSdg: 0 },
+    ],
+    transactions: [
+      { id: 'trx_1', branchId: 'branch_1', transactionType: 'CASH_IN', amountSdg: 500_000, description: 'Opening float', fromAccountId: null, toAccountId: 'acc_1', createdAt: iso(2) },
+      { id: 'trx_2', branchId: 'branch_1', transactionType: 'TRANSFER', amountSdg: 1_000_000, description: 'Cash deposit to bank', referenceNumber: 'DEP-1042', fromAccountId: 'acc_1', toAccountId: 'acc_2', createdAt: iso(1) },
+    ],
+    expenseCategories: [
+      { id: 'expcat_1', name: 'Rent', nameAr: 'الإيجار', icon: 'home-outline', color: '#6366f1', isActive: true, monthlyBudgetSdg: 1_500_000 },
+      { id: 'expcat_2', name: 'Electricity', nameAr: 'الكهرباء', icon: 'flash-outline', color: '#f59e0b', isActive: true, monthlyBudgetSdg: 400_000 },
+      { id: 'expcat_3', name: 'Transport', nameAr: 'النقل', icon: 'car-outline', color: '#10b981', isActive: true, monthlyBudgetSdg: 600_000 },
+      { id: 'expcat_4', name: 'Salaries', nameAr: 'الرواتب', icon: 'people-outline', color: '#ef4444', isActive: true, monthlyBudgetSdg: 4_000_000 },
+    ],
+    expenses: [
+      { id: 'exp_1', branchId: 'branch_1', categoryId: 'expcat_1', description: 'Shop rent', amountSdg: 1_500_000, status: 'APPROVED', paymentMethod: 'BANK_TRANSFER', createdById: 'user_6', createdAt: iso(12) },
+      { id: 'exp_2', branchId: 'branch_1', categoryId: 'expcat_3', description: 'Delivery truck fuel', amountSdg: 85_000, status: 'APPROVED', paymentMethod: 'CASH', createdById: 'user_3', createdAt: iso(2) },
+      { id: 'exp_3', branchId: 'branch_1', categoryId: 'expcat_2', description: 'Electricity prepaid units', amountSdg: 120_000, status: 'PENDING', paymentMethod: 'CASH', createdById: 'user_4', createdAt: iso(0.1) },
+      { id: 'exp_4', branchId: 'branch_1', categoryId: 'expcat_4', description: 'Staff salaries', amountSdg: 3_800_000, status: 'APPROVED', paymentMethod: 'BANK_TRANSFER', createdById: 'user_6', createdAt: iso(35) },
+    ],
+    paymentSchedules: [
+      { id: 'ps_1', invoiceId: 'sinv_2', amountSdg: 500_000, dueDate: dateOnly(-5), status: 'PENDING' },
+      { id: 'ps_2', invoiceId: 'sinv_2', amountSdg: 500_000, dueDate: dateOnly(-10), status: 'PENDING' },
+    ],
+    bankNotices: [
+      { id: 'bn_1', invoiceId: 'sinv_2', operationNumber: 'OP-55120', bankReference: 'BOK-99812', amountSdg: 250_000, isMatched: true, createdAt: iso(8) },
+    ],
+    bankAccounts: [
+      { id: 'bank_1', bankName: 'Bank of Khartoum', bankNameAr: 'بنك الخرطوم', accountNumber: '1234567890', isActive: true },
+      { id: 'bank_2', bankName: 'Faisal Islamic Bank', bankNameAr: 'بنك فيصل الإسلامي', accountNumber: '9876543210', isActive: true },
+    ],
+    bankPayments: [
+      { id: 'bp_1', userId: 'user_4', bankAccountId: 'bank_1', amountSdg: 47_500, receiptImageUrl: 'https://placehold.co/600x800.png?text=Receipt', transactionNumber: 'TRX-88213', description: 'Customer transfer', status: 'PENDING', createdAt: iso(0.2) },
+    ],
+  };
+  seedIdSequences(db, db);
+  return db;
+}
+
+/** Continues every `prefix_N` id found in the seed (records and their lines) after its highest N. */
+function seedIdSequences(db: MockDb, value: unknown) {
+  if (Array.isArray(value)) {
+    value.forEach((v) => seedIdSequences(db, v));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+  for (const [key, v] of Object.entries(value)) {
+    const match = key === 'id' && typeof v === 'string' ? /^([a-z]+)_(\d+)$/.exec(v) : null;
+    if (match) db.sequences[match[1]] = Math.max(db.sequences[match[1]] ?? 0, Number(match[2]));
+    else if (key !== 'sequences') seedIdSequences(db, v);
+  }
+}
@@ -0,0 +1,32 @@
+import { redact } from '@/lib/networkLog';
+
+describe('redact', () => {
+  it('masks personal fields', () => {
+    expect(
+      redact({
+        newPassword: 'x',
+        phone: '0912345678',
+        name: 'Amna',
+        accountNumber: '123',
+        refreshToken: 'abc',
+      })
+    ).toEqual({
+      newPassword: '[redacted]',
+      phone: '[redacted]',
+      name: '[redacted]',
+      accountNumber: '[redacted]',
+      refreshToken: '[redacted]',
+    });
+  });
+
+  it('keeps ids and names of records that only contain a personal word', () => {
+    const lookups = { bankAccountId: 'ba1', accountId: 'a1', fromAccountId: 'a2', itemName: 'Rice', shelfName: 'A1' };
+    expect(redact(lookups)).toEqual(lookups);
+  });
+
+  it('keeps ids, amounts and empty values, and masks nested objects', () => {
+    expect(
+      redact({ shelfId: 's1', amountSdg: 500, notes: '', lines: [{ itemId: 'i1', qty: 2, description: 'gift' }] })
+    ).toEqual({ shelfId: 's1', amountSdg: 500, notes: '', lines: [{ itemId: 'i1', qty: 2, description: '[redacted]' }] });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Opt-in log of API calls for support ("it didn't save"). Each tRPC call made
+ * through `lib/api.ts` is written to the `network_log` table of the offline
+ * database with its procedure, redacted input, outcome and latency. Only the
+ * newest `MAX_ENTRIES` rows are kept.
+ *
+ * Logging never throws and never delays the call it describes.
+ */
+import * as SecureStore from 'expo-secure-store';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import { getDb } from '@/lib/db/database';
+import { isApiError } from '@/lib/apiError';
+
+/** Where the answer came from: the backend, the offline cache, or a queue replay. */
+export type NetworkCallSource = 'network' | 'cache' | 'queue';
+
+export type NetworkCallKind = 'query' | 'mutation' | 'upload';
+
+export interface NetworkLogEntry {
+  id: number;
+  /** Epoch ms when the call started. */
+  startedAt: number;
+  procedure: string;
+  kind: NetworkCallKind;
+  source: NetworkCallSource;
+  /** Input as JSON with personal data replaced by `[redacted]`. */
+  input: string | null;
+  ok: boolean;
+  httpStatus: number | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+  latencyMs: number;
+}
+
+const MAX_ENTRIES = 500;
+const ENABLED_KEY = 'networkLogEnabled';
+
+// ─── Setting ───────────────────────────────────────────────────────────────
+
+let enabled: Promise<boolean> | null = null;
+
+export function isNetworkLogEnabled(): Promise<boolean> {
+  enabled ??= SecureStore.getItemAsync(ENABLED_KEY)
+    .then((value) => value === '1')
+    .catch(() => false);
+  return enabled;
+}
+
+export async function setNetworkLogEnabled(value: boolean): Promise<void> {
+  enabled = Promise.resolve(value);
+  await SecureStore.setItemAsync(ENABLED_KEY, value ? '1' : '0');
+}
+
+// ─── Redaction ─────────────────────────────────────────────────────────────
+
+// Names, contact details, credentials and free text a cashier may type anything into, as the
+// procedures name them. Whole keys only: `bankAccountId` or `shelfName` are what the log is for
+const PII_KEYS = new Set([
+  'password',
+  'newPassword',
+  'token',
+  'refreshToken',
+  'email',
+  'phone',
+  'address',
+  'name',
+  'nameAr',
+  'iban',
+  'accountNumber',
+  'transactionNumber',
+  'notes',
+  'description',
+  'reason',
+]);
+const MAX_STRING = 200;
+const MAX_DEPTH = 6;
+
+/** Copy of `value` safe to hand to support: personal fields masked, long text cut. */
+export function redact(value: unknown, depth = 0): unknown {
+  if (depth > MAX_DEPTH) return '[…]';
+  if (typeof value === 'string') return value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}…` : value;
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [
+        key,
+        PII_KEYS.has(key) && v != null && v !== '' ? '[redacted]' : redact(v, depth + 1),
+      ])
+    );
+  }
+  return value;
+}
+
+// ─── Recording ─────────────────────────────────────────────────────────────
+
+interface NetworkCall {
+  procedure: string;
+  kind: NetworkCallKind;
+  source: NetworkCallSource;
+  input?: unknown;
+  startedAt: number;
+  error?: unknown;
+}
+
+/** Writes one finished call in the background; a no-op unless the log is enabled. */
+export function recordNetworkCall(call: NetworkCall): void {
+  const finishedAt = Date.now();
+  void (async () => {
+    if (!(await isNetworkLogEnabled())) return;
+    const error = call.error;
+    const db = getDb();
+    await db.runAsync(
+      `INSERT INTO network_log
+         (started_at, procedure, kind, source, input, ok, http_status, error_code, error_message, latency_ms)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        call.startedAt,
+        call.procedure,
+        call.kind,
+        call.source,
+        call.input === undefined ? null : JSON.stringify(redact(call.input)),
+        error === undefined ? 1 : 0,
+        isApiError(error) ? (error.status ?? null) : null,
+        error === undefined ? null : isApiError(error) ? error.code : 'UNKNOWN',
+        error === undefined ? null : ((error as Error)?.message ?? String(error)),
+        finishedAt - call.startedAt,
+      ]
+    );
+    await db.runAsync('DELETE FROM network_log WHERE id <= (SELECT MAX(id) FROM network_log) - ?', [MAX_ENTRIES]);
+  })().catch(() => {
+    // The log must never break the call it describes
+  });
+}
+
+/** Runs `send` and records how it went. */
+export async function withNetworkLog<T>(
+  call: Omit<NetworkCall, 'startedAt' | 'error'>,
+  send: () => Promise<T>
+): Promise<T> {
+  const startedAt = Date.now();
+  try {
+    const result = await send();
+    recordNetworkCall({ ...call, startedAt });
+    return result;
+  } catch (error) {
+    recordNetworkCall({ ...call, startedAt, error });
+    throw error;
+  }
+}
+
+// ─── Reading ───────────────────────────────────────────────────────────────
+
+export async function getNetworkLog(limit = MAX_ENTRIES): Promise<NetworkLogEntry[]> {
+  const db = getDb();
+  const rows = await db.getAllAsync<any>('SELECT * FROM network_log ORDER BY id DESC LIMIT ?', [limit]);
+  return rows.map((row) => ({
+    id: row.id,
+    startedAt: row.started_at,
+    procedure: row.procedure,
+    kind: row.kind,
+    source: row.source,
+    input: row.input,
+    ok: row.ok === 1,
+    httpStatus: row.http_status,
+    errorCode: row.error_code,
+    errorMessage: row.error_message,
+    latencyMs: row.latency_ms,
+  }));
+}
+
+export async function clearNetworkLog(): Promise<void> {
+  await getDb().runAsync('DELETE FROM network_log');
+}
+
+/** Writes the log to a JSON file and opens the share sheet, e.g. to send it to support. */
+export async function shareNetworkLog(): Promise<void> {
+  const entries = await getNetworkLog();
+  const file = new File(Paths.cache, `network-log-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+  file.create({ overwrite: true });
+  file.write(JSON.stringify({ exportedAt: new Date().toISOString(), entries }, null, 2));
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(file.uri, { mimeType: 'application/json', dialogTitle: 'Network log' });
+}
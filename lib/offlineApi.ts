@@ -9,14 +9,38 @@
  */
 
 import { connectivity } from '@/lib/connectivity';
-import { getDb } from '@/lib/db/database';
-import { api } from '@/lib/api';
-import { enqueueMutation, MutationType } from '@/lib/sync/mutationQueue';
+import { getCacheMeta, getDb } from '@/lib/db/database';
+import { reindexSearch, searchIndexOf, searchRankSql, toMatchQuery, type SearchTable } from '@/lib/db/search';
+import { api, createIdempotencyKey, uploadReceipt, type MutationOptions } from '@/lib/api';
+import { createLocalId, enqueueMutation, isLocalId, MutationType } from '@/lib/sync/mutationQueue';
+import { keepReceipt } from '@/lib/sync/receiptStore';
+import {
+  getAvailableQty,
+  getCustomerBalance,
+  RESERVED_BATCHES,
+  RESERVED_CUSTOMERS,
+  stockAtSql,
+  type StockLocation,
+} from '@/lib/sync/reservations';
+import { getLocalDraft, hasQueuedCheckout, markDraftCheckedOut, reconcileDailyDraft } from '@/lib/sync/dailyDraft';
+import { accountingInputs } from '@/lib/schemas/accounting';
+import { salesInputs, type Customer, type GoodsRequest, type SalesInvoice } from '@/lib/schemas/sales';
+import type { DayCycle } from '@/lib/schemas/dayCycle';
+import { parseInput } from '@/lib/schemas/common';
 import { useSyncStore } from '@/stores/sync';
+import { recordNetworkCall } from '@/lib/networkLog';
 
-export { getLocalQueuedInvoices } from '@/lib/sync/mutationQueue';
+export { getLocalQueued, getLocalQueuedInvoices, isLocalId } from '@/lib/sync/mutationQueue';
+export {
+  cacheHistoryDetail,
+  getCachedHistory,
+  getCachedHistoryRecord,
+  getHistoryAsOf,
+  matchesSearch,
+} from '@/lib/sync/history';
 
 // ─── Cache readers ─────────────────────────────────────────────────────────────
+// Stock and customer balances include what queued writes have reserved.
 
 export async function getCachedItems(): Promise<any[]> {
   const db = getDb();
@@ -36,7 +60,70 @@ export async function getCachedUnits(): Promise<any[]> {
 
 export async function getCachedCustomers(): Promise<any[]> {
   const db = getDb();
-  return db.getAllAsync<any>('SELECT * FROM customers WHERE is_active = 1 ORDER BY name');
+  return db.getAllAsync<any>(`SELECT * FROM ${RESERVED_CUSTOMERS} WHERE is_active = 1 ORDER BY name`);
+}
+
+/** A `getCachedCustomers` row as the API returns customers. */
+export function rowToCustomer(row: any): Customer {
+  return {
+    id: row.id,
+    name: row.name,
+    nameAr: row.name_ar,
+    phone: row.phone,
+    email: row.email,
+    customerType: row.customer_type,
+    isActive: row.is_active === 1,
+    creditLimitSdg: row.credit_limit_sdg ?? 0,
+    balanceSdg: row.balance_sdg,
+  };
+}
+
+// ─── Search ────────────────────────────────────────────────────────────────────
+// Answered from the local full-text indexes whether or not the device is
+// online, so a query finds the same rows either way. `null` means there is
+// nothing to search (the table was never synced, or the query has no words);
+// the caller then filters what it has loaded itself.
+
+const SEARCH_LIMIT = 50;
+
+/** Active cached items matching `query`, best match first. */
+export async function searchItems(query: string, limit = SEARCH_LIMIT): Promise<any[] | null> {
+  return searchCached('items', 'items', query, limit);
+}
+
+/** Active cached customers matching `query`, best match first, balances as `getCachedCustomers` has them. */
+export async function searchCustomers(query: string, limit = SEARCH_LIMIT): Promise<any[] | null> {
+  return searchCached('customers', RESERVED_CUSTOMERS, query, limit);
+}
+
+async function searchCached(table: SearchTable, rows: string, query: string, limit: number): Promise<any[] | null> {
+  const match = toMatchQuery(query);
+  if (!match || !(await getCacheMeta(table))) return null;
+  const index = searchIndexOf(table);
+  return getDb().getAllAsync<any>(
+    `SELECT t.* FROM ${index} JOIN ${rows} t ON t.id = ${index}.id
+     WHERE ${index} MATCH ? AND t.is_active = 1
+     ORDER BY ${searchRankSql(table)}
+     LIMIT ?`,
+    [match, limit]
+  );
+}
+
+export async function getCachedExpenseCategories(): Promise<any[]> {
+  const db = getDb();
+  const rows = await db.getAllAsync<any>('SELECT * FROM expense_categories ORDER BY name');
+  return rows.map((row) => ({ id: row.id, name: row.name, nameAr: row.name_ar, icon: row.icon, color: row.color }));
+}
+
+export async function getCachedBankAccounts(): Promise<any[]> {
+  const db = getDb();
+  const rows = await db.getAllAsync<any>('SELECT * FROM bank_accounts ORDER BY bank_name');
+  return rows.map((row) => ({
+    id: row.id,
+    bankName: row.bank_name,
+    bankNameAr: row.bank_name_ar,
+    accountNumber: row.account_number,
+  }));
 }
 
 export async function getCachedWarehouses(): Promise<any[]> {
@@ -49,7 +136,7 @@ export async function getCachedShelves(): Promise<any[]> {
   return db.getAllAsync<any>('SELECT * FROM shelves ORDER BY name');
 }
 
-export async function getCachedDayCycle(branchId: string): Promise<any | null> {
+export async function getCachedDayCycle(branchId: string): Promise<DayCycle | null> {
   const db = getDb();
   const row = await db.getFirstAsync<any>(
     'SELECT * FROM day_cycle WHERE branch_id = ? AND status = ?',
@@ -61,7 +148,7 @@ export async function getCachedDayCycle(branchId: string): Promise<any | null> {
 export async function getCachedBatchesForShelf(shelfId: string): Promise<any[]> {
   const db = getDb();
   return db.getAllAsync<any>(
-    'SELECT * FROM batches WHERE shelf_id = ? AND qty_remaining > 0 ORDER BY received_date ASC',
+    `SELECT * FROM ${RESERVED_BATCHES} WHERE shelf_id = ? AND qty_remaining > 0 ORDER BY received_date ASC`,
     [shelfId]
   );
 }
@@ -69,35 +156,29 @@ export async function getCachedBatchesForShelf(shelfId: string): Promise<any[]>
 export async function getCachedBatchesForWarehouse(warehouseId: string): Promise<any[]> {
   const db = getDb();
   return db.getAllAsync<any>(
-    'SELECT * FROM batches WHERE warehouse_id = ? AND qty_remaining > 0 ORDER BY received_date ASC',
+    `SELECT * FROM ${RESERVED_BATCHES} WHERE warehouse_id = ? AND qty_remaining > 0 ORDER BY received_date ASC`,
     [warehouseId]
   );
 }
 
 export async function getCachedStockForShelf(shelfId: string): Promise<any[]> {
-  const db = getDb();
-  const rows = await db.getAllAsync<any>(
-    `SELECT b.item_id, SUM(b.qty_remaining) as qty_remaining,
-            i.name_en, i.name_ar, i.sku, i.unit_symbol, i.unit_name
-     FROM batches b
-     JOIN items i ON i.id = b.item_id
-     WHERE b.shelf_id = ? AND b.qty_remaining > 0
-     GROUP BY b.item_id`,
-    [shelfId]
-  );
-  return rows;
+  return getCachedStockAt({ shelfId });
 }
 
 export async function getCachedStockForWarehouse(warehouseId: string): Promise<any[]> {
+  return getCachedStockAt({ warehouseId });
+}
+
+async function getCachedStockAt(location: StockLocation): Promise<any[]> {
   const db = getDb();
+  const stock = stockAtSql(location);
   const rows = await db.getAllAsync<any>(
-    `SELECT b.item_id, SUM(b.qty_remaining) as qty_remaining,
+    `SELECT s.item_id, s.qty_remaining,
             i.name_en, i.name_ar, i.sku, i.unit_symbol, i.unit_name
-     FROM batches b
-     JOIN items i ON i.id = b.item_id
-     WHERE b.warehouse_id = ? AND b.qty_remaining > 0
-     GROUP BY b.item_id`,
-    [warehouseId]
+     FROM (${stock.sql}) s
+     JOIN items i ON i.id = s.item_id
+     WHERE s.qty_remaining > 0`,
+    stock.params
   );
   return rows;
 }
@@ -153,7 +234,7 @@ function rowToCategory(row: any) {
   };
 }
 
-function rowToDayCycle(row: any) {
+function rowToDayCycle(row: any): DayCycle {
   return {
     id: row.id,
     branchId: row.branch_id,
@@ -183,9 +264,11 @@ function rowToPolicy(row: any) {
 
 // ─── Offline-aware read helper ─────────────────────────────────────────────────
 
+/** `procedure` names the cache fallback in the network log. */
 export async function offlineRead<T>(
   remoteFn: () => Promise<T>,
-  cachedFn: () => Promise<T | null>
+  cachedFn: () => Promise<T | null>,
+  procedure = 'offlineRead'
 ): Promise<{ data: T; fromCache: boolean }> {
   if (connectivity.isOnline()) {
     try {
@@ -195,7 +278,9 @@ export async function offlineRead<T>(
       // Fall through to cache
     }
   }
+  const startedAt = Date.now();
   const cached = await cachedFn();
+  recordNetworkCall({ procedure, kind: 'query', source: 'cache', startedAt });
   return { data: cached as T, fromCache: true };
 }
 
@@ -225,16 +310,10 @@ async function validateOfflineInvoice(
     throw new Error('Cannot create invoice offline: no open day cycle found in cache. Open the day first while online.');
   }
 
-  // Check stock for each line (best-effort; server is authoritative on sync)
+  // Check stock for each line, less what queued sales hold (best-effort; server is authoritative on sync)
   if (userContext.shelfId && payload.lines?.length) {
-    const db = getDb();
     for (const line of payload.lines) {
-      const row = await db.getFirstAsync<{ total: number }>(
-        `SELECT COALESCE(SUM(qty_remaining), 0) as total
-         FROM batches WHERE item_id = ? AND shelf_id = ?`,
-        [line.itemId, userContext.shelfId]
-      );
-      const available = row?.total ?? 0;
+      const available = await getAvailableQty(line.itemId, { shelfId: userContext.shelfId });
       if (available < line.qty) {
         throw new Error(
           `Insufficient stock for item (need ${line.qty}, available ${available.toFixed(2)}). Sync to refresh stock.`
@@ -242,41 +321,129 @@ async function validateOfflineInvoice(
       }
     }
   }
+
+  // A credit sale has to fit the customer's limit, counting credit sales still queued
+  if (payload.paymentMethod === 'CREDIT' && payload.customerId) {
+    const customer = await getCustomerBalance(payload.customerId);
+    const totalUsd = payload.lines.reduce((sum: number, l: any) => sum + l.qty * l.unitPriceUsd, 0);
+    const totalSdg = totalUsd * dayCycle.exchangeRateUsdSdg;
+    if (customer && customer.balanceSdg + totalSdg > customer.creditLimitSdg) {
+      throw new Error(
+        `Credit limit exceeded (balance ${customer.balanceSdg.toFixed(2)}, limit ${customer.creditLimitSdg.toFixed(2)} SDG).`
+      );
+    }
+  }
 }
 
+/**
+ * `options.idempotencyKey` follows the invoice into the queue, so a save retried
+ * offline after an online attempt timed out is not applied twice.
+ */
 export async function offlineCreateInvoice(
   payload: Parameters<typeof api.sales.createInvoice>[0],
-  userContext: UserContext
+  userContext: UserContext,
+  options?: MutationOptions
 ): Promise<OfflineMutationResult> {
-  if (connectivity.isOnline()) {
-    const result = await api.sales.createInvoice(payload);
+  if (connectivity.isOnline() && !isLocalId(payload.customerId)) {
+    const result = await api.sales.createInvoice(payload, options);
     return { queued: false, result };
   }
 
   await validateOfflineInvoice(payload, userContext);
-  const { localRef, id } = await enqueueMutation(
+  const { localRef } = await enqueueMutation(
     'sales.invoices.create' as MutationType,
     payload,
-    userContext
+    userContext,
+    options?.idempotencyKey
   );
 
   return { queued: true, localRef, result: { invoiceNumber: localRef, _offline: true } };
 }
 
+type CheckoutInput = Parameters<typeof api.sales.dailyInvoiceDraft.checkout>[0];
+
+/** Checkout as the cashier fills it in: receipts are picked images, not yet uploaded. */
+export type DailyCheckoutDraft = Omit<CheckoutInput, 'receiptImageUrls'> & { receiptUris?: string[] };
+
+/**
+ * Checks out the shelf's local draft (lib/sync/dailyDraft.ts). Online the local
+ * lines are pushed to the server draft first, so what is invoiced is what the
+ * cashier sees. Offline, for a customer created offline, or while an earlier
+ * checkout is still queued, the lines are validated like an offline invoice
+ * and queued with the checkout.
+ */
+export async function offlineCheckoutDailyDraft(
+  draft: DailyCheckoutDraft,
+  userContext: UserContext,
+  options?: MutationOptions
+): Promise<OfflineMutationResult> {
+  const { receiptUris = [], ...input } = draft;
+  if (connectivity.isOnline() && !isLocalId(input.customerId) && !(await hasQueuedCheckout(input.shelfId))) {
+    await reconcileDailyDraft(input.shelfId);
+    const receiptImageUrls: string[] = [];
+    for (const uri of receiptUris) receiptImageUrls.push(await uploadReceipt(uri));
+    const result = await api.sales.dailyInvoiceDraft.checkout({ ...input, receiptImageUrls }, options);
+    await markDraftCheckedOut(input.shelfId);
+    return { queued: false, result };
+  }
+
+  parseInput('sales.dailyInvoiceDraft.checkout', salesInputs.checkoutDraft, { ...input, receiptImageUrls: receiptUris });
+  const { lines } = await getLocalDraft(input.shelfId);
+  if (lines.length === 0) throw new Error('The draft is empty');
+  await validateOfflineInvoice({ lines }, userContext);
+
+  const id = options?.idempotencyKey ?? createIdempotencyKey();
+  const { localRef } = await enqueueMutation(
+    'sales.dailyInvoiceDraft.checkout',
+    {
+      ...input,
+      lines: lines.map((line) => ({
+        itemId: line.itemId,
+        qty: line.qty,
+        unitPriceUsd: line.unitPriceUsd,
+        batchId: line.batchId ?? undefined,
+      })),
+      receiptUris: receiptUris.map((uri, i) => keepReceipt(uri, `${id}-${i}`)),
+    },
+    userContext,
+    id
+  );
+  await markDraftCheckedOut(input.shelfId);
+  return { queued: true, localRef, result: { invoiceNumber: localRef, _offline: true } };
+}
+
+/**
+ * Offline the void keeps what it puts back (`restock`: the invoice's lines and
+ * its unpaid credit), so the shelf's stock and the customer's balance show it
+ * before it is replayed.
+ */
 export async function offlineVoidInvoice(
-  id: string,
+  invoice: SalesInvoice,
   reason: string | undefined,
-  userContext: UserContext
+  userContext: UserContext,
+  options?: MutationOptions
 ): Promise<OfflineMutationResult> {
   if (connectivity.isOnline()) {
-    const result = await api.sales.voidInvoice(id, reason);
+    const result = await api.sales.voidInvoice(invoice.id, reason, options);
     return { queued: false, result };
   }
 
+  const shelfId = invoice.shelf?.id ?? userContext.shelfId;
+  const restock = shelfId
+    ? {
+        shelfId,
+        lines: (invoice.lines ?? [])
+          .filter((line) => line.itemId)
+          .map((line) => ({ itemId: line.itemId!, qty: Number(line.qty) })),
+        customerId: invoice.customer?.id,
+        creditSdg: invoice.status === 'ISSUED' ? Number(invoice.totalSdg) - Number(invoice.paidAmountSdg ?? 0) : 0,
+      }
+    : undefined;
   const { localRef } = await enqueueMutation(
     'sales.invoices.void' as MutationType,
-    { id, reason },
-    userContext
+    { id: invoice.id, reason, ...(restock && { restock }) },
+    userContext,
+    options?.idempotencyKey
   );
   return { queued: true, localRef };
 }
@@ -295,19 +462,24 @@ export async function offlineCreateGoodsRequest(
     throw new Error('Cannot create goods request offline: no open day cycle in cache.');
   }
 
+  // Lets a submit queued after it refer to the request before it has a server id
+  const localId = createLocalId();
   const { localRef } = await enqueueMutation(
     'sales.goodsRequests.create' as MutationType,
     payload,
-    userContext
+    userContext,
+    undefined,
+    localId
   );
-  return { queued: true, localRef };
+  return { queued: true, localRef, result: { id: localId, _offline: true } };
 }
 
 export async function offlineSubmitGoodsRequest(
   requestId: string,
   userContext: UserContext
 ): Promise<OfflineMutationResult> {
-  if (connectivity.isOnline()) {
+  // A request created offline has to wait for its create, even once back online
+  if (connectivity.isOnline() && !isLocalId(requestId)) {
     const result = await api.sales.goodsRequests.submit(requestId);
     return { queued: false, result };
   }
@@ -320,6 +492,170 @@ export async function offlineSubmitGoodsRequest(
   return { queued: true, localRef };
 }
 
+type IssueInput = Parameters<typeof api.sales.goodsRequests.issue>[0];
+
+/**
+ * Issues an approved request from a warehouse. Offline the issued lines are
+ * taken out of the warehouse's cached stock and shown on the request's shelf
+ * until the issue is replayed; the request's line items go along for that.
+ */
+export async function offlineIssueGoodsRequest(
+  input: IssueInput,
+  request: GoodsRequest,
+  userContext: UserContext,
+  options?: MutationOptions
+): Promise<OfflineMutationResult> {
+  if (connectivity.isOnline()) {
+    const result = await api.sales.goodsRequests.issue(input, options);
+    return { queued: false, result };
+  }
+
+  const dayCycle = await getCachedDayCycle(userContext.branchId);
+  if (!dayCycle) {
+    throw new Error('Cannot issue goods offline: no open day cycle in cache.');
+  }
+
+  const itemIds: Record<string, string> = {};
+  for (const line of request.lines) itemIds[line.id] = line.itemId ?? line.item.id;
+  for (const issue of input.lines) {
+    const itemId = itemIds[issue.lineId];
+    if (!itemId || !(issue.qtyIssued > 0)) continue;
+    const available = await getAvailableQty(itemId, { warehouseId: input.warehouseId });
+    if (available < issue.qtyIssued) {
+      throw new Error(
+        `Insufficient stock in warehouse (need ${issue.qtyIssued}, available ${available.toFixed(2)}). Sync to refresh stock.`
+      );
+    }
+  }
+
+  const { localRef } = await enqueueMutation(
+    'sales.goodsRequests.issue',
+    { ...input, shelfId: request.shelf?.id ?? request.shelfId, itemIds },
+    userContext,
+    options?.idempotencyKey
+  );
+  return { queued: true, localRef };
+}
+
+// ─── Expenses, bank payments and customers ─────────────────────────────────────
+
+type ExpenseInput = Parameters<typeof api.accounting.expenses.create>[0];
+type BankPaymentInput = Parameters<typeof api.accounting.bankPayments.submit>[0];
+type CustomerInput = Parameters<typeof api.sales.customers.create>[0];
+
+/** Expense as the form fills it in: the receipt is a picked image, not yet uploaded. */
+export type ExpenseDraft = Omit<ExpenseInput, 'receiptImageUrl'> & { receiptUri?: string };
+
+export type BankPaymentDraft = Omit<BankPaymentInput, 'receiptImageUrl' | 'receiptImageUrls'> & { receiptUri: string };
+
+/**
+ * Online the receipt is uploaded and the expense created at once. Offline the
+ * expense is checked against the input schema and the cached categories, and
+ * queued with a copy of the receipt that is uploaded on replay.
+ */
+export async function offlineCreateExpense(
+  draft: ExpenseDraft,
+  userContext: UserContext,
+  options?: MutationOptions
+): Promise<OfflineMutationResult> {
+  const { receiptUri, ...input } = draft;
+  if (connectivity.isOnline()) {
+    const receiptImageUrl = receiptUri ? await uploadReceipt(receiptUri) : undefined;
+    const result = await api.accounting.expenses.create({ ...input, receiptImageUrl }, options);
+    return { queued: false, result };
+  }
+
+  parseInput('accounting.expenses.create', accountingInputs.createExpense, input);
+  const categories = await getCachedExpenseCategories();
+  if (!categories.some((c) => c.id === input.categoryId)) {
+    throw new Error('Cannot record expense offline: its category is not in the cache. Sync while online first.');
+  }
+
+  const id = options?.idempotencyKey ?? createIdempotencyKey();
+  const payload = receiptUri ? { ...input, receiptUri: keepReceipt(receiptUri, id) } : input;
+  const { localRef } = await enqueueMutation('accounting.expenses.create', payload, userContext, id);
+  return { queued: true, localRef };
+}
+
+/** Same flow as `offlineCreateExpense`; a bank payment always carries a receipt. */
+export async function offlineSubmitBankPayment(
+  draft: BankPaymentDraft,
+  userContext: UserContext,
+  options?: MutationOptions
+): Promise<OfflineMutationResult> {
+  const { receiptUri, ...input } = draft;
+  if (connectivity.isOnline()) {
+    const receiptImageUrl = await uploadReceipt(receiptUri);
+    const result = await api.accounting.bankPayments.submit({ ...input, receiptImageUrl }, options);
+    return { queued: false, result };
+  }
+
+  parseInput('accounting.bankPayments.submit', accountingInputs.submitBankPayment, {
+    ...input,
+    receiptImageUrl: receiptUri,
+  });
+  const accounts = await getCachedBankAccounts();
+  if (!accounts.some((a) => a.id === input.bankAccountId)) {
+    throw new Error('Cannot submit bank payment offline: the bank account is not in the cache. Sync while online first.');
+  }
+
+  const id = options?.idempotencyKey ?? createIdempotencyKey();
+  const { localRef } = await enqueueMutation(
+    'accounting.bankPayments.submit',
+    { ...input, receiptUri: keepReceipt(receiptUri, id) },
+    userContext,
+    id
+  );
+  return { queued: true, localRef };
+}
+
+/**
+ * Offline the customer is cached under a local id right away, so it can be
+ * picked on an offline invoice; replaying the create swaps in the server id.
+ */
+export async function offlineCreateCustomer(
+  input: CustomerInput,
+  userContext: UserContext,
+  options?: MutationOptions
+): Promise<OfflineMutationResult> {
+  if (connectivity.isOnline()) {
+    const result = await api.sales.customers.create(input, options);
+    return { queued: false, result };
+  }
+
+  const customer = parseInput('sales.customers.create', salesInputs.createCustomer, input);
+  const db = getDb();
+  if (customer.phone) {
+    const existing = await db.getFirstAsync('SELECT id FROM customers WHERE phone = ?', [customer.phone]);
+    if (existing) throw new Error('A customer with this phone number already exists');
+  }
+
+  const localId = createLocalId();
+  const { localRef } = await enqueueMutation(
+    'sales.customers.create',
+    input,
+    userContext,
+    options?.idempotencyKey,
+    localId
+  );
+  await db.runAsync(
+    `INSERT INTO customers
+       (id, name, name_ar, phone, email, customer_type, is_active, credit_limit_sdg, balance_sdg)
+     VALUES (?, ?, ?, ?, ?, ?, 1, ?, 0)`,
+    [
+      localId,
+      customer.name,
+      customer.nameAr ?? null,
+      customer.phone ?? null,
+      customer.email ?? null,
+      customer.customerType,
+      customer.creditLimitSdg ?? null,
+    ]
+  );
+  await reindexSearch(db, 'customers', localId);
+  return { queued: true, localRef, result: { id: localId, _offline: true } };
+}
+
 // Convenience: is there any pending offline work?
 export function hasPendingWork(): boolean {
   return useSyncStore.getState().pendingMutations > 0;
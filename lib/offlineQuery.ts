@@ -0,0 +1,92 @@
+/**
+ * React Query over the offline cache. A query declares how to fetch online and
+ * how to read the cached rows (and map them to the model the API returns);
+ * `offlineRead` decides which one answers, and the result says which did and
+ * how old the cached copy is.
+ *
+ * Each query names the offline tables its cached read uses. When the sync
+ * refreshes one of them, the queries on it are invalidated, so a screen shows
+ * the new rows without reloading itself.
+ */
+import { useQuery, type QueryKey } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { getCacheMeta } from '@/lib/db/database';
+import { offlineRead } from '@/lib/offlineApi';
+
+export interface OfflineQueryOptions<TData, TRow> {
+  queryKey: QueryKey;
+  /** The online read; honour `signal` so a query dropped mid-request is cancelled. */
+  remote: (signal: AbortSignal) => Promise<TData>;
+  /** The cached read; `null` when nothing is cached. */
+  local: () => Promise<TRow | null>;
+  /** Maps cached rows (snake_case columns) to the model `remote` returns. Omit when `local` already does. */
+  fromLocal?: (rows: TRow) => TData;
+  /** Offline tables `local` reads, named as in the sync manager's `STALE_THRESHOLDS`. */
+  tables: string[];
+  enabled?: boolean;
+}
+
+interface OfflineQueryResult<TData> {
+  data: TData | null;
+  fromCache: boolean;
+  /** When the oldest of the query's tables was last refreshed; `null` for an online answer. */
+  staleSince: number | null;
+}
+
+export function useOfflineQuery<TData, TRow = TData>(options: OfflineQueryOptions<TData, TRow>) {
+  const { queryKey, remote, local, fromLocal, tables, enabled } = options;
+
+  const query = useQuery({
+    queryKey,
+    enabled,
+    // The query function falls back to the cache itself, so it also runs while offline
+    networkMode: 'always',
+    meta: { tables },
+    queryFn: async ({ signal }): Promise<OfflineQueryResult<TData>> => {
+      const { data, fromCache } = await offlineRead(
+        () => remote(signal),
+        async () => {
+          const rows = await local();
+          if (rows === null || rows === undefined) return null;
+          return fromLocal ? fromLocal(rows) : (rows as unknown as TData);
+        },
+        `cache:${tables.join(',')}`
+      );
+      return { data: data ?? null, fromCache, staleSince: fromCache ? await oldestSync(tables) : null };
+    },
+  });
+
+  return {
+    data: query.data?.data ?? undefined,
+    fromCache: query.data?.fromCache ?? false,
+    staleSince: query.data?.staleSince ?? null,
+    isLoading: query.isLoading,
+    isRefetching: query.isRefetching,
+    error: query.error,
+    refetch: query.refetch,
+  };
+}
+
+async function oldestSync(tables: string[]): Promise<number | null> {
+  const synced = await Promise.all(tables.map((table) => getCacheMeta(table)));
+  const oldest = Math.min(...synced);
+  return oldest > 0 && Number.isFinite(oldest) ? oldest : null;
+}
+
+/** Invalidates the queries reading any of `tables`; the ones on screen refetch right away. */
+export function invalidateCachedTables(tables: string[]): Promise<void> {
+  return queryClient.invalidateQueries({
+    predicate: (query) => {
+      const read = query.meta?.tables;
+      return Array.isArray(read) && read.some((table) => tables.includes(table));
+    },
+  });
+}
+
+/** Invalidates the queries last answered from the cache, e.g. once the device is back online. */
+export function invalidateCachedAnswers(): Promise<void> {
+  return queryClient.invalidateQueries({
+    predicate: (query) =>
+      Array.isArray(query.meta?.tables) && (query.state.data as OfflineQueryResult<unknown> | undefined)?.fromCache === true,
+  });
+}
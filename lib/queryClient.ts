@@ -1,10 +1,18 @@
 import { QueryClient } from '@tanstack/react-query';
+import { ApiError } from '@/lib/apiError';
+
+/** How long answers are kept, in memory and on disk (see `lib/queryPersistence.ts`). */
+export const QUERY_CACHE_MAX_AGE = 1000 * 60 * 60 * 24;
 
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 1000 * 60 * 5,
-      retry: 1,
+      // Unused answers stay as long as the stored copy may, so storing the cache does not lose them
+      gcTime: QUERY_CACHE_MAX_AGE,
+      // Only failures the server may answer differently next time are retried
+      retry: (failureCount, error) =>
+        failureCount < 1 && (!(error instanceof ApiError) || error.retryable),
     },
   },
 });
@@ -0,0 +1,96 @@
+/**
+ * Keeps the React Query cache on disk, so a cold start shows the last answers
+ * right away while the screens refetch. The cache is stored per user in the
+ * offline database (encrypted with it, and scoped to the server profile) and
+ * written a moment after it changes.
+ *
+ * A stored cache is dropped when it is older than `QUERY_CACHE_MAX_AGE` or was
+ * written by another build: bump `QUERY_CACHE_VERSION` when the shape of
+ * cached data changes within one app version.
+ */
+import Constants from 'expo-constants';
+import { dehydrate, hydrate } from '@tanstack/react-query';
+import { getDb } from '@/lib/db/database';
+import { queryClient, QUERY_CACHE_MAX_AGE } from '@/lib/queryClient';
+
+const QUERY_CACHE_VERSION = 1;
+const SAVE_DELAY_MS = 1000;
+
+const buster = `${QUERY_CACHE_VERSION}:${Constants.expoConfig?.version ?? ''}`;
+
+let persistedUserId: string | null = null;
+let unsubscribe: (() => void) | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Restores the user's stored cache into the query client, then keeps storing
+ * it as it changes. Call once the user is known and before the screens render.
+ */
+export async function startQueryPersistence(userId: string): Promise<void> {
+  stopQueryPersistence();
+  try {
+    await restore(userId);
+  } catch (error) {
+    console.warn('Failed to restore the query cache:', error);
+  }
+
+  persistedUserId = userId;
+  unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+    // Observers coming and going do not change what is worth storing
+    if (event.type === 'observerAdded' || event.type === 'observerRemoved' || event.type === 'observerResultsUpdated') return;
+    scheduleSave();
+  });
+}
+
+export function stopQueryPersistence(): void {
+  unsubscribe?.();
+  unsubscribe = null;
+  persistedUserId = null;
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = null;
+}
+
+/** Empties the query client and deletes the stored copy of the user's cache. */
+export async function clearQueryCache(): Promise<void> {
+  const userId = persistedUserId;
+  stopQueryPersistence();
+  queryClient.clear();
+  if (userId) await getDb().runAsync('DELETE FROM query_cache WHERE user_id = ?', [userId]);
+}
+
+async function restore(userId: string): Promise<void> {
+  const db = getDb();
+  const row = await db.getFirstAsync<{ buster: string; saved_at: number; state: string }>(
+    'SELECT buster, saved_at, state FROM query_cache WHERE user_id = ?',
+    [userId]
+  );
+  if (!row) return;
+  if (row.buster !== buster || Date.now() - row.saved_at > QUERY_CACHE_MAX_AGE) {
+    await db.runAsync('DELETE FROM query_cache WHERE user_id = ?', [userId]);
+    return;
+  }
+  hydrate(queryClient, JSON.parse(row.state));
+}
+
+function scheduleSave(): void {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    save().catch((error) => console.warn('Failed to store the query cache:', error));
+  }, SAVE_DELAY_MS);
+}
+
+async function save(): Promise<void> {
+  const userId = persistedUserId;
+  if (!userId) return;
+  const state = dehydrate(queryClient, {
+    // Answers only; a query can opt out with `meta: { persist: false }`
+    shouldDehydrateQuery: (query) => query.state.status === 'success' && query.meta?.persist !== false,
+  });
+  await getDb().runAsync(
+    `INSERT INTO query_cache (user_id, buster, saved_at, state) VALUES (?, ?, ?, ?)
+     ON CONFLICT(user_id) DO UPDATE SET
+       buster = excluded.buster, saved_at = excluded.saved_at, state = excluded.state`,
+    [userId, buster, Date.now(), JSON.stringify(state)]
+  );
+}
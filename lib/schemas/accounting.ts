@@ -0,0 +1,418 @@
+import { z } from 'zod';
+import {
+  ack,
+  dateString,
+  decimal,
+  decimalOrZero,
+  entity,
+  list,
+  maybe,
+  model,
+  namedRef,
+  optionalDecimal,
+  paginated,
+} from '@/lib/schemas/common';
+import { purchaseOrderLine } from '@/lib/schemas/procurement';
+
+// ─── Accounts & transactions ─────────────────────────────────────────────────
+
+export const account = model({
+  id: z.string(),
+  code: maybe(z.string()),
+  nameEn: z.string(),
+  nameAr: maybe(z.string()),
+  accountType: z.string(),
+  balanceSdg: optionalDecimal,
+});
+export type Account = z.infer<typeof account>;
+
+const accountRef = model({
+  nameEn: z.string(),
+  nameAr: maybe(z.string()),
+  code: maybe(z.string()),
+});
+
+export const transactionType = z.enum([
+  'CASH_IN',
+  'CASH_OUT',
+  'BANK_IN',
+  'BANK_OUT',
+  'TRANSFER',
+  'ADJUSTMENT',
+]);
+
+export const transaction = model({
+  id: z.string(),
+  transactionType: transactionType,
+  amountSdg: decimal,
+  description: z.string(),
+  referenceNumber: maybe(z.string()),
+  createdAt: dateString,
+  fromAccount: maybe(accountRef),
+  toAccount: maybe(accountRef),
+  receiptImages: maybe(z.array(z.string())),
+});
+export type Transaction = z.infer<typeof transaction>;
+
+// ─── Expenses ────────────────────────────────────────────────────────────────
+
+export const expenseCategory = model({
+  id: z.string(),
+  name: z.string(),
+  nameAr: maybe(z.string()),
+  icon: maybe(z.string()),
+  color: maybe(z.string()),
+  isActive: z.boolean().default(true),
+});
+export type ExpenseCategory = z.infer<typeof expenseCategory>;
+
+export const expenseStatus = z.enum(['PENDING', 'APPROVED', 'REJECTED']);
+
+export const expense = model({
+  id: z.string(),
+  description: z.string(),
+  amountSdg: decimal,
+  status: expenseStatus,
+  createdAt: dateString,
+  paymentMethod: maybe(z.string()),
+  receiptImageUrl: maybe(z.string()),
+  category: maybe(expenseCategory),
+});
+export type Expense = z.infer<typeof expense>;
+
+// ─── Supplier invoices ───────────────────────────────────────────────────────
+
+export const supplierInvoice = model({
+  id: z.string(),
+  invoiceNumber: z.string(),
+  status: z.string(),
+  invoiceDate: dateString,
+  dueDate: dateString,
+  createdAt: maybe(dateString),
+  confirmedDate: maybe(dateString),
+  paidDate: maybe(dateString),
+  totalSdg: decimalOrZero,
+  paidSdg: optionalDecimal,
+  paidAmountSdg: decimalOrZero,
+  remainingSdg: optionalDecimal,
+  isConsignment: z.boolean().optional(),
+  paymentMethod: maybe(z.string()),
+  transactionNumber: maybe(z.string()),
+  receiptImageUrl: maybe(z.string()),
+  receiptImageUrls: maybe(z.array(z.string())),
+  notes: maybe(z.string()),
+  supplier: model({
+    id: z.string(),
+    name: z.string(),
+    nameAr: maybe(z.string()),
+    isConsignor: z.boolean().default(false),
+  }),
+  purchaseOrder: maybe(
+    model({
+      id: z.string(),
+      poNumber: z.string(),
+      status: z.string(),
+      lines: z.array(purchaseOrderLine).default([]),
+    })
+  ),
+});
+export type SupplierInvoice = z.infer<typeof supplierInvoice>;
+
+const invoiceRef = model({
+  invoiceNumber: maybe(z.string()),
+  supplier: maybe(namedRef),
+});
+
+export const paymentScheduleStatus = z.enum(['PENDING', 'PAID', 'OVERDUE', 'CANCELLED']);
+
+export const paymentSchedule = model({
+  id: z.string(),
+  invoiceId: z.string().optional(),
+  amountSdg: decimal,
+  dueDate: dateString,
+  status: paymentScheduleStatus,
+  notes: maybe(z.string()),
+  invoice: maybe(invoiceRef),
+});
+export type PaymentSchedule = z.infer<typeof paymentSchedule>;
+
+export const bankNotice = model({
+  id: z.string(),
+  invoiceId: z.string(),
+  operationNumber: maybe(z.string()),
+  bankReference: maybe(z.string()),
+  amountSdg: decimal,
+  isMatched: z.boolean().default(false),
+  createdAt: dateString,
+  invoice: maybe(invoiceRef),
+});
+export type BankNotice = z.infer<typeof bankNotice>;
+
+// ─── Bank accounts & payments ────────────────────────────────────────────────
+
+export const bankAccount = model({
+  id: z.string(),
+  bankName: z.string(),
+  bankNameAr: maybe(z.string()),
+  accountNumber: z.string(),
+  iban: maybe(z.string()),
+  isActive: z.boolean().default(true),
+});
+export type BankAccount = z.infer<typeof bankAccount>;
+
+export const bankPaymentStatus = z.enum(['PENDING', 'APPROVED', 'REJECTED']);
+
+export const bankPayment = model({
+  id: z.string(),
+  amountSdg: decimal,
+  receiptImageUrl: z.string(),
+  receiptImageUrls: maybe(z.array(z.string())),
+  transactionNumber: maybe(z.string()),
+  description: maybe(z.string()),
+  status: bankPaymentStatus,
+  createdAt: dateString,
+  user: model({ id: z.string(), name: z.string(), email: z.string() }),
+  bankAccount: model({ id: z.string(), bankName: z.string(), accountNumber: z.string() }),
+});
+export type BankPayment = z.infer<typeof bankPayment>;
+
+// ─── Reports ─────────────────────────────────────────────────────────────────
+
+export const dashboardReport = model({
+  todaySales: optionalDecimal,
+  todayExpenses: optionalDecimal,
+});
+export type DashboardReport = z.infer<typeof dashboardReport>;
+
+const accountBalance = model({
+  balanceSdg: decimal,
+  account: maybe(model({ id: z.string() })),
+});
+
+export const liquidAssetsReport = model({
+  accounts: z.array(account).default([]),
+  inventoryValue: maybe(model({ valueSdg: decimal })),
+  cash: maybe(accountBalance),
+  bankOfKhartoum: maybe(accountBalance),
+  dailyStats: maybe(model({ income: optionalDecimal, expenses: optionalDecimal })),
+});
+export type LiquidAssetsReport = z.infer<typeof liquidAssetsReport>;
+
+export const outstandingInvoice = model({
+  id: z.string(),
+  invoiceNumber: z.string(),
+  status: maybe(z.string()),
+  totalSdg: optionalDecimal,
+  amountSdg: optionalDecimal,
+  paidAmountSdg: optionalDecimal,
+  invoiceDate: maybe(dateString),
+  createdAt: maybe(dateString),
+  dueDate: maybe(dateString),
+  customer: maybe(namedRef),
+  supplier: maybe(namedRef),
+});
+export type OutstandingInvoice = z.infer<typeof outstandingInvoice>;
+
+const outstandingSummary = model({
+  invoices: z.array(outstandingInvoice).default([]),
+  totalReceivables: optionalDecimal,
+  totalPayables: optionalDecimal,
+  totalOutstanding: optionalDecimal,
+});
+
+/** Outstanding receivables/payables; older servers answer with a bare list. */
+export const outstandingReport = z.union([
+  outstandingSummary,
+  z
+    .array(outstandingInvoice)
+    .transform((invoices): z.output<typeof outstandingSummary> => ({ invoices })),
+]);
+export type OutstandingReport = z.infer<typeof outstandingReport>;
+
+export const userSalesData = model({
+  user: model({ id: z.string(), name: z.string(), nameAr: maybe(z.string()), email: z.string() }),
+  totalSalesUsd: decimalOrZero,
+  totalSalesSdg: decimalOrZero,
+  totalCOGS: decimalOrZero,
+  grossProfit: decimalOrZero,
+  invoiceCount: z.number().default(0),
+  itemsSold: decimalOrZero,
+});
+export type UserSalesData = z.infer<typeof userSalesData>;
+
+export const userSalesProfitReport = model({
+  users: z.array(userSalesData).default([]),
+  summary: model({
+    totalRevenue: decimalOrZero,
+    totalCOGS: decimalOrZero,
+    totalProfit: decimalOrZero,
+    profitMargin: decimalOrZero,
+  }).default({}),
+});
+export type UserSalesProfitReport = z.infer<typeof userSalesProfitReport>;
+
+// Balance sheet payloads are rendered field-by-field by their screen
+export const report = model({});
+
+// ─── Budget ──────────────────────────────────────────────────────────────────
+
+export const budgetLine = model({
+  categoryId: maybe(z.string()),
+  categoryName: maybe(z.string()),
+  categoryNameAr: maybe(z.string()),
+  allocatedSdg: decimalOrZero,
+  spentSdg: decimalOrZero,
+});
+
+export const budget = model({
+  items: z.array(budgetLine).default([]),
+});
+export type Budget = z.infer<typeof budget>;
+
+export const budgetPeriod = model({
+  period: z.string(),
+  monthName: z.string(),
+  monthNameAr: z.string(),
+  totalSdg: decimalOrZero,
+});
+export type BudgetPeriod = z.infer<typeof budgetPeriod>;
+
+// ─── Procedure schemas ───────────────────────────────────────────────────────
+
+export const accountingSchemas = {
+  accounts: {
+    list: list(account),
+  },
+  transactions: {
+    list: paginated(transaction),
+    create: entity,
+  },
+  expenses: {
+    list: paginated(expense),
+    create: entity,
+    approve: ack,
+    categories: {
+      list: list(expenseCategory),
+      create: expenseCategory,
+      update: expenseCategory,
+    },
+  },
+  reports: {
+    dashboard: dashboardReport,
+    liquidAssets: liquidAssetsReport,
+    outstandingPayables: outstandingReport,
+    outstandingReceivables: outstandingReport,
+    balanceSheet: report,
+    userSalesProfit: userSalesProfitReport,
+  },
+  budget: {
+    list: budget,
+    getPreviousPeriods: list(budgetPeriod),
+  },
+  paymentSchedules: {
+    list: paginated(paymentSchedule),
+    create: entity,
+    markPaid: ack,
+  },
+  bankNotices: {
+    list: paginated(bankNotice),
+    create: entity,
+    match: ack,
+  },
+  supplierInvoices: {
+    list: paginated(supplierInvoice),
+    listDeferred: paginated(supplierInvoice),
+    listIssued: paginated(supplierInvoice),
+    listConsignment: paginated(supplierInvoice),
+    getById: supplierInvoice,
+    updateStatus: ack,
+    payInvoice: ack,
+    markOutstanding: ack,
+  },
+  bankAccounts: {
+    list: list(bankAccount),
+    create: bankAccount,
+    update: bankAccount,
+    delete: ack,
+  },
+  bankPayments: {
+    list: paginated(bankPayment),
+    submit: entity,
+    updateStatus: ack,
+  },
+};
+
+// ─── Mutation inputs ─────────────────────────────────────────────────────────
+
+export const accountingInputs = {
+  createTransaction: z.object({
+    transactionType: transactionType,
+    amountSdg: z.number().positive(),
+    fromAccountId: z.string().optional(),
+    toAccountId: z.string().optional(),
+    description: z.string().min(1),
+    referenceNumber: z.string().optional(),
+    receiptImages: z.array(z.string()).optional(),
+  }),
+  createExpense: z.object({
+    categoryId: z.string(),
+    amountSdg: z.number().positive(),
+    description: z.string().min(1),
+    paymentMethod: z.enum(['CASH', 'BANK_TRANSFER']).optional(),
+    receiptImageUrl: z.string().optional(),
+  }),
+  createExpenseCategory: z.object({
+    name: z.string().min(1),
+    nameAr: z.string().min(1),
+  }),
+  updateExpenseCategory: z.object({
+    id: z.string(),
+    name: z.string().optional(),
+    nameAr: z.string().optional(),
+    isActive: z.boolean().optional(),
+  }),
+  createPaymentSchedule: z.object({
+    invoiceId: z.string(),
+    amountSdg: z.number().positive(),
+    dueDate: z.string(),
+    notes: z.string().optional(),
+  }),
+  createBankNotice: z.object({
+    invoiceId: z.string(),
+    operationNumber: z.string().min(1),
+    bankReference: z.string().optional(),
+    amountSdg: z.number().positive(),
+    fileUrl: z.string().optional(),
+  }),
+  payInvoice: z.object({
+    id: z.string(),
+    paymentMethod: z.enum(['CASH', 'BANK_TRANSFER']),
+    transactionNumber: z.string().optional(),
+    receiptImageUrl: z.string().optional(),
+    receiptImageUrls: z.array(z.string()).optional(),
+    paidAmountSdg: z.number().positive().optional(),
+  }),
+  createBankAccount: z.object({
+    bankName: z.string().min(1),
+    bankNameAr: z.string().optional(),
+    accountNumber: z.string().min(1),
+    iban: z.string().optional(),
+  }),
+  updateBankAccount: z.object({
+    id: z.string(),
+    bankName: z.string().optional(),
+    bankNameAr: z.string().optional(),
+    accountNumber: z.string().optional(),
+    iban: z.string().optional(),
+    isActive: z.boolean().optional(),
+  }),
+  submitBankPayment: z.object({
+    bankAccountId: z.string(),
+    amountSdg: z.number().positive(),
+    transactionId: z.string().optional(),
+    transactionNumber: z.string().optional(),
+    receiptImageUrl: z.string().min(1),
+    receiptImageUrls: z.array(z.string()).optional(),
+    description: z.string().optional(),
+  }),
+};
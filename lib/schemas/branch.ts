@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { list, maybe, model } from '@/lib/schemas/common';
+
+export const branch = model({
+  id: z.string(),
+  name: z.string(),
+  nameAr: z.string(),
+  code: maybe(z.string()),
+  isActive: z.boolean().optional(),
+});
+export type Branch = z.infer<typeof branch>;
+
+export const branchSchemas = {
+  list: list(branch),
+  getById: branch,
+};
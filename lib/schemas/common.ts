@@ -0,0 +1,136 @@
+import { z } from 'zod';
+import { ApiError } from '@/lib/apiError';
+
+/**
+ * Shared building blocks for the tRPC response schemas.
+ *
+ * Only the fields the app relies on are declared and checked; anything else the
+ * server sends is kept as-is but typed `unknown`, so a field a screen reads has to
+ * be declared here first.
+ */
+export function model<T extends z.ZodRawShape>(shape: T) {
+  return z.object(shape).passthrough();
+}
+
+// Prisma Decimal columns arrive as strings through superjson; normalise to numbers
+export const decimal = z.union([z.number(), z.string()]).transform((v) => {
+  const n = Number(v);
+  return isNaN(n) ? 0 : n;
+});
+
+/**
+ * Nullable columns come back as `null`; screens model them as optional fields, so
+ * both `null` and a missing key are normalised to `undefined`.
+ */
+export function maybe<T extends z.ZodTypeAny>(schema: T) {
+  return schema.nullish().transform((v): z.output<T> | undefined => v ?? undefined);
+}
+
+export const optionalDecimal = maybe(decimal);
+
+// Amounts the screens treat as zero until the server fills them in
+export const decimalOrZero = decimal.nullish().transform((v) => v ?? 0);
+
+// Dates are serialised as ISO strings
+export const dateString = z.string();
+
+export const entity = model({ id: z.string() });
+export type Entity = z.infer<typeof entity>;
+
+// Mutations whose result the app never reads
+export const ack = z.unknown();
+
+export const namedRef = model({
+  id: z.string().optional(),
+  name: z.string(),
+  nameAr: maybe(z.string()),
+});
+
+export interface Paginated<T> {
+  data: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+/**
+ * A paginated list (`{ data, total, page, pageSize, totalPages }`). Older endpoints
+ * still return a bare array, which is normalised into a single page.
+ */
+export function paginated<T extends z.ZodTypeAny>(item: T) {
+  const page = model({
+    data: z.array(item),
+    total: z.number().optional(),
+    page: z.number().optional(),
+    pageSize: z.number().optional(),
+    totalPages: z.number().optional(),
+  }).transform((r): Paginated<z.output<T>> => ({
+    data: r.data,
+    total: r.total ?? r.data.length,
+    page: r.page ?? 1,
+    pageSize: r.pageSize ?? r.data.length,
+    totalPages: r.totalPages ?? 1,
+  }));
+  const bare = z.array(item).transform((data): Paginated<z.output<T>> => ({
+    data,
+    total: data.length,
+    page: 1,
+    pageSize: data.length,
+    totalPages: 1,
+  }));
+  return z.union([page, bare]);
+}
+
+/**
+ * An unpaginated list. Accepts either a bare array or a `{ data }` envelope and
+ * always yields the array.
+ */
+export function list<T extends z.ZodTypeAny>(item: T) {
+  return z.union([
+    z.array(item),
+    z.object({ data: z.array(item) }).transform((r): z.output<T>[] => r.data),
+  ]);
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+/**
+ * Parses a response payload; a payload that does not match the schema declared
+ * for the procedure is an `INVALID_RESPONSE` error.
+ */
+export function parseResponse<T extends z.ZodTypeAny>(
+  endpoint: string,
+  schema: T,
+  raw: unknown
+): z.output<T> {
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    const detail = parsed.error.issues
+      .slice(0, 3)
+      .map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`)
+      .join('; ');
+    throw new ApiError(`Unexpected response from ${endpoint}: ${detail}`, {
+      code: 'INVALID_RESPONSE',
+      endpoint,
+      retryable: false,
+    });
+  }
+  return parsed.data;
+}
+
+/**
+ * Checks a mutation payload before it is sent; failures carry the offending
+ * fields in `fieldErrors`.
+ */
+export function parseInput<T extends z.ZodTypeAny>(
+  endpoint: string,
+  schema: T,
+  data: unknown
+): z.output<T> {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    throw ApiError.fromZodIssues(endpoint, parsed.error.issues);
+  }
+  return parsed.data;
+}
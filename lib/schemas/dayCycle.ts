@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { dateString, decimal, maybe, model, paginated } from '@/lib/schemas/common';
+
+export const dayCycle = model({
+  id: z.string(),
+  branchId: z.string(),
+  cycleDate: dateString,
+  exchangeRateUsdSdg: decimal,
+  status: z.string(),
+  openedAt: maybe(dateString),
+  closedAt: maybe(dateString),
+});
+export type DayCycle = z.infer<typeof dayCycle>;
+
+export const dayCycleSchemas = {
+  getCurrent: dayCycle.nullish(),
+  list: paginated(dayCycle),
+  open: dayCycle,
+  close: dayCycle,
+  reopen: dayCycle,
+  updateExchangeRate: dayCycle,
+};
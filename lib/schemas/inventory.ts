@@ -0,0 +1,267 @@
+import { z } from 'zod';
+import {
+  ack,
+  dateString,
+  decimal,
+  list,
+  maybe,
+  model,
+  namedRef,
+  optionalDecimal,
+  paginated,
+} from '@/lib/schemas/common';
+
+// ─── Reference data ──────────────────────────────────────────────────────────
+
+export const category = model({
+  id: z.string(),
+  name: z.string(),
+  nameAr: z.string(),
+  parentId: maybe(z.string()),
+  isActive: z.boolean().default(true),
+  _count: maybe(model({ items: z.number() })),
+});
+export type Category = z.infer<typeof category>;
+
+export const unit = model({
+  id: z.string(),
+  name: z.string(),
+  nameAr: z.string(),
+  symbol: z.string(),
+});
+export type Unit = z.infer<typeof unit>;
+
+export const unitConversion = model({
+  id: z.string(),
+  fromUnitId: z.string(),
+  toUnitId: z.string(),
+  factor: decimal,
+  fromUnit: maybe(unit),
+  toUnit: maybe(unit),
+});
+export type UnitConversion = z.infer<typeof unitConversion>;
+
+export const warehouse = model({
+  id: z.string(),
+  name: z.string(),
+  nameAr: z.string(),
+  code: z.string(),
+  branchId: maybe(z.string()),
+});
+export type Warehouse = z.infer<typeof warehouse>;
+
+export const shelf = model({
+  id: z.string(),
+  name: z.string(),
+  nameAr: z.string(),
+  code: z.string(),
+  branchId: maybe(z.string()),
+  userId: maybe(z.string()),
+});
+export type Shelf = z.infer<typeof shelf>;
+
+// ─── Items ───────────────────────────────────────────────────────────────────
+
+export const item = model({
+  id: z.string(),
+  sku: z.string(),
+  nameEn: z.string(),
+  nameAr: z.string(),
+  // Stock rows from older servers carry a single name
+  name: maybe(z.string()),
+  description: maybe(z.string()),
+  categoryId: maybe(z.string()),
+  unitId: maybe(z.string()),
+  isActive: z.boolean().optional(),
+  isConsignment: z.boolean().optional(),
+  minStockLevel: optionalDecimal,
+  maxStockLevel: optionalDecimal,
+  unit: maybe(unit.partial()),
+  category: maybe(category.partial()),
+});
+export type Item = z.infer<typeof item>;
+
+/** Item joined with its best-matching price policy, built by `itemsWithPrices`. */
+export interface ItemWithPrice {
+  id: string;
+  name: string;
+  nameAr: string;
+  sku: string;
+  wholesalePrice: number;
+  retailPrice: number;
+  unit: string | undefined;
+}
+
+export const pricePolicy = model({
+  id: z.string(),
+  itemId: z.string(),
+  branchId: z.string(),
+  warehouseId: maybe(z.string()),
+  shelfId: maybe(z.string()),
+  wholesalePriceUsd: decimal,
+  retailPriceUsd: decimal,
+  priceRangeMinUsd: decimal,
+  priceRangeMaxUsd: decimal,
+  effectiveFrom: dateString,
+  effectiveTo: maybe(dateString),
+});
+export type PricePolicy = z.infer<typeof pricePolicy>;
+
+// ─── Stock ───────────────────────────────────────────────────────────────────
+
+export const stockItem = model({
+  itemId: z.string().optional(),
+  totalQty: decimal.optional(),
+  item: item.partial().extend({ id: z.string() }),
+});
+export type StockItem = z.infer<typeof stockItem>;
+
+export const batch = model({
+  id: z.string(),
+  itemId: z.string(),
+  batchNumber: maybe(z.string()),
+  warehouseId: maybe(z.string()),
+  shelfId: maybe(z.string()),
+  qtyRemaining: decimal,
+  unitCostUsd: decimal.optional(),
+  receivedDate: dateString,
+  expiryDate: maybe(dateString),
+  isConsignment: z.boolean().optional(),
+  warehouse: maybe(namedRef),
+  shelf: maybe(namedRef),
+});
+export type Batch = z.infer<typeof batch>;
+
+export const stockMovement = model({
+  id: z.string(),
+  movementType: z.string(),
+  qty: decimal,
+  createdAt: dateString,
+});
+export type StockMovement = z.infer<typeof stockMovement>;
+
+// ─── Procedure schemas ───────────────────────────────────────────────────────
+
+export const inventorySchemas = {
+  shelves: list(shelf),
+  warehouses: list(warehouse),
+  categories: {
+    list: list(category),
+    create: category,
+    update: category,
+  },
+  units: {
+    list: list(unit),
+    create: unit,
+    update: unit,
+  },
+  items: {
+    list: paginated(item),
+    getById: item,
+    create: item,
+    update: item,
+  },
+  pricePolicies: {
+    list: paginated(pricePolicy),
+    getForItem: pricePolicy.nullish(),
+    create: pricePolicy,
+    update: pricePolicy,
+  },
+  stock: {
+    getWarehouseStock: paginated(stockItem),
+    getShelfStock: paginated(stockItem),
+    getBatches: list(batch),
+    getMovements: paginated(stockMovement),
+    divideBatch: ack,
+  },
+  unitConversions: {
+    list: list(unitConversion),
+    create: unitConversion,
+    update: unitConversion,
+  },
+};
+
+// ─── Mutation inputs ─────────────────────────────────────────────────────────
+
+export const inventoryInputs = {
+  createCategory: z.object({
+    name: z.string().min(1),
+    nameAr: z.string().min(1),
+    parentId: z.string().optional(),
+  }),
+  updateCategory: z.object({
+    id: z.string(),
+    name: z.string().optional(),
+    nameAr: z.string().optional(),
+    parentId: z.string().nullable().optional(),
+    isActive: z.boolean().optional(),
+  }),
+  createUnit: z.object({
+    name: z.string().min(1),
+    nameAr: z.string().min(1),
+    symbol: z.string().min(1),
+  }),
+  updateUnit: z.object({
+    id: z.string(),
+    name: z.string().optional(),
+    nameAr: z.string().optional(),
+    symbol: z.string().optional(),
+  }),
+  createItem: z.object({
+    sku: z.string().min(1),
+    nameEn: z.string().min(1),
+    nameAr: z.string().min(1),
+    description: z.string().optional(),
+    categoryId: z.string(),
+    unitId: z.string(),
+    isConsignment: z.boolean().optional(),
+    minStockLevel: z.number().optional(),
+    maxStockLevel: z.number().optional(),
+  }),
+  updateItem: z.object({
+    id: z.string(),
+    nameEn: z.string().optional(),
+    nameAr: z.string().optional(),
+    sku: z.string().optional(),
+    description: z.string().optional(),
+    categoryId: z.string().optional(),
+    unitId: z.string().optional(),
+    isActive: z.boolean().optional(),
+  }),
+  createPricePolicy: z.object({
+    itemId: z.string(),
+    branchId: z.string(),
+    warehouseId: z.string().optional(),
+    shelfId: z.string().optional(),
+    wholesalePriceUsd: z.number().nonnegative(),
+    retailPriceUsd: z.number().nonnegative(),
+    priceRangeMinUsd: z.number().nonnegative(),
+    priceRangeMaxUsd: z.number().nonnegative(),
+    effectiveFrom: z.string(),
+    effectiveTo: z.string().optional(),
+  }),
+  updatePricePolicy: z.object({
+    id: z.string(),
+    warehouseId: z.string().nullable().optional(),
+    shelfId: z.string().nullable().optional(),
+    wholesalePriceUsd: z.number().nonnegative().optional(),
+    retailPriceUsd: z.number().nonnegative().optional(),
+    priceRangeMinUsd: z.number().nonnegative().optional(),
+    priceRangeMaxUsd: z.number().nonnegative().optional(),
+    effectiveTo: z.string().nullable().optional(),
+  }),
+  divideBatch: z.object({
+    batchId: z.string(),
+    targetUnitId: z.string(),
+    quantityInTargetUnit: z.number().positive(),
+  }),
+  createUnitConversion: z.object({
+    fromUnitId: z.string(),
+    toUnitId: z.string(),
+    factor: z.number().positive(),
+  }),
+  updateUnitConversion: z.object({
+    id: z.string(),
+    factor: z.number().positive().optional(),
+  }),
+};
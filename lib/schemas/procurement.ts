@@ -0,0 +1,165 @@
+import { z } from 'zod';
+import {
+  ack,
+  dateString,
+  decimal,
+  decimalOrZero,
+  entity,
+  maybe,
+  model,
+  namedRef,
+  optionalDecimal,
+  paginated,
+} from '@/lib/schemas/common';
+
+export const supplier = model({
+  id: z.string(),
+  name: z.string(),
+  nameAr: maybe(z.string()),
+  phone: maybe(z.string()),
+  email: maybe(z.string()),
+  address: maybe(z.string()),
+  isActive: z.boolean().default(true),
+  isConsignor: z.boolean().optional(),
+  balanceSdg: decimalOrZero,
+});
+export type Supplier = z.infer<typeof supplier>;
+
+export const purchaseOrderLine = model({
+  id: z.string(),
+  itemId: z.string().optional(),
+  qty: decimal,
+  qtyReceived: decimalOrZero,
+  unitPriceSdg: decimalOrZero,
+  totalSdg: optionalDecimal,
+  item: model({
+    id: z.string(),
+    sku: z.string(),
+    name: maybe(z.string()),
+    nameEn: maybe(z.string()),
+    nameAr: maybe(z.string()),
+    unit: maybe(namedRef),
+  }),
+});
+export type PurchaseOrderLine = z.infer<typeof purchaseOrderLine>;
+
+export const goodsReceipt = model({
+  id: z.string(),
+  grNumber: z.string(),
+  receiptDate: dateString,
+  receiptType: z.string().default('STANDARD'),
+  receivedBy: maybe(namedRef),
+  lines: z.array(model({ qtyReceived: decimal, itemId: z.string() })).default([]),
+});
+export type GoodsReceipt = z.infer<typeof goodsReceipt>;
+
+export const procurementSupplierInvoice = model({
+  id: z.string(),
+  invoiceNumber: z.string(),
+  totalSdg: decimal,
+  paidAmountSdg: optionalDecimal,
+  status: z.string(),
+  invoiceDate: maybe(dateString),
+  dueDate: maybe(dateString),
+  createdAt: maybe(dateString),
+  supplier: maybe(namedRef),
+});
+
+export const purchaseOrder = model({
+  id: z.string(),
+  poNumber: z.string(),
+  orderDate: dateString,
+  createdAt: maybe(dateString),
+  status: z.string(),
+  totalSdg: decimalOrZero,
+  totalUsd: decimalOrZero,
+  notes: maybe(z.string()),
+  isConsignment: z.boolean().optional(),
+  supplier: maybe(namedRef),
+  branch: maybe(namedRef),
+  createdBy: maybe(namedRef),
+  approvedBy: maybe(namedRef),
+  lines: z.array(purchaseOrderLine).default([]),
+  goodsReceipts: z.array(goodsReceipt).default([]),
+  supplierInvoices: z.array(procurementSupplierInvoice).default([]),
+});
+export type PurchaseOrder = z.infer<typeof purchaseOrder>;
+
+// ─── Procedure schemas ───────────────────────────────────────────────────────
+
+export const procurementSchemas = {
+  purchaseOrders: {
+    list: paginated(purchaseOrder.partial().extend({ id: z.string() })),
+    getById: purchaseOrder,
+    approve: ack,
+    create: purchaseOrder.partial().extend({ id: z.string() }),
+  },
+  goodsReceipts: {
+    create: entity,
+    getByPO: z.array(goodsReceipt),
+  },
+  suppliers: {
+    list: paginated(supplier),
+    getById: supplier,
+    create: supplier,
+  },
+  supplierInvoices: {
+    list: paginated(procurementSupplierInvoice),
+    create: entity,
+  },
+};
+
+// ─── Mutation inputs ─────────────────────────────────────────────────────────
+
+export const procurementInputs = {
+  createGoodsReceipt: z.object({
+    purchaseOrderId: z.string(),
+    warehouseId: z.string(),
+    notes: z.string().optional(),
+    lines: z
+      .array(
+        z.object({
+          purchaseOrderLineId: z.string(),
+          itemId: z.string(),
+          qtyReceived: z.number().positive(),
+          unitCostSdg: z.number().nonnegative(),
+          expiryDate: z.string().optional(),
+        })
+      )
+      .min(1),
+  }),
+  createSupplier: z.object({
+    name: z.string().min(1),
+    nameAr: z.string().optional(),
+    phone: z.string().optional(),
+    email: z.string().optional(),
+    address: z.string().optional(),
+  }),
+  createPurchaseOrder: z.object({
+    supplierId: z.string(),
+    branchId: z.string(),
+    expectedDate: z.string().optional(),
+    notes: z.string().optional(),
+    isConsignment: z.boolean().optional(),
+    poNumber: z.string().optional(),
+    operationNumber: z.string().optional(),
+    lines: z
+      .array(
+        z.object({
+          itemId: z.string(),
+          qty: z.number().positive(),
+          unitPriceSdg: z.number().nonnegative(),
+        })
+      )
+      .min(1),
+  }),
+  createSupplierInvoice: z.object({
+    supplierId: z.string(),
+    purchaseOrderId: z.string().optional(),
+    invoiceNumber: z.string().min(1),
+    totalSdg: z.number().nonnegative(),
+    invoiceDate: z.string(),
+    dueDate: z.string(),
+    notes: z.string().optional(),
+  }),
+};
@@ -0,0 +1,294 @@
+import { z } from 'zod';
+import {
+  ack,
+  dateString,
+  decimal,
+  decimalOrZero,
+  entity,
+  maybe,
+  model,
+  namedRef,
+  optionalDecimal,
+  paginated,
+} from '@/lib/schemas/common';
+
+const lineItem = model({
+  id: z.string().optional(),
+  nameEn: z.string(),
+  nameAr: z.string(),
+  sku: z.string(),
+  unit: maybe(
+    model({
+      name: maybe(z.string()),
+      nameEn: maybe(z.string()),
+      nameAr: maybe(z.string()),
+      symbol: maybe(z.string()),
+    })
+  ),
+});
+
+// ─── Customers ───────────────────────────────────────────────────────────────
+
+export const customerType = z.enum(['WHOLESALE', 'RETAIL']);
+
+export const customer = model({
+  id: z.string(),
+  name: z.string(),
+  nameAr: maybe(z.string()),
+  phone: maybe(z.string()),
+  email: maybe(z.string()),
+  customerType: customerType,
+  isActive: z.boolean().default(true),
+  creditLimitSdg: decimalOrZero,
+  balanceSdg: optionalDecimal,
+});
+export type Customer = z.infer<typeof customer>;
+
+// ─── Sales invoices ──────────────────────────────────────────────────────────
+
+export const salesInvoiceLine = model({
+  id: z.string(),
+  itemId: z.string().optional(),
+  qty: decimal,
+  unitPriceUsd: optionalDecimal,
+  unitPriceSdg: decimalOrZero,
+  totalUsd: optionalDecimal,
+  totalSdg: decimalOrZero,
+  item: lineItem,
+});
+export type SalesInvoiceLine = z.infer<typeof salesInvoiceLine>;
+
+export const salesInvoice = model({
+  id: z.string(),
+  invoiceNumber: z.string(),
+  invoiceDate: dateString,
+  status: z.string(),
+  invoiceType: z.string(),
+  totalSdg: decimal,
+  totalUsd: decimalOrZero,
+  paidAmountSdg: optionalDecimal,
+  paymentMethod: maybe(z.string()),
+  transactionNumber: maybe(z.string()),
+  receiptImageUrls: maybe(z.array(z.string())),
+  notes: maybe(z.string()),
+  customer: maybe(namedRef),
+  createdBy: maybe(namedRef),
+  shelf: maybe(namedRef),
+  lines: maybe(z.array(salesInvoiceLine)),
+});
+export type SalesInvoice = z.infer<typeof salesInvoice>;
+
+// ─── Sales orders ────────────────────────────────────────────────────────────
+
+export const salesOrderLine = model({
+  id: z.string(),
+  qty: decimal,
+  qtyDelivered: decimalOrZero,
+  unitPriceUsd: decimalOrZero,
+  unitPriceSdg: decimalOrZero,
+  item: lineItem.extend({ id: z.string() }),
+});
+export type SalesOrderLine = z.infer<typeof salesOrderLine>;
+
+export const salesOrder = model({
+  id: z.string(),
+  orderNumber: z.string(),
+  orderDate: dateString,
+  createdAt: maybe(dateString),
+  status: z.string(),
+  totalSdg: decimalOrZero,
+  totalUsd: decimalOrZero,
+  notes: maybe(z.string()),
+  customer: maybe(namedRef),
+  warehouse: maybe(namedRef),
+  branch: maybe(namedRef),
+  createdBy: maybe(namedRef),
+  lines: z.array(salesOrderLine).default([]),
+});
+export type SalesOrder = z.infer<typeof salesOrder>;
+
+// ─── Goods requests (shelf → warehouse) ──────────────────────────────────────
+
+export const goodsRequestStatus = z.enum([
+  'DRAFT',
+  'SUBMITTED',
+  'APPROVED',
+  'REJECTED',
+  'ISSUED',
+  'RECEIVED',
+  'CANCELLED',
+]);
+
+export const goodsRequestLine = model({
+  id: z.string(),
+  itemId: z.string().optional(),
+  qtyRequested: decimal,
+  qtyApproved: decimalOrZero,
+  qtyIssued: decimalOrZero,
+  qtyReceived: decimalOrZero,
+  item: lineItem.extend({ id: z.string() }),
+});
+export type GoodsRequestLine = z.infer<typeof goodsRequestLine>;
+
+export const goodsRequest = model({
+  id: z.string(),
+  requestNumber: z.string(),
+  requestDate: maybe(dateString),
+  createdAt: dateString,
+  status: goodsRequestStatus,
+  notes: maybe(z.string()),
+  shelfId: z.string().optional(),
+  shelf: maybe(namedRef),
+  requestedBy: maybe(namedRef),
+  lines: z.array(goodsRequestLine).default([]),
+});
+export type GoodsRequest = z.infer<typeof goodsRequest>;
+
+// ─── Daily shelf invoice ─────────────────────────────────────────────────────
+
+export const dailyDraftLine = model({
+  id: z.string(),
+  itemId: z.string(),
+  qty: decimal,
+  unitPriceUsd: decimal,
+  batchId: maybe(z.string()),
+  item: maybe(lineItem.partial()),
+});
+export type DailyDraftLine = z.infer<typeof dailyDraftLine>;
+
+export const dailyDraft = model({
+  id: z.string(),
+  shelfId: z.string().optional(),
+  lines: z.array(dailyDraftLine).default([]),
+});
+export type DailyDraft = z.infer<typeof dailyDraft>;
+
+export const dailyCheckoutResult = model({
+  id: z.string().optional(),
+  invoiceId: z.string().optional(),
+  invoiceNumber: z.string().optional(),
+});
+
+export const dailyAggregate = entity;
+
+// ─── Procedure schemas ───────────────────────────────────────────────────────
+
+export const salesSchemas = {
+  invoices: {
+    listByBranch: paginated(salesInvoice),
+    getById: salesInvoice,
+    create: salesInvoice.partial().extend({ id: z.string(), invoiceNumber: z.string() }),
+    void: ack,
+  },
+  customers: {
+    list: paginated(customer),
+    getById: customer,
+    create: customer,
+  },
+  salesOrders: {
+    list: paginated(salesOrder),
+    getById: salesOrder,
+    create: entity,
+    confirm: ack,
+    deliver: ack,
+  },
+  goodsRequests: {
+    list: paginated(goodsRequest),
+    getById: goodsRequest,
+    create: goodsRequest.partial().extend({ id: z.string() }),
+    submit: ack,
+    approve: ack,
+    reject: ack,
+    issue: ack,
+  },
+  dailyAggregate: {
+    getOrCreate: dailyAggregate,
+    update: dailyAggregate,
+  },
+  dailyInvoiceDraft: {
+    getOrCreate: dailyDraft,
+    addLine: ack,
+    removeLine: ack,
+    updateLineQty: ack,
+    clearDraft: ack,
+    checkout: dailyCheckoutResult,
+  },
+};
+
+// ─── Mutation inputs ─────────────────────────────────────────────────────────
+
+const invoiceLineInput = z.object({
+  itemId: z.string(),
+  qty: z.number().positive(),
+  unitPriceUsd: z.number().nonnegative(),
+});
+
+export const salesInputs = {
+  createInvoice: z.object({
+    shelfId: z.string(),
+    customerId: z.string().optional(),
+    invoiceType: customerType,
+    paymentMethod: z.enum(['CASH', 'BANK_TRANSFER', 'CREDIT', 'MIXED']).optional(),
+    notes: z.string().optional(),
+    lines: z.array(invoiceLineInput).min(1),
+  }),
+  createCustomer: z.object({
+    name: z.string().min(1),
+    nameAr: z.string().optional(),
+    phone: z.string().optional(),
+    email: z.string().optional(),
+    customerType: customerType,
+    creditLimitSdg: z.number().nonnegative().optional(),
+  }),
+  createSalesOrder: z.object({
+    customerId: z.string(),
+    warehouseId: z.string(),
+    notes: z.string().optional(),
+    lines: z.array(invoiceLineInput).min(1),
+  }),
+  deliverSalesOrder: z.object({
+    orderId: z.string(),
+    lines: z.array(z.object({ lineId: z.string(), qtyDelivered: z.number().nonnegative() })),
+  }),
+  createGoodsRequest: z.object({
+    shelfId: z.string(),
+    notes: z.string().optional(),
+    lines: z.array(z.object({ itemId: z.string(), qtyRequested: z.number().positive() })).min(1),
+  }),
+  approveGoodsRequest: z.object({
+    requestId: z.string(),
+    notes: z.string().optional(),
+    lines: z.array(z.object({ lineId: z.string(), qtyApproved: z.number().nonnegative() })),
+  }),
+  rejectGoodsRequest: z.object({
+    requestId: z.string(),
+    reason: z.string().optional(),
+  }),
+  issueGoodsRequest: z.object({
+    requestId: z.string(),
+    warehouseId: z.string(),
+    lines: z.array(z.object({ lineId: z.string(), qtyIssued: z.number().nonnegative() })),
+  }),
+  updateDailyAggregate: z.object({
+    cashTotalSdg: z.number().optional(),
+    cardTotalSdg: z.number().optional(),
+    itemCount: z.number().optional(),
+    transactionCount: z.number().optional(),
+  }),
+  addDraftLine: z.object({
+    shelfId: z.string(),
+    itemId: z.string(),
+    qty: z.number().positive(),
+    unitPriceUsd: z.number().nonnegative(),
+    batchId: z.string().optional(),
+  }),
+  checkoutDraft: z.object({
+    shelfId: z.string(),
+    paymentMethod: z.enum(['CASH', 'BANK_TRANSFER', 'MIXED']),
+    cashAmountSdg: z.number().nonnegative().optional(),
+    cardAmountSdg: z.number().nonnegative().optional(),
+    transactionNumber: z.string().optional(),
+    receiptImageUrls: z.array(z.string()).optional(),
+    customerId: z.string().optional(),
+  }),
+};
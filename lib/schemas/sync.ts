@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { model } from '@/lib/schemas/common';
+import { batch, category, item, pricePolicy, shelf, unit, unitConversion, warehouse } from '@/lib/schemas/inventory';
+import { customer } from '@/lib/schemas/sales';
+
+/**
+ * One page of `sync.changes`: rows created or updated after `cursor`, ids deleted
+ * since, and the cursor to send next time. Without a cursor the server starts
+ * from the beginning, so a full download is the same call.
+ */
+function changes<T extends z.ZodTypeAny>(row: T) {
+  return model({
+    rows: z.array(row),
+    deletedIds: z.array(z.string()).default([]),
+    cursor: z.string(),
+    hasMore: z.boolean().default(false),
+  });
+}
+
+// ─── Procedure schemas ───────────────────────────────────────────────────────
+
+/** Keyed by offline table; the server uses the same names. */
+export const syncSchemas = {
+  changes: {
+    items: changes(item),
+    item_categories: changes(category),
+    units: changes(unit),
+    unit_conversions: changes(unitConversion),
+    price_policies: changes(pricePolicy),
+    customers: changes(customer),
+    warehouses: changes(warehouse),
+    shelves: changes(shelf),
+    batches: changes(batch),
+  },
+};
+
+export type SyncTable = keyof typeof syncSchemas.changes;
+export type SyncChanges<T extends SyncTable> = z.output<(typeof syncSchemas.changes)[T]>;
+export type SyncRow<T extends SyncTable> = SyncChanges<T>['rows'][number];
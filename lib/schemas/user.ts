@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { ack, dateString, maybe, model, paginated } from '@/lib/schemas/common';
+
+export const userRole = z.enum([
+  'ADMIN',
+  'MANAGER',
+  'WAREHOUSE_SALES',
+  'SHELF_SALES',
+  'PROCUREMENT',
+  'ACCOUNTANT',
+]);
+export type UserRole = z.infer<typeof userRole>;
+
+const branchRef = model({ id: z.string(), name: z.string(), nameAr: z.string() });
+
+export const user = model({
+  id: z.string(),
+  email: z.string(),
+  name: z.string(),
+  nameAr: maybe(z.string()),
+  role: userRole,
+  branchId: z.string().nullable(),
+  warehouseId: maybe(z.string()),
+  shelfId: maybe(z.string()),
+  isActive: z.boolean().default(true),
+  lastLoginAt: maybe(dateString),
+  createdAt: dateString,
+  branch: maybe(branchRef),
+});
+export type User = z.infer<typeof user>;
+
+/** The signed-in user as returned by `auth.me` and `auth.login`. */
+export const sessionUser = model({
+  id: z.string(),
+  email: z.string(),
+  name: z.string(),
+  role: z.string(),
+  branchId: z.string().nullable(),
+  branch: maybe(branchRef),
+  shelf: model({ id: z.string(), name: z.string(), nameAr: z.string(), code: z.string() }).nullish(),
+});
+export type SessionUser = z.infer<typeof sessionUser>;
+
+// ─── Procedure schemas ───────────────────────────────────────────────────────
+
+export const authSchemas = {
+  login: model({
+    user: sessionUser,
+    token: z.string().min(1),
+    expiresAt: maybe(dateString),
+  }),
+  refresh: model({
+    token: z.string().min(1),
+    expiresAt: maybe(dateString),
+  }),
+  me: sessionUser,
+};
+
+export const userSchemas = {
+  list: paginated(user),
+  getById: user,
+  create: user,
+  update: user,
+  resetPassword: ack,
+};
+
+// ─── Mutation inputs ─────────────────────────────────────────────────────────
+
+const assignableRole = userRole.exclude(['ADMIN']);
+
+export const userInputs = {
+  create: z.object({
+    email: z.string().email(),
+    password: z.string().min(6),
+    name: z.string().min(1),
+    nameAr: z.string().optional(),
+    role: assignableRole,
+    branchId: z.string().optional(),
+  }),
+  update: z.object({
+    id: z.string(),
+    email: z.string().email().optional(),
+    name: z.string().optional(),
+    nameAr: z.string().optional(),
+    role: assignableRole.optional(),
+    branchId: z.string().optional(),
+    warehouseId: z.string().nullable().optional(),
+    shelfId: z.string().nullable().optional(),
+    isActive: z.boolean().optional(),
+  }),
+  resetPassword: z.object({
+    userId: z.string(),
+    newPassword: z.string().min(6),
+  }),
+};
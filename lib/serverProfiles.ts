@@ -0,0 +1,171 @@
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+
+/**
+ * A backend the app can talk to. Each profile has its own offline database (and
+ * with it its own mutation queue), so cached and unsynced data never crosses
+ * servers.
+ */
+export interface ServerProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+  /** `mock` answers requests in-process from sample data (lib/mock); defaults to `http`. */
+  transport?: 'http' | 'mock';
+}
+
+export const DEFAULT_PROFILE_ID = 'default';
+export const DEMO_PROFILE_ID = 'demo';
+
+const PROFILES_KEY = 'serverProfiles';
+const ACTIVE_PROFILE_KEY = 'activeServerProfile';
+const HEALTH_CHECK_TIMEOUT = 5000;
+
+// ─── Default profile ────────────────────────────────────────────────────────
+
+// For Android emulator, use http://10.0.2.2:4000 (special IP that maps to host machine)
+// For iOS simulator, use http://localhost:4000
+// For physical device, use your computer's IP address (e.g., http://192.168.1.100:4000)
+const getPlatformApiUrl = () => {
+  if (Platform.OS === 'android') {
+    // Android emulator uses 10.0.2.2 to access host machine's localhost
+    return 'http://10.0.2.2:4000';
+  }
+  // iOS simulator and web can use localhost
+  return 'http://localhost:4000';
+};
+
+/**
+ * The build-time server (env, app.json, or the platform default). It is always
+ * present, cannot be removed, and keeps the original offline database file.
+ */
+export const defaultProfile: ServerProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'Default',
+  baseUrl: normalizeBaseUrl(
+    process.env.EXPO_PUBLIC_API_URL ||
+      Constants.expoConfig?.extra?.apiUrl ||
+      getPlatformApiUrl()
+  ),
+};
+
+/** Runs the app against the in-process mock backend, with no server at all. */
+export const demoProfile: ServerProfile = {
+  id: DEMO_PROFILE_ID,
+  name: 'Demo',
+  baseUrl: 'mock://demo',
+  transport: 'mock',
+};
+
+const BUILT_IN_PROFILES = [defaultProfile, demoProfile];
+
+/** Built-in profiles are never stored and cannot be removed. */
+export function isBuiltInProfile(id: string): boolean {
+  return BUILT_IN_PROFILES.some((p) => p.id === id);
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/** Trims whitespace and trailing slashes, and adds `http://` when no scheme is given. */
+export function normalizeBaseUrl(url: string): string {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  if (!trimmed) return '';
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+}
+
+export function isValidBaseUrl(url: string): boolean {
+  return /^https?:\/\/[^\s/]+(\/[^\s]*)?$/i.test(url);
+}
+
+export function createProfileId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** SQLite file holding a profile's cache and mutation queue. */
+export function databaseNameFor(profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? 'golden_offline.db' : `golden_offline_${profileId}.db`;
+}
+
+// ─── Persistence ────────────────────────────────────────────────────────────
+
+/** Stored profiles after the built-in ones, plus the active profile id. */
+export async function loadProfiles(): Promise<{ profiles: ServerProfile[]; activeId: string }> {
+  let saved: ServerProfile[] = [];
+  let activeId: string | null = null;
+  try {
+    const raw = await SecureStore.getItemAsync(PROFILES_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    if (Array.isArray(parsed)) {
+      saved = parsed.filter(
+        (p): p is ServerProfile =>
+          typeof p?.id === 'string' &&
+          typeof p?.name === 'string' &&
+          typeof p?.baseUrl === 'string' &&
+          !isBuiltInProfile(p.id)
+      );
+    }
+    activeId = await SecureStore.getItemAsync(ACTIVE_PROFILE_KEY);
+  } catch (error) {
+    console.warn('Failed to load server profiles:', error);
+  }
+
+  const profiles = [...BUILT_IN_PROFILES, ...saved];
+  if (!activeId || !profiles.some((p) => p.id === activeId)) activeId = DEFAULT_PROFILE_ID;
+  return { profiles, activeId };
+}
+
+export async function saveProfiles(profiles: ServerProfile[]): Promise<void> {
+  const custom = profiles.filter((p) => !isBuiltInProfile(p.id));
+  await SecureStore.setItemAsync(PROFILES_KEY, JSON.stringify(custom));
+}
+
+export async function saveActiveProfileId(id: string): Promise<void> {
+  await SecureStore.setItemAsync(ACTIVE_PROFILE_KEY, id);
+}
+
+// ─── Health check ───────────────────────────────────────────────────────────
+
+export interface HealthCheckResult {
+  ok: boolean;
+  latencyMs: number;
+  status?: number;
+  message?: string;
+}
+
+/**
+ * Checks that `baseUrl` is a reachable tRPC backend. The server has no dedicated
+ * health route, so this asks for `auth.me` without a token: any JSON answer
+ * (including UNAUTHORIZED) means the API is up at that address.
+ */
+export async function checkServerHealth(baseUrl: string): Promise<HealthCheckResult> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT);
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(`${normalizeBaseUrl(baseUrl)}/trpc/auth.me`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      signal: controller.signal,
+    });
+    const latencyMs = Date.now() - startedAt;
+    const contentType = response.headers.get('content-type') ?? '';
+    if (!contentType.includes('application/json')) {
+      return {
+        ok: false,
+        latencyMs,
+        status: response.status,
+        message: `Not a Golden API (HTTP ${response.status})`,
+      };
+    }
+    return { ok: true, latencyMs, status: response.status };
+  } catch (error: any) {
+    return {
+      ok: false,
+      latencyMs: Date.now() - startedAt,
+      message: error?.name === 'AbortError' ? 'Timed out' : error?.message || 'Unreachable',
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * The idempotency key of a form's money-moving submit (sales invoice, expense,
+ * payment, checkout). One key covers every attempt until the server has answered
+ * for certain: after a timeout, network error or 5xx the first attempt may have
+ * been applied, so the next one — edited or not — goes out under the same key and
+ * the server refuses it as a duplicate instead of recording it twice. After such a
+ * refusal (`ALREADY_SUBMITTED`) the key is kept too: the write is on the server,
+ * and sending the form again must not repeat it.
+ */
+import { useMemo, useRef } from 'react';
+import { createIdempotencyKey } from '@/lib/api';
+import { isApiError } from '@/lib/apiError';
+
+export interface SubmitKey {
+  /** The key to send with this attempt; the pending one while an outcome is unknown. */
+  next(): string;
+  /** Records how the attempt ended: with no error on success, or the error it failed with. */
+  settle(error?: unknown): void;
+}
+
+export function useSubmitKey(): SubmitKey {
+  const key = useRef<string | null>(null);
+  return useMemo(
+    () => ({
+      next: () => (key.current ??= createIdempotencyKey()),
+      settle: (error?: unknown) => {
+        const pending = isApiError(error) && (error.retryable || error.code === 'ALREADY_SUBMITTED');
+        if (!pending) key.current = null;
+      },
+    }),
+    []
+  );
+}
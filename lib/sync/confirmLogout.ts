@@ -0,0 +1,44 @@
+import { Alert } from 'react-native';
+import { connectivity } from '@/lib/connectivity';
+import { flushMutationQueue, getUnsyncedCount } from '@/lib/sync/mutationQueue';
+
+/**
+ * Asks before signing out while the user still has queued entries. Those stay
+ * on the device under their name, not the next user's: they are sent when the
+ * user signs in again, or from Sync Status once the user enters their password.
+ * Online the user can send them first. Resolves whether to go ahead.
+ */
+export async function confirmLogout(isAr: boolean): Promise<boolean> {
+  const unsynced = await getUnsyncedCount();
+  if (unsynced === 0) return true;
+
+  return new Promise((resolve) => {
+    const syncFirst = async () => {
+      await flushMutationQueue();
+      const left = await getUnsyncedCount();
+      if (left === 0) return resolve(true);
+      Alert.alert(
+        isAr ? 'لم تُرسل كل العمليات' : 'Not everything was sent',
+        isAr
+          ? `${left} عملية ما زالت بانتظار الإرسال أو المراجعة. راجعها في حالة المزامنة.`
+          : `${left} operation(s) still wait to be sent or fixed. Check Sync Status.`
+      );
+      resolve(false);
+    };
+
+    Alert.alert(
+      isAr ? 'عمليات غير مُرسلة' : 'Unsynced operations',
+      isAr
+        ? `لديك ${unsynced} عملية لم تصل إلى الخادم. ستبقى على هذا الجهاز باسمك وتُرسل عند تسجيل دخولك مرة أخرى.`
+        : `You have ${unsynced} operation(s) not on the server yet. They stay on this device under your name and are sent when you sign in again.`,
+      [
+        { text: isAr ? 'إلغاء' : 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        ...(connectivity.isOnline()
+          ? [{ text: isAr ? 'أرسلها أولاً' : 'Sync first', onPress: () => void syncFirst() }]
+          : []),
+        { text: isAr ? 'تسجيل الخروج' : 'Sign out', style: 'destructive' as const, onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+}
@@ -0,0 +1,310 @@
+/**
+ * The shelf's running daily invoice, kept in SQLite so the cart can be edited
+ * with no connection. Every local edit bumps the draft's revision; reconciling
+ * pushes the lines to the server draft and then mirrors the server's copy back,
+ * which is what ends up checked out.
+ *
+ * The server wins on conflict: when it refuses a line (usually stock), the
+ * local changes are replaced by the server draft and the refusal is rethrown.
+ */
+import { connectivity } from '@/lib/connectivity';
+import { getDb, withWriteTransaction } from '@/lib/db/database';
+import { api } from '@/lib/api';
+import { isApiError } from '@/lib/apiError';
+import { createLocalId, discardMutation, type QueueEntry } from '@/lib/sync/mutationQueue';
+import type { DailyDraftLine } from '@/lib/schemas/sales';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+export interface DraftLine {
+  id: string;
+  itemId: string;
+  qty: number;
+  unitPriceUsd: number;
+  batchId: string | null;
+  item: {
+    nameEn: string;
+    nameAr: string;
+    sku: string;
+    unit: { nameEn: string | null; symbol: string | null } | null;
+  };
+}
+
+export interface LocalDraft {
+  shelfId: string;
+  lines: DraftLine[];
+  /** Edits made on this device that the server draft does not have yet. */
+  pending: boolean;
+}
+
+export type NewDraftLine = Omit<DraftLine, 'id'>;
+
+// ─── Reading ──────────────────────────────────────────────────────────────────
+
+export async function getLocalDraft(shelfId: string): Promise<LocalDraft> {
+  const db = getDb();
+  const [state, rows] = await Promise.all([
+    readRevisions(db, shelfId),
+    db.getAllAsync<any>('SELECT * FROM daily_draft_lines WHERE shelf_id = ? ORDER BY rowid', [shelfId]),
+  ]);
+  return { shelfId, lines: rows.map(rowToLine), pending: state.revision > state.syncedRevision };
+}
+
+/** Whether a checkout of this shelf's draft is still waiting in the mutation queue. */
+export async function hasQueuedCheckout(shelfId: string): Promise<boolean> {
+  const row = await getDb().getFirstAsync(
+    `SELECT 1 FROM mutation_queue
+     WHERE mutation_type = 'sales.dailyInvoiceDraft.checkout' AND status = 'pending'
+       AND json_extract(payload, '$.shelfId') = ?`,
+    [shelfId]
+  );
+  return !!row;
+}
+
+async function readRevisions(
+  db: SQLiteDatabase,
+  shelfId: string
+): Promise<{ revision: number; syncedRevision: number }> {
+  const row = await db.getFirstAsync<{ revision: number; synced_revision: number }>(
+    'SELECT revision, synced_revision FROM daily_drafts WHERE shelf_id = ?',
+    [shelfId]
+  );
+  return { revision: row?.revision ?? 0, syncedRevision: row?.synced_revision ?? 0 };
+}
+
+function rowToLine(row: any): DraftLine {
+  return {
+    id: row.id,
+    itemId: row.item_id,
+    qty: row.qty,
+    unitPriceUsd: row.unit_price_usd,
+    batchId: row.batch_id,
+    item: {
+      nameEn: row.item_name_en ?? '',
+      nameAr: row.item_name_ar ?? row.item_name_en ?? '',
+      sku: row.item_sku ?? '',
+      unit: row.unit_name || row.unit_symbol ? { nameEn: row.unit_name, symbol: row.unit_symbol } : null,
+    },
+  };
+}
+
+// ─── Local edits ──────────────────────────────────────────────────────────────
+
+/** Adding an item already on the draft with the same batch raises that line's qty, as the server does. */
+export async function addLocalDraftLine(shelfId: string, line: NewDraftLine): Promise<LocalDraft> {
+  await editDraft(shelfId, async (txn) => {
+    const existing = await txn.getFirstAsync<{ id: string }>(
+      'SELECT id FROM daily_draft_lines WHERE shelf_id = ? AND item_id = ? AND batch_id IS ?',
+      [shelfId, line.itemId, line.batchId]
+    );
+    if (existing) {
+      await txn.runAsync('UPDATE daily_draft_lines SET qty = qty + ?, unit_price_usd = ? WHERE id = ?', [
+        line.qty,
+        line.unitPriceUsd,
+        existing.id,
+      ]);
+    } else {
+      await insertLine(txn, shelfId, { ...line, id: createLocalId() });
+    }
+  });
+  return getLocalDraft(shelfId);
+}
+
+export async function updateLocalDraftLineQty(shelfId: string, lineId: string, qty: number): Promise<LocalDraft> {
+  await editDraft(shelfId, (txn) =>
+    txn.runAsync('UPDATE daily_draft_lines SET qty = ? WHERE id = ? AND shelf_id = ?', [qty, lineId, shelfId])
+  );
+  return getLocalDraft(shelfId);
+}
+
+export async function removeLocalDraftLine(shelfId: string, lineId: string): Promise<LocalDraft> {
+  await editDraft(shelfId, (txn) =>
+    txn.runAsync('DELETE FROM daily_draft_lines WHERE id = ? AND shelf_id = ?', [lineId, shelfId])
+  );
+  return getLocalDraft(shelfId);
+}
+
+export async function clearLocalDraft(shelfId: string): Promise<LocalDraft> {
+  await editDraft(shelfId, (txn) => txn.runAsync('DELETE FROM daily_draft_lines WHERE shelf_id = ?', [shelfId]));
+  return getLocalDraft(shelfId);
+}
+
+/**
+ * Puts the lines of a failed invoice or checkout entry back on its shelf's
+ * local draft, where they can be fixed and checked out again, and discards the
+ * entry. Names come from the cached items.
+ */
+export async function moveEntryToDraft(entry: QueueEntry, movedBy: string): Promise<void> {
+  const { shelfId, lines } = entry.payload;
+  const db = getDb();
+  for (const line of lines as { itemId: string; qty: number; unitPriceUsd: number; batchId?: string }[]) {
+    const item = await db.getFirstAsync<any>('SELECT * FROM items WHERE id = ?', [line.itemId]);
+    await addLocalDraftLine(shelfId, {
+      itemId: line.itemId,
+      qty: line.qty,
+      unitPriceUsd: line.unitPriceUsd,
+      batchId: line.batchId ?? null,
+      item: {
+        nameEn: item?.name_en ?? line.itemId,
+        nameAr: item?.name_ar ?? item?.name_en ?? line.itemId,
+        sku: item?.sku ?? '',
+        unit: item ? { nameEn: item.unit_name, symbol: item.unit_symbol } : null,
+      },
+    });
+  }
+  await discardMutation(entry.id, 'Moved back to the daily invoice draft', movedBy);
+}
+
+/**
+ * Empties the local draft after checkout without marking it as edited: the
+ * server draft is empty too, or will be once the queued checkout replays.
+ */
+export async function markDraftCheckedOut(shelfId: string): Promise<void> {
+  await withWriteTransaction(async (txn) => {
+    const { revision } = await readRevisions(txn, shelfId);
+    await replaceLines(txn, shelfId, [], revision);
+  });
+}
+
+function editDraft(shelfId: string, change: (txn: SQLiteDatabase) => Promise<unknown>): Promise<void> {
+  return withWriteTransaction(async (txn) => {
+    await change(txn);
+    await txn.runAsync(
+      `INSERT INTO daily_drafts (shelf_id, revision, synced_revision) VALUES (?, 1, 0)
+       ON CONFLICT(shelf_id) DO UPDATE SET revision = revision + 1`,
+      [shelfId]
+    );
+  });
+}
+
+function insertLine(txn: SQLiteDatabase, shelfId: string, line: DraftLine): Promise<unknown> {
+  return txn.runAsync(
+    `INSERT INTO daily_draft_lines
+       (id, shelf_id, item_id, batch_id, qty, unit_price_usd, item_name_en, item_name_ar, item_sku, unit_name, unit_symbol)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      line.id,
+      shelfId,
+      line.itemId,
+      line.batchId,
+      line.qty,
+      line.unitPriceUsd,
+      line.item.nameEn,
+      line.item.nameAr,
+      line.item.sku,
+      line.item.unit?.nameEn ?? null,
+      line.item.unit?.symbol ?? null,
+    ]
+  );
+}
+
+/** Makes the local lines a copy of `lines` and records `revision` as synced. */
+async function replaceLines(
+  txn: SQLiteDatabase,
+  shelfId: string,
+  lines: DraftLine[],
+  revision: number
+): Promise<void> {
+  await txn.runAsync('DELETE FROM daily_draft_lines WHERE shelf_id = ?', [shelfId]);
+  for (const line of lines) await insertLine(txn, shelfId, line);
+  await txn.runAsync(
+    `INSERT INTO daily_drafts (shelf_id, revision, synced_revision) VALUES (?, ?, ?)
+     ON CONFLICT(shelf_id) DO UPDATE SET revision = excluded.revision, synced_revision = excluded.synced_revision`,
+    [shelfId, revision, revision]
+  );
+}
+
+// ─── Reconciling with the server draft ────────────────────────────────────────
+
+let reconciling: Promise<unknown> = Promise.resolve();
+
+/**
+ * Pushes local edits to the server draft and mirrors the result. Offline, or
+ * while a queued checkout still has to rebuild the server draft, the local
+ * draft is returned untouched. Runs one at a time.
+ */
+export function reconcileDailyDraft(shelfId: string): Promise<LocalDraft> {
+  const run = reconciling.then(() => reconcile(shelfId));
+  reconciling = run.catch(() => undefined);
+  return run;
+}
+
+async function reconcile(shelfId: string): Promise<LocalDraft> {
+  if (!connectivity.isOnline() || (await hasQueuedCheckout(shelfId))) return getLocalDraft(shelfId);
+
+  // Revision first: an edit landing between the two reads then keeps the mirror from overwriting it
+  const { revision } = await readRevisions(getDb(), shelfId);
+  const local = await getLocalDraft(shelfId);
+  let server = await api.sales.dailyInvoiceDraft.getOrCreate(shelfId);
+
+  if (local.pending) {
+    try {
+      await pushLines(shelfId, local.lines, server.lines);
+    } catch (error) {
+      if (isApiError(error) && !error.retryable) {
+        server = await api.sales.dailyInvoiceDraft.getOrCreate(shelfId);
+        await mirror(shelfId, server.lines.map(serverLineToDraftLine), null);
+      }
+      throw error;
+    }
+    server = await api.sales.dailyInvoiceDraft.getOrCreate(shelfId);
+  }
+
+  await mirror(shelfId, server.lines.map(serverLineToDraftLine), revision);
+  return getLocalDraft(shelfId);
+}
+
+/** Removals go first so the stock they free counts for the lines added after them. */
+async function pushLines(shelfId: string, local: DraftLine[], server: DailyDraftLine[]): Promise<void> {
+  const draft = api.sales.dailyInvoiceDraft;
+  const localIds = new Set(local.map((l) => l.id));
+  const serverById = new Map(server.map((l) => [l.id, l]));
+
+  for (const line of server) {
+    if (!localIds.has(line.id)) await draft.removeLine(line.id);
+  }
+  for (const line of local) {
+    const onServer = serverById.get(line.id);
+    if (onServer) {
+      if (Number(onServer.qty) !== line.qty) await draft.updateLineQty(line.id, line.qty);
+    } else {
+      await draft.addLine({
+        shelfId,
+        itemId: line.itemId,
+        qty: line.qty,
+        unitPriceUsd: line.unitPriceUsd,
+        batchId: line.batchId ?? undefined,
+      });
+    }
+  }
+}
+
+/**
+ * Replaces the local lines with the server's. `expectedRevision` skips it when
+ * the draft was edited locally in the meantime, so that edit is pushed next
+ * time instead of lost; `null` replaces regardless.
+ */
+async function mirror(shelfId: string, lines: DraftLine[], expectedRevision: number | null): Promise<void> {
+  await withWriteTransaction(async (txn) => {
+    const { revision } = await readRevisions(txn, shelfId);
+    if (expectedRevision !== null && revision !== expectedRevision) return;
+    await replaceLines(txn, shelfId, lines, revision);
+  });
+}
+
+function serverLineToDraftLine(line: DailyDraftLine): DraftLine {
+  return {
+    id: line.id,
+    itemId: line.itemId,
+    qty: Number(line.qty),
+    unitPriceUsd: Number(line.unitPriceUsd),
+    batchId: line.batchId ?? null,
+    item: {
+      nameEn: line.item?.nameEn ?? '',
+      nameAr: line.item?.nameAr ?? line.item?.nameEn ?? '',
+      sku: line.item?.sku ?? '',
+      unit: line.item?.unit
+        ? { nameEn: line.item.unit.nameEn ?? line.item.unit.name ?? null, symbol: line.item.unit.symbol ?? null }
+        : null,
+    },
+  };
+}
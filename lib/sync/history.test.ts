@@ -0,0 +1,47 @@
+import { closeDatabase, getDb, initDatabase } from '@/lib/db/database';
+import { api } from '@/lib/api';
+import { ApiError } from '@/lib/apiError';
+import { syncHistory } from '@/lib/sync/history';
+import type { SalesInvoice } from '@/lib/schemas/sales';
+
+function invoice(n: number): SalesInvoice {
+  // Newest first, one a minute, all inside the window
+  const invoiceDate = new Date(Date.now() - n * 60 * 1000).toISOString();
+  return { id: `inv-${n}`, invoiceNumber: `S-${n}`, invoiceDate, status: 'PAID', invoiceType: 'CASH', totalSdg: 100, totalUsd: 0 };
+}
+
+const INVOICES = Array.from({ length: 60 }, (_, n) => invoice(n));
+const empty = { data: [], total: 0, page: 1, pageSize: 100, totalPages: 1 };
+
+beforeAll(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest
+    .spyOn(api.sales, 'invoices')
+    .mockResolvedValue({ data: INVOICES, total: INVOICES.length, page: 1, pageSize: 100, totalPages: 1 });
+  jest.spyOn(api.accounting.supplierInvoices, 'list').mockResolvedValue(empty);
+  jest.spyOn(api.accounting.expenses, 'list').mockResolvedValue(empty);
+  jest.spyOn(api.accounting.transactions, 'list').mockResolvedValue(empty);
+});
+
+beforeEach(() => initDatabase());
+
+afterEach(() => closeDatabase());
+
+describe('syncHistory', () => {
+  it('fetches the details of the newest records only, counting the ones that failed', async () => {
+    const getInvoice = jest.spyOn(api.sales, 'getInvoice').mockImplementation(async (id) => {
+      if (id === 'inv-3') throw new ApiError('Server error', { code: 'INTERNAL_SERVER_ERROR', status: 500 });
+      return { ...INVOICES.find((row) => row.id === id)!, lines: [] };
+    });
+
+    const stats = await syncHistory('b1');
+
+    expect(getInvoice).toHaveBeenCalledTimes(50);
+    expect(getInvoice).not.toHaveBeenCalledWith('inv-50');
+    expect(stats).toMatchObject({ rows: 60, failed: 1 });
+    const detailed = await getDb().getAllAsync<{ id: string }>(
+      `SELECT id FROM history_records WHERE kind = 'salesInvoices' AND detail IS NOT NULL`
+    );
+    expect(detailed).toHaveLength(49);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Recent records kept for browsing offline: the last `HISTORY_DAYS` days of
+ * sales and supplier invoices (with their detail payloads), expenses and
+ * transactions. Records are stored exactly as the API returned them, so a
+ * screen shows a cached record the same way as a fresh one.
+ *
+ * Each kind is downloaded by the sync manager and replaced as a whole, which
+ * also drops what aged out of the window or was deleted on the server. Details
+ * are only fetched again for records whose list row changed, and at most
+ * `MAX_DETAILS_PER_RUN` per kind, newest first: the rest come with later runs,
+ * or when a screen opens the record online (`cacheHistoryDetail`).
+ */
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { getCacheMeta, getDb, updateCacheMeta, withWriteTransaction } from '@/lib/db/database';
+import { api } from '@/lib/api';
+import { isApiError } from '@/lib/apiError';
+import { foldSearchText } from '@/lib/db/search';
+import { addStats, statsOf, textBytes, type SyncStats } from '@/lib/sync/syncRuns';
+import type { Paginated } from '@/lib/schemas/common';
+import type { SalesInvoice } from '@/lib/schemas/sales';
+import type { Expense, SupplierInvoice, Transaction } from '@/lib/schemas/accounting';
+
+export const HISTORY_DAYS = 30;
+
+export interface HistoryRecords {
+  salesInvoices: SalesInvoice;
+  supplierInvoices: SupplierInvoice;
+  expenses: Expense;
+  transactions: Transaction;
+}
+
+export type HistoryKind = keyof HistoryRecords;
+
+const PAGE_SIZE = 100;
+// Stops a server that ignores the date filter from paging through everything
+const MAX_PAGES = 50;
+// Details fetched at once; concurrent queries go out as one batched request of up to this many
+const DETAIL_BATCH_SIZE = 10;
+// Keeps the first download after sign-in from fetching a month of details one by one
+const MAX_DETAILS_PER_RUN = 50;
+
+// ─── Sources ──────────────────────────────────────────────────────────────────
+
+interface HistorySource<K extends HistoryKind> {
+  dateOf: (record: HistoryRecords[K]) => string;
+  /** Every record dated on or after `since`. */
+  fetchSince: (branchId: string, since: string) => Promise<HistoryRecords[K][]>;
+  /** Full payload of one record; kinds whose list rows are complete have none. */
+  fetchDetail?: (id: string) => Promise<HistoryRecords[K]>;
+}
+
+const SOURCES: { [K in HistoryKind]: HistorySource<K> } = {
+  salesInvoices: {
+    dateOf: (invoice) => invoice.invoiceDate,
+    // No date filter on this list: pages come newest first, so stop at the first one reaching past the window
+    fetchSince: (branchId, since) =>
+      fetchPages(
+        (page) => api.sales.invoices(branchId, page),
+        (invoice) => invoice.invoiceDate < since
+      ),
+    fetchDetail: (id) => api.sales.getInvoice(id),
+  },
+  supplierInvoices: {
+    dateOf: (invoice) => invoice.invoiceDate,
+    fetchSince: (branchId, since) =>
+      fetchPages((page) =>
+        api.accounting.supplierInvoices.list({ branchId, startDate: since, page, pageSize: PAGE_SIZE })
+      ),
+    fetchDetail: (id) => api.accounting.supplierInvoices.getById(id),
+  },
+  expenses: {
+    dateOf: (expense) => expense.createdAt,
+    fetchSince: (branchId, since) =>
+      fetchPages((page) => api.accounting.expenses.list(branchId, { startDate: since, page, pageSize: PAGE_SIZE })),
+  },
+  transactions: {
+    dateOf: (transaction) => transaction.createdAt,
+    fetchSince: (branchId, since) =>
+      fetchPages((page) => api.accounting.transactions.list(branchId, { startDate: since, page, pageSize: PAGE_SIZE })),
+  },
+};
+
+async function fetchPages<T>(
+  fetchPage: (page: number) => Promise<Paginated<T>>,
+  isPastWindow?: (row: T) => boolean
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const result = await fetchPage(page);
+    const inWindow = isPastWindow ? result.data.filter((row) => !isPastWindow(row)) : result.data;
+    rows.push(...inWindow);
+    if (inWindow.length < result.data.length || page >= result.totalPages || result.data.length === 0) break;
+  }
+  return rows;
+}
+
+// ─── Downloading ──────────────────────────────────────────────────────────────
+
+/**
+ * Refreshes every kind for the user's branch. Kinds the user may not see
+ * (supplier invoices for a cashier) are skipped; other failures leave that
+ * kind's previous copy in place, and are thrown once the other kinds are done.
+ */
+export async function syncHistory(branchId: string): Promise<SyncStats> {
+  const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const results = await Promise.allSettled(
+    (Object.keys(SOURCES) as HistoryKind[]).map(async (kind) => {
+      try {
+        return await syncKind(kind, branchId, since);
+      } catch (error) {
+        if (!isApiError(error, 'FORBIDDEN')) {
+          throw new Error(`${kind}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        return statsOf([]);
+      }
+    })
+  );
+  await updateCacheMeta('history');
+
+  const failed = results.find((result) => result.status === 'rejected');
+  if (failed) throw failed.reason;
+  return addStats(...results.map((result) => (result as PromiseFulfilledResult<SyncStats>).value));
+}
+
+async function syncKind<K extends HistoryKind>(kind: K, branchId: string, since: string): Promise<SyncStats> {
+  const source = SOURCES[kind] as HistorySource<K>;
+  const records = await source.fetchSince(branchId, since);
+
+  const known = new Map(
+    (
+      await getDb().getAllAsync<{ id: string; record: string; detail: string | null }>(
+        'SELECT id, record, detail FROM history_records WHERE kind = ?',
+        [kind]
+      )
+    ).map((row) => [row.id, row])
+  );
+
+  const rows: HistoryRow[] = records.map((record) => {
+    const json = JSON.stringify(record);
+    const cached = known.get(record.id);
+    const detail = cached?.record === json ? cached.detail : null;
+    return { id: record.id, date: source.dateOf(record), record: json, detail };
+  });
+
+  let detailBytes = 0;
+  let failedDetails = 0;
+  const { fetchDetail } = source;
+  if (fetchDetail) {
+    const missing = rows
+      .filter((row) => !row.detail)
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, MAX_DETAILS_PER_RUN);
+    for (let i = 0; i < missing.length; i += DETAIL_BATCH_SIZE) {
+      await Promise.all(
+        missing.slice(i, i + DETAIL_BATCH_SIZE).map(async (row) => {
+          // A record without its detail can still be listed
+          row.detail = await fetchDetail(row.id).then(JSON.stringify, () => null);
+          if (row.detail) detailBytes += textBytes(row.detail);
+          else failedDetails++;
+        })
+      );
+    }
+  }
+
+  await withWriteTransaction(async (txn) => {
+    await txn.runAsync('DELETE FROM history_records WHERE kind = ?', [kind]);
+    for (const row of rows) await writeRow(txn, kind, row);
+  });
+  await updateCacheMeta(`history:${kind}`);
+  const stats = statsOf(records);
+  return { rows: stats.rows, bytes: stats.bytes + detailBytes, failed: failedDetails };
+}
+
+interface HistoryRow {
+  id: string;
+  date: string;
+  record: string;
+  detail: string | null;
+}
+
+function writeRow(db: SQLiteDatabase, kind: HistoryKind, row: HistoryRow): Promise<unknown> {
+  return db.runAsync(
+    `INSERT INTO history_records (kind, id, record_date, record, detail) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(kind, id) DO UPDATE SET
+       record_date = excluded.record_date, record = excluded.record, detail = excluded.detail`,
+    [kind, row.id, row.date, row.record, row.detail]
+  );
+}
+
+/** Keeps a detail a screen just fetched online, so it is there the next time the device is offline. */
+export async function cacheHistoryDetail<K extends HistoryKind>(kind: K, record: HistoryRecords[K]): Promise<void> {
+  const json = JSON.stringify(record);
+  // A listed record keeps its list row, which the next download compares against
+  await getDb().runAsync(
+    `INSERT INTO history_records (kind, id, record_date, record, detail) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(kind, id) DO UPDATE SET detail = excluded.detail`,
+    [kind, record.id, (SOURCES[kind] as HistorySource<K>).dateOf(record), json, json]
+  );
+}
+
+// ─── Reading ──────────────────────────────────────────────────────────────────
+
+/** Cached list rows of a kind, newest first. */
+export async function getCachedHistory<K extends HistoryKind>(kind: K): Promise<HistoryRecords[K][]> {
+  const rows = await getDb().getAllAsync<{ record: string }>(
+    'SELECT record FROM history_records WHERE kind = ? ORDER BY record_date DESC',
+    [kind]
+  );
+  return rows.map((row) => JSON.parse(row.record));
+}
+
+/** A cached record with its detail payload, or its list row when the detail was never fetched. */
+export async function getCachedHistoryRecord<K extends HistoryKind>(
+  kind: K,
+  id: string
+): Promise<HistoryRecords[K] | null> {
+  const row = await getDb().getFirstAsync<{ record: string; detail: string | null }>(
+    'SELECT record, detail FROM history_records WHERE kind = ? AND id = ?',
+    [kind, id]
+  );
+  return row ? JSON.parse(row.detail ?? row.record) : null;
+}
+
+/** When a kind was last downloaded; `null` if it never was. */
+export async function getHistoryAsOf(kind: HistoryKind): Promise<number | null> {
+  return (await getCacheMeta(`history:${kind}`)) || null;
+}
+
+/**
+ * Case-insensitive match of `query` against the fields a list shows (number,
+ * party, reference, amount...), with Arabic spelling variants folded as the
+ * search indexes fold them.
+ */
+export function matchesSearch(query: string, ...fields: (string | number | null | undefined)[]): boolean {
+  const needle = foldSearchText(query.trim().toLowerCase());
+  if (!needle) return true;
+  return fields.some((field) => field != null && foldSearchText(String(field).toLowerCase()).includes(needle));
+}
@@ -0,0 +1,19 @@
+import type { MutationType } from '@/lib/sync/mutationQueue';
+
+const LABELS: Record<MutationType, { en: string; ar: string }> = {
+  'sales.invoices.create': { en: 'Create Sales Invoice', ar: 'إنشاء فاتورة مبيعات' },
+  'sales.invoices.void': { en: 'Void Invoice', ar: 'إلغاء فاتورة' },
+  'sales.goodsRequests.create': { en: 'Create Goods Request', ar: 'إنشاء طلب بضاعة' },
+  'sales.goodsRequests.submit': { en: 'Submit Goods Request', ar: 'إرسال طلب بضاعة' },
+  'sales.goodsRequests.issue': { en: 'Issue Goods', ar: 'صرف بضاعة' },
+  'sales.customers.create': { en: 'Create Customer', ar: 'إضافة عميل' },
+  'sales.dailyInvoiceDraft.checkout': { en: 'Close Daily Invoice', ar: 'إغلاق الفاتورة اليومية' },
+  'accounting.expenses.create': { en: 'Record Expense', ar: 'تسجيل مصروف' },
+  'accounting.bankPayments.submit': { en: 'Submit Bank Payment', ar: 'إرسال دفعة بنكية' },
+};
+
+/** What a queued write is called in the sync screens. */
+export function mutationLabel(type: string, isAr: boolean): string {
+  const label = LABELS[type as MutationType];
+  return label ? (isAr ? label.ar : label.en) : type;
+}
@@ -0,0 +1,64 @@
+import { closeDatabase, getDb, initDatabase } from '@/lib/db/database';
+import { connectivity } from '@/lib/connectivity';
+import { enqueueMutation, getMutation, resubmitMutation, setQueueOwner } from '@/lib/sync/mutationQueue';
+
+const USER = { id: 'u1', email: 'cashier@example.com', name: 'Cashier' };
+const CONTEXT = { userId: 'u1', branchId: 'b1', role: 'CASHIER' };
+const EXPENSE = { categoryId: 'cat1', amountSdg: 500, description: 'Bags', paymentMethod: 'CASH' };
+
+async function queuedExpense(status: 'failed' | 'dead'): Promise<string> {
+  const { id } = await enqueueMutation('accounting.expenses.create', EXPENSE, CONTEXT);
+  await getDb().runAsync(`UPDATE mutation_queue SET status = ?, error_message = 'Failed' WHERE id = ?`, [status, id]);
+  return id;
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  // Resubmitted entries then wait for the next flush instead of being sent
+  jest.spyOn(connectivity, 'isOnline').mockReturnValue(false);
+});
+
+beforeEach(async () => {
+  await initDatabase();
+  await setQueueOwner(USER);
+});
+
+afterEach(async () => {
+  await setQueueOwner(null);
+  await closeDatabase();
+});
+
+describe('resubmitMutation', () => {
+  it('gives an edited entry the server rejected a new idempotency key', async () => {
+    const id = await queuedExpense('failed');
+
+    await expect(resubmitMutation(id, { ...EXPENSE, amountSdg: 450 })).resolves.toBe('queued');
+
+    const entry = await getMutation(id);
+    expect(entry).toMatchObject({ status: 'pending', payload: { ...EXPENSE, amountSdg: 450 } });
+    expect(entry?.idempotencyKey).not.toBe(id);
+  });
+
+  it('keeps the key of a rejected entry sent again unchanged', async () => {
+    const id = await queuedExpense('failed');
+
+    await resubmitMutation(id, { ...EXPENSE });
+
+    expect(await getMutation(id)).toMatchObject({ status: 'pending', idempotencyKey: id });
+  });
+
+  it('keeps the key of a dead entry, edited or not', async () => {
+    const unchanged = await queuedExpense('dead');
+    const edited = await queuedExpense('dead');
+
+    await resubmitMutation(unchanged, { ...EXPENSE });
+    await resubmitMutation(edited, { ...EXPENSE, amountSdg: 450 });
+
+    expect(await getMutation(unchanged)).toMatchObject({ status: 'pending', idempotencyKey: unchanged });
+    expect(await getMutation(edited)).toMatchObject({
+      status: 'pending',
+      idempotencyKey: edited,
+      payload: { ...EXPENSE, amountSdg: 450 },
+    });
+  });
+});
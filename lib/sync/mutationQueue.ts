@@ -1,12 +1,28 @@
 import { getDb } from '@/lib/db/database';
+import { reindexSearch } from '@/lib/db/search';
 import { useSyncStore, SyncError } from '@/stores/sync';
-import { api } from '@/lib/api';
+import { api, createIdempotencyKey, type MutationOptions } from '@/lib/api';
+import { isApiError, isDuplicateRequest } from '@/lib/apiError';
+import { discardReceipt, uploadKeptReceipt } from '@/lib/sync/receiptStore';
+import { connectivity } from '@/lib/connectivity';
+import { guardUnlock } from '@/lib/unlockAttempts';
+import {
+  confirmReservations,
+  moveBalanceReservations,
+  releaseReservations,
+  reserveFor,
+} from '@/lib/sync/reservations';
 
 export type MutationType =
   | 'sales.invoices.create'
   | 'sales.invoices.void'
   | 'sales.goodsRequests.create'
-  | 'sales.goodsRequests.submit';
+  | 'sales.goodsRequests.submit'
+  | 'sales.goodsRequests.issue'
+  | 'sales.customers.create'
+  | 'sales.dailyInvoiceDraft.checkout'
+  | 'accounting.expenses.create'
+  | 'accounting.bankPayments.submit';
 
 interface UserContext {
   userId: string;
@@ -16,79 +32,297 @@ interface UserContext {
   role: string;
 }
 
-interface QueueEntry {
+export interface QueueEntry {
   id: string;
   mutationType: MutationType;
   payload: any;
   userContext: UserContext;
-  status: 'pending' | 'synced' | 'failed';
+  /** Who made it; it is only ever replayed under their session. */
+  userId: string | null;
+  /** Sent with every replay. The entry id at first, a new key once a rejected payload is corrected. */
+  idempotencyKey: string;
+  /**
+   * `failed`: the server rejected it. `dead`: it kept failing transiently until
+   * `MAX_ATTEMPTS`. Neither is replayed again until the user acts on it.
+   */
+  status: 'pending' | 'synced' | 'failed' | 'dead' | 'discarded';
   localRef: string | null;
   serverResult: any | null;
   errorMessage: string | null;
   createdAt: number;
   syncedAt: number | null;
   retryCount: number;
+  /** Earliest time a pending entry that failed transiently is tried again. */
+  nextAttemptAt: number | null;
+  /** Placeholder id of the record this entry creates, swapped for the server's after replay. */
+  localId: string | null;
+  /** Earlier entries whose local ids this entry's payload uses. */
+  dependsOn: string[];
+  discardReason: string | null;
+  resolvedAt: number | null;
+  resolvedBy: string | null;
 }
 
-function generateId(): string {
-  return `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-}
+const LOCAL_REF_PREFIXES: Partial<Record<MutationType, string>> = {
+  'sales.invoices.create': 'OFFLINE-INV',
+  'sales.dailyInvoiceDraft.checkout': 'OFFLINE-INV',
+  'sales.customers.create': 'OFFLINE-CUST',
+  'accounting.expenses.create': 'OFFLINE-EXP',
+  'accounting.bankPayments.submit': 'OFFLINE-BP',
+};
 
 function generateLocalRef(type: MutationType): string {
-  const prefix = type === 'sales.invoices.create' ? 'OFFLINE-INV' : 'OFFLINE-REQ';
-  return `${prefix}-${Date.now()}`;
+  return `${LOCAL_REF_PREFIXES[type] ?? 'OFFLINE-REQ'}-${Date.now()}`;
+}
+
+// ─── Queue owner ────────────────────────────────────────────────────────────
+
+export interface QueueOwner {
+  id: string;
+  email: string;
+  name: string;
+}
+
+let owner: QueueOwner | null = null;
+
+/**
+ * Sets the signed-in user (null once signed out). Only their entries are
+ * counted, listed and replayed with the stored session; entries other users
+ * left on the device wait for them, or for `replayForUser`.
+ */
+export async function setQueueOwner(user: QueueOwner | null): Promise<void> {
+  owner = user;
+  if (user) {
+    await getDb().runAsync(
+      `INSERT INTO queue_users (user_id, email, name) VALUES (?, ?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET email = excluded.email, name = excluded.name`,
+      [user.id, user.email, user.name]
+    );
+  }
+  await refreshPendingCount();
+}
+
+// ─── Local ids ──────────────────────────────────────────────────────────────
+
+const LOCAL_ID_PREFIX = 'local-';
+
+/**
+ * Id for a record created offline (e.g. a walk-in customer) so other offline
+ * writes can refer to it. Replaced everywhere by the server id once the
+ * create is replayed.
+ */
+export function createLocalId(): string {
+  return LOCAL_ID_PREFIX + createIdempotencyKey();
+}
+
+export function isLocalId(id: string | null | undefined): boolean {
+  return !!id?.startsWith(LOCAL_ID_PREFIX);
+}
+
+/** SQL condition matching rows whose `id` column came from the server. */
+export const SERVER_ID_CONDITION = `id NOT LIKE '${LOCAL_ID_PREFIX}%'`;
+
+/** Offline tables that hold the records some creates make under a local id. */
+const LOCAL_ID_TABLES: Partial<Record<MutationType, string>> = {
+  'sales.customers.create': 'customers',
+};
+
+/** Points the cached row and every queued payload that use the entry's local id at `serverId`. */
+async function adoptServerId(entry: QueueEntry, serverId: string): Promise<void> {
+  if (!entry.localId) return;
+  const { localId } = entry;
+  const table = LOCAL_ID_TABLES[entry.mutationType];
+  const db = getDb();
+  await db.withTransactionAsync(async () => {
+    // The server row may already have arrived through sync; it wins
+    if (table) await db.runAsync(`UPDATE OR REPLACE ${table} SET id = ? WHERE id = ?`, [serverId, localId]);
+    await db.runAsync(
+      `UPDATE mutation_queue SET payload = REPLACE(payload, ?, ?) WHERE status != 'synced'`,
+      [JSON.stringify(localId), JSON.stringify(serverId)]
+    );
+  });
+  if (table === 'customers') {
+    await moveBalanceReservations(localId, serverId);
+    // Drops the local id's entry (its row is gone) and indexes the row under the server id
+    await reindexSearch(db, 'customers', localId);
+    await reindexSearch(db, 'customers', serverId);
+  }
+}
+
+function collectLocalIds(value: unknown, found: Set<string>): Set<string> {
+  if (typeof value === 'string') {
+    if (isLocalId(value)) found.add(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((v) => collectLocalIds(v, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((v) => collectLocalIds(v, found));
+  }
+  return found;
+}
+
+/**
+ * Finds the queued creates behind the local ids in `payload`. Ids whose create
+ * already synced are swapped for the server id straight away; the others
+ * become dependencies, resolved when their parent replays.
+ */
+async function linkDependencies(payload: any): Promise<{ payload: any; dependsOn: string[] }> {
+  const localIds = [...collectLocalIds(payload, new Set())];
+  if (localIds.length === 0) return { payload, dependsOn: [] };
+
+  const parents = await getDb().getAllAsync<{ id: string; local_id: string; status: string; server_result: string | null }>(
+    `SELECT id, local_id, status, server_result FROM mutation_queue
+     WHERE local_id IN (${localIds.map(() => '?').join(', ')})`,
+    localIds
+  );
+  let json = JSON.stringify(payload);
+  const dependsOn: string[] = [];
+  for (const parent of parents) {
+    if (parent.status !== 'synced') {
+      dependsOn.push(parent.id);
+      continue;
+    }
+    // A parent synced without a server id never gets one; waiting on it would hold this entry for good
+    const serverId = JSON.parse(parent.server_result ?? 'null')?.id;
+    if (serverId) json = json.split(JSON.stringify(parent.local_id)).join(JSON.stringify(serverId));
+  }
+  return { payload: JSON.parse(json), dependsOn };
 }
 
+/**
+ * Stores a write for replay. The entry id is also its first idempotency key, so pass
+ * the key of an online attempt that may have reached the server (`id`) to keep
+ * the replay from applying it a second time.
+ *
+ * A create that hands out a local id passes it as `localId`. Any later entry
+ * whose payload uses that id waits for this one and gets the server id in its
+ * place before it is replayed.
+ *
+ * Sales, voids and issues reserve the stock and balance they move right away
+ * (lib/sync/reservations.ts).
+ */
 export async function enqueueMutation(
   mutationType: MutationType,
   payload: any,
-  userContext: UserContext
+  userContext: UserContext,
+  id: string = createIdempotencyKey(),
+  localId?: string
 ): Promise<{ localRef: string; id: string }> {
   const db = getDb();
-  const id = generateId();
   const localRef = generateLocalRef(mutationType);
   const now = Date.now();
+  const linked = await linkDependencies(payload);
 
   await db.runAsync(
     `INSERT INTO mutation_queue
-       (id, mutation_type, payload, user_context, status, local_ref, created_at, retry_count)
-     VALUES (?, ?, ?, ?, 'pending', ?, ?, 0)`,
+       (id, mutation_type, payload, user_context, user_id, status, local_ref, created_at, retry_count, local_id, depends_on,
+        idempotency_key)
+     VALUES (?, ?, ?, ?, ?, 'pending', ?, ?, 0, ?, ?, ?)`,
     [
       id,
       mutationType,
-      JSON.stringify(payload),
+      JSON.stringify(linked.payload),
       JSON.stringify(userContext),
+      userContext.userId,
       localRef,
       now,
+      localId ?? null,
+      linked.dependsOn.length > 0 ? JSON.stringify(linked.dependsOn) : null,
+      id,
     ]
   );
+  await reserveFor({ id, mutationType, payload: linked.payload, userContext });
 
   await refreshPendingCount();
   return { localRef, id };
 }
 
-export async function getPendingMutations(): Promise<QueueEntry[]> {
+/** A user's pending entries (the owner's by default) due for a replay attempt by `now`, oldest first. */
+export async function getPendingMutations(now = Date.now(), userId = owner?.id): Promise<QueueEntry[]> {
+  if (!userId) return [];
   const db = getDb();
   const rows = await db.getAllAsync<any>(
-    `SELECT * FROM mutation_queue WHERE status = 'pending' ORDER BY created_at ASC`
+    `SELECT * FROM mutation_queue
+     WHERE status = 'pending' AND user_id = ? AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+     ORDER BY created_at ASC`,
+    [userId, now]
   );
   return rows.map(deserializeRow);
 }
 
 export async function getAllMutations(): Promise<QueueEntry[]> {
+  if (!owner) return [];
+  const db = getDb();
+  const rows = await db.getAllAsync<any>(
+    `SELECT * FROM mutation_queue WHERE status != 'discarded' AND user_id = ? ORDER BY created_at DESC LIMIT 100`,
+    [owner.id]
+  );
+  return rows.map(deserializeRow);
+}
+
+export async function getMutation(id: string): Promise<QueueEntry | null> {
+  const row = await getDb().getFirstAsync<any>('SELECT * FROM mutation_queue WHERE id = ?', [id]);
+  return row ? deserializeRow(row) : null;
+}
+
+/** Audit trail of entries given up on, most recently discarded first. */
+export async function getDiscardedMutations(): Promise<QueueEntry[]> {
+  if (!owner) return [];
   const db = getDb();
   const rows = await db.getAllAsync<any>(
-    `SELECT * FROM mutation_queue ORDER BY created_at DESC LIMIT 100`
+    `SELECT * FROM mutation_queue WHERE status = 'discarded' AND user_id = ? ORDER BY resolved_at DESC LIMIT 100`,
+    [owner.id]
   );
   return rows.map(deserializeRow);
 }
 
+export interface OtherUserQueue {
+  userId: string;
+  /** Unknown when that user has not signed in since their entries were queued by an older version. */
+  email: string | null;
+  name: string | null;
+  pending: number;
+  /** Failed and dead entries, which only that user can fix or discard. */
+  unresolved: number;
+}
+
+/** Unsynced entries other users left on this device, per user. */
+export async function getOtherUsersQueues(): Promise<OtherUserQueue[]> {
+  const rows = await getDb().getAllAsync<any>(
+    `SELECT q.user_id, u.email, u.name,
+            SUM(q.status = 'pending') AS pending, SUM(q.status != 'pending') AS unresolved
+     FROM mutation_queue q
+     LEFT JOIN queue_users u ON u.user_id = q.user_id
+     WHERE q.status IN ('pending', 'failed', 'dead') AND q.user_id != ?
+     GROUP BY q.user_id`,
+    [owner?.id ?? '']
+  );
+  return rows.map((row) => ({
+    userId: row.user_id,
+    email: row.email,
+    name: row.name,
+    pending: row.pending,
+    unresolved: row.unresolved,
+  }));
+}
+
+/** The owner's entries not on the server yet, pending or waiting to be resolved. */
+export async function getUnsyncedCount(): Promise<number> {
+  if (!owner) return 0;
+  const row = await getDb().getFirstAsync<{ count: number }>(
+    `SELECT COUNT(*) AS count FROM mutation_queue WHERE status IN ('pending', 'failed', 'dead') AND user_id = ?`,
+    [owner.id]
+  );
+  return row?.count ?? 0;
+}
+
 function deserializeRow(row: any): QueueEntry {
   return {
     id: row.id,
     mutationType: row.mutation_type as MutationType,
     payload: JSON.parse(row.payload),
     userContext: JSON.parse(row.user_context),
+    userId: row.user_id ?? null,
+    idempotencyKey: row.idempotency_key ?? row.id,
     status: row.status,
     localRef: row.local_ref,
     serverResult: row.server_result ? JSON.parse(row.server_result) : null,
@@ -96,9 +330,34 @@ function deserializeRow(row: any): QueueEntry {
     createdAt: row.created_at,
     syncedAt: row.synced_at,
     retryCount: row.retry_count,
+    nextAttemptAt: row.next_attempt_at ?? null,
+    localId: row.local_id ?? null,
+    dependsOn: row.depends_on ? JSON.parse(row.depends_on) : [],
+    discardReason: row.discard_reason ?? null,
+    resolvedAt: row.resolved_at ?? null,
+    resolvedBy: row.resolved_by ?? null,
   };
 }
 
+/**
+ * Whether every entry `entry` depends on has synced. If so the entry's payload
+ * is re-read, since the parents' replays have put their server ids into it.
+ */
+async function dependenciesSynced(entry: QueueEntry): Promise<boolean> {
+  if (entry.dependsOn.length === 0) return true;
+  const db = getDb();
+  const row = await db.getFirstAsync<{ count: number }>(
+    `SELECT COUNT(*) AS count FROM mutation_queue
+     WHERE status = 'synced' AND id IN (${entry.dependsOn.map(() => '?').join(', ')})`,
+    entry.dependsOn
+  );
+  if ((row?.count ?? 0) < entry.dependsOn.length) return false;
+
+  const current = await db.getFirstAsync<{ payload: string }>('SELECT payload FROM mutation_queue WHERE id = ?', [entry.id]);
+  if (current) entry.payload = JSON.parse(current.payload);
+  return true;
+}
+
 async function markSynced(id: string, serverResult: any): Promise<void> {
   const db = getDb();
   await db.runAsync(
@@ -107,96 +366,390 @@ async function markSynced(id: string, serverResult: any): Promise<void> {
   );
 }
 
-async function markFailed(id: string, errorMessage: string): Promise<void> {
+async function markFailed(id: string, errorMessage: string, status: 'failed' | 'dead' = 'failed'): Promise<void> {
   const db = getDb();
   await db.runAsync(
     `UPDATE mutation_queue
-     SET status = 'failed', error_message = ?, retry_count = retry_count + 1
+     SET status = ?, error_message = ?, retry_count = retry_count + 1, next_attempt_at = NULL
      WHERE id = ?`,
-    [errorMessage, id]
+    [status, errorMessage, id]
+  );
+}
+
+// ─── Backoff ────────────────────────────────────────────────────────────────
+
+/** Transient failures an entry may have before it is dead-lettered. */
+export const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 60 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+
+/** Delay after the `attempts`-th failure: 1, 2, 4 … minutes, at most an hour, with ±20% jitter. */
+function backoffDelay(attempts: number): number {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/** Keeps the entry pending, but not before its next attempt time. */
+async function scheduleRetry(entry: QueueEntry, errorMessage: string): Promise<void> {
+  const attempts = entry.retryCount + 1;
+  await getDb().runAsync(
+    `UPDATE mutation_queue SET error_message = ?, retry_count = ?, next_attempt_at = ? WHERE id = ?`,
+    [errorMessage, attempts, Date.now() + backoffDelay(attempts), entry.id]
   );
 }
 
-async function replayOne(entry: QueueEntry): Promise<{ success: boolean; result?: any; error?: string }> {
+/**
+ * Uploads the receipts kept with an offline write (`receiptUri` for expenses
+ * and bank payments, `receiptUris` for a daily checkout) and stores their URLs
+ * in the entry, so a later retry does not upload them again. Returns the
+ * payload to send.
+ */
+async function withUploadedReceipt(entry: QueueEntry, token?: string): Promise<any> {
+  const { receiptUri, receiptUris, ...payload } = entry.payload;
+  const kept: string[] = receiptUri ? [receiptUri] : receiptUris ?? [];
+  if (kept.length === 0) return payload;
+
+  const urls: string[] = [];
+  for (const uri of kept) urls.push(await uploadKeptReceipt(uri, { token, source: 'queue' }));
+  const uploaded = receiptUri ? { ...payload, receiptImageUrl: urls[0] } : { ...payload, receiptImageUrls: urls };
+  await getDb().runAsync('UPDATE mutation_queue SET payload = ? WHERE id = ?', [JSON.stringify(uploaded), entry.id]);
+  entry.payload = uploaded;
+  kept.forEach(discardReceipt);
+  return uploaded;
+}
+
+/**
+ * Rebuilds the shelf's server draft from the lines captured at checkout and
+ * checks it out. When the checkout had already gone through, the server answers
+ * with the first checkout's result and leaves the rebuilt lines on the draft,
+ * where the next reconcile would copy them into the cart. Whether the answer
+ * is a repeat cannot always be told, so the draft is cleared after every replay.
+ */
+async function replayDailyCheckout(entry: QueueEntry, options: MutationOptions): Promise<any> {
+  const { lines, ...input } = await withUploadedReceipt(entry, options.token);
+  const draft = api.sales.dailyInvoiceDraft;
+  const session = { source: options.source, token: options.token };
+  await draft.clearDraft(input.shelfId, session);
+  for (const line of lines) await draft.addLine({ shelfId: input.shelfId, ...line }, session);
+  // Nothing of the cart is on the server draft while its checkout is queued, so clearing loses nothing
+  let result: any;
+  try {
+    result = await draft.checkout(input, options);
+  } catch (err) {
+    // A refused checkout leaves the rebuilt lines too; the refusal is what gets reported
+    await draft.clearDraft(input.shelfId, session).catch(() => undefined);
+    throw err;
+  }
+  await draft.clearDraft(input.shelfId, session);
+  return result;
+}
+
+/**
+ * `transient` marks failures worth retrying as is: the request may not have
+ * reached the server, or the server could not handle it at the time. Without
+ * `token` the stored session is used.
+ */
+async function replayOne(
+  entry: QueueEntry,
+  token?: string
+): Promise<{ success: boolean; result?: any; error?: string; transient?: boolean }> {
+  // Same key on every replay: a response lost after the server committed is answered as a duplicate
+  const options: MutationOptions = { idempotencyKey: entry.idempotencyKey, source: 'queue', token };
   try {
     let result: any;
     switch (entry.mutationType) {
       case 'sales.invoices.create':
-        result = await api.sales.createInvoice(entry.payload);
+        result = await api.sales.createInvoice(entry.payload, options);
         break;
       case 'sales.invoices.void':
-        result = await api.sales.voidInvoice(entry.payload.id, entry.payload.reason);
+        result = await api.sales.voidInvoice(entry.payload.id, entry.payload.reason, options);
         break;
       case 'sales.goodsRequests.create':
-        result = await api.sales.goodsRequests.create(entry.payload);
+        result = await api.sales.goodsRequests.create(entry.payload, options);
         break;
       case 'sales.goodsRequests.submit':
-        result = await api.sales.goodsRequests.submit(entry.payload.id);
+        result = await api.sales.goodsRequests.submit(entry.payload.id, options);
+        break;
+      case 'sales.goodsRequests.issue': {
+        const { requestId, warehouseId, lines } = entry.payload;
+        result = await api.sales.goodsRequests.issue({ requestId, warehouseId, lines }, options);
+        break;
+      }
+      case 'sales.customers.create':
+        result = await api.sales.customers.create(entry.payload, options);
+        break;
+      case 'sales.dailyInvoiceDraft.checkout':
+        result = await replayDailyCheckout(entry, options);
+        break;
+      case 'accounting.expenses.create':
+        result = await api.accounting.expenses.create(await withUploadedReceipt(entry, token), options);
+        break;
+      case 'accounting.bankPayments.submit':
+        result = await api.accounting.bankPayments.submit(await withUploadedReceipt(entry, token), options);
         break;
       default:
         throw new Error(`Unknown mutation type: ${entry.mutationType}`);
     }
     return { success: true, result };
   } catch (err: any) {
-    return { success: false, error: err?.message || 'Unknown error' };
+    if (isDuplicateRequest(err)) return { success: true, result: err.originalResult ?? null };
+    return { success: false, error: err?.message || 'Unknown error', transient: isApiError(err) && err.retryable };
   }
 }
 
-export async function flushMutationQueue(): Promise<{ synced: number; failed: number }> {
-  const pending = await getPendingMutations();
-  if (pending.length === 0) return { synced: 0, failed: 0 };
+// ─── Replay ─────────────────────────────────────────────────────────────────
 
-  const { clearSyncErrors, addSyncError, setPendingMutations } = useSyncStore.getState();
-  clearSyncErrors();
+type ReplayOutcome = 'synced' | 'failed' | 'dead' | 'retrying' | 'held';
 
-  let synced = 0;
-  let failed = 0;
+export type FlushResult = Record<ReplayOutcome, number>;
+
+// Every replay runs through here, one at a time
+let replaying: Promise<unknown> = Promise.resolve();
+let currentFlush: Promise<FlushResult> | null = null;
+
+function exclusive<T>(task: () => Promise<T>): Promise<T> {
+  const run = replaying.then(task);
+  replaying = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Replays the pending entries that are due, oldest first. Single-flight: a call
+ * made while a flush is running gets that flush's result instead of starting a
+ * second one.
+ *
+ * An entry whose parent has not synced stays pending (held). A transient
+ * failure reschedules the entry with backoff and ends this flush, since the
+ * entries after it would most likely fail the same way.
+ */
+export function flushMutationQueue(): Promise<FlushResult> {
+  currentFlush ??= exclusive(flushDue).finally(() => {
+    currentFlush = null;
+  });
+  return currentFlush;
+}
+
+/** Replays `userId`'s due entries, under `token` when they are not the owner's. */
+async function flushDue(userId = owner?.id, token?: string): Promise<FlushResult> {
+  const counts: FlushResult = { synced: 0, failed: 0, dead: 0, retrying: 0, held: 0 };
+  const pending = await getPendingMutations(Date.now(), userId);
+  if (pending.length === 0) return counts;
 
   for (const entry of pending) {
-    const outcome = await replayOne(entry);
-    if (outcome.success) {
-      await markSynced(entry.id, outcome.result);
-      synced++;
-    } else {
-      await markFailed(entry.id, outcome.error || 'Failed');
-      failed++;
-      const syncError: SyncError = {
-        id: entry.id,
-        mutationType: entry.mutationType,
-        localRef: entry.localRef,
-        errorMessage: outcome.error || 'Failed',
-        failedAt: Date.now(),
-      };
-      addSyncError(syncError);
+    const outcome = await processEntry(entry, token);
+    counts[outcome]++;
+    if (outcome === 'retrying') break;
+  }
+
+  await refreshPendingCount();
+  return counts;
+}
+
+async function processEntry(entry: QueueEntry, token?: string): Promise<ReplayOutcome> {
+  if (!(await dependenciesSynced(entry))) return 'held';
+
+  let outcome = await replayOne(entry, token);
+  if (outcome.success && entry.localId && !outcome.result?.id) {
+    // A repeat answered without the first result: the record exists, but the entries using it
+    // cannot be pointed at it, so this stays unsynced and holds them until the id comes back
+    outcome = {
+      success: false,
+      error: 'The server already has this record but did not return its id',
+      transient: true,
+    };
+  }
+  if (outcome.success) {
+    await markSynced(entry.id, outcome.result);
+    await confirmReservations(entry.id);
+    if (outcome.result?.id) await adoptServerId(entry, outcome.result.id);
+    return 'synced';
+  }
+
+  const error = outcome.error || 'Failed';
+  if (outcome.transient && entry.retryCount + 1 < MAX_ATTEMPTS) {
+    await scheduleRetry(entry, error);
+    return 'retrying';
+  }
+
+  const status = outcome.transient ? 'dead' : 'failed';
+  await markFailed(entry.id, error, status);
+  await releaseReservations(entry.id);
+  // Another user's failures are theirs to resolve when they next sign in
+  if (entry.userId !== owner?.id) return status;
+  const syncError: SyncError = {
+    id: entry.id,
+    mutationType: entry.mutationType,
+    localRef: entry.localRef,
+    errorMessage: error,
+    failedAt: Date.now(),
+  };
+  useSyncStore.getState().addSyncError(syncError);
+  return status;
+}
+
+// ─── Resolving failed entries ───────────────────────────────────────────────
+
+/**
+ * Saves a corrected payload for a failed or dead entry and replays just that
+ * entry with a fresh attempt count. Offline it goes back to pending, holding
+ * stock for its edited lines, and waits for the next flush.
+ *
+ * Only an edited entry the server rejected gets a new idempotency key, since
+ * under the old one it would be answered with the rejection again. A dead entry
+ * keeps its key even when edited: one of its attempts may have been applied, and
+ * a new key would apply it a second time.
+ */
+export function resubmitMutation(id: string, payload: object): Promise<ReplayOutcome | 'queued'> {
+  return exclusive(async () => {
+    const stored = await getMutation(id);
+    if (!stored || (stored.status !== 'failed' && stored.status !== 'dead') || stored.userId !== owner?.id) {
+      return 'failed';
+    }
+    const edited = JSON.stringify(payload) !== JSON.stringify(stored.payload);
+    const key = stored.status === 'failed' && edited ? createIdempotencyKey() : stored.idempotencyKey;
+    await getDb().runAsync(
+      `UPDATE mutation_queue
+       SET payload = ?, idempotency_key = ?, status = 'pending', error_message = NULL, retry_count = 0,
+           next_attempt_at = NULL
+       WHERE id = ? AND status IN ('failed', 'dead') AND user_id = ?`,
+      [JSON.stringify(payload), key, id, owner?.id ?? null]
+    );
+    useSyncStore.getState().removeSyncError(id);
+
+    const entry = await getMutation(id);
+    if (entry?.status !== 'pending' || entry.userId !== owner?.id) return 'failed';
+    await reserveFor(entry);
+    const outcome = connectivity.isOnline() ? await processEntry(entry) : 'queued';
+    await refreshPendingCount();
+    return outcome;
+  });
+}
+
+/**
+ * Sends the pending entries another user left on this device, under a session
+ * opened with their password and closed again afterwards, so they are never
+ * attributed to whoever is signed in. Their failures stay with them.
+ */
+export function replayForUser(userId: string, email: string, password: string): Promise<FlushResult> {
+  return exclusive(async () => {
+    // A wrong password here counts towards wiping the offline data, like one at sign-in
+    const session = await guardUnlock(email, () => api.auth.login(email, password, { store: false }));
+    try {
+      if (session.user.id !== userId) throw new Error(`${email} did not make these operations`);
+      // Asked for now, so entries waiting out a backoff go too
+      await getDb().runAsync(
+        `UPDATE mutation_queue SET next_attempt_at = NULL WHERE status = 'pending' AND user_id = ?`,
+        [userId]
+      );
+      return await flushDue(userId, session.token);
+    } finally {
+      await api.auth.logout(session.token);
+    }
+  });
+}
+
+/** Unsynced entries that wait on `id`, directly or through another entry. */
+export async function getDependents(id: string): Promise<QueueEntry[]> {
+  const db = getDb();
+  const found = new Map<string, QueueEntry>();
+  const parents = [id];
+  while (parents.length > 0) {
+    const parent = parents.pop()!;
+    const rows = await db.getAllAsync<any>(
+      `SELECT * FROM mutation_queue WHERE status IN ('pending', 'failed', 'dead') AND depends_on LIKE ?`,
+      [`%${JSON.stringify(parent)}%`]
+    );
+    for (const row of rows) {
+      if (found.has(row.id)) continue;
+      found.set(row.id, deserializeRow(row));
+      parents.push(row.id);
     }
   }
+  return [...found.values()];
+}
+
+/**
+ * Gives up on an entry and on every entry waiting for it, keeping them as an
+ * audit record with the reason and the name of the user who discarded it.
+ * Receipts kept for them are deleted, and so is the cached record a create
+ * made under its local id.
+ */
+export async function discardMutation(id: string, reason: string, discardedBy: string): Promise<void> {
+  const entry = await getMutation(id);
+  if (!entry || entry.status === 'synced' || entry.status === 'discarded') return;
+  const dependents = await getDependents(id);
+
+  const db = getDb();
+  const now = Date.now();
+  await db.withTransactionAsync(async () => {
+    for (const e of [entry, ...dependents]) {
+      const note = e === entry ? reason : `Depends on ${entry.localRef ?? entry.id}, which was discarded: ${reason}`;
+      await db.runAsync(
+        `UPDATE mutation_queue
+         SET status = 'discarded', discard_reason = ?, resolved_at = ?, resolved_by = ?
+         WHERE id = ?`,
+        [note, now, discardedBy, e.id]
+      );
+      const table = LOCAL_ID_TABLES[e.mutationType];
+      if (table && e.localId) await db.runAsync(`DELETE FROM ${table} WHERE id = ?`, [e.localId]);
+    }
+  });
 
+  for (const e of [entry, ...dependents]) {
+    await releaseReservations(e.id);
+    const { receiptUri, receiptUris } = e.payload ?? {};
+    [receiptUri, ...(receiptUris ?? [])].filter(Boolean).forEach(discardReceipt);
+    useSyncStore.getState().removeSyncError(e.id);
+  }
   await refreshPendingCount();
-  return { synced, failed };
 }
 
+/** Makes entries waiting out a backoff due now, e.g. because the connection is back. */
+export async function releaseBackoff(): Promise<void> {
+  await getDb().runAsync(`UPDATE mutation_queue SET next_attempt_at = NULL WHERE status = 'pending'`);
+}
+
+/** Puts every failed and dead entry back in the queue with a fresh attempt count. */
 export async function retryFailed(): Promise<void> {
+  if (!owner) return;
   const db = getDb();
+  const rows = await db.getAllAsync<any>(
+    `SELECT * FROM mutation_queue WHERE status IN ('failed', 'dead') AND user_id = ?`,
+    [owner.id]
+  );
   await db.runAsync(
-    `UPDATE mutation_queue SET status = 'pending', error_message = NULL WHERE status = 'failed'`
+    `UPDATE mutation_queue
+     SET status = 'pending', error_message = NULL, retry_count = 0, next_attempt_at = NULL
+     WHERE status IN ('failed', 'dead') AND user_id = ?`,
+    [owner.id]
   );
+  for (const row of rows) await reserveFor(deserializeRow(row));
+  useSyncStore.getState().clearSyncErrors();
   await refreshPendingCount();
 }
 
 export async function refreshPendingCount(): Promise<void> {
   const db = getDb();
   const row = await db.getFirstAsync<{ count: number }>(
-    `SELECT COUNT(*) as count FROM mutation_queue WHERE status = 'pending'`
+    `SELECT COUNT(*) as count FROM mutation_queue WHERE status = 'pending' AND user_id = ?`,
+    [owner?.id ?? null]
   );
   useSyncStore.getState().setPendingMutations(row?.count ?? 0);
 }
 
-export async function getLocalQueuedInvoices(): Promise<any[]> {
+export function getLocalQueuedInvoices(): Promise<any[]> {
+  return getLocalQueued('sales.invoices.create');
+}
+
+/** Payloads of the owner's pending writes of one type, newest first, tagged for display next to server rows. */
+export async function getLocalQueued(mutationType: MutationType): Promise<any[]> {
+  if (!owner) return [];
   const db = getDb();
   const rows = await db.getAllAsync<any>(
     `SELECT * FROM mutation_queue
-     WHERE mutation_type = 'sales.invoices.create' AND status = 'pending'
-     ORDER BY created_at DESC`
+     WHERE mutation_type = ? AND status = 'pending' AND user_id = ?
+     ORDER BY created_at DESC`,
+    [mutationType, owner.id]
   );
   return rows.map((row) => {
     const entry = deserializeRow(row);
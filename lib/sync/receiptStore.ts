@@ -0,0 +1,44 @@
+/**
+ * Receipt photos attached to writes made offline. The picker's URI points into
+ * a cache the OS may clear at any time, so the image is copied into the app's
+ * documents and only uploaded when its queue entry is replayed.
+ */
+import { Directory, File, Paths } from 'expo-file-system';
+import { uploadReceipt, type MutationOptions } from '@/lib/api';
+
+const RECEIPTS_DIR = 'pending-receipts';
+
+function receiptsDir(): Directory {
+  const dir = new Directory(Paths.document, RECEIPTS_DIR);
+  if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+  return dir;
+}
+
+/** Copies a picked image somewhere it survives until upload; returns the copy's URI. */
+export function keepReceipt(uri: string, name: string): string {
+  const extension = /\.(\w+)$/.exec(uri)?.[1] ?? 'jpg';
+  const copy = new File(receiptsDir(), `${name}.${extension}`);
+  if (copy.exists) copy.delete();
+  new File(uri).copy(copy);
+  return copy.uri;
+}
+
+/**
+ * Uploads a kept receipt (under `options.token`'s session, if given) and returns
+ * its server URL. The local copy stays until `discardReceipt`.
+ */
+export async function uploadKeptReceipt(uri: string, options?: Pick<MutationOptions, 'token' | 'source'>): Promise<string> {
+  if (!new File(uri).exists) {
+    throw new Error('The receipt image saved with this entry is missing from the device');
+  }
+  return uploadReceipt(uri, undefined, options);
+}
+
+export function discardReceipt(uri: string): void {
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch {
+    // Leftover files are harmless
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Stock and customer balance taken by writes still in the mutation queue.
+ * Cached batches and balances hold the server's numbers; a queued sale, void
+ * or goods-request issue records here what it takes or gives back, and the
+ * cache readers add that on top, so a second offline sale sees what the first
+ * one left.
+ *
+ * A rejected or discarded entry gives its reservation back at once. A synced
+ * one keeps it until the next refresh of the cached rows, whose server numbers
+ * then include the write.
+ */
+import { getDb, withWriteTransaction } from '@/lib/db/database';
+import type { QueueEntry } from '@/lib/sync/mutationQueue';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+export type StockLocation = { shelfId: string } | { warehouseId: string };
+
+type ReservableEntry = Pick<QueueEntry, 'id' | 'mutationType' | 'payload' | 'userContext'>;
+
+/** `batches` with each row's reserved qty applied; use in place of the table. */
+export const RESERVED_BATCHES = `(
+  SELECT b.id, b.item_id, b.warehouse_id, b.shelf_id, b.unit_cost_usd, b.received_date, b.is_consignment,
+         b.qty_remaining + COALESCE((SELECT SUM(r.qty_delta) FROM stock_reservations r WHERE r.batch_id = b.id), 0)
+           AS qty_remaining
+  FROM batches b
+)`;
+
+/** `customers` with reserved balance changes applied; use in place of the table. */
+export const RESERVED_CUSTOMERS = `(
+  SELECT c.id, c.name, c.name_ar, c.phone, c.email, c.customer_type, c.is_active, c.credit_limit_sdg,
+         COALESCE(c.balance_sdg, 0)
+           + COALESCE((SELECT SUM(r.amount_sdg) FROM balance_reservations r WHERE r.customer_id = c.id), 0)
+           AS balance_sdg
+  FROM customers c
+)`;
+
+function locationColumn(location: StockLocation): { column: 'shelf_id' | 'warehouse_id'; id: string } {
+  return 'shelfId' in location
+    ? { column: 'shelf_id', id: location.shelfId }
+    : { column: 'warehouse_id', id: location.warehouseId };
+}
+
+/**
+ * `{ item_id, qty_remaining }` per item held at a location, reservations
+ * included. Stock given back or issued to the location while offline has no
+ * cached batch yet and only shows up here.
+ */
+export function stockAtSql(location: StockLocation): { sql: string; params: string[] } {
+  const { column, id } = locationColumn(location);
+  return {
+    sql: `SELECT item_id, SUM(qty) AS qty_remaining FROM (
+            SELECT item_id, qty_remaining AS qty FROM batches WHERE ${column} = ?
+            UNION ALL
+            SELECT item_id, qty_delta AS qty FROM stock_reservations WHERE ${column} = ?
+          )
+          GROUP BY item_id`,
+    params: [id, id],
+  };
+}
+
+export async function getAvailableQty(
+  itemId: string,
+  location: StockLocation,
+  db: SQLiteDatabase = getDb()
+): Promise<number> {
+  const { sql, params } = stockAtSql(location);
+  const row = await db.getFirstAsync<{ qty_remaining: number }>(
+    `SELECT qty_remaining FROM (${sql}) WHERE item_id = ?`,
+    [...params, itemId]
+  );
+  return row?.qty_remaining ?? 0;
+}
+
+export async function getCustomerBalance(customerId: string): Promise<{ balanceSdg: number; creditLimitSdg: number } | null> {
+  const row = await getDb().getFirstAsync<{ balance_sdg: number; credit_limit_sdg: number | null }>(
+    `SELECT balance_sdg, credit_limit_sdg FROM ${RESERVED_CUSTOMERS} WHERE id = ?`,
+    [customerId]
+  );
+  return row ? { balanceSdg: row.balance_sdg, creditLimitSdg: row.credit_limit_sdg ?? 0 } : null;
+}
+
+// ─── Reserving ──────────────────────────────────────────────────────────────
+
+/**
+ * Records what the entry takes, replacing anything recorded for it before, so
+ * it can be called again after the payload is edited. Types that move no
+ * stock or money are ignored.
+ */
+export function reserveFor(entry: ReservableEntry): Promise<void> {
+  return withWriteTransaction(async (txn) => {
+    await deleteReservations(txn, entry.id);
+    const { payload } = entry;
+    switch (entry.mutationType) {
+      case 'sales.invoices.create':
+      case 'sales.dailyInvoiceDraft.checkout':
+        await reserveSale(txn, entry);
+        break;
+      case 'sales.invoices.void': {
+        const restock = payload.restock;
+        if (!restock) break;
+        for (const line of restock.lines) {
+          await insertStock(txn, entry.id, line.itemId, { shelfId: restock.shelfId }, line.qty, null);
+        }
+        if (restock.customerId && restock.creditSdg) {
+          await insertBalance(txn, entry.id, restock.customerId, -restock.creditSdg);
+        }
+        break;
+      }
+      case 'sales.goodsRequests.issue':
+        for (const line of payload.lines) {
+          const itemId = payload.itemIds?.[line.lineId];
+          if (!itemId || !(line.qtyIssued > 0)) continue;
+          await takeFifo(txn, entry.id, itemId, { warehouseId: payload.warehouseId }, line.qtyIssued, null);
+          await insertStock(txn, entry.id, itemId, { shelfId: payload.shelfId }, line.qtyIssued, null);
+        }
+        break;
+    }
+  });
+}
+
+/** Stock leaves the shelf FIFO; a credit sale also goes on the customer's balance at the cached day rate. */
+async function reserveSale(txn: SQLiteDatabase, entry: ReservableEntry): Promise<void> {
+  const { shelfId, lines, customerId, paymentMethod } = entry.payload;
+  for (const line of lines ?? []) {
+    await takeFifo(txn, entry.id, line.itemId, { shelfId }, line.qty, line.batchId ?? null);
+  }
+
+  if (paymentMethod !== 'CREDIT' || !customerId) return;
+  const day = await txn.getFirstAsync<{ exchange_rate_usd_sdg: number }>(
+    'SELECT exchange_rate_usd_sdg FROM day_cycle WHERE branch_id = ?',
+    [entry.userContext.branchId]
+  );
+  const totalUsd = (lines ?? []).reduce((sum: number, l: any) => sum + l.qty * l.unitPriceUsd, 0);
+  const totalSdg = Math.round(totalUsd * (day?.exchange_rate_usd_sdg ?? 1) * 100) / 100;
+  await insertBalance(txn, entry.id, customerId, totalSdg);
+}
+
+/**
+ * Takes `qty` out of the location's batches, oldest received first (or the
+ * line's chosen batch first, as the server does). Whatever the cache does not
+ * show as on hand is still recorded against the location, so its total drops
+ * by the full amount.
+ */
+async function takeFifo(
+  txn: SQLiteDatabase,
+  mutationId: string,
+  itemId: string,
+  location: StockLocation,
+  qty: number,
+  preferredBatchId: string | null
+): Promise<void> {
+  const { column, id } = locationColumn(location);
+  const batches = await txn.getAllAsync<{ id: string; qty_remaining: number }>(
+    `SELECT id, qty_remaining FROM ${RESERVED_BATCHES}
+     WHERE item_id = ? AND ${column} = ? AND qty_remaining > 0
+     ORDER BY id = ? DESC, received_date ASC`,
+    [itemId, id, preferredBatchId ?? '']
+  );
+
+  let remaining = qty;
+  for (const batch of batches) {
+    if (remaining <= 0) break;
+    const taken = Math.min(batch.qty_remaining, remaining);
+    await insertStock(txn, mutationId, itemId, location, -taken, batch.id);
+    remaining -= taken;
+  }
+  if (remaining > 1e-9) await insertStock(txn, mutationId, itemId, location, -remaining, null);
+}
+
+function insertStock(
+  txn: SQLiteDatabase,
+  mutationId: string,
+  itemId: string,
+  location: StockLocation,
+  qtyDelta: number,
+  batchId: string | null
+): Promise<unknown> {
+  return txn.runAsync(
+    `INSERT INTO stock_reservations (mutation_id, item_id, batch_id, shelf_id, warehouse_id, qty_delta)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      mutationId,
+      itemId,
+      batchId,
+      'shelfId' in location ? location.shelfId : null,
+      'warehouseId' in location ? location.warehouseId : null,
+      qtyDelta,
+    ]
+  );
+}
+
+function insertBalance(txn: SQLiteDatabase, mutationId: string, customerId: string, amountSdg: number): Promise<unknown> {
+  return txn.runAsync('INSERT INTO balance_reservations (mutation_id, customer_id, amount_sdg) VALUES (?, ?, ?)', [
+    mutationId,
+    customerId,
+    amountSdg,
+  ]);
+}
+
+async function deleteReservations(db: SQLiteDatabase, mutationId: string): Promise<void> {
+  await db.runAsync('DELETE FROM stock_reservations WHERE mutation_id = ?', [mutationId]);
+  await db.runAsync('DELETE FROM balance_reservations WHERE mutation_id = ?', [mutationId]);
+}
+
+// ─── Reconciling ────────────────────────────────────────────────────────────
+
+/** The server applied the write; its reservation stays until the cached rows catch up. */
+export async function confirmReservations(mutationId: string): Promise<void> {
+  const db = getDb();
+  const now = Date.now();
+  await db.runAsync('UPDATE stock_reservations SET confirmed_at = ? WHERE mutation_id = ?', [now, mutationId]);
+  await db.runAsync('UPDATE balance_reservations SET confirmed_at = ? WHERE mutation_id = ?', [now, mutationId]);
+}
+
+/** The write was rejected or given up on: what it took is available again. */
+export function releaseReservations(mutationId: string): Promise<void> {
+  return withWriteTransaction((txn) => deleteReservations(txn, mutationId));
+}
+
+/** A customer created offline now has its server id. */
+export async function moveBalanceReservations(fromCustomerId: string, toCustomerId: string): Promise<void> {
+  await getDb().runAsync('UPDATE balance_reservations SET customer_id = ? WHERE customer_id = ?', [
+    toCustomerId,
+    fromCustomerId,
+  ]);
+}
+
+/**
+ * Drops confirmed stock reservations at a location whose batches were
+ * refreshed by a sync started at `syncStartedAt`. Writes confirmed after that
+ * may be missing from what it fetched, so they are kept for the next one.
+ */
+export async function clearConfirmedStock(location: StockLocation, syncStartedAt: number): Promise<void> {
+  const { column, id } = locationColumn(location);
+  await getDb().runAsync(
+    `DELETE FROM stock_reservations WHERE confirmed_at IS NOT NULL AND confirmed_at < ? AND ${column} = ?`,
+    [syncStartedAt, id]
+  );
+}
+
+/** Like `clearConfirmedStock`, after customers were refreshed. */
+export async function clearConfirmedBalances(syncStartedAt: number): Promise<void> {
+  await getDb().runAsync('DELETE FROM balance_reservations WHERE confirmed_at IS NOT NULL AND confirmed_at < ?', [
+    syncStartedAt,
+  ]);
+}
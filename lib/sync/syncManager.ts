@@ -1,8 +1,36 @@
-import { getDb, getCacheMeta, updateCacheMeta } from '@/lib/db/database';
+import type { SQLiteBindValue, SQLiteDatabase } from 'expo-sqlite';
+import {
+  clearSyncCursors,
+  getCacheMeta,
+  getSyncCursor,
+  setSyncCursor,
+  updateCacheMeta,
+  withWriteTransaction,
+} from '@/lib/db/database';
 import { connectivity } from '@/lib/connectivity';
 import { useSyncStore } from '@/stores/sync';
-import { flushMutationQueue, refreshPendingCount } from '@/lib/sync/mutationQueue';
+import { flushMutationQueue, refreshPendingCount, releaseBackoff, SERVER_ID_CONDITION } from '@/lib/sync/mutationQueue';
+import { reconcileDailyDraft } from '@/lib/sync/dailyDraft';
+import { clearConfirmedBalances, clearConfirmedStock, type StockLocation } from '@/lib/sync/reservations';
+import { syncHistory } from '@/lib/sync/history';
+import { invalidateCachedAnswers, invalidateCachedTables } from '@/lib/offlineQuery';
+import { reindexSearch, type SearchTable } from '@/lib/db/search';
+import { addStats, startSyncRun, statsOf, type SyncRunRecorder, type SyncStats, type SyncTrigger } from '@/lib/sync/syncRuns';
 import { api } from '@/lib/api';
+import { isApiError } from '@/lib/apiError';
+import type {
+  Batch,
+  Category,
+  Item,
+  PricePolicy,
+  Shelf,
+  Unit,
+  UnitConversion,
+  Warehouse,
+} from '@/lib/schemas/inventory';
+import type { Customer } from '@/lib/schemas/sales';
+import type { BankAccount, ExpenseCategory } from '@/lib/schemas/accounting';
+import type { SyncRow, SyncTable } from '@/lib/schemas/sync';
 
 // How long (ms) before a table is considered stale and needs re-sync
 const STALE_THRESHOLDS: Record<string, number> = {
@@ -16,6 +44,10 @@ const STALE_THRESHOLDS: Record<string, number> = {
   shelves: 10 * 60 * 1000,
   day_cycle: 2 * 60 * 1000,
   batches: 2 * 60 * 1000,
+  expense_categories: 30 * 60 * 1000,
+  bank_accounts: 30 * 60 * 1000,
+  // Recent invoices, expenses and transactions (lib/sync/history.ts)
+  history: 15 * 60 * 1000,
 };
 
 interface UserContext {
@@ -30,215 +62,430 @@ let _syncInterval: ReturnType<typeof setInterval> | null = null;
 let _connectivityUnsub: (() => void) | null = null;
 let _currentUserContext: UserContext | null = null;
 
-// ─── Sync individual tables ───────────────────────────────────────────────────
+// ─── Row writers ──────────────────────────────────────────────────────────────
 
-async function syncItemCategories(): Promise<void> {
-  const data = await api.inventory.categories.list();
-  const categories = data?.data || data || [];
-  if (!Array.isArray(categories)) return;
-  const db = getDb();
-
-  await db.runAsync('DELETE FROM item_categories');
-  for (const cat of categories) {
-    await db.runAsync(
-      `INSERT OR REPLACE INTO item_categories (id, name, name_ar, parent_id, is_active)
-       VALUES (?, ?, ?, ?, ?)`,
-      [cat.id, cat.name, cat.nameAr, cat.parentId ?? null, cat.isActive ? 1 : 0]
-    );
-  }
-  await updateCacheMeta('item_categories');
+/** How rows of one offline table are stored: an upsert and the values it binds. */
+interface RowWriter<T> {
+  sql: string;
+  values: (row: T) => SQLiteBindValue[];
 }
 
-async function syncUnits(): Promise<void> {
-  const data = await api.inventory.units.list();
-  const units = data?.data || data || [];
-  if (!Array.isArray(units)) return;
-  const db = getDb();
+const categoryWriter: RowWriter<Category> = {
+  sql: `INSERT OR REPLACE INTO item_categories (id, name, name_ar, parent_id, is_active)
+        VALUES (?, ?, ?, ?, ?)`,
+  values: (cat) => [cat.id, cat.name, cat.nameAr, cat.parentId ?? null, cat.isActive ? 1 : 0],
+};
 
-  await db.runAsync('DELETE FROM units');
-  for (const u of units) {
-    await db.runAsync(
-      `INSERT OR REPLACE INTO units (id, name, name_ar, symbol) VALUES (?, ?, ?, ?)`,
-      [u.id, u.name, u.nameAr, u.symbol]
-    );
-  }
-  await updateCacheMeta('units');
-}
+const unitWriter: RowWriter<Unit> = {
+  sql: `INSERT OR REPLACE INTO units (id, name, name_ar, symbol) VALUES (?, ?, ?, ?)`,
+  values: (u) => [u.id, u.name, u.nameAr, u.symbol],
+};
+
+const unitConversionWriter: RowWriter<UnitConversion> = {
+  sql: `INSERT OR REPLACE INTO unit_conversions (id, from_unit_id, to_unit_id, factor)
+        VALUES (?, ?, ?, ?)`,
+  values: (c) => [c.id, c.fromUnitId, c.toUnitId, c.factor],
+};
 
-async function syncUnitConversions(): Promise<void> {
-  const data = await api.inventory.unitConversions.list();
-  const conversions = data?.data || data || [];
-  if (!Array.isArray(conversions)) return;
-  const db = getDb();
+const itemWriter: RowWriter<Item> = {
+  sql: `INSERT OR REPLACE INTO items
+          (id, sku, name_en, name_ar, category_id, unit_id, is_active, is_consignment,
+           min_stock_level, max_stock_level, unit_symbol, unit_name, category_name, category_name_ar)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  values: (item) => [
+    item.id,
+    item.sku,
+    item.nameEn,
+    item.nameAr,
+    item.categoryId ?? null,
+    item.unitId ?? null,
+    item.isActive ? 1 : 0,
+    item.isConsignment ? 1 : 0,
+    item.minStockLevel ?? null,
+    item.maxStockLevel ?? null,
+    item.unit?.symbol ?? null,
+    item.unit?.name ?? null,
+    item.category?.name ?? null,
+    item.category?.nameAr ?? null,
+  ],
+};
 
-  await db.runAsync('DELETE FROM unit_conversions');
-  for (const c of conversions) {
-    await db.runAsync(
-      `INSERT OR REPLACE INTO unit_conversions (id, from_unit_id, to_unit_id, factor)
-       VALUES (?, ?, ?, ?)`,
-      [c.id, c.fromUnitId, c.toUnitId, c.factor]
-    );
-  }
-  await updateCacheMeta('unit_conversions');
-}
+const pricePolicyWriter: RowWriter<PricePolicy> = {
+  sql: `INSERT OR REPLACE INTO price_policies
+          (id, item_id, branch_id, warehouse_id, shelf_id, wholesale_price_usd, retail_price_usd,
+           price_range_min_usd, price_range_max_usd, effective_from, effective_to)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  values: (policy) => [
+    policy.id,
+    policy.itemId,
+    policy.branchId,
+    policy.warehouseId ?? null,
+    policy.shelfId ?? null,
+    policy.wholesalePriceUsd,
+    policy.retailPriceUsd,
+    policy.priceRangeMinUsd,
+    policy.priceRangeMaxUsd,
+    policy.effectiveFrom,
+    policy.effectiveTo ?? null,
+  ],
+};
+
+const customerWriter: RowWriter<Customer> = {
+  sql: `INSERT OR REPLACE INTO customers
+          (id, name, name_ar, phone, email, customer_type, is_active, credit_limit_sdg, balance_sdg)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  values: (c) => [
+    c.id,
+    c.name,
+    c.nameAr ?? null,
+    c.phone ?? null,
+    c.email ?? null,
+    c.customerType,
+    c.isActive ? 1 : 0,
+    c.creditLimitSdg || null,
+    c.balanceSdg ?? 0,
+  ],
+};
 
-async function syncItems(): Promise<void> {
-  const db = getDb();
+const warehouseWriter: RowWriter<Warehouse> = {
+  sql: `INSERT OR REPLACE INTO warehouses (id, name, name_ar, code) VALUES (?, ?, ?, ?)`,
+  values: (w) => [w.id, w.name, w.nameAr, w.code],
+};
 
-  // Fetch all pages first, only clear + write if fetch succeeds
-  const allItems: any[] = [];
+const shelfWriter: RowWriter<Shelf> = {
+  sql: `INSERT OR REPLACE INTO shelves (id, name, name_ar, code, user_id) VALUES (?, ?, ?, ?, ?)`,
+  values: (s) => [s.id, s.name, s.nameAr, s.code, s.userId ?? null],
+};
+
+const batchWriter: RowWriter<Batch> = {
+  sql: `INSERT OR REPLACE INTO batches
+          (id, item_id, warehouse_id, shelf_id, qty_remaining, unit_cost_usd, received_date, is_consignment)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+  values: (b) => [
+    b.id,
+    b.itemId,
+    b.warehouseId ?? null,
+    b.shelfId ?? null,
+    b.qtyRemaining,
+    b.unitCostUsd ?? 0,
+    b.receivedDate,
+    b.isConsignment ? 1 : 0,
+  ],
+};
+
+const expenseCategoryWriter: RowWriter<ExpenseCategory> = {
+  sql: `INSERT OR REPLACE INTO expense_categories (id, name, name_ar, icon, color) VALUES (?, ?, ?, ?, ?)`,
+  values: (c) => [c.id, c.name, c.nameAr ?? null, c.icon ?? null, c.color ?? null],
+};
+
+const bankAccountWriter: RowWriter<BankAccount> = {
+  sql: `INSERT OR REPLACE INTO bank_accounts (id, bank_name, bank_name_ar, account_number) VALUES (?, ?, ?, ?)`,
+  values: (b) => [b.id, b.bankName, b.bankNameAr ?? null, b.accountNumber],
+};
+
+// ─── Full downloads (servers without delta sync) ──────────────────────────────
+
+async function fetchAllItems(): Promise<Item[]> {
+  const allItems: Item[] = [];
   let page = 1;
   const pageSize = 100;
 
   while (true) {
-    const data = await api.inventory.items.list(page, pageSize);
-    const items = data?.data || [];
+    const { data: items, totalPages } = await api.inventory.items.list(page, pageSize);
     if (items.length === 0 && page === 1) break;
     allItems.push(...items);
-    if (page >= (data?.totalPages ?? 1) || items.length === 0) break;
+    if (page >= totalPages || items.length === 0) break;
     page++;
   }
-
-  await db.runAsync('DELETE FROM items');
-  for (const item of allItems) {
-    await db.runAsync(
-      `INSERT OR REPLACE INTO items
-         (id, sku, name_en, name_ar, category_id, unit_id, is_active, is_consignment,
-          min_stock_level, max_stock_level, unit_symbol, unit_name, category_name, category_name_ar)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        item.id,
-        item.sku,
-        item.nameEn,
-        item.nameAr,
-        item.categoryId ?? null,
-        item.unitId ?? null,
-        item.isActive ? 1 : 0,
-        item.isConsignment ? 1 : 0,
-        item.minStockLevel ?? null,
-        item.maxStockLevel ?? null,
-        item.unit?.symbol ?? null,
-        item.unit?.name ?? null,
-        item.category?.name ?? null,
-        item.category?.nameAr ?? null,
-      ]
-    );
-  }
-
-  await updateCacheMeta('items');
-}
-
-async function syncPricePolicies(branchId: string, shelfId?: string, warehouseId?: string): Promise<void> {
-  const data = await api.inventory.pricePolicies.list(branchId, undefined, warehouseId, shelfId);
-  const policies = data?.data || data || [];
-  if (!Array.isArray(policies)) return;
-  const db = getDb();
-  await db.runAsync('DELETE FROM price_policies WHERE branch_id = ?', [branchId]);
-
-  for (const policy of policies) {
-    await db.runAsync(
-      `INSERT OR REPLACE INTO price_policies
-         (id, item_id, branch_id, warehouse_id, shelf_id, wholesale_price_usd, retail_price_usd,
-          price_range_min_usd, price_range_max_usd, effective_from, effective_to)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        policy.id,
-        policy.itemId,
-        policy.branchId,
-        policy.warehouseId ?? null,
-        policy.shelfId ?? null,
-        Number(policy.wholesalePriceUsd) || 0,
-        Number(policy.retailPriceUsd) || 0,
-        Number(policy.priceRangeMinUsd) || 0,
-        Number(policy.priceRangeMaxUsd) || 0,
-        policy.effectiveFrom,
-        policy.effectiveTo ?? null,
-      ]
-    );
-  }
-  await updateCacheMeta('price_policies');
+  return allItems;
 }
 
-async function syncCustomers(): Promise<void> {
-  const db = getDb();
-
-  const allCustomers: any[] = [];
+async function fetchAllCustomers(): Promise<Customer[]> {
+  const allCustomers: Customer[] = [];
   let page = 1;
   const pageSize = 100;
 
   while (true) {
-    const data = await api.sales.customers.list(page, pageSize);
-    const customers = data?.data || [];
+    const { data: customers, totalPages } = await api.sales.customers.list(page, pageSize);
     if (customers.length === 0 && page === 1) break;
     allCustomers.push(...customers);
-    if (page >= (data?.totalPages ?? 1) || customers.length === 0) break;
+    if (page >= totalPages || customers.length === 0) break;
     page++;
   }
+  return allCustomers;
+}
+
+async function fetchBatchesAt(location: { shelfId?: string; warehouseId?: string }): Promise<Batch[]> {
+  const stock = location.shelfId
+    ? await api.inventory.stockManagement.getShelfStock(location.shelfId, { pageSize: 200 })
+    : await api.inventory.stockManagement.getWarehouseStock(location.warehouseId!, { pageSize: 200 });
 
-  await db.runAsync('DELETE FROM customers');
-  for (const c of allCustomers) {
-    await db.runAsync(
-      `INSERT OR REPLACE INTO customers
-         (id, name, name_ar, phone, email, customer_type, is_active, credit_limit_sdg, balance_sdg)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        c.id,
-        c.name,
-        c.nameAr ?? null,
-        c.phone ?? null,
-        c.email ?? null,
-        c.customerType,
-        c.isActive ? 1 : 0,
-        c.creditLimitSdg ? Number(c.creditLimitSdg) : null,
-        c.balanceSdg ? Number(c.balanceSdg) : 0,
-      ]
-    );
+  const all: Batch[] = [];
+  // Each stock item may have multiple batches
+  for (const stockItem of stock.data) {
+    all.push(...(await api.inventory.stockManagement.getBatches(stockItem.itemId ?? stockItem.item.id, location)));
   }
+  return all;
+}
 
-  await updateCacheMeta('customers');
+// ─── Delta sync ───────────────────────────────────────────────────────────────
+
+interface TableSync<T extends SyncTable> {
+  table: T;
+  /** `cache_meta` row holding the cursor; each scope of a table needs its own. */
+  cursorKey: string;
+  /** Sent with every request so the server only returns the user's rows. */
+  scope?: { branchId?: string; shelfId?: string; warehouseId?: string };
+  /** Local rows this sync is responsible for, e.g. one shelf's batches. Default: the whole table. */
+  owned?: { where: string; params: string[] };
+  /** Full-text index kept over the table, updated in the same transaction as its rows. */
+  search?: SearchTable;
+  writer: RowWriter<SyncRow<T>>;
+  fetchAll: () => Promise<SyncRow<T>[]>;
 }
 
-async function syncWarehouses(): Promise<void> {
-  const data = await api.inventory.warehouses();
-  const warehouses = data?.data || data || [];
-  if (!Array.isArray(warehouses)) return;
-  const db = getDb();
+/** Latest state per row id in arrival order; `null` means deleted. */
+type RowChanges<T extends SyncTable> = Map<string, SyncRow<T> | null>;
+
+/**
+ * Brings one offline table up to date. With a cursor only the changes since the
+ * last sync are fetched; without one, or when the server no longer accepts it,
+ * the table is downloaded in full. Either way everything is fetched before the
+ * table is touched, then written in a single transaction.
+ */
+async function syncTable<T extends SyncTable>(spec: TableSync<T>): Promise<SyncStats> {
+  const cursor = await getSyncCursor(spec.cursorKey);
+  if (cursor) {
+    try {
+      const pulled = await fetchChanges(spec, cursor);
+      await withWriteTransaction(async (txn) => {
+        await writeChanges(txn, spec, pulled.changes);
+        // Only the rows that changed; a delta that changed none leaves the index alone
+        if (spec.search) {
+          for (const id of pulled.changes.keys()) await reindexSearch(txn, spec.search, id);
+        }
+        await setSyncCursor(spec.cursorKey, pulled.cursor, txn);
+      });
+      return pulled.stats;
+    } catch (error) {
+      // Expired cursor, or a server that predates delta sync
+      if (!isApiError(error, 'PRECONDITION_FAILED') && !isApiError(error, 'NOT_FOUND')) throw error;
+    }
+  }
+  return resyncTable(spec);
+}
 
-  await db.runAsync('DELETE FROM warehouses');
-  for (const w of warehouses) {
-    await db.runAsync(
-      `INSERT OR REPLACE INTO warehouses (id, name, name_ar, code) VALUES (?, ?, ?, ?)`,
-      [w.id, w.name, w.nameAr, w.code]
-    );
+/** Reads every page after `cursor` and returns the cursor to continue from. */
+async function fetchChanges<T extends SyncTable>(
+  spec: TableSync<T>,
+  cursor?: string
+): Promise<{ changes: RowChanges<T>; cursor: string; stats: SyncStats }> {
+  const changes: RowChanges<T> = new Map();
+  let stats: SyncStats = { rows: 0, bytes: 0 };
+  let next = cursor;
+  let hasMore = true;
+
+  while (hasMore) {
+    const page = await api.sync.changes(spec.table, { ...spec.scope, cursor: next });
+    stats = addStats(stats, statsOf([...page.rows, ...page.deletedIds], page));
+    for (const row of page.rows as SyncRow<T>[]) {
+      changes.delete(row.id);
+      changes.set(row.id, row);
+    }
+    for (const id of page.deletedIds) {
+      changes.delete(id);
+      changes.set(id, null);
+    }
+    next = page.cursor;
+    hasMore = page.hasMore;
   }
-  await updateCacheMeta('warehouses');
+  return { changes, cursor: next!, stats };
 }
 
-async function syncShelves(): Promise<void> {
-  const data = await api.inventory.shelves();
-  const shelves = data?.data || data || [];
-  if (!Array.isArray(shelves)) return;
-  const db = getDb();
+/** Downloads every row and replaces the table's contents with them in one transaction. */
+async function resyncTable<T extends SyncTable>(spec: TableSync<T>): Promise<SyncStats> {
+  let changes: RowChanges<T>;
+  let cursor: string | null = null;
+  let stats: SyncStats;
 
-  await db.runAsync('DELETE FROM shelves');
-  for (const s of shelves) {
-    await db.runAsync(
-      `INSERT OR REPLACE INTO shelves (id, name, name_ar, code, user_id) VALUES (?, ?, ?, ?, ?)`,
-      [s.id, s.name, s.nameAr, s.code, s.userId ?? null]
-    );
+  try {
+    ({ changes, cursor, stats } = await fetchChanges(spec));
+  } catch (error) {
+    if (!isApiError(error, 'NOT_FOUND')) throw error;
+    const rows = await spec.fetchAll();
+    changes = new Map(rows.map((row) => [row.id, row]));
+    stats = statsOf(rows);
   }
-  await updateCacheMeta('shelves');
+
+  await withWriteTransaction(async (txn) => {
+    // Rows are replaced in place instead of clearing the table; local ones the server no longer has go
+    const { where, params } = spec.owned ?? { where: '1 = 1', params: [] };
+    const local = await txn.getAllAsync<{ id: string }>(`SELECT id FROM ${spec.table} WHERE ${where}`, params);
+    for (const { id } of local) {
+      if (!changes.has(id)) changes.set(id, null);
+    }
+    await writeChanges(txn, spec, changes);
+    if (spec.search) await reindexSearch(txn, spec.search);
+    await setSyncCursor(spec.cursorKey, cursor, txn);
+  });
+  return stats;
 }
 
-async function syncDayCycle(branchId: string): Promise<void> {
+async function writeChanges<T extends SyncTable>(
+  txn: SQLiteDatabase,
+  spec: TableSync<T>,
+  changes: RowChanges<T>
+): Promise<void> {
+  const upsert = await txn.prepareAsync(spec.writer.sql);
+  const remove = await txn.prepareAsync(`DELETE FROM ${spec.table} WHERE id = ?`);
   try {
-    const dayCycle = await api.dayCycle.getCurrent(branchId);
-    const db = getDb();
+    for (const [id, row] of changes) {
+      if (row) await upsert.executeAsync(spec.writer.values(row));
+      else await remove.executeAsync([id]);
+    }
+  } finally {
+    await upsert.finalizeAsync();
+    await remove.finalizeAsync();
+  }
+}
 
-    await db.runAsync('DELETE FROM day_cycle WHERE branch_id = ?', [branchId]);
+// ─── Sync individual tables ───────────────────────────────────────────────────
 
+/**
+ * Small lists the server has no delta sync for: every row is downloaded and
+ * swaps out the table's contents in one transaction.
+ */
+async function replaceTable<T>(table: string, writer: RowWriter<T>, rows: T[]): Promise<SyncStats> {
+  await withWriteTransaction(async (txn) => {
+    await txn.runAsync(`DELETE FROM ${table}`);
+    const insert = await txn.prepareAsync(writer.sql);
+    try {
+      for (const row of rows) await insert.executeAsync(writer.values(row));
+    } finally {
+      await insert.finalizeAsync();
+    }
+  });
+  return statsOf(rows);
+}
+
+async function syncExpenseCategories(): Promise<SyncStats> {
+  const stats = await replaceTable(
+    'expense_categories',
+    expenseCategoryWriter,
+    await api.accounting.expenses.categories.list()
+  );
+  await updateCacheMeta('expense_categories');
+  return stats;
+}
+
+async function syncBankAccounts(): Promise<SyncStats> {
+  const stats = await replaceTable('bank_accounts', bankAccountWriter, await api.accounting.bankAccounts.list());
+  await updateCacheMeta('bank_accounts');
+  return stats;
+}
+
+async function syncItemCategories(): Promise<SyncStats> {
+  const stats = await syncTable({
+    table: 'item_categories',
+    cursorKey: 'item_categories',
+    writer: categoryWriter,
+    fetchAll: () => api.inventory.categories.list(),
+  });
+  await updateCacheMeta('item_categories');
+  return stats;
+}
+
+async function syncUnits(): Promise<SyncStats> {
+  const stats = await syncTable({
+    table: 'units',
+    cursorKey: 'units',
+    writer: unitWriter,
+    fetchAll: () => api.inventory.units.list(),
+  });
+  await updateCacheMeta('units');
+  return stats;
+}
+
+async function syncUnitConversions(): Promise<SyncStats> {
+  const stats = await syncTable({
+    table: 'unit_conversions',
+    cursorKey: 'unit_conversions',
+    writer: unitConversionWriter,
+    fetchAll: () => api.inventory.unitConversions.list(),
+  });
+  await updateCacheMeta('unit_conversions');
+  return stats;
+}
+
+async function syncItems(): Promise<SyncStats> {
+  const stats = await syncTable({
+    table: 'items',
+    cursorKey: 'items',
+    search: 'items',
+    writer: itemWriter,
+    fetchAll: fetchAllItems,
+  });
+  await updateCacheMeta('items');
+  return stats;
+}
+
+async function syncPricePolicies(branchId: string, shelfId?: string, warehouseId?: string): Promise<SyncStats> {
+  const stats = await syncTable({
+    table: 'price_policies',
+    cursorKey: ['price_policies', branchId, shelfId ?? '', warehouseId ?? ''].join(':'),
+    scope: { branchId, shelfId, warehouseId },
+    owned: { where: 'branch_id = ?', params: [branchId] },
+    writer: pricePolicyWriter,
+    fetchAll: async () => (await api.inventory.pricePolicies.list(branchId, undefined, warehouseId, shelfId)).data,
+  });
+  await updateCacheMeta('price_policies');
+  return stats;
+}
+
+async function syncCustomers(): Promise<SyncStats> {
+  const startedAt = Date.now();
+  const stats = await syncTable({
+    table: 'customers',
+    cursorKey: 'customers',
+    // Customers created offline are not on the server until their create is replayed
+    owned: { where: SERVER_ID_CONDITION, params: [] },
+    search: 'customers',
+    writer: customerWriter,
+    fetchAll: fetchAllCustomers,
+  });
+  await clearConfirmedBalances(startedAt);
+  await updateCacheMeta('customers');
+  return stats;
+}
+
+async function syncWarehouses(): Promise<SyncStats> {
+  const stats = await syncTable({
+    table: 'warehouses',
+    cursorKey: 'warehouses',
+    writer: warehouseWriter,
+    fetchAll: () => api.inventory.warehouses(),
+  });
+  await updateCacheMeta('warehouses');
+  return stats;
+}
+
+async function syncShelves(): Promise<SyncStats> {
+  const stats = await syncTable({
+    table: 'shelves',
+    cursorKey: 'shelves',
+    writer: shelfWriter,
+    fetchAll: () => api.inventory.shelves(),
+  });
+  await updateCacheMeta('shelves');
+  return stats;
+}
+
+async function syncDayCycle(branchId: string): Promise<SyncStats> {
+  const dayCycle = await api.dayCycle.getCurrent(branchId);
+
+  await withWriteTransaction(async (txn) => {
     if (dayCycle) {
-      await db.runAsync(
+      await txn.runAsync(
         `INSERT OR REPLACE INTO day_cycle
            (id, branch_id, cycle_date, exchange_rate_usd_sdg, status, opened_at, closed_at, synced_at)
          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
@@ -246,7 +493,7 @@ async function syncDayCycle(branchId: string): Promise<void> {
           dayCycle.id,
           dayCycle.branchId,
           dayCycle.cycleDate,
-          Number(dayCycle.exchangeRateUsdSdg) || 1,
+          dayCycle.exchangeRateUsdSdg || 1,
           dayCycle.status,
           dayCycle.openedAt ?? null,
           dayCycle.closedAt ?? null,
@@ -254,147 +501,155 @@ async function syncDayCycle(branchId: string): Promise<void> {
         ]
       );
     }
-    await updateCacheMeta('day_cycle');
-  } catch {
-    // Day cycle errors should not block other sync
-  }
+    await txn.runAsync('DELETE FROM day_cycle WHERE branch_id = ? AND id != ?', [branchId, dayCycle?.id ?? '']);
+  });
+  await updateCacheMeta('day_cycle');
+  return statsOf(dayCycle ? [dayCycle] : []);
 }
 
-async function syncBatches(ctx: UserContext): Promise<void> {
-  const db = getDb();
-
-  if (ctx.shelfId) {
-    await db.runAsync('DELETE FROM batches WHERE shelf_id = ?', [ctx.shelfId]);
-    try {
-      const data = await api.inventory.stockManagement.getShelfStock(ctx.shelfId, { pageSize: 200 });
-      const items = data?.data || [];
-
-      for (const stockItem of items) {
-        // Each stockItem may have multiple batches
-        const batchData = await api.inventory.stockManagement.getBatches(stockItem.itemId ?? stockItem.id, {
-          shelfId: ctx.shelfId,
-        });
-        const batches = batchData?.data || batchData || [];
-        for (const b of batches) {
-          await db.runAsync(
-            `INSERT OR REPLACE INTO batches
-               (id, item_id, warehouse_id, shelf_id, qty_remaining, unit_cost_usd, received_date, is_consignment)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-            [
-              b.id,
-              b.itemId,
-              b.warehouseId ?? null,
-              b.shelfId ?? null,
-              Number(b.qtyRemaining) || 0,
-              Number(b.unitCostUsd) || 0,
-              b.receivedDate,
-              b.isConsignment ? 1 : 0,
-            ]
-          );
-        }
-      }
-    } catch {
-      // Batch sync errors should not block
-    }
-  }
+/** The shelf's and the warehouse's batches; one failing does not stop the other. */
+async function syncBatches(ctx: UserContext): Promise<SyncStats> {
+  const { shelfId, warehouseId } = ctx;
+  // Synced sales and issues stop holding stock once the refreshed batches include them
+  const startedAt = Date.now();
+  const locations: StockLocation[] = [
+    ...(shelfId ? [{ shelfId }] : []),
+    ...(warehouseId ? [{ warehouseId }] : []),
+  ];
+
+  const results = await Promise.allSettled(
+    locations.map(async (location) => {
+      const stats = await syncTable({
+        table: 'batches',
+        cursorKey: 'shelfId' in location ? `batches:shelf:${location.shelfId}` : `batches:warehouse:${location.warehouseId}`,
+        scope: location,
+        owned: 'shelfId' in location
+          ? { where: 'shelf_id = ?', params: [location.shelfId] }
+          : { where: 'warehouse_id = ?', params: [location.warehouseId] },
+        writer: batchWriter,
+        fetchAll: () => fetchBatchesAt(location),
+      });
+      await clearConfirmedStock(location, startedAt);
+      return stats;
+    })
+  );
+
+  const failed = results.find((result) => result.status === 'rejected');
+  if (failed) throw failed.reason;
+  await updateCacheMeta('batches');
+  return addStats(...results.map((result) => (result as PromiseFulfilledResult<SyncStats>).value));
+}
 
-  if (ctx.warehouseId) {
-    await db.runAsync('DELETE FROM batches WHERE warehouse_id = ?', [ctx.warehouseId]);
-    try {
-      const data = await api.inventory.stockManagement.getWarehouseStock(ctx.warehouseId, { pageSize: 200 });
-      const items = data?.data || [];
-
-      for (const stockItem of items) {
-        const batchData = await api.inventory.stockManagement.getBatches(stockItem.itemId ?? stockItem.id, {
-          warehouseId: ctx.warehouseId,
-        });
-        const batches = batchData?.data || batchData || [];
-        for (const b of batches) {
-          await db.runAsync(
-            `INSERT OR REPLACE INTO batches
-               (id, item_id, warehouse_id, shelf_id, qty_remaining, unit_cost_usd, received_date, is_consignment)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-            [
-              b.id,
-              b.itemId,
-              b.warehouseId ?? null,
-              b.shelfId ?? null,
-              Number(b.qtyRemaining) || 0,
-              Number(b.unitCostUsd) || 0,
-              b.receivedDate,
-              b.isConsignment ? 1 : 0,
-            ]
-          );
-        }
-      }
-    } catch {
-      // Batch sync errors should not block
-    }
-  }
+// ─── Steps per table ──────────────────────────────────────────────────────────
+
+/** Refreshes one offline table; the names are those of `STALE_THRESHOLDS`. */
+const TABLE_STEPS: Record<string, (ctx: UserContext) => Promise<SyncStats>> = {
+  item_categories: syncItemCategories,
+  units: syncUnits,
+  unit_conversions: syncUnitConversions,
+  items: syncItems,
+  warehouses: syncWarehouses,
+  shelves: syncShelves,
+  customers: syncCustomers,
+  expense_categories: syncExpenseCategories,
+  bank_accounts: syncBankAccounts,
+  price_policies: (ctx) => syncPricePolicies(ctx.branchId, ctx.shelfId, ctx.warehouseId),
+  day_cycle: (ctx) => syncDayCycle(ctx.branchId),
+  batches: syncBatches,
+  history: (ctx) => syncHistory(ctx.branchId),
+};
 
-  await updateCacheMeta('batches');
+/** Reference data a full sync refreshes side by side before anything branch-specific. */
+const REFERENCE_TABLES = [
+  'item_categories',
+  'units',
+  'unit_conversions',
+  'items',
+  'warehouses',
+  'shelves',
+  'customers',
+  'expense_categories',
+  'bank_accounts',
+];
+
+const BRANCH_TABLES = ['price_policies', 'day_cycle', 'history'];
+
+/** Runs a table's step as part of `run`; a user without a branch has nothing to fetch for the branch tables. */
+async function runStep(run: SyncRunRecorder, table: string, ctx: UserContext): Promise<boolean> {
+  if (BRANCH_TABLES.includes(table) && !ctx.branchId) return false;
+  const ok = await run.track(table, () => TABLE_STEPS[table](ctx));
+  // Screens reading the table pick up the new rows; not awaited, the refetches need not hold up the sync
+  if (ok) void invalidateCachedTables([table]);
+  return ok;
 }
 
 // ─── Staleness helpers ────────────────────────────────────────────────────────
 
-async function isStale(tableName: string): Promise<boolean> {
-  const lastSynced = await getCacheMeta(tableName);
-  const threshold = STALE_THRESHOLDS[tableName] ?? 5 * 60 * 1000;
-  return Date.now() - lastSynced > threshold;
+export interface TableFreshness {
+  table: string;
+  /** Epoch ms of the last successful refresh; 0 if there never was one. */
+  lastSynced: number;
+  staleAfterMs: number;
+  stale: boolean;
+}
+
+export async function getTableFreshness(): Promise<TableFreshness[]> {
+  const now = Date.now();
+  return Promise.all(
+    Object.entries(STALE_THRESHOLDS).map(async ([table, staleAfterMs]) => {
+      const lastSynced = await getCacheMeta(table);
+      return { table, lastSynced, staleAfterMs, stale: now - lastSynced > staleAfterMs };
+    })
+  );
 }
 
 async function getStaleTables(): Promise<string[]> {
-  const tables = Object.keys(STALE_THRESHOLDS);
-  const stale: string[] = [];
-  for (const t of tables) {
-    if (await isStale(t)) stale.push(t);
-  }
-  return stale;
+  return (await getTableFreshness()).filter((t) => t.stale).map((t) => t.table);
 }
 
 // ─── Full and incremental sync ────────────────────────────────────────────────
 
-export async function performFullSync(ctx: UserContext): Promise<void> {
+/** Sends daily invoice edits made offline; after the queue, so a queued checkout goes first. */
+async function reconcileDraft(ctx: UserContext): Promise<void> {
+  if (!ctx.shelfId) return;
+  try {
+    await reconcileDailyDraft(ctx.shelfId);
+  } catch {
+    // The screen reconciles again and shows the error when it opens
+  }
+}
+
+/** Every table is refreshed; a table that fails is recorded in the run and retried once stale. */
+export async function performFullSync(ctx: UserContext, trigger: SyncTrigger): Promise<void> {
   if (!connectivity.isOnline()) return;
 
   const { setIsSyncing, setLastSyncAt, setStaleTables } = useSyncStore.getState();
   setIsSyncing(true);
+  const run = await startSyncRun(trigger, 'full');
 
   try {
     // Flush any queued mutations first
     await flushMutationQueue();
     await refreshPendingCount();
+    await reconcileDraft(ctx);
 
-    // Sync reference data (role-based)
-    await Promise.allSettled([
-      syncItemCategories(),
-      syncUnits(),
-      syncUnitConversions(),
-      syncItems(),
-      syncWarehouses(),
-      syncShelves(),
-      syncCustomers(),
-    ]);
-
-    // Sync branch-specific data
-    if (ctx.branchId) {
-      await syncPricePolicies(ctx.branchId, ctx.shelfId, ctx.warehouseId);
-      await syncDayCycle(ctx.branchId);
-    }
-
-    // Sync stock/batch data for user's location
-    await syncBatches(ctx);
+    await Promise.all(REFERENCE_TABLES.map((table) => runStep(run, table, ctx)));
+    // Then the branch's prices, the day, and stock at the user's location
+    for (const table of ['price_policies', 'day_cycle', 'batches']) await runStep(run, table, ctx);
+    // Last: the slowest download, and only needed once the device goes offline
+    await runStep(run, 'history', ctx);
 
     setLastSyncAt(Date.now());
-    setStaleTables([]);
-  } catch {
-    // Errors are tolerated during sync; individual table errors are handled above
+    setStaleTables(await getStaleTables());
+  } catch (error) {
+    console.warn('Sync stopped before refreshing the tables:', error);
   } finally {
+    await run.finish();
     setIsSyncing(false);
   }
 }
 
-export async function performIncrementalSync(ctx: UserContext): Promise<void> {
+export async function performIncrementalSync(ctx: UserContext, trigger: SyncTrigger): Promise<void> {
   if (!connectivity.isOnline()) return;
 
   const { setIsSyncing, setLastSyncAt, setStaleTables } = useSyncStore.getState();
@@ -408,37 +663,39 @@ export async function performIncrementalSync(ctx: UserContext): Promise<void> {
     return;
   }
 
+  const run = await startSyncRun(trigger, 'incremental');
   try {
-    const tasks: Promise<void>[] = [];
-
-    if (stale.includes('item_categories')) tasks.push(syncItemCategories());
-    if (stale.includes('units')) tasks.push(syncUnits());
-    if (stale.includes('unit_conversions')) tasks.push(syncUnitConversions());
-    if (stale.includes('items')) tasks.push(syncItems());
-    if (stale.includes('warehouses')) tasks.push(syncWarehouses());
-    if (stale.includes('shelves')) tasks.push(syncShelves());
-    if (stale.includes('customers')) tasks.push(syncCustomers());
-    if (stale.includes('price_policies') && ctx.branchId) {
-      tasks.push(syncPricePolicies(ctx.branchId, ctx.shelfId, ctx.warehouseId));
-    }
-    if (stale.includes('day_cycle') && ctx.branchId) {
-      tasks.push(syncDayCycle(ctx.branchId));
-    }
-    if (stale.includes('batches')) {
-      tasks.push(syncBatches(ctx));
-    }
-
-    await Promise.allSettled(tasks);
+    await Promise.all(stale.map((table) => runStep(run, table, ctx)));
 
     setLastSyncAt(Date.now());
     setStaleTables(await getStaleTables());
   } catch {
     // Tolerated
   } finally {
+    await run.finish();
     setIsSyncing(false);
   }
 }
 
+/**
+ * Downloads one table in full right away, from Sync Status. Its delta cursors
+ * are dropped first, so rows a bad delta left behind are replaced as well.
+ * Resolves whether it worked; the outcome is recorded as a run of its own.
+ */
+export async function resyncTableNow(table: string, ctx: UserContext): Promise<boolean> {
+  if (!connectivity.isOnline() || !TABLE_STEPS[table]) return false;
+
+  const { setStaleTables } = useSyncStore.getState();
+  await clearSyncCursors(table);
+  const run = await startSyncRun('manual', 'table');
+  try {
+    return await runStep(run, table, ctx);
+  } finally {
+    await run.finish();
+    setStaleTables(await getStaleTables());
+  }
+}
+
 // ─── Start / stop background sync ────────────────────────────────────────────
 
 export function startBackgroundSync(ctx: UserContext): void {
@@ -448,8 +705,12 @@ export function startBackgroundSync(ctx: UserContext): void {
   _connectivityUnsub?.();
   _connectivityUnsub = connectivity.onStatusChange(async (isOnline) => {
     if (isOnline && _currentUserContext) {
+      await releaseBackoff();
       await flushMutationQueue();
-      await performIncrementalSync(_currentUserContext);
+      await reconcileDraft(_currentUserContext);
+      await performIncrementalSync(_currentUserContext, 'reconnect');
+      // Whatever was read from the cache while offline can come from the server again
+      void invalidateCachedAnswers();
     }
   });
 
@@ -457,7 +718,9 @@ export function startBackgroundSync(ctx: UserContext): void {
   if (_syncInterval) clearInterval(_syncInterval);
   _syncInterval = setInterval(async () => {
     if (_currentUserContext && connectivity.isOnline()) {
-      await performIncrementalSync(_currentUserContext);
+      // Picks up entries whose backoff has run out
+      await flushMutationQueue();
+      await performIncrementalSync(_currentUserContext, 'interval');
     }
   }, 5 * 60 * 1000);
 }
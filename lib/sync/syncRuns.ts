@@ -0,0 +1,179 @@
+/**
+ * History of sync runs, for Sync Status: what started each run, when it ran,
+ * and for every table whether its refresh worked, how much it downloaded and
+ * why it failed. Kept in the offline database; only the newest `MAX_RUNS`
+ * runs are kept.
+ *
+ * Recording never throws: a failed diagnostics write must not fail the sync it
+ * describes.
+ */
+import { getDb, withWriteTransaction } from '@/lib/db/database';
+
+export type SyncTrigger = 'startup' | 'interval' | 'reconnect' | 'manual';
+
+/** Everything, only the stale tables, or one table resynced by hand. */
+export type SyncRunKind = 'full' | 'incremental' | 'table';
+
+/** What one table's refresh downloaded. */
+export interface SyncStats {
+  /** Rows received, deletions included. */
+  rows: number;
+  /** Size of what was received, as UTF-8 JSON. */
+  bytes: number;
+  /** Rows whose extra payload (a history detail) failed to download; the rows themselves were kept. */
+  failed?: number;
+}
+
+export interface SyncTableOutcome {
+  table: string;
+  ok: boolean;
+  startedAt: number;
+  finishedAt: number;
+  rows: number;
+  bytes: number;
+  failed: number;
+  error: string | null;
+}
+
+export interface SyncRun {
+  id: number;
+  trigger: SyncTrigger;
+  kind: SyncRunKind;
+  startedAt: number;
+  /** `null` while running, or when the app stopped before the run ended. */
+  finishedAt: number | null;
+  tables: SyncTableOutcome[];
+}
+
+export interface SyncRunRecorder {
+  /** Runs one table's refresh and records how it went. Resolves whether it worked; never rejects. */
+  track(table: string, task: () => Promise<SyncStats>): Promise<boolean>;
+  finish(): Promise<void>;
+}
+
+const MAX_RUNS = 50;
+
+// ─── Stats ──────────────────────────────────────────────────────────────────
+
+export function textBytes(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+export function jsonBytes(value: unknown): number {
+  return textBytes(JSON.stringify(value) ?? '');
+}
+
+/** Stats of downloaded rows, measured on `payload` when more than the rows came down. */
+export function statsOf(rows: readonly unknown[], payload: unknown = rows): SyncStats {
+  return { rows: rows.length, bytes: jsonBytes(payload) };
+}
+
+export function addStats(...stats: SyncStats[]): SyncStats {
+  return stats.reduce<Required<SyncStats>>(
+    (sum, s) => ({ rows: sum.rows + s.rows, bytes: sum.bytes + s.bytes, failed: sum.failed + (s.failed ?? 0) }),
+    { rows: 0, bytes: 0, failed: 0 }
+  );
+}
+
+// ─── Recording ──────────────────────────────────────────────────────────────
+
+export async function startSyncRun(trigger: SyncTrigger, kind: SyncRunKind): Promise<SyncRunRecorder> {
+  let runId: number | null = null;
+  await record(async (txn) => {
+    const result = await txn.runAsync(
+      'INSERT INTO sync_runs (triggered_by, kind, started_at) VALUES (?, ?, ?)',
+      [trigger, kind, Date.now()]
+    );
+    runId = result.lastInsertRowId;
+  });
+
+  return {
+    async track(table, task) {
+      const startedAt = Date.now();
+      let stats: SyncStats = { rows: 0, bytes: 0 };
+      let error: string | null = null;
+      try {
+        stats = await task();
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+        console.warn(`Sync of ${table} failed:`, error);
+      }
+      if (runId !== null) {
+        await record((txn) =>
+          txn
+            .runAsync(
+              `INSERT OR REPLACE INTO sync_run_tables
+                 (run_id, table_name, ok, started_at, finished_at, row_count, byte_count, failed_count, error)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              [
+                runId,
+                table,
+                error === null ? 1 : 0,
+                startedAt,
+                Date.now(),
+                stats.rows,
+                stats.bytes,
+                stats.failed ?? 0,
+                error,
+              ]
+            )
+            .then(() => undefined)
+        );
+      }
+      return error === null;
+    },
+
+    async finish() {
+      if (runId === null) return;
+      await record(async (txn) => {
+        await txn.runAsync('UPDATE sync_runs SET finished_at = ? WHERE id = ?', [Date.now(), runId]);
+        await txn.runAsync(
+          `DELETE FROM sync_runs WHERE id NOT IN (SELECT id FROM sync_runs ORDER BY id DESC LIMIT ${MAX_RUNS})`
+        );
+        await txn.runAsync('DELETE FROM sync_run_tables WHERE run_id NOT IN (SELECT id FROM sync_runs)');
+      });
+    },
+  };
+}
+
+// Queued behind the table writes of the run instead of competing with them for the lock
+async function record(write: Parameters<typeof withWriteTransaction>[0]): Promise<void> {
+  try {
+    await withWriteTransaction(write);
+  } catch (error) {
+    console.warn('Failed to record sync run:', error);
+  }
+}
+
+// ─── Reading ────────────────────────────────────────────────────────────────
+
+/** Newest runs first, each with its tables in the order they finished. */
+export async function getSyncRuns(limit = 20): Promise<SyncRun[]> {
+  const db = getDb();
+  const runs = await db.getAllAsync<any>('SELECT * FROM sync_runs ORDER BY id DESC LIMIT ?', [limit]);
+  if (runs.length === 0) return [];
+
+  const tables = await db.getAllAsync<any>(
+    `SELECT * FROM sync_run_tables WHERE run_id >= ? ORDER BY finished_at`,
+    [runs[runs.length - 1].id]
+  );
+  return runs.map((run) => ({
+    id: run.id,
+    trigger: run.triggered_by,
+    kind: run.kind,
+    startedAt: run.started_at,
+    finishedAt: run.finished_at,
+    tables: tables
+      .filter((row) => row.run_id === run.id)
+      .map((row) => ({
+        table: row.table_name,
+        ok: row.ok === 1,
+        startedAt: row.started_at,
+        finishedAt: row.finished_at,
+        rows: row.row_count,
+        bytes: row.byte_count,
+        failed: row.failed_count,
+        error: row.error,
+      })),
+  }));
+}
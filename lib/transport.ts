@@ -0,0 +1,37 @@
+/**
+ * How `lib/api.ts` reaches a backend. The HTTP transport talks tRPC to the
+ * server of the active profile; the mock transport (lib/mock) answers the same
+ * procedures in-process for the Demo profile and for tests.
+ *
+ * Both resolve with the unwrapped procedure result (no `result.data.json`
+ * envelope) and reject with an `ApiError`. Response validation, re-login and
+ * input checks stay in `api.ts` and apply to every transport alike.
+ */
+
+export interface TransportRequest {
+  /** Aborts the call, e.g. React Query's `signal` when the screen unmounts. */
+  signal?: AbortSignal;
+  /** Overrides the default timeout for this call. */
+  timeoutMs?: number;
+}
+
+export interface TransportCall {
+  /** Dotted procedure path, e.g. `sales.salesInvoices.create`. */
+  endpoint: string;
+  input: object;
+  /** Session token of the caller; `null` before login. */
+  token: string | null;
+  request?: TransportRequest;
+  /**
+   * Mutations only: identifies one logical write across retries and queue
+   * replays, so the backend applies it at most once.
+   */
+  idempotencyKey?: string;
+}
+
+export interface Transport {
+  query(call: TransportCall): Promise<unknown>;
+  mutation(call: TransportCall): Promise<unknown>;
+  /** Stores a receipt image and returns the URL (or URI) to save with the record. */
+  upload(uri: string, token: string | null, request?: TransportRequest): Promise<string>;
+}
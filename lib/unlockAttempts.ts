@@ -0,0 +1,66 @@
+/**
+ * Wrong passwords at sign-in, counted per account across app restarts. After
+ * `MAX_FAILED_UNLOCKS` in a row on one account the offline data of every server
+ * profile is erased, so a lost phone does not give it up to guessing. Queued
+ * writes not yet on the server survive it (see `wipeOfflineData`). Only
+ * credentials the server rejects count; network and server errors do not.
+ */
+import * as SecureStore from 'expo-secure-store';
+import { isApiError } from '@/lib/apiError';
+import { wipeOfflineData } from '@/lib/db/database';
+import { refreshPendingCount } from '@/lib/sync/mutationQueue';
+
+export const MAX_FAILED_UNLOCKS = 10;
+
+const FAILED_COUNT_KEY = 'failedUnlockAttempts';
+
+/** Thrown instead of the sign-in error that used up the last attempt. */
+export class OfflineDataWipedError extends Error {
+  constructor() {
+    super('Too many failed sign-in attempts: the offline data on this device was erased, except unsynced operations');
+    this.name = 'OfflineDataWipedError';
+  }
+}
+
+export async function getUnlockAttemptsLeft(email: string): Promise<number> {
+  return MAX_FAILED_UNLOCKS - (await readFailedCount(email));
+}
+
+/**
+ * Runs a sign-in as `email`, resetting that account's count when it succeeds
+ * and adding to it when the password is wrong.
+ */
+export async function guardUnlock<T>(email: string, signIn: () => Promise<T>): Promise<T> {
+  const key = countKey(email);
+  let result: T;
+  try {
+    result = await signIn();
+  } catch (error) {
+    if (!isApiError(error, 'UNAUTHORIZED')) throw error;
+    const failed = (await readFailedCount(email)) + 1;
+    if (failed < MAX_FAILED_UNLOCKS) {
+      await SecureStore.setItemAsync(key, String(failed));
+      throw error;
+    }
+    await wipe(key);
+    throw new OfflineDataWipedError();
+  }
+  await SecureStore.deleteItemAsync(key);
+  return result;
+}
+
+// SecureStore keys only take letters, digits and `._-`
+function countKey(email: string): string {
+  return `${FAILED_COUNT_KEY}.${email.trim().toLowerCase().replace(/[^a-z0-9._-]/g, '_')}`;
+}
+
+async function readFailedCount(email: string): Promise<number> {
+  return Number(await SecureStore.getItemAsync(countKey(email))) || 0;
+}
+
+async function wipe(key: string): Promise<void> {
+  console.error(`${MAX_FAILED_UNLOCKS} failed sign-ins in a row on one account, erasing the offline data`);
+  await wipeOfflineData();
+  await refreshPendingCount();
+  await SecureStore.deleteItemAsync(key);
+}
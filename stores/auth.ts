@@ -1,8 +1,10 @@
 import { create } from 'zustand';
 import { api, getToken, removeToken } from '@/lib/api';
-import { queryClient } from '@/lib/queryClient';
+import { clearQueryCache, startQueryPersistence } from '@/lib/queryPersistence';
 import { clearAllCaches } from '@/lib/db/database';
 import { useSyncStore } from '@/stores/sync';
+import { setQueueOwner } from '@/lib/sync/mutationQueue';
+import { guardUnlock } from '@/lib/unlockAttempts';
 
 interface User {
   id: string;
@@ -39,7 +41,10 @@ export const useAuthStore = create<AuthState>((set) => ({
 
   login: async (email: string, password: string) => {
     try {
-      const result = await api.auth.login(email, password);
+      // Wrong passwords count towards wiping the offline data
+      const result = await guardUnlock(email, () => api.auth.login(email, password));
+      await setQueueOwner(result.user);
+      await startQueryPersistence(result.user.id);
       set({ user: result.user, isAuthenticated: true, isLoading: false });
     } catch (error) {
       set({ user: null, isAuthenticated: false, isLoading: false });
@@ -47,16 +52,23 @@ export const useAuthStore = create<AuthState>((set) => ({
     }
   },
 
+  /**
+   * Ends the session and wipes the cached server data. The user's unsynced
+   * entries stay in the queue under their id, to be sent when they next sign
+   * in; ask before calling this (see `confirmLogout`).
+   */
   logout: async () => {
     try {
       await api.auth.logout();
     } catch {
       // Ignore errors
     } finally {
-      queryClient.clear();
       await removeToken();
       useSyncStore.getState().reset();
       try {
+        // Also deletes the user's stored copy of the cache
+        await clearQueryCache();
+        await setQueueOwner(null);
         await clearAllCaches();
       } catch {
         // Non-critical
@@ -73,15 +85,8 @@ export const useAuthStore = create<AuthState>((set) => ({
         return;
       }
       
-      // Add timeout to prevent hanging
-      const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Auth check timeout')), 3000)
-      );
-      
-      const result = await Promise.race([
-        api.auth.me(),
-        timeoutPromise,
-      ]) as any;
+      // auth.me carries its own short timeout, so this cannot hang
+      const result: any = await api.auth.me();
       
       // Handle both wrapped { user } and direct user object formats
       const user = result?.user || result;
@@ -94,6 +99,9 @@ export const useAuthStore = create<AuthState>((set) => ({
         return;
       }
       
+      await setQueueOwner(user);
+      // Before the first screen renders, so it starts from the last answers
+      await startQueryPersistence(user.id);
       set({ user, isAuthenticated: true, isLoading: false });
     } catch (error) {
       console.log('Auth check failed:', error);
@@ -0,0 +1,69 @@
+import { create } from 'zustand';
+import {
+  DEFAULT_PROFILE_ID,
+  createProfileId,
+  defaultProfile,
+  isBuiltInProfile,
+  loadProfiles,
+  normalizeBaseUrl,
+  saveActiveProfileId,
+  saveProfiles,
+  type ServerProfile,
+} from '@/lib/serverProfiles';
+
+interface ServerState {
+  profiles: ServerProfile[];
+  activeId: string;
+  isLoaded: boolean;
+
+  load: () => Promise<void>;
+  addProfile: (name: string, baseUrl: string) => Promise<ServerProfile>;
+  removeProfile: (id: string) => Promise<void>;
+  /**
+   * Only records the choice. Callers sign out and reopen the offline database
+   * around it (see `switchServerProfile` in components/ServerProfileManager).
+   */
+  setActive: (id: string) => Promise<void>;
+}
+
+export const useServerStore = create<ServerState>((set, get) => ({
+  profiles: [defaultProfile],
+  activeId: DEFAULT_PROFILE_ID,
+  isLoaded: false,
+
+  load: async () => {
+    const { profiles, activeId } = await loadProfiles();
+    set({ profiles, activeId, isLoaded: true });
+  },
+
+  addProfile: async (name, baseUrl) => {
+    const profile: ServerProfile = {
+      id: createProfileId(),
+      name: name.trim(),
+      baseUrl: normalizeBaseUrl(baseUrl),
+    };
+    const profiles = [...get().profiles, profile];
+    await saveProfiles(profiles);
+    set({ profiles });
+    return profile;
+  },
+
+  removeProfile: async (id) => {
+    if (isBuiltInProfile(id) || id === get().activeId) return;
+    const profiles = get().profiles.filter((p) => p.id !== id);
+    await saveProfiles(profiles);
+    set({ profiles });
+  },
+
+  setActive: async (id) => {
+    if (!get().profiles.some((p) => p.id === id)) return;
+    await saveActiveProfileId(id);
+    set({ activeId: id });
+  },
+}));
+
+/** The profile requests and the offline database are bound to right now. */
+export function getActiveProfile(): ServerProfile {
+  const { profiles, activeId } = useServerStore.getState();
+  return profiles.find((p) => p.id === activeId) ?? defaultProfile;
+}
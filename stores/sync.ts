@@ -19,6 +19,7 @@ interface SyncState {
   setIsSyncing: (syncing: boolean) => void;
   setPendingMutations: (count: number) => void;
   addSyncError: (error: SyncError) => void;
+  removeSyncError: (id: string) => void;
   clearSyncErrors: () => void;
   setStaleTables: (tables: string[]) => void;
   reset: () => void;
@@ -36,6 +37,8 @@ export const useSyncStore = create<SyncState>((set) => ({
   setPendingMutations: (count) => set({ pendingMutations: count }),
   addSyncError: (error) =>
     set((state) => ({ syncErrors: [...state.syncErrors, error] })),
+  removeSyncError: (id) =>
+    set((state) => ({ syncErrors: state.syncErrors.filter((e) => e.id !== id) })),
   clearSyncErrors: () => set({ syncErrors: [] }),
   setStaleTables: (tables) => set({ staleTables: tables }),
   reset: () =>